@@ -83,7 +83,7 @@ function loadEnvironmentConfig(): DeploymentConfig {
     hederaOperatorKey: envVars.VITE_HEDERA_OPERATOR_KEY || '',
     nftCollectionId: envVars.VITE_NFT_COLLECTION_ID || '',
     nftSupplyKey: envVars.VITE_NFT_SUPPLY_KEY || '',
-    pinataJwt: envVars.VITE_PINATA_JWT || '',
+    pinataJwt: envVars.PINATA_JWT || '',
     walletConnectProjectId: envVars.VITE_WALLETCONNECT_PROJECT_ID || '',
     supabaseProjectId: envVars.SUPABASE_PROJECT_ID,
     netlifyApiToken: envVars.NETLIFY_AUTH_TOKEN,
@@ -140,6 +140,7 @@ function setupSupabase(config: DeploymentConfig) {
       `HEDERA_OPERATOR_KEY=${config.hederaOperatorKey}`,
       `NFT_COLLECTION_ID=${config.nftCollectionId}`,
       `NFT_SUPPLY_KEY=${config.nftSupplyKey}`,
+      `PINATA_JWT=${config.pinataJwt}`,
     ];
 
     for (const secret of secrets) {
@@ -0,0 +1,74 @@
+import express from 'express';
+import { authService, Role, SessionPayload } from './authService';
+
+/**
+ * Read the session token from the request.
+ * Accepts `X-Session-Token` (used by the frontend for both the Express API and
+ * edge functions) as well as a standard `Authorization: Bearer` header.
+ */
+export const getSessionToken = (req: express.Request): string | null => {
+  const sessionHeader = req.header('x-session-token');
+  if (sessionHeader) {
+    return sessionHeader;
+  }
+
+  const authorization = req.header('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring(7);
+  }
+
+  return null;
+};
+
+/**
+ * Get the verified session attached by `requireAuth`
+ */
+export const getSession = (res: express.Response): SessionPayload => {
+  return res.locals.session as SessionPayload;
+};
+
+/**
+ * Require a valid wallet session for the route
+ */
+export const requireAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = getSessionToken(req);
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  const session = authService.verifySessionToken(token);
+
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or expired session'
+    });
+  }
+
+  res.locals.session = session;
+  next();
+};
+
+/**
+ * Require the signed-in account to hold a role. Must run after `requireAuth`.
+ */
+export const requireRole = (role: Role) =>
+  (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const session = getSession(res);
+
+    if (!session || !authService.hasRole(session.sub, role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: `The ${role} role is required for this operation`
+      });
+    }
+
+    next();
+  };
+
+export const requireAdmin = requireRole('admin');
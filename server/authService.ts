@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import NodeCache from 'node-cache';
+import { PublicKey } from '@hashgraph/sdk';
+
+export interface AuthChallenge {
+  accountId: string;
+  nonce: string;
+  message: string;
+  expiresAt: string;
+}
+
+export interface SessionPayload {
+  typ: 'session';
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export type Role = 'admin' | 'user';
+
+export interface AuthSession {
+  token: string;
+  accountId: string;
+  expiresAt: string;
+}
+
+interface ChallengePayload {
+  typ: 'challenge';
+  sub: string;
+  iat: number;
+  exp: number;
+  rnd: string;
+}
+
+const CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes to sign the challenge
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60; // 1 hour sessions
+
+// Wallets prefix signed messages so they can never be replayed as transactions
+const HEDERA_MESSAGE_PREFIX = '\x19Hedera Signed Message:\n';
+
+const base64url = (input: Buffer | string): string =>
+  Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64url = (input: string): Buffer =>
+  Buffer.from(input.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+/**
+ * Build the human-readable message the wallet is asked to sign.
+ * The edge function `hedera-auth` builds the exact same text.
+ */
+export const buildSignInMessage = (accountId: string, nonce: string, issuedAt: number, expiresAt: number): string => {
+  return [
+    'Hgallery wants you to sign in with your Hedera account:',
+    accountId,
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt * 1000).toISOString()}`,
+    `Expiration Time: ${new Date(expiresAt * 1000).toISOString()}`
+  ].join('\n');
+};
+
+/**
+ * Sign-In-With-Hedera service.
+ *
+ * Challenges and sessions are HMAC-signed tokens so that the Express API and
+ * the Supabase edge functions can verify each other's sessions with the shared
+ * AUTH_SESSION_SECRET. Used challenges are remembered until they expire to
+ * prevent replay.
+ */
+export class AuthService {
+  private usedChallenges: NodeCache;
+  private secret: string;
+  private sessionTTL: number;
+  private mirrorNodeUrl: string;
+  private adminAccountIds: Set<string>;
+
+  constructor() {
+    this.secret = process.env.AUTH_SESSION_SECRET || '';
+    this.adminAccountIds = new Set(
+      (process.env.ADMIN_ACCOUNT_IDS || '')
+        .split(',')
+        .map(accountId => accountId.trim())
+        .filter(Boolean)
+    );
+    this.sessionTTL = parseInt(process.env.AUTH_SESSION_TTL_SECONDS || '') || DEFAULT_SESSION_TTL_SECONDS;
+
+    const network = process.env.HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+
+    this.usedChallenges = new NodeCache({
+      stdTTL: CHALLENGE_TTL_SECONDS,
+      checkperiod: 60,
+      useClones: false
+    });
+  }
+
+  createChallenge(accountId: string): AuthChallenge {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: ChallengePayload = {
+      typ: 'challenge',
+      sub: accountId,
+      iat: now,
+      exp: now + CHALLENGE_TTL_SECONDS,
+      rnd: crypto.randomBytes(16).toString('hex')
+    };
+    const nonce = this.sign(payload);
+
+    return {
+      accountId,
+      nonce,
+      message: buildSignInMessage(accountId, nonce, payload.iat, payload.exp),
+      expiresAt: new Date(payload.exp * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Verify a signed challenge against the account's on-chain public key
+   * and issue a session token.
+   */
+  async verifyChallenge(accountId: string, nonce: string, signatureHex: string): Promise<AuthSession> {
+    const challenge = this.decode<ChallengePayload>(nonce);
+
+    if (!challenge || challenge.typ !== 'challenge') {
+      throw new Error('Invalid challenge');
+    }
+    if (challenge.sub !== accountId) {
+      throw new Error('Challenge was issued for a different account');
+    }
+    if (challenge.exp < Math.floor(Date.now() / 1000)) {
+      throw new Error('Challenge has expired');
+    }
+    if (this.usedChallenges.has(nonce)) {
+      throw new Error('Challenge has already been used');
+    }
+
+    // Claim the nonce before the mirror-node lookup so a concurrent request with it is rejected
+    this.usedChallenges.set(nonce, true);
+
+    try {
+      const message = buildSignInMessage(accountId, nonce, challenge.iat, challenge.exp);
+      const signature = Buffer.from(signatureHex.replace(/^0x/, ''), 'hex');
+      const publicKey = await this.getAccountPublicKey(accountId);
+
+      if (!this.verifyMessageSignature(publicKey, message, signature)) {
+        throw new Error('Signature does not match the account key');
+      }
+    } catch (error) {
+      // Nothing was issued for it, so the wallet may try the same challenge again
+      this.usedChallenges.del(nonce);
+      throw error;
+    }
+
+    return this.createSession(accountId);
+  }
+
+  createSession(accountId: string): AuthSession {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: SessionPayload = {
+      typ: 'session',
+      sub: accountId,
+      iat: now,
+      exp: now + this.sessionTTL
+    };
+
+    return {
+      token: this.sign(payload),
+      accountId,
+      expiresAt: new Date(payload.exp * 1000).toISOString()
+    };
+  }
+
+  verifySessionToken(token: string): SessionPayload | null {
+    const payload = this.decode<SessionPayload>(token);
+
+    if (!payload || payload.typ !== 'session') {
+      return null;
+    }
+    if (payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Roles are resolved from configuration on every request rather than baked
+   * into the session token, so removing an account from ADMIN_ACCOUNT_IDS
+   * takes effect on the next restart without waiting for sessions to expire.
+   */
+  getRoles(accountId: string): Role[] {
+    return this.adminAccountIds.has(accountId) ? ['admin', 'user'] : ['user'];
+  }
+
+  hasRole(accountId: string, role: Role): boolean {
+    return this.getRoles(accountId).includes(role);
+  }
+
+  private verifyMessageSignature(publicKey: PublicKey, message: string, signature: Uint8Array): boolean {
+    const prefixed = `${HEDERA_MESSAGE_PREFIX}${message.length}${message}`;
+
+    try {
+      // HashPack signs the prefixed message; fall back to the raw bytes for other wallets
+      return publicKey.verify(Buffer.from(prefixed, 'utf8'), signature) ||
+        publicKey.verify(Buffer.from(message, 'utf8'), signature);
+    } catch (error) {
+      console.warn('⚠️ Signature verification error:', error);
+      return false;
+    }
+  }
+
+  private async getAccountPublicKey(accountId: string): Promise<PublicKey> {
+    const response = await fetch(`${this.mirrorNodeUrl}/api/v1/accounts/${accountId}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch account ${accountId}: ${response.status} ${response.statusText}`);
+    }
+
+    const account = await response.json();
+    const key = account.key;
+
+    if (key?._type === 'ED25519') {
+      return PublicKey.fromStringED25519(key.key);
+    }
+    if (key?._type === 'ECDSA_SECP256K1') {
+      return PublicKey.fromStringECDSA(key.key);
+    }
+
+    throw new Error(`Unsupported account key type: ${key?._type || 'unknown'}`);
+  }
+
+  private sign(payload: ChallengePayload | SessionPayload): string {
+    if (!this.secret) {
+      throw new Error('AUTH_SESSION_SECRET is not configured');
+    }
+
+    const body = base64url(JSON.stringify(payload));
+    const signature = base64url(crypto.createHmac('sha256', this.secret).update(body).digest());
+    return `${body}.${signature}`;
+  }
+
+  private decode<T>(token: string): T | null {
+    if (!this.secret || typeof token !== 'string') {
+      return null;
+    }
+
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      return null;
+    }
+
+    const expected = crypto.createHmac('sha256', this.secret).update(body).digest();
+    const provided = fromBase64url(signature);
+
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fromBase64url(body).toString('utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const authService = new AuthService();
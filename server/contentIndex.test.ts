@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentIndex, ContentIndexUnavailableError } from './contentIndex';
+
+const TOKEN = '0.0.1001';
+const PHOTO = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const VIDEO = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const POSTER = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+
+/** On-chain metadata as inline JSON, so nothing is fetched from a gateway */
+const imageMetadata = (cid: string) => JSON.stringify({ name: 'Photo', image: `ipfs://${cid}`, type: 'image/png' });
+const videoMetadata = (cid: string, poster: string) => JSON.stringify({
+  name: 'Clip',
+  image: `ipfs://${poster}`,
+  type: 'video/mp4',
+  files: [{ uri: `ipfs://${cid}`, type: 'video/mp4', is_default_file: true }]
+});
+
+interface FakeNFT {
+  serial: number;
+  metadata: string;
+  deleted?: boolean;
+}
+
+/** The mirror node's NFT list for the collection, paged like the real one */
+let collection: FakeNFT[];
+let mirrorAvailable: boolean;
+
+const mirrorFetch = vi.fn(async (url: string) => {
+  if (!mirrorAvailable) {
+    return { ok: false, status: 503, statusText: 'Service Unavailable' } as Response;
+  }
+  const query = new URL(url).searchParams;
+  const after = Number(query.get('serialnumber')?.replace('gt:', '') || 0);
+  const limit = Number(query.get('limit'));
+  const remaining = collection.filter(nft => nft.serial > after);
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    ok: true,
+    json: async () => ({
+      nfts: page.map(nft => ({
+        account_id: '0.0.2',
+        deleted: !!nft.deleted,
+        metadata: Buffer.from(nft.metadata).toString('base64'),
+        serial_number: nft.serial
+      })),
+      links: {
+        next: remaining.length > limit ? `/api/v1/tokens/${TOKEN}/nfts?limit=${limit}&order=asc&serialnumber=gt:${last.serial}` : null
+      }
+    })
+  } as Response;
+});
+
+let index: ContentIndex;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-01-01T00:00:00.000Z') });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.stubGlobal('fetch', mirrorFetch);
+  mirrorFetch.mockClear();
+  collection = [];
+  mirrorAvailable = true;
+  index = new ContentIndex();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const serialsOf = async (cid: string) => (await index.findByCID(TOKEN, cid)).map(ref => ref.serialNumber);
+
+describe('ContentIndex', () => {
+  it('indexes every page of the collection by content CID', async () => {
+    collection = Array.from({ length: 250 }, (_, i) => ({ serial: i + 1, metadata: imageMetadata(i === 179 ? VIDEO : PHOTO) }));
+
+    expect(await serialsOf(VIDEO)).toEqual([180]);
+    expect((await serialsOf(PHOTO)).length).toBe(249);
+    expect(mirrorFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('indexes the default file rather than the poster image, and skips burned NFTs', async () => {
+    collection = [
+      { serial: 1, metadata: videoMetadata(VIDEO, POSTER) },
+      { serial: 2, metadata: imageMetadata(PHOTO), deleted: true }
+    ];
+
+    expect(await serialsOf(VIDEO)).toEqual([1]);
+    expect(await serialsOf(POSTER)).toEqual([]);
+    expect(await serialsOf(PHOTO)).toEqual([]);
+  });
+
+  it('reads only newer mints on refresh, at most every 15 seconds', async () => {
+    collection = [{ serial: 1, metadata: imageMetadata(PHOTO) }];
+    await serialsOf(PHOTO);
+
+    collection.push({ serial: 2, metadata: imageMetadata(PHOTO) });
+    expect(await serialsOf(PHOTO)).toEqual([1]);
+    expect(mirrorFetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2024-01-01T00:00:16.000Z'));
+    expect(await serialsOf(PHOTO)).toEqual([1, 2]);
+    expect(mirrorFetch).toHaveBeenLastCalledWith(expect.stringContaining('serialnumber=gt:1'));
+  });
+
+  it('drops burned NFTs on the hourly rebuild', async () => {
+    collection = [{ serial: 1, metadata: imageMetadata(PHOTO) }, { serial: 2, metadata: imageMetadata(PHOTO) }];
+    await serialsOf(PHOTO);
+
+    collection[0].deleted = true;
+    vi.setSystemTime(new Date('2024-01-01T01:00:01.000Z'));
+    expect(await serialsOf(PHOTO)).toEqual([2]);
+    expect(mirrorFetch).toHaveBeenLastCalledWith(expect.stringContaining('serialnumber=gt:0'));
+  });
+
+  it('throws ContentIndexUnavailableError rather than answer without the mirror node', async () => {
+    collection = [{ serial: 1, metadata: imageMetadata(PHOTO) }];
+    mirrorAvailable = false;
+
+    await expect(index.findByCID(TOKEN, PHOTO)).rejects.toBeInstanceOf(ContentIndexUnavailableError);
+
+    mirrorAvailable = true;
+    expect(await serialsOf(PHOTO)).toEqual([1]);
+  });
+
+  it('shares one refresh between concurrent lookups', async () => {
+    collection = [{ serial: 1, metadata: imageMetadata(PHOTO) }];
+
+    await Promise.all([serialsOf(PHOTO), serialsOf(VIDEO), serialsOf(PHOTO)]);
+    expect(mirrorFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports items the collection has and repeats within the request', async () => {
+    collection = [{ serial: 4, metadata: imageMetadata(PHOTO) }];
+
+    const duplicates = await index.findDuplicates(TOKEN, [
+      imageMetadata(PHOTO),
+      imageMetadata(VIDEO),
+      'not metadata',
+      videoMetadata(VIDEO, POSTER)
+    ]);
+
+    expect(duplicates).toEqual([
+      { metadataUrl: imageMetadata(PHOTO), cid: PHOTO, nfts: [expect.objectContaining({ serialNumber: 4 })], duplicateOf: null },
+      { metadataUrl: videoMetadata(VIDEO, POSTER), cid: VIDEO, nfts: [], duplicateOf: imageMetadata(VIDEO) }
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { decodeMetadata, resolveMetadata } from './nftMetadata';
+import { readHIP412Metadata } from '../src/utils/hip412';
+import { parseIPFSUrl } from '../src/utils/cid';
+
+export type DuplicateContentPolicy = 'allow' | 'warn' | 'block';
+
+export interface ContentReference {
+  tokenId: string;
+  serialNumber: number;
+  accountId: string | null;
+  metadataUrl: string;
+}
+
+export interface DuplicateContent {
+  metadataUrl: string;
+  cid: string;
+  /** NFTs in the collection with the same content */
+  nfts: ContentReference[];
+  /** Earlier item of the same request with the same content */
+  duplicateOf: string | null;
+}
+
+interface MirrorNFT {
+  account_id: string | null;
+  deleted: boolean;
+  metadata: string;
+  serial_number: number;
+}
+
+interface TokenContentIndex {
+  /** Content CID → NFTs whose metadata points at it */
+  byCID: Map<string, ContentReference[]>;
+  /** Highest serial read so far; later refreshes only read newer mints */
+  lastSerial: number;
+  refreshedAt: number;
+  rebuiltAt: number;
+  refreshing: Promise<void> | null;
+}
+
+const PAGE_SIZE = 100;
+const METADATA_CONCURRENCY = 10;
+const REFRESH_INTERVAL_MS = 15 * 1000; // New mints show up within seconds
+const REBUILD_INTERVAL_MS = 60 * 60 * 1000; // Full pass drops burned NFTs and retries unresolved metadata
+
+/**
+ * The collection could not be read from the mirror node, so a lookup cannot
+ * tell whether the content is new. Under the `block` policy a mint has to be
+ * refused rather than let through unchecked.
+ */
+export class ContentIndexUnavailableError extends Error {
+  constructor(tokenId: string, cause: unknown) {
+    super(`Content index for ${tokenId} is unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ContentIndexUnavailableError';
+  }
+}
+
+/**
+ * The collection's duplicate content policy, from DUPLICATE_CONTENT_POLICY:
+ * `allow` skips the check, `warn` (default) lets the uploader decide and
+ * `block` refuses to mint content the collection already has.
+ */
+export const getDuplicateContentPolicy = (): DuplicateContentPolicy => {
+  const policy = process.env.DUPLICATE_CONTENT_POLICY;
+  return policy === 'allow' || policy === 'block' ? policy : 'warn';
+};
+
+/**
+ * Which NFTs in a collection point at a given content CID, built from the
+ * mirror node's NFT list and each NFT's media (the HIP-412 default file,
+ * else `image`).
+ *
+ * The index lives in memory. Lookups first read NFTs minted since the last
+ * refresh (one mirror node request when nothing is new); every hour the
+ * collection is read again from the start. Metadata documents are cached by
+ * the cache service, so a rebuild only fetches metadata it has not seen.
+ * When the mirror node cannot be read, lookups throw
+ * `ContentIndexUnavailableError` instead of answering from a stale index.
+ */
+export class ContentIndex {
+  private tokens = new Map<string, TokenContentIndex>();
+  private mirrorNodeUrl: string;
+  private ipfsGatewayUrl: string;
+
+  constructor() {
+    const network = process.env.HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+    this.ipfsGatewayUrl = `${process.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud'}/ipfs/`;
+  }
+
+  /**
+   * NFTs in the collection whose content is `cid`. Throws
+   * `ContentIndexUnavailableError` when the index cannot be refreshed.
+   */
+  async findByCID(tokenId: string, cid: string): Promise<ContentReference[]> {
+    const index = await this.refresh(tokenId);
+    return index.byCID.get(cid) || [];
+  }
+
+  /**
+   * Content CID of a metadata document and the NFTs that already use it.
+   * `cid` is null when the metadata cannot be resolved or has no IPFS media.
+   */
+  async findByMetadataUrl(tokenId: string, metadataUrl: string): Promise<{ cid: string | null; nfts: ContentReference[] }> {
+    const cid = await this.resolveContentCID(metadataUrl);
+    return { cid, nfts: cid ? await this.findByCID(tokenId, cid) : [] };
+  }
+
+  /**
+   * Items of a mint request whose content the collection already has, or
+   * that repeat the content of an earlier item in the same request. Items
+   * whose metadata cannot be resolved are not reported.
+   */
+  async findDuplicates(tokenId: string, metadataUrls: string[]): Promise<DuplicateContent[]> {
+    const seen = new Map<string, string>();
+    const duplicates: DuplicateContent[] = [];
+
+    for (const metadataUrl of metadataUrls) {
+      const { cid, nfts } = await this.findByMetadataUrl(tokenId, metadataUrl);
+      if (!cid) continue;
+
+      const duplicateOf = seen.get(cid) || null;
+      if (nfts.length > 0 || duplicateOf) {
+        duplicates.push({ metadataUrl, cid, nfts, duplicateOf });
+      }
+      if (!duplicateOf) seen.set(cid, metadataUrl);
+    }
+
+    return duplicates;
+  }
+
+  private async refresh(tokenId: string): Promise<TokenContentIndex> {
+    let index = this.tokens.get(tokenId);
+    if (!index) {
+      index = { byCID: new Map(), lastSerial: 0, refreshedAt: 0, rebuiltAt: 0, refreshing: null };
+      this.tokens.set(tokenId, index);
+    }
+
+    if (Date.now() - index.refreshedAt < REFRESH_INTERVAL_MS) {
+      return index;
+    }
+
+    // Concurrent lookups share one refresh
+    if (!index.refreshing) {
+      const current = index;
+      current.refreshing = this.load(tokenId, current)
+        .catch(error => {
+          console.warn(`⚠️ Content index refresh failed for ${tokenId}:`, error);
+          throw new ContentIndexUnavailableError(tokenId, error);
+        })
+        .finally(() => {
+          current.refreshing = null;
+        });
+    }
+
+    await index.refreshing;
+    return index;
+  }
+
+  private async load(tokenId: string, index: TokenContentIndex): Promise<void> {
+    const rebuild = Date.now() - index.rebuiltAt >= REBUILD_INTERVAL_MS;
+    const byCID = rebuild ? new Map<string, ContentReference[]>() : index.byCID;
+    const fromSerial = rebuild ? 0 : index.lastSerial;
+    let lastSerial = fromSerial;
+    let added = 0;
+
+    let path: string | null = `/api/v1/tokens/${tokenId}/nfts?limit=${PAGE_SIZE}&order=asc&serialnumber=gt:${fromSerial}`;
+    while (path) {
+      const response = await fetch(`${this.mirrorNodeUrl}${path}`);
+      if (!response.ok) {
+        throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+      }
+
+      const page: { nfts?: MirrorNFT[]; links?: { next: string | null } } = await response.json();
+      const nfts = (page.nfts || []).filter(nft => !nft.deleted && nft.metadata);
+
+      for (let i = 0; i < nfts.length; i += METADATA_CONCURRENCY) {
+        const batch = nfts.slice(i, i + METADATA_CONCURRENCY);
+        const cids = await Promise.all(batch.map(nft => this.resolveContentCID(decodeMetadata(nft.metadata))));
+
+        batch.forEach((nft, position) => {
+          const cid = cids[position];
+          const existing = cid ? byCID.get(cid) || [] : [];
+          // A refresh that failed part-way may already have added this serial
+          if (!cid || existing.some(ref => ref.serialNumber === nft.serial_number)) return;
+          byCID.set(cid, [...existing, {
+            tokenId,
+            serialNumber: nft.serial_number,
+            accountId: nft.account_id,
+            metadataUrl: decodeMetadata(nft.metadata)
+          }]);
+          added++;
+        });
+      }
+
+      for (const nft of page.nfts || []) {
+        lastSerial = Math.max(lastSerial, nft.serial_number);
+      }
+      path = page.links?.next || null;
+    }
+
+    index.byCID = byCID;
+    index.lastSerial = lastSerial;
+    index.refreshedAt = Date.now();
+    if (rebuild) {
+      index.rebuiltAt = index.refreshedAt;
+      console.log(`🗂️ Content index for ${tokenId} rebuilt: ${byCID.size} distinct files over ${lastSerial} serials`);
+    } else if (added > 0) {
+      console.log(`🗂️ Content index for ${tokenId}: ${added} new NFTs indexed`);
+    }
+  }
+
+  /**
+   * The content CID (the default file, else `image`; a generated thumbnail
+   * is not the content) for on-chain metadata: an ipfs:// or http(s) URL to
+   * a metadata document, or inline JSON
+   */
+  private async resolveContentCID(rawMetadata: string): Promise<string | null> {
+    const metadata = await resolveMetadata(rawMetadata, this.ipfsGatewayUrl);
+    const mediaUri = readHIP412Metadata(metadata).fields?.mediaUri;
+    if (!mediaUri) return null;
+
+    const parsed = parseIPFSUrl(mediaUri);
+    return parsed && !parsed.path ? parsed.cid : null;
+  }
+}
+
+// Singleton instance
+export const contentIndex = new ContentIndex();
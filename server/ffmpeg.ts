@@ -0,0 +1,64 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DirectoryFile } from './storageProvider';
+
+/**
+ * Helpers for the optional ffmpeg processing of uploads (HLS transcoding,
+ * image tiling): running a command and collecting what it wrote.
+ */
+
+/** Time limit for `-version` checks and ffprobe */
+export const PROBE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Run a command to completion; stderr is kept for the error message
+ */
+export const run = (command: string, args: string[], timeoutMs: number): Promise<string> => new Promise((resolve, reject) => {
+  const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  let stdout = '';
+  let stderr = '';
+  const timer = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+
+  child.stdout.on('data', chunk => { stdout += chunk; });
+  child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-4000); });
+  child.on('error', error => {
+    clearTimeout(timer);
+    reject(error);
+  });
+  child.on('close', (code, signal) => {
+    clearTimeout(timer);
+    if (code === 0) {
+      resolve(stdout);
+    } else {
+      reject(new Error(signal
+        ? `${path.basename(command)} was stopped (${signal})`
+        : `${path.basename(command)} exited with ${code}: ${stderr.trim()}`));
+    }
+  });
+});
+
+/**
+ * Every file under `directory`, with its path inside it and a MIME type by extension
+ */
+export const listFiles = async (
+  directory: string,
+  mimeTypes: Record<string, string>,
+  prefix = ''
+): Promise<DirectoryFile[]> => {
+  const files: DirectoryFile[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const filePath = path.join(directory, entry.name);
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(filePath, mimeTypes, relativePath));
+    } else {
+      files.push({
+        path: relativePath,
+        filePath,
+        mimeType: mimeTypes[path.extname(entry.name)] || 'application/octet-stream'
+      });
+    }
+  }
+  return files;
+};
@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { hlsTranscoder } from './hlsTranscoder';
+import type { ServerStorageProvider } from './storageProvider';
+import type { StoredUpload } from './uploads';
+import type { HLSStream } from '../src/utils/hip412';
+
+export type HLSJobStatus = 'processing' | 'completed' | 'failed';
+
+export interface HLSJob {
+  id: string;
+  status: HLSJobStatus;
+  /** Metadata listing the rendition next to the original, once completed */
+  metadata: StoredUpload | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface QueuedJob {
+  job: HLSJob;
+  videoPath: string;
+  provider: ServerStorageProvider;
+  fileName: string;
+  storeMetadata: (hls: HLSStream) => Promise<StoredUpload>;
+}
+
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // Long enough for the uploader to pick up the result
+
+/**
+ * Background HLS transcoding of uploaded videos, so an upload answers as soon
+ * as the file and its metadata are stored instead of waiting for ffmpeg.
+ *
+ * The upload hands over its local copy of the video and gets a job back; the
+ * metadata it returns has no rendition yet. Jobs run one at a time (ffmpeg
+ * uses every core). When the rendition is stored, a second metadata document
+ * listing it is stored and becomes the job's `metadata`; the client polls
+ * the job and mints that one instead. A failed transcode leaves the first
+ * document as the result. Jobs live in memory: after a restart the client
+ * finds no job and mints the metadata it already has.
+ */
+class HLSJobQueue {
+  private jobs = new Map<string, HLSJob>();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue the video at `localCopy` for transcoding. The file is moved so the
+   * caller can go on cleaning up its own copy.
+   */
+  async start(
+    localCopy: string,
+    provider: ServerStorageProvider,
+    fileName: string,
+    storeMetadata: (hls: HLSStream) => Promise<StoredUpload>
+  ): Promise<HLSJob> {
+    this.prune();
+
+    const now = new Date().toISOString();
+    const job: HLSJob = { id: randomUUID(), status: 'processing', metadata: null, createdAt: now, updatedAt: now };
+    const videoPath = `${localCopy}.hls-source`;
+    await fs.rename(localCopy, videoPath);
+
+    this.jobs.set(job.id, job);
+    const queued: QueuedJob = { job, videoPath, provider, fileName, storeMetadata };
+    this.queue = this.queue.then(() => this.run(queued));
+
+    console.log(`🎞️ Queued HLS transcoding of ${fileName} as job ${job.id}`);
+    return { ...job };
+  }
+
+  get(id: string): HLSJob | null {
+    this.prune();
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  private async run({ job, videoPath, provider, fileName, storeMetadata }: QueuedJob): Promise<void> {
+    try {
+      const hls = await hlsTranscoder.transcode(videoPath, provider, fileName);
+      if (hls) {
+        job.metadata = await storeMetadata(hls);
+        job.status = 'completed';
+      } else {
+        job.status = 'failed';
+      }
+    } catch (error) {
+      console.warn(`⚠️ HLS job ${job.id} for ${fileName} failed:`, error instanceof Error ? error.message : error);
+      job.status = 'failed';
+    } finally {
+      job.updatedAt = new Date().toISOString();
+      await fs.rm(videoPath, { force: true });
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (job.status !== 'processing' && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export const hlsJobQueue = new HLSJobQueue();
@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PROBE_TIMEOUT_MS, listFiles, run } from './ffmpeg';
+import type { ServerStorageProvider } from './storageProvider';
+import type { HLSStream } from '../src/utils/hip412';
+
+interface Rung {
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+interface SourceInfo {
+  width: number;
+  height: number;
+  hasAudio: boolean;
+}
+
+// Variants are only made at or below the source height
+const LADDER: Rung[] = [
+  { height: 360, videoBitrate: 800_000, audioBitrate: 96_000 },
+  { height: 720, videoBitrate: 2_800_000, audioBitrate: 128_000 },
+  { height: 1080, videoBitrate: 5_000_000, audioBitrate: 128_000 }
+];
+
+const SEGMENT_SECONDS = 4;
+const MASTER_PLAYLIST = 'master.m3u8';
+
+const MIME_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t'
+};
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Optional HLS transcoding of uploaded videos with ffmpeg, turned on with
+ * HLS_TRANSCODING=true.
+ *
+ * A video is encoded to an H.264/AAC ladder (360p, 720p, 1080p, never above
+ * the source) in 4 second MPEG-TS segments with a master playlist, and the
+ * output is stored as one directory next to the original. Uploads run it
+ * through `hlsJobQueue` and list the playlist in the metadata `files[]`; the
+ * original stays the default file. Any failure (no ffmpeg, an unreadable
+ * video, the time limit) leaves the upload without a rendition rather than
+ * failing it.
+ */
+class HLSTranscoder {
+  private ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+  private ffprobePath = process.env.FFPROBE_PATH || 'ffprobe';
+  private timeoutMs = parseInt(process.env.HLS_TRANSCODE_TIMEOUT_SECONDS ?? '600') * 1000;
+  private available: Promise<boolean> | null = null;
+
+  isEnabled(): boolean {
+    return process.env.HLS_TRANSCODING === 'true';
+  }
+
+  /**
+   * Transcode the video at `inputPath` and store the rendition; null when it
+   * could not be made
+   */
+  async transcode(inputPath: string, provider: ServerStorageProvider, fileName: string): Promise<HLSStream | null> {
+    if (!this.isEnabled() || !(await this.isAvailable())) return null;
+
+    const outputDirectory = path.join(os.tmpdir(), `hls-${randomUUID()}`);
+    const startedAt = Date.now();
+
+    try {
+      const source = await this.probe(inputPath);
+      if (!source) {
+        console.warn(`⚠️ ${fileName} has no video stream, skipping HLS`);
+        return null;
+      }
+
+      const rungs = this.selectRungs(source);
+      console.log(`🎞️ Transcoding ${fileName} to HLS (${rungs.map(rung => `${rung.height}p`).join(', ')})`);
+
+      await fs.mkdir(outputDirectory, { recursive: true });
+      await run(this.ffmpegPath, this.ffmpegArgs(inputPath, outputDirectory, rungs, source.hasAudio), this.timeoutMs);
+
+      const stored = await provider.uploadDirectory(await listFiles(outputDirectory, MIME_TYPES), `${fileName}.hls`);
+      console.log(`🎞️ HLS for ${fileName} stored as ${stored.cid} in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+
+      return {
+        uri: `ipfs://${stored.cid}/${MASTER_PLAYLIST}`,
+        variants: rungs.map(rung => ({
+          width: even(source.width * (rung.height / source.height)),
+          height: rung.height,
+          bandwidth: rung.videoBitrate + (source.hasAudio ? rung.audioBitrate : 0)
+        }))
+      };
+    } catch (error) {
+      console.warn(`⚠️ HLS transcoding failed for ${fileName}:`, error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    }
+  }
+
+  private isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = run(this.ffmpegPath, ['-version'], PROBE_TIMEOUT_MS)
+        .then(() => true)
+        .catch(error => {
+          console.warn(`⚠️ HLS_TRANSCODING is on but ffmpeg cannot be run (${error.message}) - videos are stored without HLS`);
+          return false;
+        });
+    }
+    return this.available;
+  }
+
+  private async probe(inputPath: string): Promise<SourceInfo | null> {
+    const output = await run(this.ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'stream=codec_type,width,height',
+      '-of', 'json',
+      inputPath
+    ], PROBE_TIMEOUT_MS);
+
+    const { streams = [] }: { streams?: Array<{ codec_type?: string; width?: number; height?: number }> } = JSON.parse(output);
+    const video = streams.find(stream => stream.codec_type === 'video' && stream.width && stream.height);
+    if (!video) return null;
+
+    return {
+      width: video.width,
+      height: video.height,
+      hasAudio: streams.some(stream => stream.codec_type === 'audio')
+    };
+  }
+
+  private selectRungs(source: SourceInfo): Rung[] {
+    const rungs = LADDER.filter(rung => rung.height <= source.height);
+    // A video smaller than the lowest rung gets one variant at its own size
+    return rungs.length > 0 ? rungs : [{ ...LADDER[0], height: even(source.height) }];
+  }
+
+  private ffmpegArgs(inputPath: string, outputDirectory: string, rungs: Rung[], hasAudio: boolean): string[] {
+    const scale = rungs.map((rung, i) => `[s${i}]scale=-2:${rung.height},format=yuv420p[v${i}]`);
+    const args = [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-filter_complex', `[0:v]split=${rungs.length}${rungs.map((_, i) => `[s${i}]`).join('')};${scale.join(';')}`
+    ];
+
+    rungs.forEach((rung, i) => {
+      args.push(
+        '-map', `[v${i}]`,
+        `-c:v:${i}`, 'libx264',
+        `-b:v:${i}`, `${rung.videoBitrate}`,
+        `-maxrate:v:${i}`, `${Math.round(rung.videoBitrate * 1.07)}`,
+        `-bufsize:v:${i}`, `${Math.round(rung.videoBitrate * 1.5)}`
+      );
+      if (hasAudio) {
+        args.push('-map', '0:a:0', `-c:a:${i}`, 'aac', `-b:a:${i}`, `${rung.audioBitrate}`, `-ac:a:${i}`, '2');
+      }
+    });
+
+    const streamMap = rungs
+      .map((rung, i) => (hasAudio ? `v:${i},a:${i},name:${rung.height}p` : `v:${i},name:${rung.height}p`))
+      .join(' ');
+
+    args.push(
+      '-preset', 'veryfast',
+      '-profile:v', 'main',
+      // Keyframes on segment boundaries so every variant switches cleanly
+      '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+      '-f', 'hls',
+      '-hls_time', `${SEGMENT_SECONDS}`,
+      '-hls_playlist_type', 'vod',
+      '-hls_flags', 'independent_segments',
+      '-hls_segment_filename', path.join(outputDirectory, '%v', 'segment_%03d.ts'),
+      '-master_pl_name', MASTER_PLAYLIST,
+      '-var_stream_map', streamMap,
+      path.join(outputDirectory, '%v', 'index.m3u8')
+    );
+    return args;
+  }
+}
+
+export const hlsTranscoder = new HLSTranscoder();
@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { idempotent, MemoryIdempotencyStore, recordSubmittedTransaction } from './idempotency';
+
+vi.mock('./supabaseAdmin', () => ({ getSupabaseAdmin: () => null }));
+vi.mock('./authMiddleware', () => ({
+  getSession: (res: express.Response) => res.locals.session
+}));
+
+/** What the next request to /mint does: answer with a status, submitting a transaction first if given */
+let outcome: { status: number; transactionId?: string };
+let handlerRuns = 0;
+let releaseHandler: (() => void) | null = null;
+
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  res.locals.session = { sub: req.header('x-account') || '0.0.1001' };
+  next();
+});
+app.post('/mint', idempotent('mint'), async (req, res) => {
+  handlerRuns++;
+  if (outcome.transactionId) {
+    await recordSubmittedTransaction(res, outcome.transactionId);
+  }
+  if (req.body.wait) {
+    await new Promise<void>(resolve => { releaseHandler = resolve; });
+  }
+  res.status(outcome.status).json({ success: outcome.status < 400, run: handlerRuns });
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+let keyCounter = 0;
+let key: string;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  outcome = { status: 200 };
+  handlerRuns = 0;
+  key = `key-${++keyCounter}`;
+});
+
+const mint = async (body: object = { serial: 1 }, headers: Record<string, string> = {}) => {
+  const response = await fetch(`${baseUrl}/mint`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'idempotency-key': key, ...headers },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, replayed: response.headers.get('idempotent-replayed'), body: await response.json() };
+};
+
+// The middleware stores responses without awaiting the store
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('idempotent', () => {
+  it('replays the stored response for a repeat with the same body', async () => {
+    const first = await mint();
+    await settle();
+    const repeat = await mint();
+
+    expect(first).toMatchObject({ status: 200, replayed: null, body: { run: 1 } });
+    expect(repeat).toMatchObject({ status: 200, replayed: 'true', body: { run: 1 } });
+    expect(handlerRuns).toBe(1);
+  });
+
+  it('rejects the key with a different body', async () => {
+    await mint({ serial: 1 });
+    await settle();
+
+    expect((await mint({ serial: 2 })).status).toBe(422);
+    expect(handlerRuns).toBe(1);
+  });
+
+  it('scopes keys to the signed-in account', async () => {
+    await mint({}, { 'x-account': '0.0.1' });
+    await settle();
+    await mint({}, { 'x-account': '0.0.2' });
+
+    expect(handlerRuns).toBe(2);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    const first = mint({ wait: true });
+    await vi.waitFor(() => expect(releaseHandler).not.toBeNull());
+
+    expect((await mint({ wait: true })).status).toBe(409);
+
+    releaseHandler?.();
+    releaseHandler = null;
+    expect((await first).status).toBe(200);
+  });
+
+  it('releases the key after a 5xx that submitted nothing', async () => {
+    outcome = { status: 500 };
+    await mint();
+    await settle();
+
+    outcome = { status: 200 };
+    const retry = await mint();
+
+    expect(retry).toMatchObject({ status: 200, replayed: null, body: { run: 2 } });
+  });
+
+  it('keeps a 5xx that submitted a transaction, with its ID', async () => {
+    outcome = { status: 500, transactionId: '0.0.2@1700000000.000000001' };
+    const first = await mint();
+    await settle();
+
+    outcome = { status: 200 };
+    const retry = await mint();
+
+    expect(first.body.transactionIds).toEqual(['0.0.2@1700000000.000000001']);
+    expect(retry).toMatchObject({ status: 500, replayed: 'true', body: { run: 1, transactionIds: ['0.0.2@1700000000.000000001'] } });
+    expect(handlerRuns).toBe(1);
+  });
+
+  it('lists submitted transactions in the 409 for a running request', async () => {
+    outcome = { status: 200, transactionId: '0.0.2@1700000000.000000002' };
+    const first = mint({ wait: true });
+    await vi.waitFor(() => expect(releaseHandler).not.toBeNull());
+
+    expect(await mint({ wait: true })).toMatchObject({
+      status: 409,
+      body: { transactionIds: ['0.0.2@1700000000.000000002'] }
+    });
+
+    releaseHandler?.();
+    releaseHandler = null;
+    await first;
+  });
+
+  it('rejects keys over 255 characters', async () => {
+    key = 'k'.repeat(256);
+    expect((await mint()).status).toBe(400);
+    expect(handlerRuns).toBe(0);
+  });
+
+  it('runs the handler without a key', async () => {
+    await fetch(`${baseUrl}/mint`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' });
+    await fetch(`${baseUrl}/mint`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' });
+    expect(handlerRuns).toBe(2);
+  });
+});
+
+describe('MemoryIdempotencyStore', () => {
+  const record = (expiresAt: string) => ({
+    scope: 'mint:0.0.1',
+    key: 'k',
+    requestHash: 'h',
+    status: 'in_progress' as const,
+    responseStatus: null,
+    responseBody: null,
+    transactionIds: [],
+    expiresAt
+  });
+
+  it('returns the reservation with its recorded transactions', async () => {
+    const store = new MemoryIdempotencyStore();
+    const future = new Date(Date.now() + 60_000).toISOString();
+
+    expect(await store.begin(record(future))).toBeNull();
+    await store.recordTransactions('mint:0.0.1', 'k', ['0.0.2@1.1']);
+
+    expect(await store.begin(record(future))).toMatchObject({ status: 'in_progress', transactionIds: ['0.0.2@1.1'] });
+  });
+
+  it('lets an expired key be reserved again', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.begin(record(new Date(Date.now() - 1000).toISOString()));
+
+    expect(await store.begin(record(new Date(Date.now() + 60_000).toISOString()))).toBeNull();
+  });
+});
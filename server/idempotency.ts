@@ -0,0 +1,293 @@
+import express from 'express';
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { getSession } from './authMiddleware';
+
+export interface IdempotencyRecord {
+  scope: string;
+  key: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  responseStatus: number | null;
+  responseBody: unknown;
+  /** Hedera transactions the request submitted; once there is one the key is never released */
+  transactionIds: string[];
+  expiresAt: string;
+}
+
+export interface IdempotencyStore {
+  /** Reserve a key. Returns the existing record when the key is already taken. */
+  begin(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  /** Save the transactions submitted so far, before their outcome is known */
+  recordTransactions(scope: string, key: string, transactionIds: string[]): Promise<void>;
+  /** Drop a reservation so the request can be retried with the same key */
+  release(scope: string, key: string): Promise<void>;
+}
+
+interface IdempotencyRow {
+  scope: string;
+  key: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response_status: number | null;
+  response_body: unknown;
+  transaction_ids: string[] | null;
+  expires_at: string;
+}
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * In-memory store for local development. Keys do not survive a restart.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async begin(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const id = `${record.scope}:${record.key}`;
+    const existing = this.records.get(id);
+
+    if (existing && existing.expiresAt > new Date().toISOString()) {
+      return existing;
+    }
+
+    this.records.set(id, record);
+    return null;
+  }
+
+  async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const record = this.records.get(`${scope}:${key}`);
+    if (record) {
+      record.status = 'completed';
+      record.responseStatus = responseStatus;
+      record.responseBody = responseBody;
+    }
+  }
+
+  async recordTransactions(scope: string, key: string, transactionIds: string[]): Promise<void> {
+    const record = this.records.get(`${scope}:${key}`);
+    if (record) {
+      record.transactionIds = [...transactionIds];
+    }
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    this.records.delete(`${scope}:${key}`);
+  }
+}
+
+/**
+ * `idempotency_keys` table store. The hedera-nft-mint edge function uses the
+ * same table and scopes, so a key is honoured across the edge → Express fallback.
+ */
+export class SupabaseIdempotencyStore implements IdempotencyStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async begin(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    // Expired keys can be reused
+    await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('scope', record.scope)
+      .eq('key', record.key)
+      .lt('expires_at', new Date().toISOString());
+
+    const { error } = await this.supabase.from('idempotency_keys').insert({
+      scope: record.scope,
+      key: record.key,
+      request_hash: record.requestHash,
+      status: record.status,
+      expires_at: record.expiresAt
+    });
+
+    if (!error) return null;
+
+    // 23505: unique violation - the key is already reserved
+    if (error.code !== '23505') throw error;
+
+    const { data, error: selectError } = await this.supabase
+      .from('idempotency_keys')
+      .select('*')
+      .eq('scope', record.scope)
+      .eq('key', record.key)
+      .maybeSingle();
+
+    if (selectError) throw selectError;
+    if (!data) return this.begin(record);
+
+    const row = data as IdempotencyRow;
+    return {
+      scope: row.scope,
+      key: row.key,
+      requestHash: row.request_hash,
+      status: row.status,
+      responseStatus: row.response_status,
+      responseBody: row.response_body,
+      transactionIds: row.transaction_ids || [],
+      expiresAt: row.expires_at
+    };
+  }
+
+  async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .update({ status: 'completed', response_status: responseStatus, response_body: responseBody })
+      .eq('scope', scope)
+      .eq('key', key);
+
+    if (error) throw error;
+  }
+
+  async recordTransactions(scope: string, key: string, transactionIds: string[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .update({ transaction_ids: transactionIds })
+      .eq('scope', scope)
+      .eq('key', key);
+
+    if (error) throw error;
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('scope', scope)
+      .eq('key', key);
+
+    if (error) throw error;
+  }
+}
+
+export const hashRequestBody = (body: unknown): string =>
+  createHash('sha256').update(JSON.stringify(body ?? {})).digest('hex');
+
+const supabase = getSupabaseAdmin();
+const store: IdempotencyStore = supabase ? new SupabaseIdempotencyStore(supabase) : new MemoryIdempotencyStore();
+
+interface IdempotencyContext {
+  scope: string;
+  key: string;
+  transactionIds: string[];
+}
+
+const contextOf = (res: express.Response): IdempotencyContext | undefined => res.locals.idempotency;
+
+/**
+ * Record a transaction the handler has just submitted under the request's
+ * Idempotency-Key (no-op without a key). From then on a failure no longer
+ * releases the key: a retry is answered with the submitted transaction IDs
+ * instead of submitting again. Never throws, so it cannot fail the request.
+ */
+export const recordSubmittedTransaction = async (res: express.Response, transactionId: string): Promise<void> => {
+  const context = contextOf(res);
+  if (!context) return;
+
+  context.transactionIds.push(transactionId);
+  try {
+    await store.recordTransactions(context.scope, context.key, context.transactionIds);
+  } catch (error) {
+    console.error(`Error recording transaction ${transactionId} for idempotency key ${context.key}:`, error);
+  }
+};
+
+/**
+ * Honour an optional `Idempotency-Key` header. Must run after `requireAuth`;
+ * keys are scoped to the operation and the signed-in account.
+ *
+ * - first request: runs the handler and stores its response. A 5xx releases
+ *   the key so the request can be retried, unless the handler already
+ *   submitted a transaction (see `recordSubmittedTransaction`): then the 5xx
+ *   is stored with the transaction IDs, since a retry could mint twice
+ * - repeat with the same body: replays the stored response
+ * - repeat while the first is still running: 409, with any transaction IDs
+ *   it submitted
+ * - repeat with a different body: 422
+ */
+export const idempotent = (operation: string) =>
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const key = req.header('idempotency-key');
+    if (!key) return next();
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+      });
+    }
+
+    const scope = `${operation}:${getSession(res).sub}`;
+    const requestHash = hashRequestBody(req.body);
+
+    try {
+      const existing = await store.begin({
+        scope,
+        key,
+        requestHash,
+        status: 'in_progress',
+        responseStatus: null,
+        responseBody: null,
+        transactionIds: [],
+        expiresAt: new Date(Date.now() + KEY_TTL_MS).toISOString()
+      });
+
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(422).json({
+            success: false,
+            error: 'Idempotency-Key reused with a different request body'
+          });
+        }
+
+        if (existing.status === 'in_progress') {
+          return res.status(409).json({
+            success: false,
+            error: 'A request with this Idempotency-Key is still being processed',
+            ...(existing.transactionIds.length > 0 && { transactionIds: existing.transactionIds })
+          });
+        }
+
+        console.log(`🔁 Replaying stored response for ${operation} key ${key}`);
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(existing.responseStatus || 200).json(existing.responseBody);
+      }
+    } catch (error) {
+      console.error('Error checking idempotency key:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to check idempotency key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    const context: IdempotencyContext = { scope, key, transactionIds: [] };
+    res.locals.idempotency = context;
+
+    // Capture the handler's response. The key stays reserved until the handler
+    // answers, even if the client disconnects, so a retry cannot run it twice.
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (settled) return json(body);
+      settled = true;
+
+      if (res.statusCode >= 500 && context.transactionIds.length === 0) {
+        store.release(scope, key)
+          .catch(error => console.error('Error releasing idempotency key:', error));
+        return json(body);
+      }
+
+      // A failure after submitting is kept, with what reached the network
+      const stored = res.statusCode >= 500 && body && typeof body === 'object' && !Array.isArray(body)
+        ? { ...body, transactionIds: context.transactionIds }
+        : body;
+      store.complete(scope, key, res.statusCode, stored)
+        .catch(error => console.error('Error saving idempotent response:', error));
+      return json(stored);
+    };
+
+    next();
+  };
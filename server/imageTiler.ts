@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PROBE_TIMEOUT_MS, listFiles, run } from './ffmpeg';
+import type { ServerStorageProvider } from './storageProvider';
+import { TILES_MANIFEST, TilePyramid } from '../src/utils/hip412';
+
+const TILE_SIZE = 512;
+
+// Lossless sources keep lossless tiles; GIFs are not tiled (they may be animated)
+const TILE_FORMATS: Record<string, TilePyramid['format']> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'jpg',
+  'image/png': 'png'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.json': 'application/json'
+};
+
+/**
+ * Levels of a pyramid, smallest first: the image halved until it fits in one tile
+ */
+const pyramidLevels = (width: number, height: number, tileSize = TILE_SIZE): TilePyramid['levels'] => {
+  const levels: TilePyramid['levels'] = [];
+  for (let scale = 1; ; scale *= 2) {
+    const levelWidth = Math.max(1, Math.ceil(width / scale));
+    const levelHeight = Math.max(1, Math.ceil(height / scale));
+    levels.unshift({
+      width: levelWidth,
+      height: levelHeight,
+      columns: Math.ceil(levelWidth / tileSize),
+      rows: Math.ceil(levelHeight / tileSize)
+    });
+    if (levelWidth <= tileSize && levelHeight <= tileSize) return levels;
+  }
+};
+
+/**
+ * Optional deep-zoom tiling of very large uploaded images with ffmpeg, turned
+ * on with IMAGE_TILING=true.
+ *
+ * An image whose longer side is at least IMAGE_TILING_MIN_SIZE pixels is cut
+ * into 512px tiles at every level from one tile up to full size, and the
+ * tiles and `pyramid.json` are stored as one directory next to the original.
+ * The upload lists the manifest in the metadata `files[]` so the viewer only
+ * loads the tiles on screen. Any failure leaves the upload without a pyramid
+ * rather than failing it.
+ */
+class ImageTiler {
+  private ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+  private ffprobePath = process.env.FFPROBE_PATH || 'ffprobe';
+  private minSize = parseInt(process.env.IMAGE_TILING_MIN_SIZE ?? '4096');
+  private timeoutMs = parseInt(process.env.IMAGE_TILING_TIMEOUT_SECONDS ?? '300') * 1000;
+  private available: Promise<boolean> | null = null;
+
+  isEnabled(): boolean {
+    return process.env.IMAGE_TILING === 'true';
+  }
+
+  /**
+   * Whether images of this type are tiled, so the upload keeps a copy on disk
+   */
+  accepts(mimeType: string): boolean {
+    return this.isEnabled() && mimeType in TILE_FORMATS;
+  }
+
+  /**
+   * Tile the image at `inputPath` when it is large enough and store the
+   * pyramid; null when it is smaller or could not be tiled
+   */
+  async tile(
+    inputPath: string,
+    mimeType: string,
+    provider: ServerStorageProvider,
+    fileName: string
+  ): Promise<{ uri: string; width: number; height: number } | null> {
+    const format = TILE_FORMATS[mimeType];
+    if (!format || !this.isEnabled() || !(await this.isAvailable())) return null;
+
+    const outputDirectory = path.join(os.tmpdir(), `tiles-${randomUUID()}`);
+    const startedAt = Date.now();
+
+    try {
+      const size = await this.probe(inputPath);
+      if (!size) {
+        console.warn(`⚠️ ${fileName} could not be read as an image, skipping tiling`);
+        return null;
+      }
+      if (Math.max(size.width, size.height) < this.minSize) return null;
+
+      const levels = pyramidLevels(size.width, size.height);
+      console.log(`🧩 Tiling ${fileName} (${size.width}x${size.height}, ${levels.length} levels)`);
+
+      for (const [index, level] of levels.entries()) {
+        const levelDirectory = path.join(outputDirectory, String(index));
+        await fs.mkdir(levelDirectory, { recursive: true });
+
+        const remainingMs = this.timeoutMs - (Date.now() - startedAt);
+        if (remainingMs <= 0) throw new Error('Tiling ran past IMAGE_TILING_TIMEOUT_SECONDS');
+        await run(this.ffmpegPath, this.ffmpegArgs(inputPath, level, path.join(levelDirectory, `tile_%d.${format}`)), remainingMs);
+
+        // Tiles come out numbered row by row
+        for (let tile = 0; tile < level.columns * level.rows; tile++) {
+          await fs.rename(
+            path.join(levelDirectory, `tile_${tile}.${format}`),
+            path.join(levelDirectory, `${tile % level.columns}_${Math.floor(tile / level.columns)}.${format}`)
+          );
+        }
+      }
+
+      const pyramid: TilePyramid = { width: size.width, height: size.height, tileSize: TILE_SIZE, format, levels };
+      await fs.writeFile(path.join(outputDirectory, TILES_MANIFEST), JSON.stringify(pyramid));
+
+      const stored = await provider.uploadDirectory(await listFiles(outputDirectory, MIME_TYPES), `${fileName}.tiles`);
+      console.log(`🧩 Tiles for ${fileName} stored as ${stored.cid} in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+
+      return { uri: `ipfs://${stored.cid}/${TILES_MANIFEST}`, width: size.width, height: size.height };
+    } catch (error) {
+      console.warn(`⚠️ Tiling failed for ${fileName}:`, error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    }
+  }
+
+  private isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = run(this.ffmpegPath, ['-version'], PROBE_TIMEOUT_MS)
+        .then(() => true)
+        .catch(error => {
+          console.warn(`⚠️ IMAGE_TILING is on but ffmpeg cannot be run (${error.message}) - images are stored without tiles`);
+          return false;
+        });
+    }
+    return this.available;
+  }
+
+  private async probe(inputPath: string): Promise<{ width: number; height: number } | null> {
+    const output = await run(this.ffprobePath, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height',
+      '-of', 'json',
+      inputPath
+    ], PROBE_TIMEOUT_MS);
+
+    const { streams = [] }: { streams?: Array<{ width?: number; height?: number }> } = JSON.parse(output);
+    const image = streams.find(stream => stream.width && stream.height);
+    return image ? { width: image.width, height: image.height } : null;
+  }
+
+  private ffmpegArgs(inputPath: string, level: TilePyramid['levels'][number], output: string): string[] {
+    const tiles = level.columns * level.rows;
+    // Pad to whole tiles, then split the frame into one frame per tile
+    const filters = [
+      `scale=${level.width}:${level.height}:flags=lanczos`,
+      `pad=${level.columns * TILE_SIZE}:${level.rows * TILE_SIZE}:0:0`,
+      ...(tiles > 1 ? [`untile=${level.columns}x${level.rows}`] : [])
+    ];
+
+    return [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-vf', filters.join(','),
+      '-frames:v', `${tiles}`,
+      ...(output.endsWith('.jpg') ? ['-q:v', '3'] : []),
+      '-start_number', '0',
+      output
+    ];
+  }
+}
+
+export const imageTiler = new ImageTiler();
@@ -1,9 +1,25 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { HederaService } from '../src/services/hederaService';
+import { HederaService, MAX_NFTS_PER_MINT } from '../src/services/hederaService';
 import { PrivateKey } from '@hashgraph/sdk';
 import { cacheService } from './cacheService';
+import { authService } from './authService';
+import { requireAuth, requireAdmin, getSession } from './authMiddleware';
+import { indexerService } from './indexerService';
+import { searchService } from './searchService';
+import { encodeCursor, decodeCursor } from './pagination';
+import { mintJobQueue, MintJob } from './mintJobQueue';
+import { idempotent, recordSubmittedTransaction } from './idempotency';
+import { createServerStorageProvider } from './storageProvider';
+import { receiveMediaUpload, storeMetadata, UploadRejectedError } from './uploads';
+import { hlsJobQueue } from './hlsJobs';
+import { resumableUploads, UploadSession } from './resumableUploads';
+import { contentIndex, ContentIndexUnavailableError, DuplicateContent, getDuplicateContentPolicy } from './contentIndex';
+import { pinMonitor } from './pinMonitor';
+import { findInvalidMetadata, InvalidMetadata } from './nftMetadata';
+import { parseCID } from '../src/utils/cid';
+import type { SearchFilters } from '../src/types/hedera';
 
 dotenv.config();
 
@@ -22,7 +38,8 @@ const requiredEnvVars = [
   'NFT_COLLECTION_ID',
   'NFT_SUPPLY_KEY',
   'HEDERA_OPERATOR_ID',
-  'HEDERA_OPERATOR_KEY'
+  'HEDERA_OPERATOR_KEY',
+  'AUTH_SESSION_SECRET'
 ];
 
 for (const envVar of requiredEnvVars) {
@@ -32,9 +49,41 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+if (!process.env.ADMIN_ACCOUNT_IDS) {
+  console.warn('⚠️ ADMIN_ACCOUNT_IDS is not set - admin endpoints will reject every request');
+}
+
 const tokenId = process.env.NFT_COLLECTION_ID!;
 const supplyKey = PrivateKey.fromStringDer(process.env.NFT_SUPPLY_KEY!);
 const treasuryAccountId = process.env.HEDERA_OPERATOR_ID!;
+const mirrorNodeUrl = (process.env.HEDERA_NETWORK || 'testnet') === 'mainnet'
+  ? 'https://mainnet-public.mirrornode.hedera.com'
+  : 'https://testnet.mirrornode.hedera.com';
+
+// Public view of a mint job (the worker lease is internal)
+const toJobResponse = ({ lockedUntil, ...job }: MintJob) => ({
+  ...job,
+  transferred: !!job.userAccountId && job.owner === job.userAccountId
+});
+
+// Media and metadata uploads are proxied to the storage provider so its credentials stay server-side
+const storageProvider = createServerStorageProvider();
+
+// Public view of a resumable upload session
+const toUploadSessionResponse = ({ ownerId, metadata, ...session }: UploadSession) => session;
+
+// Why a mint was refused under DUPLICATE_CONTENT_POLICY=block
+const describeDuplicate = ({ cid, nfts, duplicateOf }: DuplicateContent) => nfts.length > 0
+  ? `Content ${cid} is already minted as ${nfts.map(nft => `#${nft.serialNumber}`).join(', ')}`
+  : `Content ${cid} appears more than once in this request (first as ${duplicateOf})`;
+
+// Gateway used to read metadata documents before minting
+const metadataGatewayUrl = `${process.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud'}/ipfs/`;
+
+const describeInvalidMetadata = ({ metadataUrl, issues }: InvalidMetadata) => `${metadataUrl}: ${issues.join('; ')}`;
+
+// Upper bound for one batch mint request (chunked into mint transactions of MAX_NFTS_PER_MINT)
+const MAX_BATCH_MINT_ITEMS = 50;
 
 // API Routes
 
@@ -53,190 +102,926 @@ app.get('/api/health', (req, res) => {
       hitRate: cacheStats.hits / (cacheStats.hits + cacheStats.misses) || 0,
       memoryUsage: `${Math.round(cacheStats.vsize / 1024 / 1024 * 100) / 100} MB`
     }
-  });
+  });
+});
+
+/**
+ * Sign-In-With-Hedera: issue a challenge for the wallet to sign
+ * POST /api/auth/challenge
+ * Body: { accountId: string }
+ */
+app.post('/api/auth/challenge', (req, res) => {
+  const { accountId } = req.body;
+
+  if (!accountId || !/^\d+\.\d+\.\d+$/.test(accountId)) {
+    return res.status(400).json({
+      success: false,
+      error: 'A valid accountId is required'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: authService.createChallenge(accountId)
+  });
+});
+
+/**
+ * Sign-In-With-Hedera: verify the signed challenge and issue a session token
+ * POST /api/auth/verify
+ * Body: { accountId: string, nonce: string, signature: string (hex) }
+ */
+app.post('/api/auth/verify', async (req, res) => {
+  try {
+    const { accountId, nonce, signature } = req.body;
+
+    if (!accountId || !nonce || !signature) {
+      return res.status(400).json({
+        success: false,
+        error: 'accountId, nonce and signature are required'
+      });
+    }
+
+    const session = await authService.verifyChallenge(accountId, nonce, signature);
+    console.log(`🔐 Session issued for ${accountId}`);
+
+    res.json({
+      success: true,
+      data: session
+    });
+
+  } catch (error) {
+    console.warn('⚠️ Authentication failed:', error);
+    res.status(401).json({
+      success: false,
+      error: 'Authentication failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Get the current session
+ * GET /api/auth/session
+ */
+app.get('/api/auth/session', requireAuth, (req, res) => {
+  const session = getSession(res);
+  res.json({
+    success: true,
+    data: {
+      accountId: session.sub,
+      expiresAt: new Date(session.exp * 1000).toISOString(),
+      roles: authService.getRoles(session.sub)
+    }
+  });
+});
+
+/**
+ * Cache management endpoints
+ */
+app.get('/api/cache/stats', (req, res) => {
+  const stats = cacheService.getStats();
+  res.json({
+    success: true,
+    data: {
+      ...stats,
+      hitRate: stats.hits / (stats.hits + stats.misses) || 0,
+      memoryUsage: `${Math.round(stats.vsize / 1024 / 1024 * 100) / 100} MB`
+    }
+  });
+});
+
+app.post('/api/cache/clear', requireAuth, requireAdmin, (req, res) => {
+  cacheService.invalidateAll();
+  res.json({
+    success: true,
+    message: 'All caches cleared'
+  });
+});
+
+app.post('/api/cache/preload', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    console.log('🔄 Starting cache preload...');
+
+    // Get token info to find total supply
+    const tokenInfo = await hederaService.getTokenInfo(tokenId);
+    const totalSupply = parseInt(tokenInfo.totalSupply);
+
+    if (totalSupply === 0) {
+      return res.json({
+        success: true,
+        message: 'No NFTs to preload'
+      });
+    }
+
+    // Helper functions for preloading
+    const fetchNFT = async (serial: number) => {
+      return await hederaService.getNFTInfo(tokenId, serial);
+    };
+
+    const fetchMetadata = async (hash: string) => {
+      const response = await fetch(`https://gateway.pinata.cloud/ipfs/${hash}`);
+      if (response.ok) {
+        return await response.json();
+      }
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    };
+
+    // Start preloading in background
+    cacheService.preloadCollection(tokenId, totalSupply, fetchNFT, fetchMetadata)
+      .then(() => {
+        console.log('✅ Cache preload completed');
+      })
+      .catch((error) => {
+        console.error('❌ Cache preload failed:', error);
+      });
+
+    res.json({
+      success: true,
+      message: `Started preloading ${totalSupply} NFTs in background`
+    });
+
+  } catch (error) {
+    console.error('Error starting cache preload:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start cache preload'
+    });
+  }
+});
+
+/**
+ * Mirror-node indexer endpoints
+ */
+app.get('/api/indexer/status', async (req, res) => {
+  if (!indexerService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Indexer is not configured'
+    });
+  }
+
+  try {
+    const state = await indexerService.getState(tokenId);
+    res.json({
+      success: true,
+      data: {
+        running: indexerService.isRunning(),
+        state
+      }
+    });
+  } catch (error) {
+    console.error('Error getting indexer status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get indexer status',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/indexer/run', requireAuth, requireAdmin, (req, res) => {
+  if (!indexerService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Indexer is not configured'
+    });
+  }
+
+  if (indexerService.isRunning()) {
+    return res.status(409).json({
+      success: false,
+      error: 'Indexer is already running'
+    });
+  }
+
+  // Run in background; progress is checkpointed in indexer_state
+  indexerService.run(tokenId)
+    .catch((error) => {
+      console.error('❌ Indexer run failed:', error);
+    });
+
+  res.status(202).json({
+    success: true,
+    message: `Started indexing ${tokenId} in background`
+  });
+});
+
+/**
+ * Get token information
+ */
+app.get('/api/token-info', async (req, res) => {
+  try {
+    // Check cache first
+    let tokenInfo = cacheService.getTokenInfo(tokenId);
+
+    if (!tokenInfo) {
+      // Fetch from Hedera if not cached
+      tokenInfo = await hederaService.getTokenInfo(tokenId);
+      cacheService.setTokenInfo(tokenId, tokenInfo);
+    }
+
+    res.json({
+      success: true,
+      data: tokenInfo
+    });
+  } catch (error) {
+    console.error('Error getting token info:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get token information'
+    });
+  }
+});
+
+/**
+ * Upload media (and optionally its NFT metadata) to the storage provider
+ * POST /api/uploads
+ * Body: multipart/form-data with `metadata` (optional JSON object, sent first) and `file`
+ * (media, or a `text/vtt` caption track for a video, which takes no metadata)
+ */
+app.post('/api/uploads', requireAuth, async (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Uploads are not configured on this server'
+    });
+  }
+
+  try {
+    const result = await receiveMediaUpload(req, storageProvider);
+    console.log(`📤 ${getSession(res).sub} uploaded ${result.file.fileName} (${result.file.size} bytes) as ${result.file.cid}`);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error uploading media:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload media',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Upload a metadata JSON document on its own
+ * POST /api/uploads/metadata
+ * Body: { metadata: object }
+ */
+app.post('/api/uploads/metadata', requireAuth, async (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Uploads are not configured on this server'
+    });
+  }
+
+  try {
+    const stored = await storeMetadata(storageProvider, req.body?.metadata);
+
+    res.json({
+      success: true,
+      data: stored
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error uploading metadata:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload metadata',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * HLS rendition of an uploaded video, transcoded in the background. Once
+ * `completed`, `metadata` lists the rendition and replaces the upload's metadata.
+ * GET /api/uploads/renditions/:id
+ */
+app.get('/api/uploads/renditions/:id', requireAuth, (req, res) => {
+  const job = hlsJobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Rendition not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: job
+  });
+});
+
+/**
+ * Start a resumable upload
+ * POST /api/uploads/sessions
+ * Body: { fileName: string, mimeType: string, size: number, metadata?: object }
+ */
+app.post('/api/uploads/sessions', requireAuth, async (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Uploads are not configured on this server'
+    });
+  }
+
+  try {
+    const { fileName, mimeType, size, metadata } = req.body;
+    const session = await resumableUploads.create({
+      ownerId: getSession(res).sub,
+      fileName,
+      mimeType,
+      size,
+      metadata
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toUploadSessionResponse(session)
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error creating upload session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create upload session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Resumable upload status - `offset` is where the next chunk must start
+ * GET /api/uploads/sessions/:id
+ */
+app.get('/api/uploads/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const session = await resumableUploads.get(req.params.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    if (session.ownerId !== getSession(res).sub) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'This upload belongs to another account'
+      });
+    }
+
+    res.set('Upload-Offset', String(session.offset));
+    res.json({
+      success: true,
+      data: toUploadSessionResponse(session)
+    });
+
+  } catch (error) {
+    console.error('Error getting upload session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get upload session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Append a chunk to a resumable upload
+ * PATCH /api/uploads/sessions/:id
+ * Headers: Upload-Offset - must equal the session's current offset
+ * Body: raw chunk bytes (application/offset+octet-stream)
+ */
+app.patch('/api/uploads/sessions/:id', requireAuth, async (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Uploads are not configured on this server'
+    });
+  }
+
+  try {
+    const offset = Number(req.header('upload-offset'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Upload-Offset header is required'
+      });
+    }
+
+    const existing = await resumableUploads.get(req.params.id);
+    if (existing && existing.ownerId !== getSession(res).sub) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'This upload belongs to another account'
+      });
+    }
+
+    const session = await resumableUploads.append(req.params.id, offset, req, storageProvider);
+    if (session.status === 'completed') {
+      console.log(`📤 ${session.ownerId} uploaded ${session.fileName} (${session.size} bytes) as ${session.result?.file.cid}`);
+    }
+
+    res.set('Upload-Offset', String(session.offset));
+    res.json({
+      success: true,
+      data: toUploadSessionResponse(session)
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error appending upload chunk:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload chunk',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Replace the metadata of a resumable upload that is still in progress
+ * PUT /api/uploads/sessions/:id/metadata
+ * Body: { metadata: object | null }
+ */
+app.put('/api/uploads/sessions/:id/metadata', requireAuth, async (req, res) => {
+  try {
+    const existing = await resumableUploads.get(req.params.id);
+    if (existing && existing.ownerId !== getSession(res).sub) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'This upload belongs to another account'
+      });
+    }
+
+    const session = await resumableUploads.updateMetadata(req.params.id, req.body?.metadata);
+
+    res.json({
+      success: true,
+      data: toUploadSessionResponse(session)
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Error updating upload metadata:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update upload metadata',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Cancel a resumable upload
+ * DELETE /api/uploads/sessions/:id
+ */
+app.delete('/api/uploads/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const session = await resumableUploads.get(req.params.id);
+
+    if (session && session.ownerId !== getSession(res).sub) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'This upload belongs to another account'
+      });
+    }
+
+    if (session) {
+      await resumableUploads.remove(session.id);
+    }
+
+    res.json({
+      success: true
+    });
+
+  } catch (error) {
+    console.error('Error cancelling upload session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel upload',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * NFTs in the collection whose content (metadata `image`) has this CID,
+ * with the collection's duplicate content policy
+ * GET /api/content/:cid
+ */
+app.get('/api/content/:cid', async (req, res) => {
+  try {
+    const cid = parseCID(req.params.cid);
+    if (!cid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid CID'
+      });
+    }
+
+    const policy = getDuplicateContentPolicy();
+    const nfts = policy === 'allow' ? [] : await contentIndex.findByCID(tokenId, cid.toString());
+
+    res.json({
+      success: true,
+      data: {
+        cid: cid.toString(),
+        policy,
+        nfts
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof ContentIndexUnavailableError) {
+      return res.status(503).json({
+        success: false,
+        error: 'Duplicate content check unavailable',
+        details: error.message
+      });
+    }
+
+    console.error('Error checking content:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check content',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
 });
 
 /**
- * Cache management endpoints
+ * Pin health of the collection's media and metadata (last pin check)
+ * GET /api/pins/health
  */
-app.get('/api/cache/stats', (req, res) => {
-  const stats = cacheService.getStats();
+app.get('/api/pins/health', (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Storage provider is not configured'
+    });
+  }
+
   res.json({
     success: true,
     data: {
-      ...stats,
-      hitRate: stats.hits / (stats.hits + stats.misses) || 0,
-      memoryUsage: `${Math.round(stats.vsize / 1024 / 1024 * 100) / 100} MB`
+      running: pinMonitor.isRunning(),
+      report: pinMonitor.getReport()
     }
   });
 });
 
-app.post('/api/cache/clear', (req, res) => {
-  cacheService.invalidateAll();
-  res.json({
+/**
+ * Check pins now and re-pin missing content
+ * POST /api/pins/check
+ */
+app.post('/api/pins/check', requireAuth, requireAdmin, (req, res) => {
+  if (!storageProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'Storage provider is not configured'
+    });
+  }
+
+  if (pinMonitor.isRunning()) {
+    return res.status(409).json({
+      success: false,
+      error: 'Pin check is already running'
+    });
+  }
+
+  // Run in background; the report is served by /api/pins/health
+  pinMonitor.run(tokenId, storageProvider)
+    .catch((error) => {
+      console.error('❌ Pin check failed:', error);
+    });
+
+  res.status(202).json({
     success: true,
-    message: 'All caches cleared'
+    message: `Started checking pins for ${tokenId} in background`
   });
 });
 
-app.post('/api/cache/preload', async (req, res) => {
+/**
+ * Mint NFT endpoint - queues a mint job and returns 202 with the job
+ * POST /api/mint-nft
+ * Body: { metadataUrl: string, userAccountId?: string }
+ * Headers: Idempotency-Key (optional) - repeats replay the first response
+ */
+app.post('/api/mint-nft', requireAuth, idempotent('mint'), async (req, res) => {
   try {
-    console.log('🔄 Starting cache preload...');
+    const { metadataUrl, userAccountId } = req.body;
+    const session = getSession(res);
 
-    // Get token info to find total supply
-    const tokenInfo = await hederaService.getTokenInfo(tokenId);
-    const totalSupply = parseInt(tokenInfo.totalSupply);
+    // Only admins may mint on behalf of another account
+    if (userAccountId && userAccountId !== session.sub && !authService.hasRole(session.sub, 'admin')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'userAccountId must match the signed-in account'
+      });
+    }
 
-    if (totalSupply === 0) {
-      return res.json({
-        success: true,
-        message: 'No NFTs to preload'
+    // Validate input
+    if (!metadataUrl) {
+      return res.status(400).json({
+        success: false,
+        error: 'metadataUrl is required'
       });
     }
 
-    // Helper functions for preloading
-    const fetchNFT = async (serial: number) => {
-      return await hederaService.getNFTInfo(tokenId, serial);
-    };
+    if (!metadataUrl.startsWith('ipfs://')) {
+      return res.status(400).json({
+        success: false,
+        error: 'metadataUrl must be an IPFS URL'
+      });
+    }
 
-    const fetchMetadata = async (hash: string) => {
-      const response = await fetch(`https://gateway.pinata.cloud/ipfs/${hash}`);
-      if (response.ok) {
-        return await response.json();
+    const [invalidMetadata] = await findInvalidMetadata([metadataUrl], metadataGatewayUrl);
+    if (invalidMetadata) {
+      return res.status(422).json({
+        success: false,
+        error: 'Metadata is not valid HIP-412',
+        details: describeInvalidMetadata(invalidMetadata)
+      });
+    }
+
+    if (getDuplicateContentPolicy() === 'block') {
+      const [duplicate] = await contentIndex.findDuplicates(tokenId, [metadataUrl]);
+      if (duplicate) {
+        return res.status(409).json({
+          success: false,
+          error: 'Duplicate content',
+          details: describeDuplicate(duplicate)
+        });
       }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    };
+    }
 
-    // Start preloading in background
-    cacheService.preloadCollection(tokenId, totalSupply, fetchNFT, fetchMetadata)
-      .then(() => {
-        console.log('✅ Cache preload completed');
-      })
-      .catch((error) => {
-        console.error('❌ Cache preload failed:', error);
-      });
+    // Minting and the transfer run in the job queue; the client polls GET /api/jobs/:id
+    const job = await mintJobQueue.enqueue({
+      tokenId,
+      metadataUrl,
+      userAccountId: userAccountId || null,
+      requestedBy: session.sub
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: `Started preloading ${totalSupply} NFTs in background`
+      data: toJobResponse(job)
     });
 
   } catch (error) {
-    console.error('Error starting cache preload:', error);
+    if (error instanceof ContentIndexUnavailableError) {
+      // DUPLICATE_CONTENT_POLICY=block fails closed: nothing is minted without the check
+      return res.status(503).json({
+        success: false,
+        error: 'Duplicate content check unavailable',
+        details: error.message
+      });
+    }
+
+    console.error('Error queueing mint job:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to start cache preload'
+      error: 'Failed to queue mint job',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
 /**
- * Get token information
+ * Mint job status
+ * GET /api/jobs/:id
  */
-app.get('/api/token-info', async (req, res) => {
+app.get('/api/jobs/:id', requireAuth, async (req, res) => {
   try {
-    // Check cache first
-    let tokenInfo = cacheService.getTokenInfo(tokenId);
+    const session = getSession(res);
+    const job = await mintJobQueue.get(req.params.id);
 
-    if (!tokenInfo) {
-      // Fetch from Hedera if not cached
-      tokenInfo = await hederaService.getTokenInfo(tokenId);
-      cacheService.setTokenInfo(tokenId, tokenInfo);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    // Jobs are visible to the account that queued them and to admins
+    if (job.requestedBy !== session.sub && !authService.hasRole(session.sub, 'admin')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'This job belongs to another account'
+      });
     }
 
     res.json({
       success: true,
-      data: tokenInfo
+      data: toJobResponse(job)
     });
+
   } catch (error) {
-    console.error('Error getting token info:', error);
+    console.error('Error getting job:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get token information'
+      error: 'Failed to get job',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
 /**
- * Mint NFT endpoint
- * POST /api/mint-nft
- * Body: { metadataUrl: string, userAccountId?: string }
+ * Batch mint endpoint - mints ten NFTs per transaction
+ * POST /api/mint-nft/batch
+ * Body: { metadataUrls: string[], userAccountId?: string }
+ * Headers: Idempotency-Key (optional) - repeats replay the first response
  */
-app.post('/api/mint-nft', async (req, res) => {
+app.post('/api/mint-nft/batch', requireAuth, idempotent('mint-batch'), async (req, res) => {
   try {
-    const { metadataUrl, userAccountId } = req.body;
+    const { metadataUrls, userAccountId } = req.body;
+    const session = getSession(res);
 
-    // Validate input
-    if (!metadataUrl) {
+    // Only admins may mint on behalf of another account
+    if (userAccountId && userAccountId !== session.sub && !authService.hasRole(session.sub, 'admin')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        details: 'userAccountId must match the signed-in account'
+      });
+    }
+
+    if (!Array.isArray(metadataUrls) || metadataUrls.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'metadataUrl is required'
+        error: 'metadataUrls must be a non-empty array'
       });
     }
 
-    if (!metadataUrl.startsWith('ipfs://')) {
+    if (metadataUrls.length > MAX_BATCH_MINT_ITEMS) {
       return res.status(400).json({
         success: false,
-        error: 'metadataUrl must be an IPFS URL'
+        error: `At most ${MAX_BATCH_MINT_ITEMS} NFTs can be minted per request`
+      });
+    }
+
+    const invalidUrl = metadataUrls.find((url: unknown) => typeof url !== 'string' || !url.startsWith('ipfs://'));
+    if (invalidUrl !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Every metadataUrl must be an IPFS URL',
+        details: String(invalidUrl)
+      });
+    }
+
+    const invalidMetadata = await findInvalidMetadata(metadataUrls, metadataGatewayUrl);
+    if (invalidMetadata.length > 0) {
+      return res.status(422).json({
+        success: false,
+        error: 'Metadata is not valid HIP-412',
+        details: invalidMetadata.map(describeInvalidMetadata).join(' | ')
       });
     }
 
-    console.log(`🔨 Minting NFT with metadata: ${metadataUrl}`);
-    
-    // Mint the NFT to treasury first
-    const mintResult = await hederaService.mintNFT(
+    if (getDuplicateContentPolicy() === 'block') {
+      const duplicates = await contentIndex.findDuplicates(tokenId, metadataUrls);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'Duplicate content',
+          details: duplicates.map(describeDuplicate).join('; ')
+        });
+      }
+    }
+
+    console.log(`🔨 Batch minting ${metadataUrls.length} NFTs`);
+
+    const results = await hederaService.mintNFTBatch(
       tokenId,
-      metadataUrl,
-      supplyKey
+      metadataUrls,
+      supplyKey,
+      transactionId => recordSubmittedTransaction(res, transactionId)
     );
+    const items = results.map(result => ({
+      ...result,
+      owner: result.success ? treasuryAccountId : null,
+      transferred: false,
+      transferTransactionId: null as string | null,
+      transferError: null as string | null
+    }));
+
+    // Transfer minted NFTs to the user, ten per transaction
+    if (userAccountId && userAccountId !== treasuryAccountId) {
+      const minted = items.filter(item => item.success);
 
-    console.log(`✅ NFT minted successfully! Serial: ${mintResult.serialNumber}`);
+      for (let start = 0; start < minted.length; start += MAX_NFTS_PER_MINT) {
+        const chunk = minted.slice(start, start + MAX_NFTS_PER_MINT);
 
-    // If userAccountId is provided, transfer the NFT to the user
-    let transferResult = null;
-    if (userAccountId && userAccountId !== treasuryAccountId) {
-      try {
-        console.log(`📤 Transferring NFT to user: ${userAccountId}`);
-        
-        const transferTransactionId = await hederaService.transferNFT(
-          tokenId,
-          mintResult.serialNumber,
-          treasuryAccountId,
-          userAccountId,
-          process.env.HEDERA_OPERATOR_KEY!
-        );
-
-        transferResult = { transactionId: transferTransactionId };
-
-        console.log(`✅ NFT transferred successfully!`);
-      } catch (transferError) {
-        console.warn(`⚠️ NFT minted but transfer failed:`, transferError);
-        // Don't fail the entire request if transfer fails
-        // The NFT is still minted and can be transferred later
+        try {
+          console.log(`📤 Transferring ${chunk.length} NFTs to user: ${userAccountId}`);
+
+          const transferTransactionId = await hederaService.transferNFTBatch(
+            tokenId,
+            chunk.map(item => item.serialNumber!),
+            treasuryAccountId,
+            userAccountId,
+            process.env.HEDERA_OPERATOR_KEY!,
+            transactionId => recordSubmittedTransaction(res, transactionId)
+          );
+
+          for (const item of chunk) {
+            item.owner = userAccountId;
+            item.transferred = true;
+            item.transferTransactionId = transferTransactionId;
+          }
+        } catch (transferError) {
+          // Minted NFTs stay in the treasury and can be transferred later; the client reports them
+          console.warn(`⚠️ NFTs minted but transfer failed:`, transferError);
+          for (const item of chunk) {
+            item.transferError = transferError instanceof Error ? transferError.message : 'Unknown error';
+          }
+        }
       }
     }
 
-    // Invalidate collection cache since we have a new NFT
-    cacheService.invalidateCollection(tokenId);
+    const mintedCount = items.filter(item => item.success).length;
+    const failedCount = items.length - mintedCount;
 
-    res.json({
-      success: true,
+    if (mintedCount > 0) {
+      cacheService.invalidateCollection(tokenId);
+    }
+
+    console.log(`✅ Batch mint finished: ${mintedCount} minted, ${failedCount} failed`);
+
+    res.status(mintedCount > 0 ? 200 : 500).json({
+      success: mintedCount > 0,
+      ...(mintedCount === 0 && { error: 'Failed to mint NFTs' }),
       data: {
-        transactionId: mintResult.transactionId,
-        serialNumber: mintResult.serialNumber,
-        tokenId: tokenId,
-        metadataUrl: metadataUrl,
-        owner: transferResult ? userAccountId : treasuryAccountId,
-        transferred: !!transferResult,
-        transferTransactionId: transferResult?.transactionId || null
+        tokenId,
+        items,
+        minted: mintedCount,
+        failed: failedCount
       }
     });
 
   } catch (error) {
-    console.error('Error minting NFT:', error);
+    if (error instanceof ContentIndexUnavailableError) {
+      // DUPLICATE_CONTENT_POLICY=block fails closed: nothing is minted without the check
+      return res.status(503).json({
+        success: false,
+        error: 'Duplicate content check unavailable',
+        details: error.message
+      });
+    }
+
+    console.error('Error batch minting NFTs:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to mint NFT',
+      error: 'Failed to mint NFTs',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -246,8 +1031,9 @@ app.post('/api/mint-nft', async (req, res) => {
  * Transfer NFT endpoint
  * POST /api/transfer-nft
  * Body: { serialNumber: number, toAccountId: string }
+ * Headers: Idempotency-Key (optional) - repeats replay the first response
  */
-app.post('/api/transfer-nft', async (req, res) => {
+app.post('/api/transfer-nft', requireAuth, requireAdmin, idempotent('transfer'), async (req, res) => {
   try {
     const { serialNumber, toAccountId } = req.body;
 
@@ -266,7 +1052,8 @@ app.post('/api/transfer-nft', async (req, res) => {
       serialNumber,
       treasuryAccountId,
       toAccountId,
-      process.env.HEDERA_OPERATOR_KEY!
+      process.env.HEDERA_OPERATOR_KEY!,
+      transactionId => recordSubmittedTransaction(res, transactionId)
     );
 
     console.log(`✅ NFT transferred successfully!`);
@@ -370,12 +1157,23 @@ app.get('/api/nft/:serialNumber', async (req, res) => {
 
 /**
  * Get all NFTs from the collection
- * GET /api/collection/nfts
+ * GET /api/collection/nfts?limit=&cursor=
+ * `cursor` is the `nextCursor` of the previous page; `offset` is still accepted
+ * for the first page.
  */
 app.get('/api/collection/nfts', async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
-    const offset = parseInt(req.query.offset as string) || 0;
+    const cursor = req.query.cursor as string | undefined;
+
+    // Serials start at 1, so an offset of N starts after serial N
+    const offset = cursor ? decodeCursor(cursor) : parseInt(req.query.offset as string) || 0;
+    if (offset === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid cursor'
+      });
+    }
 
     console.log(`📋 Fetching collection NFTs (limit: ${limit}, offset: ${offset})`);
 
@@ -405,7 +1203,8 @@ app.get('/api/collection/nfts', async (req, res) => {
         data: {
           nfts: [],
           totalSupply: 0,
-          hasMore: false
+          hasMore: false,
+          nextCursor: null
         }
       });
     }
@@ -516,6 +1315,7 @@ app.get('/api/collection/nfts', async (req, res) => {
       nfts,
       totalSupply,
       hasMore,
+      nextCursor: hasMore ? encodeCursor(endSerial) : null,
       offset,
       limit
     };
@@ -537,6 +1337,146 @@ app.get('/api/collection/nfts', async (req, res) => {
   }
 });
 
+/**
+ * Get the collection NFTs owned by an account
+ * GET /api/accounts/:accountId/nfts?limit=&cursor=
+ */
+app.get('/api/accounts/:accountId/nfts', async (req, res) => {
+  try {
+    const { accountId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const cursor = req.query.cursor as string | undefined;
+
+    if (!/^\d+\.\d+\.\d+$/.test(accountId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid accountId is required'
+      });
+    }
+
+    const after = cursor ? decodeCursor(cursor) : 0;
+    if (after === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid cursor'
+      });
+    }
+
+    console.log(`👤 Fetching NFTs owned by ${accountId} (limit: ${limit})`);
+
+    const pageQuery = `token.id=${tokenId}&limit=${limit}&order=asc${after > 0 ? `&serialnumber=gt:${after}` : ''}`;
+    const response = await fetch(`${mirrorNodeUrl}/api/v1/accounts/${accountId}/nfts?${pageQuery}`);
+
+    if (response.status === 404) {
+      return res.status(404).json({
+        success: false,
+        error: `Account ${accountId} not found`
+      });
+    }
+    if (!response.ok) {
+      throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+    }
+
+    const page = await response.json();
+    const nfts = (page.nfts || []).map((nft: { token_id: string; serial_number: number; account_id: string; created_timestamp: string; metadata: string }) => ({
+      tokenId: nft.token_id,
+      serialNumber: nft.serial_number,
+      accountId: nft.account_id,
+      createdAt: new Date(parseFloat(nft.created_timestamp) * 1000).toISOString(),
+      metadata: {
+        metadataUrl: nft.metadata ? Buffer.from(nft.metadata, 'base64').toString('utf8') : ''
+      }
+    }));
+
+    const lastSerial = nfts[nfts.length - 1]?.serialNumber;
+    const nextCursor = page.links?.next && lastSerial ? encodeCursor(lastSerial) : null;
+
+    res.json({
+      success: true,
+      data: {
+        accountId,
+        nfts,
+        hasMore: !!nextCursor,
+        nextCursor,
+        limit
+      }
+    });
+
+  } catch (error) {
+    console.error('Error getting account NFTs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get account NFTs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Full-text search over indexed collection NFTs
+ * GET /api/search?q=&tags=a,b&mediaType=&from=&to=&sortBy=&limit=&offset=
+ */
+app.get('/api/search', async (req, res) => {
+  if (!searchService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Search is not configured'
+    });
+  }
+
+  try {
+    const { q, tags, mediaType, from, to, sortBy } = req.query as Record<string, string | undefined>;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (mediaType && !['image', 'video', 'audio', 'all'].includes(mediaType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'mediaType must be one of image, video, audio, all'
+      });
+    }
+
+    if (sortBy && !['relevance', 'newest', 'oldest', 'title'].includes(sortBy)) {
+      return res.status(400).json({
+        success: false,
+        error: 'sortBy must be one of relevance, newest, oldest, title'
+      });
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be ISO dates'
+      });
+    }
+
+    const filters: SearchFilters = {
+      query: q?.trim() || undefined,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      mediaType: mediaType as SearchFilters['mediaType'],
+      dateRange: from || to ? { start: from || '', end: to || '' } : undefined,
+      sortBy: sortBy as SearchFilters['sortBy']
+    };
+
+    console.log(`🔎 Searching collection NFTs:`, filters);
+
+    const result = await searchService.search(tokenId, filters, limit, offset);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error searching NFTs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search NFTs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Test IPFS metadata fetching
  * GET /api/test-ipfs?hash=<hash>
@@ -613,6 +1553,21 @@ app.listen(port, () => {
   console.log(`📋 Health check: http://localhost:${port}/api/health`);
   console.log(`🎨 Token ID: ${tokenId}`);
   console.log(`🏦 Treasury Account: ${treasuryAccountId}`);
+
+  mintJobQueue.start({
+    hederaService,
+    supplyKey,
+    treasuryAccountId,
+    treasuryPrivateKey: process.env.HEDERA_OPERATOR_KEY!,
+    // Invalidate collection cache since we have a new NFT
+    onMinted: () => cacheService.invalidateCollection(tokenId)
+  });
+
+  // PIN_MONITOR_INTERVAL_MINUTES=0 turns the background pin check off
+  const pinCheckInterval = parseInt(process.env.PIN_MONITOR_INTERVAL_MINUTES ?? '360');
+  if (storageProvider && pinCheckInterval > 0) {
+    pinMonitor.start(tokenId, storageProvider, pinCheckInterval);
+  }
 });
 
 export default app;
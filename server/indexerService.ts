@@ -0,0 +1,342 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabaseAdmin';
+
+interface MirrorNFT {
+  account_id: string | null;
+  created_timestamp: string;
+  deleted: boolean;
+  metadata: string;
+  modified_timestamp: string;
+  serial_number: number;
+  token_id: string;
+}
+
+interface IndexerState {
+  token_id: string;
+  last_modified_timestamp: string | null;
+  pass_high_water_mark: string | null;
+  next_link: string | null;
+  last_run_at?: string | null;
+  last_error?: string | null;
+  nfts_indexed: number;
+}
+
+interface ExistingNFTRow {
+  serial_number: number;
+  metadata_url: string | null;
+  metadata_content: unknown;
+}
+
+export interface IndexerRunResult {
+  tokenId: string;
+  pages: number;
+  upserted: number;
+  deleted: number;
+  completedPass: boolean;
+  highWaterMark: string | null;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * Mirror node timestamps are `seconds.nanoseconds` with a fixed-width
+ * nanosecond part, so comparing them as strings orders them correctly.
+ */
+const isNewer = (timestamp: string, mark: string | null): boolean => !mark || timestamp > mark;
+
+const decodeMetadata = (metadata: string): string =>
+  metadata ? Buffer.from(metadata, 'base64').toString('utf8') : '';
+
+/**
+ * Mirror-node indexer that keeps the Supabase `tokens` and `nfts` tables in sync.
+ *
+ * The mirror node has no token-scoped transaction feed, so each pass pages
+ * through `/tokens/{id}/nfts` and uses each NFT's `modified_timestamp` as the
+ * change marker: anything newer than the previous pass's high-water mark
+ * (mints, transfers, burns) is written. The `links.next` cursor is checkpointed
+ * after every page in `indexer_state`, so a crashed or time-limited run resumes
+ * mid-pass. The `hedera-indexer` edge function implements the same algorithm.
+ */
+export class IndexerService {
+  private supabase: SupabaseClient | null = null;
+  private mirrorNodeUrl: string;
+  private ipfsGatewayUrl: string;
+  private running = false;
+
+  constructor() {
+    const network = process.env.HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+    this.ipfsGatewayUrl = `${process.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud'}/ipfs/`;
+    this.supabase = getSupabaseAdmin();
+  }
+
+  isAvailable(): boolean {
+    return this.supabase !== null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async getState(tokenId: string): Promise<IndexerState | null> {
+    const { data, error } = await this.db()
+      .from('indexer_state')
+      .select('*')
+      .eq('token_id', tokenId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Index up to `maxPages` pages. A pass that does not finish within the
+   * budget is picked up from its checkpoint by the next call.
+   */
+  async run(tokenId: string, maxPages = Infinity): Promise<IndexerRunResult> {
+    if (this.running) {
+      throw new Error('Indexer is already running');
+    }
+
+    this.running = true;
+    const result: IndexerRunResult = {
+      tokenId,
+      pages: 0,
+      upserted: 0,
+      deleted: 0,
+      completedPass: false,
+      highWaterMark: null
+    };
+
+    try {
+      await this.syncToken(tokenId);
+
+      const state: IndexerState = await this.getState(tokenId) || {
+        token_id: tokenId,
+        last_modified_timestamp: null,
+        pass_high_water_mark: null,
+        next_link: null,
+        nfts_indexed: 0
+      };
+
+      if (state.next_link) {
+        console.log(`🔁 Resuming indexer pass for ${tokenId} from checkpoint`);
+      } else {
+        console.log(`🔍 Starting indexer pass for ${tokenId} (since ${state.last_modified_timestamp || 'genesis'})`);
+      }
+
+      let path: string | null = state.next_link || `/api/v1/tokens/${tokenId}/nfts?limit=${PAGE_SIZE}&order=asc`;
+      let passMark = state.pass_high_water_mark;
+
+      while (path && result.pages < maxPages) {
+        const response = await fetch(`${this.mirrorNodeUrl}${path}`);
+        if (!response.ok) {
+          throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+        }
+
+        const page: { nfts?: MirrorNFT[]; links?: { next: string | null } } = await response.json();
+        const nfts = page.nfts || [];
+
+        const { upserted, deleted } = await this.processPage(tokenId, nfts, state.last_modified_timestamp);
+        result.upserted += upserted;
+        result.deleted += deleted;
+        result.pages++;
+
+        for (const nft of nfts) {
+          if (isNewer(nft.modified_timestamp, passMark)) {
+            passMark = nft.modified_timestamp;
+          }
+        }
+
+        path = page.links?.next || null;
+
+        // Checkpoint after every page so the pass can resume
+        await this.saveState({
+          ...state,
+          pass_high_water_mark: passMark,
+          next_link: path,
+          nfts_indexed: state.nfts_indexed + result.upserted,
+          last_error: null
+        });
+      }
+
+      if (!path) {
+        result.completedPass = true;
+        await this.saveState({
+          ...state,
+          last_modified_timestamp: passMark || state.last_modified_timestamp,
+          pass_high_water_mark: null,
+          next_link: null,
+          nfts_indexed: state.nfts_indexed + result.upserted,
+          last_error: null
+        });
+      }
+
+      result.highWaterMark = passMark || state.last_modified_timestamp;
+      console.log(`✅ Indexed ${tokenId}: ${result.upserted} upserted, ${result.deleted} removed over ${result.pages} pages`);
+      return result;
+
+    } catch (error) {
+      console.error(`❌ Indexer failed for ${tokenId}:`, error);
+      await this.db()
+        .from('indexer_state')
+        .upsert({
+          token_id: tokenId,
+          last_run_at: new Date().toISOString(),
+          last_error: error instanceof Error ? error.message : 'Unknown error'
+        }, { onConflict: 'token_id' });
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processPage(
+    tokenId: string,
+    nfts: MirrorNFT[],
+    since: string | null
+  ): Promise<{ upserted: number; deleted: number }> {
+    if (nfts.length === 0) {
+      return { upserted: 0, deleted: 0 };
+    }
+
+    const { data: existingRows, error } = await this.db()
+      .from('nfts')
+      .select('serial_number, metadata_url, metadata_content')
+      .eq('token_id', tokenId)
+      .in('serial_number', nfts.map(nft => nft.serial_number));
+
+    if (error) throw error;
+
+    const existing = new Map<number, ExistingNFTRow>(
+      (existingRows || []).map((row: ExistingNFTRow) => [row.serial_number, row])
+    );
+
+    const rows = [];
+    const burned: number[] = [];
+
+    for (const nft of nfts) {
+      const current = existing.get(nft.serial_number);
+      const changed = isNewer(nft.modified_timestamp, since);
+
+      if (nft.deleted || !nft.account_id) {
+        if (current) burned.push(nft.serial_number);
+        continue;
+      }
+
+      // Unchanged rows are skipped unless their metadata never resolved
+      if (current && !changed && current.metadata_content) {
+        continue;
+      }
+
+      const rawMetadata = decodeMetadata(nft.metadata);
+      const metadataContent = current?.metadata_url === rawMetadata && current.metadata_content
+        ? current.metadata_content
+        : await this.resolveMetadata(rawMetadata);
+
+      rows.push({
+        token_id: tokenId,
+        serial_number: nft.serial_number,
+        account_id: nft.account_id,
+        metadata_url: rawMetadata || null,
+        metadata_content: metadataContent,
+        created_at: new Date(parseFloat(nft.created_timestamp) * 1000).toISOString()
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await this.db()
+        .from('nfts')
+        .upsert(rows, { onConflict: 'token_id,serial_number' });
+
+      if (upsertError) throw upsertError;
+    }
+
+    if (burned.length > 0) {
+      const { error: deleteError } = await this.db()
+        .from('nfts')
+        .delete()
+        .eq('token_id', tokenId)
+        .in('serial_number', burned);
+
+      if (deleteError) throw deleteError;
+    }
+
+    return { upserted: rows.length, deleted: burned.length };
+  }
+
+  /**
+   * Resolve on-chain metadata to JSON: inline JSON is parsed directly,
+   * ipfs:// and http(s) URLs are fetched. Returns null when unresolvable.
+   */
+  private async resolveMetadata(rawMetadata: string): Promise<unknown> {
+    if (!rawMetadata) return null;
+
+    try {
+      return JSON.parse(rawMetadata);
+    } catch {
+      // Not inline JSON - treat it as a URL
+    }
+
+    let url: string | null = null;
+    if (rawMetadata.startsWith('ipfs://')) {
+      url = `${this.ipfsGatewayUrl}${rawMetadata.replace('ipfs://', '')}`;
+    } else if (/^https?:\/\//.test(rawMetadata)) {
+      url = rawMetadata;
+    }
+
+    if (!url) return null;
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        console.warn(`⚠️ Metadata fetch failed (${response.status}) for ${rawMetadata}`);
+        return null;
+      }
+      return await response.json();
+    } catch (error) {
+      console.warn(`⚠️ Could not resolve metadata ${rawMetadata}:`, error);
+      return null;
+    }
+  }
+
+  private async syncToken(tokenId: string): Promise<void> {
+    const response = await fetch(`${this.mirrorNodeUrl}/api/v1/tokens/${tokenId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch token ${tokenId}: ${response.status} ${response.statusText}`);
+    }
+
+    const token = await response.json();
+    const { error } = await this.db()
+      .from('tokens')
+      .upsert({
+        token_id: token.token_id,
+        name: token.name,
+        symbol: token.symbol,
+        total_supply: String(token.total_supply),
+        treasury_account: token.treasury_account_id
+      }, { onConflict: 'token_id' });
+
+    if (error) throw error;
+  }
+
+  private async saveState(state: IndexerState): Promise<void> {
+    const { error } = await this.db()
+      .from('indexer_state')
+      .upsert({ ...state, last_run_at: new Date().toISOString() }, { onConflict: 'token_id' });
+
+    if (error) throw error;
+  }
+
+  private db(): SupabaseClient {
+    if (!this.supabase) {
+      throw new Error('Indexer requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    }
+    return this.supabase;
+  }
+}
+
+// Singleton instance
+export const indexerService = new IndexerService();
@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import { indexerService } from './indexerService';
+
+/**
+ * Standalone indexer worker
+ *
+ * Usage:
+ *   npm run indexer          # index continuously every INDEXER_INTERVAL_SECONDS
+ *   npm run indexer -- --once
+ */
+const tokenId = process.env.NFT_COLLECTION_ID;
+const intervalSeconds = parseInt(process.env.INDEXER_INTERVAL_SECONDS || '') || 60;
+const runOnce = process.argv.includes('--once');
+
+if (!tokenId) {
+  console.error('❌ Missing required environment variable: NFT_COLLECTION_ID');
+  process.exit(1);
+}
+
+if (!indexerService.isAvailable()) {
+  console.error('❌ Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const tick = async () => {
+  try {
+    await indexerService.run(tokenId);
+  } catch (error) {
+    // The checkpoint is saved per page, so the next tick resumes the pass
+    console.error('❌ Indexer run failed:', error instanceof Error ? error.message : error);
+    if (runOnce) process.exit(1);
+  }
+
+  if (!runOnce) {
+    setTimeout(tick, intervalSeconds * 1000);
+  }
+};
+
+console.log(`🗂️ Indexer worker started for ${tokenId}${runOnce ? ' (single run)' : ` (every ${intervalSeconds}s)`}`);
+tick();
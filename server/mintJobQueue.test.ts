@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrivateKey, ReceiptStatusError, Status, TransactionId } from '@hashgraph/sdk';
+import type { HederaService } from '../src/services/hederaService';
+import { FileMintJobStore, MintJob, MintJobContext, MintJobQueue, MintJobStore } from './mintJobQueue';
+
+vi.mock('./supabaseAdmin', () => ({ getSupabaseAdmin: () => null }));
+
+const TREASURY = '0.0.2';
+const USER = '0.0.3003';
+const TOKEN = '0.0.1001';
+const MIRROR = 'https://testnet.mirrornode.hedera.com/api/v1/transactions/';
+
+class MemoryMintJobStore implements MintJobStore {
+  jobs = new Map<string, MintJob>();
+
+  async create(job: MintJob) { this.jobs.set(job.id, { ...job }); }
+  async get(id: string) { const job = this.jobs.get(id); return job ? { ...job } : null; }
+  async update(job: MintJob) { this.jobs.set(job.id, { ...job }); }
+  async listDue(now: string) {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status !== 'completed' && job.status !== 'failed' && job.nextAttemptAt <= now)
+      .map(job => ({ ...job }));
+  }
+  async claim(id: string, now: string, lockedUntil: string) {
+    const job = this.jobs.get(id);
+    if (!job || (job.lockedUntil && job.lockedUntil > now)) return null;
+    job.lockedUntil = lockedUntil;
+    return { ...job };
+  }
+}
+
+/** Transaction IDs as the SDK makes them: the payer and a valid start of now */
+let submitted = 0;
+const nextTransactionId = () => `${TREASURY}@${Math.floor(Date.now() / 1000)}.${String(++submitted).padStart(9, '0')}`;
+
+const receiptWith = (serials: number[] = []) => ({ serials: serials.map(serial => ({ toNumber: () => serial })) });
+const receiptUnavailable = () => Promise.reject(new Error('receipt query timed out'));
+
+/** A mirror node answer for `fetch` */
+const mirror = (status: number, body: unknown = {}) =>
+  ({ status, ok: status < 400, statusText: String(status), json: async () => body }) as Response;
+
+let store: MemoryMintJobStore;
+let queue: MintJobQueue;
+let hederaService: {
+  submitMintNFT: ReturnType<typeof vi.fn>;
+  submitNFTTransfer: ReturnType<typeof vi.fn>;
+  getTransactionReceipt: ReturnType<typeof vi.fn>;
+};
+let context: MintJobContext;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue(mirror(404)));
+
+  submitted = 0;
+  hederaService = {
+    submitMintNFT: vi.fn(async () => nextTransactionId()),
+    submitNFTTransfer: vi.fn(async () => nextTransactionId()),
+    getTransactionReceipt: vi.fn(async () => receiptWith([7]))
+  };
+  context = {
+    hederaService: hederaService as unknown as HederaService,
+    supplyKey: {} as PrivateKey,
+    treasuryAccountId: TREASURY,
+    treasuryPrivateKey: 'key',
+    onMinted: vi.fn()
+  };
+  store = new MemoryMintJobStore();
+  queue = new MintJobQueue(store);
+  queue.start(context);
+});
+
+afterEach(() => {
+  queue.stop();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const enqueue = (userAccountId: string | null = USER) =>
+  queue.enqueue({ tokenId: TOKEN, metadataUrl: 'ipfs://bafymeta', userAccountId, requestedBy: USER });
+
+/** Let the worker run for `ms` of simulated time, plus a poll for whatever became due at the end */
+const run = (ms: number) => vi.advanceTimersByTimeAsync(ms + 2000);
+
+const jobOf = async (id: string) => (await queue.get(id)) as MintJob;
+
+describe('MintJobQueue', () => {
+  it('mints to the treasury, transfers to the user and completes', async () => {
+    hederaService.getTransactionReceipt
+      .mockResolvedValueOnce(receiptWith([7]))
+      .mockResolvedValueOnce(receiptWith());
+    const { id } = await enqueue();
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({
+      status: 'completed',
+      serialNumber: 7,
+      owner: USER,
+      attempts: 0,
+      mintTransactionId: `${TREASURY}@1704067200.000000001`,
+      transferTransactionId: `${TREASURY}@1704067200.000000002`,
+      lockedUntil: null
+    });
+    expect(hederaService.submitNFTTransfer).toHaveBeenCalledWith(TOKEN, 7, TREASURY, USER, 'key');
+    expect(context.onMinted).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a treasury mint in the treasury', async () => {
+    const { id } = await enqueue(null);
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({ status: 'completed', owner: TREASURY });
+    expect(hederaService.submitNFTTransfer).not.toHaveBeenCalled();
+  });
+
+  it('keeps checking a pending transaction without using up attempts until it expires', async () => {
+    hederaService.getTransactionReceipt.mockImplementation(receiptUnavailable);
+    const { id } = await enqueue();
+
+    // Well past the 75s the attempts would last if waiting counted
+    await run(250 * 1000);
+    expect(await jobOf(id)).toMatchObject({
+      status: 'minting',
+      attempts: 0,
+      mintTransactionId: `${TREASURY}@1704067200.000000001`
+    });
+    expect(hederaService.submitMintNFT).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(`${MIRROR}${TREASURY}-1704067200-000000001`);
+
+    // Never reached consensus: submitted again, and that one lands
+    await run(80 * 1000);
+    expect(await jobOf(id)).toMatchObject({ status: 'minting', attempts: 1 });
+    expect(hederaService.submitMintNFT).toHaveBeenCalledTimes(2);
+
+    hederaService.getTransactionReceipt.mockResolvedValue(receiptWith([9]));
+    await run(10 * 1000);
+    expect(await jobOf(id)).toMatchObject({ status: 'completed', serialNumber: 9, attempts: 1 });
+  });
+
+  it('picks up a transaction the mirror node has once the receipt is gone', async () => {
+    hederaService.getTransactionReceipt.mockImplementation(receiptUnavailable);
+    vi.mocked(fetch).mockResolvedValue(mirror(200, {
+      transactions: [
+        // A child transaction sharing the ID
+        { result: 'SUCCESS', nonce: 1, nft_transfers: [{ token_id: TOKEN, serial_number: 99, sender_account_id: null, receiver_account_id: TREASURY }] },
+        {
+          result: 'SUCCESS',
+          nft_transfers: [
+            { token_id: TOKEN, serial_number: 12, sender_account_id: null, receiver_account_id: TREASURY },
+            { token_id: TOKEN, serial_number: 3, sender_account_id: TREASURY, receiver_account_id: USER }
+          ]
+        }
+      ]
+    }));
+    const { id } = await enqueue(null);
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({ status: 'completed', serialNumber: 12 });
+    expect(hederaService.submitMintNFT).toHaveBeenCalledTimes(1);
+  });
+
+  it('submits a failed transaction again and counts the attempt', async () => {
+    hederaService.getTransactionReceipt.mockImplementationOnce(async () => {
+      throw new ReceiptStatusError({
+        status: Status.InsufficientTxFee,
+        transactionId: TransactionId.fromString(`${TREASURY}@1704067200.000000001`),
+        transactionReceipt: {} as never
+      });
+    });
+    const { id } = await enqueue(null);
+    await run(10);
+
+    const retrying = await jobOf(id);
+    expect(retrying).toMatchObject({ status: 'minting', attempts: 1, mintTransactionId: null });
+    expect(retrying.lastError).toContain('INSUFFICIENT_TX_FEE');
+    expect(retrying.nextAttemptAt).toBe('2024-01-01T00:00:05.000Z');
+
+    await run(5000);
+    expect(await jobOf(id)).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(hederaService.submitMintNFT).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts a failure the mirror node reports', async () => {
+    hederaService.getTransactionReceipt.mockImplementationOnce(receiptUnavailable);
+    vi.mocked(fetch).mockResolvedValueOnce(mirror(200, { transactions: [{ result: 'INVALID_SIGNATURE' }] }));
+    const { id } = await enqueue(null);
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({ status: 'minting', attempts: 1, mintTransactionId: null });
+  });
+
+  it('fails the job after maxAttempts errors, backing off between them', async () => {
+    hederaService.submitMintNFT.mockRejectedValue(new Error('BUSY'));
+    const { id } = await enqueue();
+
+    await run(5000 + 10000 + 20000 + 4000);
+    expect(await jobOf(id)).toMatchObject({ status: 'queued', attempts: 4 });
+
+    await run(40000);
+    expect(await jobOf(id)).toMatchObject({ status: 'failed', attempts: 5, lastError: 'BUSY' });
+  });
+
+  it('fails right away when the minted serial cannot be known', async () => {
+    hederaService.getTransactionReceipt.mockResolvedValue(receiptWith([]));
+    const { id } = await enqueue();
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('retries only the transfer after a minted serial', async () => {
+    hederaService.getTransactionReceipt
+      .mockResolvedValueOnce(receiptWith([7]))
+      .mockRejectedValueOnce(new ReceiptStatusError({
+        status: Status.AccountFrozenForToken,
+        transactionId: TransactionId.fromString(`${TREASURY}@1704067200.000000002`),
+        transactionReceipt: {} as never
+      }))
+      .mockResolvedValue(receiptWith());
+    const { id } = await enqueue();
+    await run(10);
+
+    expect(await jobOf(id)).toMatchObject({ status: 'transferring', serialNumber: 7, owner: TREASURY, transferTransactionId: null });
+
+    await run(5000);
+    expect(await jobOf(id)).toMatchObject({ status: 'completed', owner: USER });
+    expect(hederaService.submitMintNFT).toHaveBeenCalledTimes(1);
+    expect(hederaService.submitNFTTransfer).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FileMintJobStore', () => {
+  const job = (id: string, overrides: Partial<MintJob> = {}): MintJob => ({
+    id,
+    status: 'queued',
+    tokenId: TOKEN,
+    metadataUrl: 'ipfs://bafymeta',
+    userAccountId: USER,
+    requestedBy: USER,
+    attempts: 0,
+    maxAttempts: 5,
+    serialNumber: null,
+    mintTransactionId: null,
+    transferTransactionId: null,
+    owner: null,
+    lastError: null,
+    nextAttemptAt: '2024-01-01T00:00:00.000Z',
+    lockedUntil: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  let directory: string;
+
+  beforeEach(async () => {
+    vi.useRealTimers();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mint-jobs-'));
+  });
+
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it('survives a restart and lists only unfinished due jobs', async () => {
+    const filePath = path.join(directory, 'jobs.json');
+    const first = new FileMintJobStore(filePath);
+    await first.create(job('due'));
+    await first.create(job('later', { nextAttemptAt: '2024-01-01T01:00:00.000Z' }));
+    await first.create(job('done', { status: 'completed' }));
+
+    const reopened = new FileMintJobStore(filePath);
+    const due = await reopened.listDue('2024-01-01T00:30:00.000Z', 10);
+
+    expect(due.map(entry => entry.id)).toEqual(['due']);
+  });
+
+  it('leases a job to one worker at a time', async () => {
+    const fileStore = new FileMintJobStore(path.join(directory, 'jobs.json'));
+    await fileStore.create(job('a'));
+
+    expect(await fileStore.claim('a', '2024-01-01T00:00:00.000Z', '2024-01-01T00:02:00.000Z')).not.toBeNull();
+    expect(await fileStore.claim('a', '2024-01-01T00:01:00.000Z', '2024-01-01T00:03:00.000Z')).toBeNull();
+    expect(await fileStore.claim('a', '2024-01-01T00:02:01.000Z', '2024-01-01T00:04:00.000Z')).not.toBeNull();
+  });
+});
@@ -0,0 +1,559 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PrivateKey, ReceiptStatusError } from '@hashgraph/sdk';
+import type { HederaService } from '../src/services/hederaService';
+import { getSupabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Mint job states:
+ *
+ *   queued ──► minting ──► minted ──► transferring ──► completed
+ *                 │           │            │
+ *                 └───────────┴────────────┴──► failed (after maxAttempts)
+ *
+ * `minting` and `transferring` mean a transaction was submitted and its ID
+ * recorded; a retry looks up what became of it instead of submitting again,
+ * so a crash or slow receipt never mints twice. Receipts are only kept for
+ * about 3 minutes, so after that the mirror node's record is used. A
+ * transaction that failed or never reached consensus is submitted again; one
+ * that may still reach consensus is checked again without using up an attempt.
+ */
+export type MintJobStatus = 'queued' | 'minting' | 'minted' | 'transferring' | 'completed' | 'failed';
+
+export interface MintJob {
+  id: string;
+  status: MintJobStatus;
+  tokenId: string;
+  metadataUrl: string;
+  userAccountId: string | null;
+  requestedBy: string;
+  /** Failed attempts so far; waiting for a submitted transaction does not count */
+  attempts: number;
+  maxAttempts: number;
+  serialNumber: number | null;
+  mintTransactionId: string | null;
+  transferTransactionId: string | null;
+  owner: string | null;
+  lastError: string | null;
+  nextAttemptAt: string;
+  lockedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MintJobStore {
+  create(job: MintJob): Promise<void>;
+  get(id: string): Promise<MintJob | null>;
+  update(job: MintJob): Promise<void>;
+  /** Jobs that are not finished and whose next attempt is due */
+  listDue(now: string, limit: number): Promise<MintJob[]>;
+  /** Take a lease on a job so only one worker processes it */
+  claim(id: string, now: string, lockedUntil: string): Promise<MintJob | null>;
+}
+
+export interface MintJobContext {
+  hederaService: HederaService;
+  supplyKey: PrivateKey;
+  treasuryAccountId: string;
+  treasuryPrivateKey: string;
+  onMinted?: (job: MintJob) => void;
+}
+
+interface MintJobRow {
+  id: string;
+  status: MintJobStatus;
+  token_id: string;
+  metadata_url: string;
+  user_account_id: string | null;
+  requested_by: string;
+  attempts: number;
+  max_attempts: number;
+  serial_number: number | null;
+  mint_transaction_id: string | null;
+  transfer_transaction_id: string | null;
+  owner: string | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MirrorTransaction {
+  result: string;
+  scheduled?: boolean;
+  nonce?: number;
+  nft_transfers?: Array<{
+    token_id: string;
+    serial_number: number;
+    sender_account_id: string | null;
+    receiver_account_id: string | null;
+  }>;
+}
+
+/** What became of a submitted transaction */
+type TransactionOutcome =
+  | { state: 'succeeded'; serials: number[] }
+  | { state: 'failed'; result: string }
+  // Not on the mirror node yet, but it may still reach consensus
+  | { state: 'pending' }
+  // Never reached consensus and no longer can
+  | { state: 'expired' };
+
+/** A job that cannot be completed by retrying; it is failed right away */
+class PermanentJobError extends Error {}
+
+/** The submitted transaction may still reach consensus; it is checked again later */
+class PendingTransactionError extends Error {}
+
+const FINISHED: MintJobStatus[] = ['completed', 'failed'];
+const DEFAULT_MAX_ATTEMPTS = 5;
+const LEASE_MS = 2 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+const PENDING_RECHECK_MS = 10 * 1000;
+// Transactions are valid for at most 180s from their valid start; the margin covers mirror node lag
+const TRANSACTION_EXPIRY_MS = (180 + 120) * 1000;
+
+// 5s, 10s, 20s, 40s ... capped at 5 minutes
+const retryDelayMs = (attempts: number): number => Math.min(5000 * 2 ** (attempts - 1), 5 * 60 * 1000);
+
+/**
+ * JSON file store for local development. Writes go through a temp file and a
+ * rename so an interrupted write never leaves a truncated file behind.
+ */
+export class FileMintJobStore implements MintJobStore {
+  private jobs: Map<string, MintJob> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async create(job: MintJob): Promise<void> {
+    (await this.load()).set(job.id, { ...job });
+    await this.persist();
+  }
+
+  async get(id: string): Promise<MintJob | null> {
+    const job = (await this.load()).get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(job: MintJob): Promise<void> {
+    (await this.load()).set(job.id, { ...job });
+    await this.persist();
+  }
+
+  async listDue(now: string, limit: number): Promise<MintJob[]> {
+    return Array.from((await this.load()).values())
+      .filter(job => !FINISHED.includes(job.status) && job.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, limit)
+      .map(job => ({ ...job }));
+  }
+
+  async claim(id: string, now: string, lockedUntil: string): Promise<MintJob | null> {
+    const job = (await this.load()).get(id);
+    if (!job || (job.lockedUntil && job.lockedUntil > now)) return null;
+
+    job.lockedUntil = lockedUntil;
+    await this.persist();
+    return { ...job };
+  }
+
+  private async load(): Promise<Map<string, MintJob>> {
+    if (!this.jobs) {
+      try {
+        const saved: MintJob[] = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+        this.jobs = new Map(saved.map(job => [job.id, job]));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.jobs = new Map();
+      }
+    }
+    return this.jobs;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.jobs?.values() || []), null, 2);
+
+    this.writeChain = this.writeChain.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot);
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    return this.writeChain;
+  }
+}
+
+/**
+ * `mint_jobs` table store for production, shared by every API instance.
+ */
+export class SupabaseMintJobStore implements MintJobStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async create(job: MintJob): Promise<void> {
+    const { error } = await this.supabase.from('mint_jobs').insert(toRow(job));
+    if (error) throw error;
+  }
+
+  async get(id: string): Promise<MintJob | null> {
+    const { data, error } = await this.supabase
+      .from('mint_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }
+
+  async update(job: MintJob): Promise<void> {
+    const { id, created_at, ...row } = toRow(job);
+    const { error } = await this.supabase.from('mint_jobs').update(row).eq('id', id);
+    if (error) throw error;
+  }
+
+  async listDue(now: string, limit: number): Promise<MintJob[]> {
+    const { data, error } = await this.supabase
+      .from('mint_jobs')
+      .select('*')
+      .not('status', 'in', `(${FINISHED.join(',')})`)
+      .lte('next_attempt_at', now)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  async claim(id: string, now: string, lockedUntil: string): Promise<MintJob | null> {
+    // Conditional update: only succeeds when no other worker holds a live lease
+    const { data, error } = await this.supabase
+      .from('mint_jobs')
+      .update({ locked_until: lockedUntil })
+      .eq('id', id)
+      .or(`locked_until.is.null,locked_until.lt.${now}`)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }
+}
+
+const toRow = (job: MintJob): MintJobRow => ({
+  id: job.id,
+  status: job.status,
+  token_id: job.tokenId,
+  metadata_url: job.metadataUrl,
+  user_account_id: job.userAccountId,
+  requested_by: job.requestedBy,
+  attempts: job.attempts,
+  max_attempts: job.maxAttempts,
+  serial_number: job.serialNumber,
+  mint_transaction_id: job.mintTransactionId,
+  transfer_transaction_id: job.transferTransactionId,
+  owner: job.owner,
+  last_error: job.lastError,
+  next_attempt_at: job.nextAttemptAt,
+  locked_until: job.lockedUntil,
+  created_at: job.createdAt,
+  updated_at: job.updatedAt
+});
+
+const fromRow = (row: MintJobRow): MintJob => ({
+  id: row.id,
+  status: row.status,
+  tokenId: row.token_id,
+  metadataUrl: row.metadata_url,
+  userAccountId: row.user_account_id,
+  requestedBy: row.requested_by,
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  serialNumber: row.serial_number,
+  mintTransactionId: row.mint_transaction_id,
+  transferTransactionId: row.transfer_transaction_id,
+  owner: row.owner,
+  lastError: row.last_error,
+  nextAttemptAt: row.next_attempt_at,
+  lockedUntil: row.locked_until,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Durable queue for mint-and-transfer jobs.
+ *
+ * Jobs are persisted before the request returns and processed by an
+ * in-process worker. Each step is saved as soon as it completes, so a
+ * restarted server picks up unfinished jobs from where they stopped.
+ */
+export class MintJobQueue {
+  private store: MintJobStore;
+  private context: MintJobContext | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private mirrorNodeUrl: string;
+
+  constructor(store?: MintJobStore) {
+    const network = process.env.HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+
+    const supabase = getSupabaseAdmin();
+    this.store = store || (supabase
+      ? new SupabaseMintJobStore(supabase)
+      : new FileMintJobStore(process.env.MINT_JOB_STORE_PATH || path.resolve('data', 'mint-jobs.json')));
+  }
+
+  getStoreType(): 'supabase' | 'file' {
+    return this.store instanceof SupabaseMintJobStore ? 'supabase' : 'file';
+  }
+
+  async enqueue(params: {
+    tokenId: string;
+    metadataUrl: string;
+    userAccountId: string | null;
+    requestedBy: string;
+  }): Promise<MintJob> {
+    const now = new Date().toISOString();
+    const job: MintJob = {
+      id: randomUUID(),
+      status: 'queued',
+      ...params,
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      serialNumber: null,
+      mintTransactionId: null,
+      transferTransactionId: null,
+      owner: null,
+      lastError: null,
+      nextAttemptAt: now,
+      lockedUntil: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.create(job);
+    console.log(`📥 Queued mint job ${job.id} for ${params.metadataUrl}`);
+
+    // Start right away instead of waiting for the next poll
+    setImmediate(() => this.tick());
+    return job;
+  }
+
+  async get(id: string): Promise<MintJob | null> {
+    return this.store.get(id);
+  }
+
+  start(context: MintJobContext): void {
+    if (this.timer) return;
+
+    this.context = context;
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    console.log(`🧵 Mint job worker started (${this.getStoreType()} store)`);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.processing || !this.context) return;
+    this.processing = true;
+
+    try {
+      const now = new Date().toISOString();
+      const due = await this.store.listDue(now, 10);
+
+      for (const candidate of due) {
+        const job = await this.store.claim(
+          candidate.id,
+          new Date().toISOString(),
+          new Date(Date.now() + LEASE_MS).toISOString()
+        );
+        if (job) {
+          await this.process(job, this.context);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Mint job worker error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async process(job: MintJob, context: MintJobContext): Promise<void> {
+    const { hederaService, supplyKey, treasuryAccountId, treasuryPrivateKey } = context;
+
+    try {
+      // Step 1: mint to the treasury
+      if (job.serialNumber === null) {
+        if (!job.mintTransactionId) {
+          job.mintTransactionId = await hederaService.submitMintNFT(job.tokenId, job.metadataUrl, supplyKey);
+          await this.save(job, 'minting');
+        }
+
+        const outcome = await this.settle(hederaService, job.mintTransactionId, () => {
+          job.mintTransactionId = null;
+        });
+        // Only this one NFT was minted by the transaction, so its serial is known for sure
+        const [serialNumber] = outcome.serials;
+        if (serialNumber === undefined) {
+          throw new PermanentJobError(`Mint transaction ${job.mintTransactionId} succeeded but its serial number is unknown`);
+        }
+
+        job.serialNumber = serialNumber;
+        job.owner = treasuryAccountId;
+        await this.save(job, 'minted');
+        console.log(`✅ Job ${job.id}: minted serial #${job.serialNumber}`);
+        context.onMinted?.(job);
+      }
+
+      // Step 2: transfer to the requesting user
+      if (job.userAccountId && job.userAccountId !== treasuryAccountId && job.owner !== job.userAccountId) {
+        if (!job.transferTransactionId) {
+          job.transferTransactionId = await hederaService.submitNFTTransfer(
+            job.tokenId,
+            job.serialNumber,
+            treasuryAccountId,
+            job.userAccountId,
+            treasuryPrivateKey
+          );
+          await this.save(job, 'transferring');
+        }
+
+        await this.settle(hederaService, job.transferTransactionId, () => {
+          job.transferTransactionId = null;
+        });
+        job.owner = job.userAccountId;
+        console.log(`✅ Job ${job.id}: transferred #${job.serialNumber} to ${job.userAccountId}`);
+      }
+
+      job.lastError = null;
+      job.lockedUntil = null;
+      await this.save(job, 'completed');
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      job.lastError = message;
+      job.lockedUntil = null;
+
+      // Until it expires the transaction can still succeed, so failing the job could strand the NFT in the treasury
+      if (error instanceof PendingTransactionError) {
+        console.log(`⏳ Job ${job.id}: ${message}, checking again in ${PENDING_RECHECK_MS / 1000}s`);
+        job.nextAttemptAt = new Date(Date.now() + PENDING_RECHECK_MS).toISOString();
+        await this.save(job, job.status);
+        return;
+      }
+
+      job.attempts++;
+      if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+        console.error(`❌ Job ${job.id} failed after ${job.attempts} attempts:`, message);
+        await this.save(job, 'failed');
+      } else {
+        const delay = retryDelayMs(job.attempts);
+        console.warn(`⚠️ Job ${job.id} attempt ${job.attempts} failed, retrying in ${delay / 1000}s:`, message);
+        job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        await this.save(job, job.status);
+      }
+    }
+  }
+
+  /**
+   * Check that a submitted mint or transfer succeeded. When it failed or can
+   * no longer reach consensus, `resubmit` clears its ID so the next attempt
+   * submits it again and the attempt fails. A transaction with no outcome
+   * yet throws `PendingTransactionError`.
+   */
+  private async settle(
+    hederaService: HederaService,
+    transactionId: string,
+    resubmit: () => void
+  ): Promise<{ serials: number[] }> {
+    const outcome = await this.outcomeOf(hederaService, transactionId);
+
+    switch (outcome.state) {
+      case 'succeeded':
+        return outcome;
+      case 'pending':
+        throw new PendingTransactionError(`Transaction ${transactionId} has no receipt or mirror node record yet`);
+      case 'failed':
+        resubmit();
+        throw new Error(`Transaction ${transactionId} failed: ${outcome.result}`);
+      case 'expired':
+        resubmit();
+        throw new Error(`Transaction ${transactionId} never reached consensus`);
+    }
+  }
+
+  /**
+   * The receipt of a submitted transaction while the network still has it,
+   * else the transaction's record on the mirror node
+   */
+  private async outcomeOf(hederaService: HederaService, transactionId: string): Promise<TransactionOutcome> {
+    try {
+      const receipt = await hederaService.getTransactionReceipt(transactionId);
+      return { state: 'succeeded', serials: (receipt.serials || []).map(serial => serial.toNumber()) };
+    } catch (error) {
+      // Reached consensus and failed
+      if (error instanceof ReceiptStatusError) {
+        return { state: 'failed', result: error.status.toString() };
+      }
+      console.warn(`⚠️ No receipt for ${transactionId}, checking the mirror node:`, error instanceof Error ? error.message : error);
+    }
+
+    return this.lookUpTransaction(transactionId);
+  }
+
+  private async lookUpTransaction(transactionId: string): Promise<TransactionOutcome> {
+    // 0.0.123@1700000000.000000001 is 0.0.123-1700000000-000000001 on the mirror node
+    const match = /^(\d+\.\d+\.\d+)@(\d+)\.(\d+)$/.exec(transactionId);
+    if (!match) {
+      throw new PermanentJobError(`Transaction ID ${transactionId} cannot be looked up`);
+    }
+    const [, accountId, seconds, nanos] = match;
+    const notFound: TransactionOutcome = Date.now() > Number(seconds) * 1000 + TRANSACTION_EXPIRY_MS
+      ? { state: 'expired' }
+      : { state: 'pending' };
+
+    const response = await fetch(`${this.mirrorNodeUrl}/api/v1/transactions/${accountId}-${seconds}-${nanos}`);
+    if (response.status === 404) return notFound;
+    if (!response.ok) {
+      throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+    }
+
+    const { transactions = [] }: { transactions?: MirrorTransaction[] } = await response.json();
+    // The transaction itself, not a child or scheduled transaction sharing its ID
+    const transaction = transactions.find(entry => !entry.scheduled && !entry.nonce);
+    if (!transaction) return notFound;
+
+    if (transaction.result !== 'SUCCESS') {
+      return { state: 'failed', result: transaction.result };
+    }
+    // Minted serials are the NFT transfers without a sender
+    const serials = (transaction.nft_transfers || [])
+      .filter(transfer => transfer.sender_account_id === null)
+      .map(transfer => transfer.serial_number)
+      .sort((a, b) => a - b);
+    return { state: 'succeeded', serials };
+  }
+
+  private async save(job: MintJob, status: MintJobStatus): Promise<void> {
+    job.status = status;
+    job.updatedAt = new Date().toISOString();
+    await this.store.update(job);
+  }
+}
+
+// Singleton instance
+export const mintJobQueue = new MintJobQueue();
@@ -0,0 +1,77 @@
+import { cacheService } from './cacheService';
+import { parseIPFSUrl } from '../src/utils/cid';
+import { validateHIP412Metadata } from '../src/utils/hip412';
+
+/**
+ * On-chain NFT metadata as the mirror node returns it (base64)
+ */
+export const decodeMetadata = (metadata: string): string =>
+  metadata ? Buffer.from(metadata, 'base64').toString('utf8') : '';
+
+/**
+ * `cid` or `cid/path` of on-chain metadata that points at IPFS; null for
+ * inline JSON or other URLs
+ */
+export const getMetadataIPFSPath = (rawMetadata: string): string | null => {
+  const ipfs = parseIPFSUrl(rawMetadata);
+  return ipfs && (ipfs.path ? `${ipfs.cid}/${ipfs.path}` : ipfs.cid);
+};
+
+/**
+ * The metadata document for on-chain metadata: inline JSON, or an ipfs:// or
+ * http(s) URL to a document. Documents are cached by the cache service.
+ * Returns null when the document cannot be fetched or parsed.
+ */
+export const resolveMetadata = async (rawMetadata: string, ipfsGatewayUrl: string): Promise<unknown> => {
+  try {
+    return JSON.parse(rawMetadata);
+  } catch {
+    // Not inline JSON - treat it as a URL
+  }
+
+  const ipfsPath = getMetadataIPFSPath(rawMetadata);
+  const cacheKey = ipfsPath || rawMetadata;
+  const cached = cacheService.getMetadata(cacheKey);
+  if (cached) return cached;
+
+  let url: string | null = null;
+  if (ipfsPath) {
+    url = `${ipfsGatewayUrl}${ipfsPath}`;
+  } else if (/^https?:\/\//.test(rawMetadata)) {
+    url = rawMetadata;
+  }
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return null;
+
+    const metadata = await response.json();
+    cacheService.setMetadata(cacheKey, metadata);
+    return metadata;
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve metadata ${rawMetadata}:`, error);
+    return null;
+  }
+};
+
+export interface InvalidMetadata {
+  metadataUrl: string;
+  issues: string[];
+}
+
+/**
+ * Metadata documents that do not follow HIP-412. Documents that cannot be
+ * fetched are not reported; a slow gateway should not block a mint.
+ */
+export const findInvalidMetadata = async (metadataUrls: string[], ipfsGatewayUrl: string): Promise<InvalidMetadata[]> => {
+  const results = await Promise.all(metadataUrls.map(async metadataUrl => {
+    const metadata = await resolveMetadata(metadataUrl, ipfsGatewayUrl);
+    if (metadata === null) return null;
+
+    const validation = validateHIP412Metadata(metadata);
+    return validation.success ? null : { metadataUrl, issues: validation.issues };
+  }));
+
+  return results.filter((result): result is InvalidMetadata => result !== null);
+};
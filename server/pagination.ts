@@ -0,0 +1,18 @@
+/**
+ * Opaque page cursors for collection listings.
+ *
+ * A cursor is base64url({ after: <last serial returned> }), the same format the
+ * `hedera-mirror-nfts` edge function derives from the mirror node's `links.next`,
+ * so a client can continue a listing on whichever backend answers.
+ */
+export const encodeCursor = (after: number): string =>
+  Buffer.from(JSON.stringify({ after })).toString('base64url');
+
+export const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { after } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(after) && after >= 0 ? after : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,322 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { ServerStorageProvider } from './storageProvider';
+import { decodeMetadata, resolveMetadata } from './nftMetadata';
+import { parseCID, parseIPFSUrl } from '../src/utils/cid';
+import { PUBLIC_IPFS_GATEWAYS } from '../src/utils/ipfsGateways';
+
+export type PinStatus =
+  | 'pinned'      // In the provider's pin set
+  | 'repinned'    // Was missing and is pinned again
+  | 'repin-queued' // Was missing; the provider is fetching it
+  | 'unpinned'    // Missing but still served somewhere; re-pinning is off
+  | 'lost'        // Missing and no gateway serves it
+  | 'failed';     // Missing, served somewhere, but re-pinning failed
+
+export interface PinCheck {
+  cid: string;
+  kind: 'metadata' | 'media';
+  serialNumbers: number[];
+  status: PinStatus;
+  /** Gateway that still served the content */
+  source?: string;
+  error?: string;
+}
+
+export interface PinHealthReport {
+  tokenId: string;
+  provider: string;
+  startedAt: string;
+  finishedAt: string;
+  nfts: number;
+  totals: Record<PinStatus, number>;
+  /** NFTs whose metadata document could not be read, so their media was not checked */
+  unresolvedMetadata: number[];
+  /** Every CID that is not simply pinned */
+  problems: PinCheck[];
+}
+
+interface MirrorNFT {
+  deleted: boolean;
+  metadata: string;
+  serial_number: number;
+}
+
+const PAGE_SIZE = 100;
+const CHECK_CONCURRENCY = 5;
+const METADATA_CONCURRENCY = 10;
+const GATEWAY_TIMEOUT_MS = 15000;
+// Whole download of a re-upload, body included; a stalled gateway must not hold the run forever
+const REUPLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const QUEUED_REPIN_TTL_MS = 24 * 60 * 60 * 1000; // Don't re-request a queued pin for a day
+
+// Pin lists mix CIDv0 and CIDv1; compare them as CIDv1
+const normalizeCID = (cid: string): string | null => {
+  const parsed = parseCID(cid);
+  return parsed ? parsed.toV1().toString() : null;
+};
+
+/**
+ * Checks that the media and metadata of every NFT in the collection are still
+ * pinned by the storage provider, and re-pins what is missing.
+ *
+ * Each run reads the collection from the mirror node, collects the metadata
+ * CID and the media CIDs (`image` and HIP-412 `files[]`) of every NFT and
+ * compares them with the provider's pin list. A missing CID is looked up on
+ * the provider's own gateway (a local copy, e.g. on a Kubo node) and then on
+ * public gateways (other nodes still providing it). If anything serves it the
+ * provider is asked to pin it by CID; when that fails the content is streamed
+ * from that gateway and uploaded again. The last run's report is kept in
+ * memory for the health endpoint.
+ */
+export class PinMonitor {
+  private report: PinHealthReport | null = null;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queuedRepins = new Map<string, number>();
+  private mirrorNodeUrl: string;
+  private ipfsGatewayUrl: string;
+
+  constructor(private repin = process.env.PIN_MONITOR_REPIN !== 'false') {
+    const network = process.env.HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+    this.ipfsGatewayUrl = `${process.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud'}/ipfs/`;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getReport(): PinHealthReport | null {
+    return this.report;
+  }
+
+  /**
+   * Check the collection every `intervalMinutes`, starting now
+   */
+  start(tokenId: string, provider: ServerStorageProvider, intervalMinutes: number): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      try {
+        await this.run(tokenId, provider);
+      } catch (error) {
+        console.error('❌ Pin check failed:', error instanceof Error ? error.message : error);
+      }
+      this.timer = setTimeout(tick, intervalMinutes * 60 * 1000);
+    };
+
+    console.log(`📌 Pin monitor started for ${tokenId} (every ${intervalMinutes} minutes)`);
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run(tokenId: string, provider: ServerStorageProvider): Promise<PinHealthReport> {
+    if (this.running) {
+      throw new Error('Pin check is already running');
+    }
+
+    this.running = true;
+    const startedAt = new Date().toISOString();
+    console.log(`📌 Checking pins for ${tokenId} on ${provider.name}`);
+
+    try {
+      const pinned = new Set<string>();
+      for (const cid of await provider.listPins()) {
+        const normalized = normalizeCID(cid);
+        if (normalized) pinned.add(normalized);
+      }
+
+      const { checks, nfts, unresolvedMetadata } = await this.collect(tokenId);
+
+      const pending = [...checks.values()];
+      const workers = Array.from({ length: CHECK_CONCURRENCY }, async () => {
+        for (let check = pending.shift(); check; check = pending.shift()) {
+          await this.check(check, pinned, provider);
+        }
+      });
+      await Promise.all(workers);
+
+      const totals: Record<PinStatus, number> = {
+        pinned: 0, repinned: 0, 'repin-queued': 0, unpinned: 0, lost: 0, failed: 0
+      };
+      for (const check of checks.values()) {
+        totals[check.status]++;
+      }
+
+      this.report = {
+        tokenId,
+        provider: provider.name,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        nfts,
+        totals,
+        unresolvedMetadata,
+        problems: [...checks.values()].filter(check => check.status !== 'pinned')
+      };
+
+      const summary = Object.entries(totals).filter(([, count]) => count > 0).map(([status, count]) => `${count} ${status}`);
+      console.log(`📌 Pin check for ${tokenId} finished: ${summary.join(', ') || 'nothing to check'}`);
+      return this.report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Every metadata and media CID in the collection, with the NFTs using it
+   */
+  private async collect(tokenId: string): Promise<{ checks: Map<string, PinCheck>; nfts: number; unresolvedMetadata: number[] }> {
+    const checks = new Map<string, PinCheck>();
+    const unresolvedMetadata: number[] = [];
+    let nfts = 0;
+
+    const add = (uri: unknown, kind: PinCheck['kind'], serialNumber: number) => {
+      const parsed = typeof uri === 'string' ? parseIPFSUrl(uri) : null;
+      // Files inside a directory are pinned with the directory
+      const cid = parsed && normalizeCID(parsed.cid);
+      if (!cid) return;
+
+      const check = checks.get(cid);
+      if (check) {
+        if (!check.serialNumbers.includes(serialNumber)) check.serialNumbers.push(serialNumber);
+      } else {
+        checks.set(cid, { cid, kind, serialNumbers: [serialNumber], status: 'pinned' });
+      }
+    };
+
+    let path: string | null = `/api/v1/tokens/${tokenId}/nfts?limit=${PAGE_SIZE}&order=asc`;
+    while (path) {
+      const response = await fetch(`${this.mirrorNodeUrl}${path}`);
+      if (!response.ok) {
+        throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+      }
+
+      const page: { nfts?: MirrorNFT[]; links?: { next: string | null } } = await response.json();
+      const pageNFTs = (page.nfts || []).filter(nft => !nft.deleted && nft.metadata);
+      nfts += pageNFTs.length;
+
+      for (let i = 0; i < pageNFTs.length; i += METADATA_CONCURRENCY) {
+        const batch = pageNFTs.slice(i, i + METADATA_CONCURRENCY);
+        const rawMetadata = batch.map(nft => decodeMetadata(nft.metadata));
+        const documents = await Promise.all(rawMetadata.map(raw => resolveMetadata(raw, this.ipfsGatewayUrl)));
+
+        batch.forEach((nft, position) => {
+          add(rawMetadata[position], 'metadata', nft.serial_number);
+
+          const metadata = documents[position];
+          if (!metadata || typeof metadata !== 'object') {
+            unresolvedMetadata.push(nft.serial_number);
+            return;
+          }
+
+          const { image, files } = metadata as { image?: unknown; files?: unknown };
+          add(image, 'media', nft.serial_number);
+          if (Array.isArray(files)) {
+            for (const file of files) {
+              add(file?.uri, 'media', nft.serial_number);
+            }
+          }
+        });
+      }
+      path = page.links?.next || null;
+    }
+
+    return { checks, nfts, unresolvedMetadata };
+  }
+
+  private async check(check: PinCheck, pinned: Set<string>, provider: ServerStorageProvider): Promise<void> {
+    if (pinned.has(check.cid)) {
+      this.queuedRepins.delete(check.cid);
+      return;
+    }
+
+    const queuedAt = this.queuedRepins.get(check.cid);
+    if (queuedAt && Date.now() - queuedAt < QUEUED_REPIN_TTL_MS) {
+      check.status = 'repin-queued';
+      return;
+    }
+
+    const source = await this.findSource(check.cid, provider);
+    if (!source) {
+      check.status = 'lost';
+      console.warn(`⚠️ ${check.cid} (${check.kind} of NFT ${check.serialNumbers.join(', ')}) is not pinned and no gateway serves it`);
+      return;
+    }
+
+    check.source = source;
+    if (!this.repin) {
+      check.status = 'unpinned';
+      return;
+    }
+
+    try {
+      const result = await provider.pin(check.cid);
+      if (result === 'queued') {
+        this.queuedRepins.set(check.cid, Date.now());
+        check.status = 'repin-queued';
+      } else {
+        check.status = 'repinned';
+      }
+      console.log(`📌 Re-pinned ${check.cid} (${result})`);
+    } catch (pinError) {
+      console.warn(`⚠️ Pin by CID failed for ${check.cid}, uploading it from ${source}:`, pinError);
+      try {
+        await this.reupload(check, source, provider);
+        check.status = 'repinned';
+      } catch (error) {
+        check.status = 'failed';
+        check.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+  }
+
+  /**
+   * Gateway serving the CID, trying the provider's own gateway first
+   */
+  private async findSource(cid: string, provider: ServerStorageProvider): Promise<string | null> {
+    const gateways = [provider.gatewayUrl, ...PUBLIC_IPFS_GATEWAYS.filter(gateway => gateway !== provider.gatewayUrl)];
+
+    for (const gateway of gateways) {
+      try {
+        const response = await fetch(`${gateway}/ipfs/${cid}`, {
+          method: 'HEAD',
+          signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS)
+        });
+        if (response.ok) return gateway;
+      } catch {
+        // Try the next gateway
+      }
+    }
+    return null;
+  }
+
+  private async reupload(check: PinCheck, source: string, provider: ServerStorageProvider): Promise<void> {
+    const response = await fetch(`${source}/ipfs/${check.cid}`, {
+      signal: AbortSignal.timeout(REUPLOAD_TIMEOUT_MS)
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`${source} answered ${response.status}`);
+    }
+
+    const stored = await provider.uploadStream(
+      Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      { fileName: check.cid, mimeType: response.headers.get('content-type') || 'application/octet-stream' }
+    );
+
+    // Content added with other chunking settings gets a different CID and does not help the NFT
+    if (normalizeCID(stored.cid) !== check.cid) {
+      throw new Error(`Re-uploaded content got a different CID (${stored.cid})`);
+    }
+  }
+}
+
+export const pinMonitor = new PinMonitor();
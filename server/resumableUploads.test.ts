@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { setTimeout as delay } from 'timers/promises';
+import type { ServerStorageProvider } from './storageProvider';
+import { ResumableUploadManager } from './resumableUploads';
+import { MediaUploadResult, UploadRejectedError, storeMedia } from './uploads';
+
+vi.mock('./uploads', async importOriginal => ({
+  ...await importOriginal<typeof import('./uploads')>(),
+  storeMedia: vi.fn()
+}));
+
+const provider = {} as ServerStorageProvider;
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(24, 1)]);
+const stored = { file: { ipfsHash: 'bafyfile' }, metadata: null, rendition: null } as unknown as MediaUploadResult;
+
+let directory: string;
+let uploads: ResumableUploadManager;
+let storedBytes: Buffer | null;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'resumable-'));
+  uploads = new ResumableUploadManager(directory);
+  storedBytes = null;
+  vi.mocked(storeMedia).mockReset().mockImplementation(async (_provider, stream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    storedBytes = Buffer.concat(chunks);
+    return stored;
+  });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const create = (size = PNG.length) =>
+  uploads.create({ ownerId: '0.0.1001', fileName: 'dir/photo.png', mimeType: 'image/png', size });
+
+const chunk = (bytes: Buffer) => Readable.from([bytes]);
+
+/** Rejection status of a promise that should fail with an UploadRejectedError */
+const statusOf = async (promise: Promise<unknown>) => {
+  const error = await promise.then(() => null, caught => caught);
+  expect(error).toBeInstanceOf(UploadRejectedError);
+  return (error as UploadRejectedError).status;
+};
+
+describe('ResumableUploadManager.create', () => {
+  it('rejects sizes that are not positive integers or over the limit', async () => {
+    expect(await statusOf(create(0))).toBe(400);
+    expect(await statusOf(create(1.5))).toBe(400);
+    expect(await statusOf(create(51 * 1024 * 1024))).toBe(413);
+  });
+
+  it('rejects unsupported types and caption metadata', async () => {
+    expect(await statusOf(uploads.create({ ownerId: 'a', fileName: 'a.exe', mimeType: 'application/x-msdownload', size: 10 }))).toBe(415);
+    expect(await statusOf(uploads.create({ ownerId: 'a', fileName: 'a.vtt', mimeType: 'text/vtt', size: 10, metadata: { name: 'x' } }))).toBe(400);
+  });
+
+  it('starts at offset 0 with the bare file name', async () => {
+    expect(await create()).toMatchObject({ offset: 0, status: 'uploading', fileName: 'photo.png', size: PNG.length });
+  });
+});
+
+describe('ResumableUploadManager.append', () => {
+  it('appends chunks at the offset and stores the file when the last byte arrives', async () => {
+    const { id } = await create();
+
+    const first = await uploads.append(id, 0, chunk(PNG.subarray(0, 10)), provider);
+    expect(first).toMatchObject({ offset: 10, status: 'uploading' });
+
+    const last = await uploads.append(id, 10, chunk(PNG.subarray(10)), provider);
+    expect(last).toMatchObject({ offset: PNG.length, status: 'completed', result: stored });
+    expect(storedBytes).toEqual(PNG);
+    expect(storeMedia).toHaveBeenCalledWith(provider, expect.anything(), { fileName: 'photo.png', mimeType: 'image/png' }, null);
+    await expect(fs.access(path.join(directory, `${id}.part`))).rejects.toThrow();
+  });
+
+  it('refuses a chunk at any other offset', async () => {
+    const { id } = await create();
+    await uploads.append(id, 0, chunk(PNG.subarray(0, 10)), provider);
+
+    expect(await statusOf(uploads.append(id, 0, chunk(PNG.subarray(0, 10)), provider))).toBe(409);
+    expect(await statusOf(uploads.append(id, 12, chunk(PNG.subarray(12)), provider))).toBe(409);
+    expect((await uploads.get(id))?.offset).toBe(10);
+  });
+
+  it('refuses a chunk that runs past the declared size', async () => {
+    const { id } = await create();
+
+    expect(await statusOf(uploads.append(id, 0, chunk(Buffer.concat([PNG, Buffer.from('x')])), provider))).toBe(413);
+    expect((await uploads.get(id))?.offset).toBe(0);
+  });
+
+  it('keeps the bytes of an interrupted chunk so the upload resumes after them', async () => {
+    const { id } = await create();
+    const interrupted = Readable.from((async function* () {
+      yield PNG.subarray(0, 16);
+      await delay(20);
+      throw new Error('connection reset');
+    })());
+
+    await expect(uploads.append(id, 0, interrupted, provider)).rejects.toThrow('connection reset');
+    expect((await uploads.get(id))?.offset).toBe(16);
+
+    expect(await uploads.append(id, 16, chunk(PNG.subarray(16)), provider)).toMatchObject({ status: 'completed' });
+    expect(storedBytes).toEqual(PNG);
+  });
+
+  it('allows one writer per upload', async () => {
+    const { id } = await create();
+    const slow = Readable.from((async function* () {
+      await delay(20);
+      yield PNG.subarray(0, 4);
+    })());
+
+    const writing = uploads.append(id, 0, slow, provider);
+    expect(await statusOf(uploads.append(id, 0, chunk(PNG.subarray(0, 4)), provider))).toBe(409);
+    expect(await writing).toMatchObject({ offset: 4 });
+  });
+
+  it('lets an empty chunk at the full size retry a failed store', async () => {
+    const { id } = await create();
+    vi.mocked(storeMedia).mockRejectedValueOnce(new Error('Pinata is down'));
+
+    await expect(uploads.append(id, 0, chunk(PNG), provider)).rejects.toThrow('Pinata is down');
+    expect(await uploads.get(id)).toMatchObject({ status: 'uploading', offset: PNG.length, error: 'Pinata is down' });
+
+    expect(await uploads.append(id, PNG.length, chunk(Buffer.alloc(0)), provider)).toMatchObject({ status: 'completed' });
+  });
+
+  it('fails the upload for good when the content is rejected', async () => {
+    const { id } = await create();
+    vi.mocked(storeMedia).mockRejectedValueOnce(new UploadRejectedError('File content does not match image/png', 415));
+
+    expect(await statusOf(uploads.append(id, 0, chunk(PNG), provider))).toBe(415);
+    expect(await uploads.get(id)).toMatchObject({ status: 'failed' });
+    expect(await statusOf(uploads.append(id, PNG.length, chunk(Buffer.alloc(0)), provider))).toBe(409);
+  });
+});
+
+describe('ResumableUploadManager sessions', () => {
+  it('survive a restart, taking the offset from the partial file', async () => {
+    const { id } = await create();
+    await uploads.append(id, 0, chunk(PNG.subarray(0, 10)), provider);
+    await fs.appendFile(path.join(directory, `${id}.part`), PNG.subarray(10, 12));
+
+    const restarted = new ResumableUploadManager(directory);
+    expect(await restarted.get(id)).toMatchObject({ offset: 12, status: 'uploading' });
+  });
+
+  it('retry storing that a restart interrupted', async () => {
+    const { id } = await create();
+    await uploads.append(id, 0, chunk(PNG.subarray(0, 10)), provider);
+    const sessionPath = path.join(directory, `${id}.json`);
+    const session = JSON.parse(await fs.readFile(sessionPath, 'utf8'));
+    await fs.writeFile(sessionPath, JSON.stringify({ ...session, status: 'processing' }));
+
+    expect(await new ResumableUploadManager(directory).get(id)).toMatchObject({ status: 'uploading' });
+  });
+
+  it('expire after 24 hours', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-01-01T00:00:00.000Z') });
+    const { id } = await create();
+
+    vi.setSystemTime(new Date('2024-01-02T00:00:01.000Z'));
+    expect(await uploads.get(id)).toBeNull();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('take metadata changes only while uploading', async () => {
+    const { id } = await create();
+    const updated = await uploads.updateMetadata(id, { name: 'Sunset', description: '', tags: [] });
+    expect(updated.metadata).toMatchObject({ name: 'Sunset' });
+
+    await uploads.append(id, 0, chunk(PNG), provider);
+    expect(await statusOf(uploads.updateMetadata(id, { name: 'Dusk', description: '', tags: [] }))).toBe(409);
+  });
+
+  it('ignore IDs that are not session IDs', async () => {
+    expect(await uploads.get('../../etc/passwd')).toBeNull();
+  });
+});
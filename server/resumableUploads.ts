@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ServerStorageProvider } from './storageProvider';
+import {
+  MAX_UPLOAD_BYTES,
+  MediaUploadResult,
+  UploadRejectedError,
+  checkUploadMetadata,
+  getUploadMediaType,
+  storeMedia,
+  validateMetadata
+} from './uploads';
+import type { MetadataDraft } from '../src/utils/hip412';
+
+export type UploadSessionStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+export interface UploadSession {
+  id: string;
+  ownerId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  /** Bytes received so far; the next chunk must start here */
+  offset: number;
+  metadata: MetadataDraft | null;
+  status: UploadSessionStatus;
+  result: MediaUploadResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface CreateUploadSessionInput {
+  ownerId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  metadata?: unknown;
+}
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rejects a chunk that would take the upload past its declared size
+ */
+class ByteLimit extends Transform {
+  private received = 0;
+
+  constructor(private limit: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.received += chunk.length;
+    if (this.received > this.limit) {
+      callback(new UploadRejectedError('Chunk runs past the declared upload size', 413));
+      return;
+    }
+    callback(null, chunk);
+  }
+}
+
+/**
+ * Resumable (tus-style) uploads. A session is created with the file's size,
+ * type and metadata; chunks are then appended at the session's current offset
+ * and a dropped chunk is resumed from whatever reached the disk. When the last
+ * byte arrives the assembled file is checked and stored like a single-request
+ * upload.
+ *
+ * Each session is `<id>.json` plus the partial file `<id>.part` in the upload
+ * directory, so uploads survive an API restart until they expire (24 hours).
+ */
+export class ResumableUploadManager {
+  // Sessions with a chunk being written or stored right now (one writer per session)
+  private active = new Set<string>();
+
+  constructor(private directory: string) {}
+
+  async create(input: CreateUploadSessionInput): Promise<UploadSession> {
+    checkUploadMetadata(getUploadMediaType(input.mimeType), input.metadata);
+
+    if (!Number.isInteger(input.size) || input.size <= 0) {
+      throw new UploadRejectedError('size must be a positive integer', 400);
+    }
+    if (input.size > MAX_UPLOAD_BYTES) {
+      throw new UploadRejectedError(`File must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`, 413);
+    }
+    if (!input.fileName) {
+      throw new UploadRejectedError('fileName is required', 400);
+    }
+
+    await this.purgeExpired();
+
+    const now = new Date();
+    const session: UploadSession = {
+      id: randomUUID(),
+      ownerId: input.ownerId,
+      fileName: path.basename(input.fileName),
+      mimeType: input.mimeType,
+      size: input.size,
+      offset: 0,
+      metadata: input.metadata === undefined || input.metadata === null ? null : validateMetadata(input.metadata),
+      status: 'uploading',
+      result: null,
+      error: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.partPath(session.id), '');
+    await this.save(session);
+    return session;
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    // Session IDs come from the URL
+    if (!/^[0-9a-f-]{36}$/.test(id)) return null;
+
+    let session: UploadSession;
+    try {
+      session = JSON.parse(await fs.readFile(this.sessionPath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    if (session.expiresAt < new Date().toISOString()) {
+      await this.remove(id);
+      return null;
+    }
+
+    // The partial file is the source of truth for the offset
+    if (session.status === 'uploading' || session.status === 'processing') {
+      session.offset = await this.partSize(id);
+    }
+
+    // Storing was interrupted by a restart; the last chunk request retries it
+    if (session.status === 'processing' && !this.active.has(id)) {
+      session.status = 'uploading';
+    }
+
+    return session;
+  }
+
+  /**
+   * Append a chunk that starts at `offset`. Returns the updated session; when
+   * the chunk completes the file, the session comes back `completed` with the
+   * stored file and metadata. An empty chunk at the full size retries storing.
+   */
+  async append(
+    id: string,
+    offset: number,
+    chunk: Readable,
+    provider: ServerStorageProvider
+  ): Promise<UploadSession> {
+    if (this.active.has(id)) {
+      throw new UploadRejectedError('Another request is already writing to this upload', 409);
+    }
+    this.active.add(id);
+
+    try {
+      const session = await this.get(id);
+      if (!session) {
+        throw new UploadRejectedError('Upload not found', 404);
+      }
+      if (session.status !== 'uploading') {
+        throw new UploadRejectedError(`Upload is already ${session.status}`, 409);
+      }
+      if (offset !== session.offset) {
+        throw new UploadRejectedError(`Upload-Offset ${offset} does not match the upload offset ${session.offset}`, 409);
+      }
+
+      let writeError: unknown = null;
+      try {
+        await pipeline(
+          chunk,
+          new ByteLimit(session.size - session.offset),
+          createWriteStream(this.partPath(id), { flags: 'a' })
+        );
+      } catch (error) {
+        writeError = error;
+      }
+
+      // Keep whatever reached the disk, even from an interrupted chunk
+      session.offset = await this.partSize(id);
+      session.updatedAt = new Date().toISOString();
+      await this.save(session);
+
+      if (writeError) throw writeError;
+
+      if (session.offset === session.size) {
+        await this.finish(session, provider);
+      }
+      return session;
+    } finally {
+      this.active.delete(id);
+    }
+  }
+
+  /**
+   * Replace the metadata stored with the file, e.g. when an upload is resumed
+   * after the form was edited. Only possible until the file is stored.
+   */
+  async updateMetadata(id: string, metadata: unknown): Promise<UploadSession> {
+    const session = await this.get(id);
+    if (!session) {
+      throw new UploadRejectedError('Upload not found', 404);
+    }
+    if (session.status !== 'uploading' || this.active.has(id)) {
+      throw new UploadRejectedError('Upload metadata can no longer be changed', 409);
+    }
+    checkUploadMetadata(getUploadMediaType(session.mimeType), metadata);
+
+    session.metadata = metadata === undefined || metadata === null ? null : validateMetadata(metadata);
+    session.updatedAt = new Date().toISOString();
+    await this.save(session);
+    return session;
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.partPath(id), { force: true });
+    await fs.rm(this.sessionPath(id), { force: true });
+  }
+
+  private async finish(session: UploadSession, provider: ServerStorageProvider): Promise<void> {
+    session.status = 'processing';
+    await this.save(session);
+
+    try {
+      session.result = await storeMedia(
+        provider,
+        createReadStream(this.partPath(session.id)),
+        { fileName: session.fileName, mimeType: session.mimeType },
+        session.metadata
+      );
+      session.status = 'completed';
+      session.error = null;
+      await fs.rm(this.partPath(session.id), { force: true });
+    } catch (error) {
+      // Bad content fails the upload for good; provider errors can be retried
+      const rejected = error instanceof UploadRejectedError;
+      session.status = rejected ? 'failed' : 'uploading';
+      session.error = error instanceof Error ? error.message : 'Unknown error';
+      if (rejected) {
+        await fs.rm(this.partPath(session.id), { force: true });
+      }
+      throw error;
+    } finally {
+      session.updatedAt = new Date().toISOString();
+      await this.save(session);
+    }
+  }
+
+  private async purgeExpired(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    // get() drops expired sessions
+    await Promise.all(entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => this.get(entry.slice(0, -'.json'.length))));
+  }
+
+  private async partSize(id: string): Promise<number> {
+    try {
+      return (await fs.stat(this.partPath(id))).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+  }
+
+  private async save(session: UploadSession): Promise<void> {
+    const filePath = this.sessionPath(session.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(session, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private sessionPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private partPath(id: string): string {
+    return path.join(this.directory, `${id}.part`);
+  }
+}
+
+export const resumableUploads = new ResumableUploadManager(
+  process.env.UPLOAD_SESSION_DIR || path.join(process.cwd(), 'data', 'uploads')
+);
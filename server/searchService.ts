@@ -0,0 +1,86 @@
+import { getSupabaseAdmin } from './supabaseAdmin';
+import type { SearchFilters } from '../src/types/hedera';
+
+interface SearchRow {
+  token_id: string;
+  serial_number: number;
+  account_id: string;
+  metadata_url: string | null;
+  metadata_content: unknown;
+  created_at: string;
+  rank: number;
+  total_count: number;
+}
+
+export interface SearchResult {
+  nfts: Array<{
+    tokenId: string;
+    serialNumber: number;
+    accountId: string;
+    metadata: { metadataUrl: string };
+    metadataContent: unknown;
+    createdAt: string;
+    rank: number;
+  }>;
+  total: number;
+  hasMore: boolean;
+  limit: number;
+  offset: number;
+}
+
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Full-text search over the indexed `nfts` table (see the `search_nfts` SQL
+ * function). Results use the same NFT shape as `/api/collection/nfts`.
+ */
+export class SearchService {
+  isAvailable(): boolean {
+    return getSupabaseAdmin() !== null;
+  }
+
+  async search(tokenId: string, filters: SearchFilters, limit = 50, offset = 0): Promise<SearchResult> {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      throw new Error('Search requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    }
+
+    const pageSize = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+
+    const { data, error } = await supabase.rpc('search_nfts', {
+      p_token_id: tokenId,
+      p_query: filters.query || null,
+      p_tags: filters.tags?.length ? filters.tags : null,
+      p_media_type: filters.mediaType && filters.mediaType !== 'all' ? filters.mediaType : null,
+      p_date_start: filters.dateRange?.start || null,
+      p_date_end: filters.dateRange?.end || null,
+      p_sort_by: filters.sortBy || (filters.query ? 'relevance' : 'newest'),
+      p_limit: pageSize,
+      p_offset: offset
+    });
+
+    if (error) throw error;
+
+    const rows: SearchRow[] = data || [];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return {
+      nfts: rows.map(row => ({
+        tokenId: row.token_id,
+        serialNumber: row.serial_number,
+        accountId: row.account_id,
+        metadata: { metadataUrl: row.metadata_url || '' },
+        metadataContent: row.metadata_content,
+        createdAt: row.created_at,
+        rank: row.rank
+      })),
+      total,
+      hasMore: offset + rows.length < total,
+      limit: pageSize,
+      offset
+    };
+  }
+}
+
+// Singleton instance
+export const searchService = new SearchService();
@@ -0,0 +1,198 @@
+import { createReadStream, openAsBlob } from 'fs';
+import { Readable } from 'stream';
+import { PinataSDK } from 'pinata-web3';
+import type { IPFSHTTPClient } from 'ipfs-http-client';
+
+export type ServerStorageProviderName = 'pinata' | 'kubo';
+
+export interface StoredObject {
+  cid: string;
+  size: number;
+}
+
+/** `pinned` when the content is pinned on return, `queued` for a pin job the provider finishes later */
+export type PinRequestResult = 'pinned' | 'queued';
+
+export interface UploadStreamOptions {
+  fileName: string;
+  mimeType: string;
+}
+
+/** A file on local disk and its path inside an uploaded directory */
+export interface DirectoryFile {
+  path: string;
+  filePath: string;
+  mimeType: string;
+}
+
+/**
+ * Where the upload proxy (/api/uploads) stores media and metadata. Credentials
+ * live in the server environment only; the browser never talks to the provider.
+ */
+export interface ServerStorageProvider {
+  readonly name: ServerStorageProviderName;
+  readonly gatewayUrl: string;
+  uploadStream(stream: Readable, options: UploadStreamOptions): Promise<StoredObject>;
+  uploadJSON(data: unknown, name?: string): Promise<StoredObject>;
+  /** Store files as one directory; the CID is the directory's */
+  uploadDirectory(files: DirectoryFile[], name: string): Promise<StoredObject>;
+  /** CIDs of everything pinned, as the provider reports them */
+  listPins(): Promise<string[]>;
+  /** Pin content by CID; the provider fetches it from the IPFS network */
+  pin(cid: string): Promise<PinRequestResult>;
+}
+
+/**
+ * Pinata pinning service. Files are streamed straight through to Pinata's
+ * pinFileToIPFS endpoint without buffering them on the server.
+ */
+export class PinataStorageProvider implements ServerStorageProvider {
+  readonly name = 'pinata';
+  readonly gatewayUrl: string;
+  private pinata: PinataSDK;
+
+  constructor(jwt: string, gatewayUrl?: string) {
+    this.pinata = new PinataSDK({ pinataJwt: jwt });
+    this.gatewayUrl = gatewayUrl || 'https://gateway.pinata.cloud';
+  }
+
+  async uploadStream(stream: Readable, options: UploadStreamOptions): Promise<StoredObject> {
+    const upload = await this.pinata.upload
+      .stream(stream)
+      .addMetadata({ name: options.fileName, keyValues: { mimeType: options.mimeType } })
+      .cidVersion(1);
+    return { cid: upload.IpfsHash, size: upload.PinSize };
+  }
+
+  async uploadJSON(data: unknown, name?: string): Promise<StoredObject> {
+    let builder = this.pinata.upload.json(data as object).cidVersion(1);
+    if (name) {
+      builder = builder.addMetadata({ name });
+    }
+    const upload = await builder;
+    return { cid: upload.IpfsHash, size: upload.PinSize };
+  }
+
+  async uploadDirectory(files: DirectoryFile[], name: string): Promise<StoredObject> {
+    // Blobs backed by the files on disk; Pinata puts each under `<name>/<file name>`
+    const blobs = await Promise.all(files.map(async file =>
+      new File([await openAsBlob(file.filePath)], file.path, { type: file.mimeType })
+    ));
+    const upload = await this.pinata.upload
+      .fileArray(blobs)
+      .addMetadata({ name })
+      .cidVersion(1);
+    return { cid: upload.IpfsHash, size: upload.PinSize };
+  }
+
+  async listPins(): Promise<string[]> {
+    const cids: string[] = [];
+    for await (const item of this.pinata.listFiles().pageLimit(1000)) {
+      cids.push(item.ipfs_pin_hash);
+    }
+    return cids;
+  }
+
+  // Pin by CID is a background job on Pinata's side
+  async pin(cid: string): Promise<PinRequestResult> {
+    await this.pinata.upload.cid(cid);
+    return 'queued';
+  }
+}
+
+/**
+ * Kubo (go-ipfs) node through its HTTP RPC API
+ */
+export class KuboStorageProvider implements ServerStorageProvider {
+  readonly name = 'kubo';
+  readonly gatewayUrl: string;
+  private ipfs: Promise<IPFSHTTPClient> | null = null;
+
+  constructor(private apiUrl: string, gatewayUrl: string) {
+    this.gatewayUrl = gatewayUrl;
+  }
+
+  async uploadStream(stream: Readable): Promise<StoredObject> {
+    const ipfs = await this.client();
+    const result = await ipfs.add(stream, { cidVersion: 1, pin: true });
+    return { cid: result.cid.toString(), size: result.size };
+  }
+
+  async uploadJSON(data: unknown): Promise<StoredObject> {
+    const ipfs = await this.client();
+    const json = JSON.stringify(data);
+    const result = await ipfs.add(json, { cidVersion: 1, pin: true });
+    return { cid: result.cid.toString(), size: json.length };
+  }
+
+  async uploadDirectory(files: DirectoryFile[]): Promise<StoredObject> {
+    const ipfs = await this.client();
+    const entries = files.map(file => ({ path: file.path, content: createReadStream(file.filePath) }));
+
+    let directory: StoredObject | null = null;
+    for await (const result of ipfs.addAll(entries, { cidVersion: 1, pin: true, wrapWithDirectory: true })) {
+      // The wrapping directory comes last, with an empty path
+      if (result.path === '') {
+        directory = { cid: result.cid.toString(), size: result.size };
+      }
+    }
+    if (!directory) {
+      throw new Error('Kubo did not return the directory CID');
+    }
+    return directory;
+  }
+
+  async listPins(): Promise<string[]> {
+    const ipfs = await this.client();
+    const cids: string[] = [];
+    for await (const { cid } of ipfs.pin.ls({ type: 'recursive' })) {
+      cids.push(cid.toString());
+    }
+    return cids;
+  }
+
+  async pin(cid: string): Promise<PinRequestResult> {
+    const ipfs = await this.client();
+    // Fetching a large DAG from other peers can take a while
+    await ipfs.pin.add(cid, { timeout: 10 * 60 * 1000 });
+    return 'pinned';
+  }
+
+  private client(): Promise<IPFSHTTPClient> {
+    if (!this.ipfs) {
+      this.ipfs = import('ipfs-http-client').then(({ create }) => create({ url: this.apiUrl }));
+    }
+    return this.ipfs;
+  }
+}
+
+/**
+ * Pick the provider from STORAGE_PROVIDER (pinata | kubo). Without an explicit
+ * choice Pinata is used when PINATA_JWT is set. Returns null when nothing is
+ * configured so the API still starts; uploads then answer 503.
+ */
+export const createServerStorageProvider = (): ServerStorageProvider | null => {
+  const configured = process.env.STORAGE_PROVIDER as ServerStorageProviderName | undefined;
+  const pinataJwt = process.env.PINATA_JWT;
+  const provider = configured || (pinataJwt ? 'pinata' : null);
+
+  switch (provider) {
+    case 'pinata':
+      if (!pinataJwt) {
+        console.warn('⚠️ STORAGE_PROVIDER=pinata but PINATA_JWT is not set - uploads are disabled');
+        return null;
+      }
+      return new PinataStorageProvider(pinataJwt, process.env.PINATA_GATEWAY_URL);
+    case 'kubo':
+      return new KuboStorageProvider(
+        process.env.KUBO_API_URL || 'http://127.0.0.1:5001',
+        process.env.KUBO_GATEWAY_URL || 'http://127.0.0.1:8080'
+      );
+    case null:
+      console.warn('⚠️ No storage provider configured (PINATA_JWT or STORAGE_PROVIDER=kubo) - uploads are disabled');
+      return null;
+    default:
+      console.warn(`⚠️ Unknown STORAGE_PROVIDER "${provider}" - uploads are disabled`);
+      return null;
+  }
+};
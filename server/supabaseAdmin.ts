@@ -0,0 +1,20 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null | undefined;
+
+/**
+ * Service-role Supabase client for server-side jobs and queries.
+ * Returns null when SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are not configured.
+ */
+export const getSupabaseAdmin = (): SupabaseClient | null => {
+  if (client === undefined) {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    client = supabaseUrl && serviceRoleKey
+      ? createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+      : null;
+  }
+
+  return client;
+};
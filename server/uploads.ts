@@ -0,0 +1,490 @@
+import express from 'express';
+import busboy from 'busboy';
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable, Transform, TransformCallback } from 'stream';
+import { finished } from 'stream/promises';
+import { HLSJob, hlsJobQueue } from './hlsJobs';
+import { hlsTranscoder } from './hlsTranscoder';
+import { imageTiler } from './imageTiler';
+import type { ServerStorageProvider, StoredObject } from './storageProvider';
+import {
+  HIP412Metadata,
+  HLSStream,
+  MetadataDraft,
+  StoredMediaFile,
+  buildHIP412Metadata,
+  validateHIP412Metadata,
+  validateMetadataDraft
+} from '../src/utils/hip412';
+import { isWebVTT } from '../src/utils/captions';
+import { SNIFF_BYTES, sniffMediaTypes } from '../src/utils/mediaSniff';
+
+/** Kind of an uploaded file: NFT media, or a caption track for a video */
+export type UploadMediaType = 'image' | 'video' | 'audio' | 'captions';
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024; // 50MB, same limit as the upload form
+const MAX_METADATA_BYTES = 64 * 1024;
+
+// Accepted MIME types, including the non-standard names some browsers report
+export const ALLOWED_UPLOAD_TYPES: Record<string, UploadMediaType> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video',
+  'video/mov': 'video',
+  'audio/mpeg': 'audio',
+  'audio/mp3': 'audio',
+  'audio/wav': 'audio',
+  'audio/wave': 'audio',
+  'audio/x-wav': 'audio',
+  'audio/ogg': 'audio',
+  'audio/mp4': 'audio',
+  'audio/m4a': 'audio',
+  'audio/x-m4a': 'audio',
+  'audio/aac': 'audio',
+  'text/vtt': 'captions'
+};
+
+export interface StoredUpload {
+  cid: string;
+  size: number;
+  ipfsUrl: string;
+  gatewayUrl: string;
+}
+
+export interface MediaUploadResult {
+  file: StoredUpload & {
+    fileName: string;
+    mimeType: string;
+    mediaType: UploadMediaType;
+  };
+  metadata: StoredUpload | null;
+  /**
+   * Background HLS transcoding of a video; when it completes, its metadata
+   * lists the rendition and replaces `metadata`
+   */
+  rendition: HLSJob | null;
+}
+
+/**
+ * An upload the client has to fix (wrong type, too large, malformed body);
+ * `status` is the HTTP status to answer with.
+ */
+export class UploadRejectedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * Pass-through that checks the file signature against the declared media type
+ * before any bytes reach the storage provider.
+ */
+class MediaTypeCheck extends Transform {
+  private head: Buffer[] = [];
+  private headLength = 0;
+  private checked = false;
+  /** Bytes passed through so far */
+  bytes = 0;
+
+  constructor(private mediaType: UploadMediaType) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.checked) {
+      callback(null, chunk);
+      return;
+    }
+
+    this.head.push(chunk);
+    this.headLength += chunk.length;
+    if (this.headLength < SNIFF_BYTES) {
+      callback();
+      return;
+    }
+
+    this.check(callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.checked) {
+      callback();
+      return;
+    }
+    this.check(callback);
+  }
+
+  private check(callback: TransformCallback): void {
+    const head = Buffer.concat(this.head);
+    this.head = [];
+    this.checked = true;
+
+    const valid = this.mediaType === 'captions'
+      ? isWebVTT(head.toString('utf8'))
+      : sniffMediaTypes(head).includes(this.mediaType);
+    if (!valid) {
+      callback(new UploadRejectedError(`File content is not a valid ${this.mediaType} file`, 415));
+      return;
+    }
+    callback(null, head);
+  }
+}
+
+interface LocalCopy {
+  /** The stream to hand to the storage provider */
+  stream: Readable;
+  /** Path of the copy; null when none is kept or writing it failed */
+  written: Promise<string | null>;
+}
+
+/**
+ * Whether an upload needs a copy on disk for processing after it is stored:
+ * HLS transcoding of videos or tiling of images, both only with metadata
+ */
+const needsLocalCopy = (mediaType: UploadMediaType, mimeType: string, metadata: MetadataDraft | null): boolean =>
+  !!metadata && (
+    (mediaType === 'video' && hlsTranscoder.isEnabled())
+    || (mediaType === 'image' && imageTiler.accepts(mimeType))
+  );
+
+/**
+ * Keep a copy of the upload on disk while it streams to the provider, when
+ * `keep` is set
+ */
+const keepLocalCopy = (source: Readable, keep: boolean): LocalCopy => {
+  if (!keep) {
+    return { stream: source, written: Promise.resolve(null) };
+  }
+
+  const filePath = path.join(os.tmpdir(), `upload-${randomUUID()}`);
+  const stream = new PassThrough();
+  const file = createWriteStream(filePath);
+  source.on('error', error => {
+    stream.destroy(error);
+    file.destroy(error);
+  });
+  // A failed or abandoned upload leaves no copy behind
+  source.on('close', () => {
+    if (!source.readableEnded) file.destroy();
+  });
+  source.pipe(stream);
+  source.pipe(file);
+
+  return {
+    stream,
+    written: finished(file).then(() => filePath, async () => {
+      await fs.rm(filePath, { force: true });
+      return null;
+    })
+  };
+};
+
+const toStoredUpload = (provider: ServerStorageProvider, cid: string, size: number): StoredUpload => ({
+  cid,
+  size,
+  ipfsUrl: `ipfs://${cid}`,
+  gatewayUrl: `${provider.gatewayUrl}/ipfs/${cid}`
+});
+
+const checkMetadataSize = (metadata: unknown): void => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new UploadRejectedError('metadata must be a JSON object', 400);
+  }
+
+  if (Buffer.byteLength(JSON.stringify(metadata)) > MAX_METADATA_BYTES) {
+    throw new UploadRejectedError(`metadata must be at most ${MAX_METADATA_BYTES / 1024}KB`, 413);
+  }
+};
+
+/**
+ * Metadata sent with an upload is the uploader's part of the HIP-412
+ * document (name, description, creator, tags) as a JSON object of at most
+ * 64KB; the upload fills in the file fields so they always match what was
+ * stored.
+ */
+export const validateMetadata = (metadata: unknown): MetadataDraft => {
+  checkMetadataSize(metadata);
+
+  const draft = validateMetadataDraft(metadata);
+  if (!draft.success) {
+    throw new UploadRejectedError(`Invalid metadata: ${draft.issues.join('; ')}`, 400);
+  }
+  return draft.data;
+};
+
+const parseMetadataField = (value: string): MetadataDraft => {
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(value);
+  } catch {
+    throw new UploadRejectedError('metadata must be valid JSON', 400);
+  }
+  return validateMetadata(metadata);
+};
+
+/**
+ * Media type for a declared MIME type; rejects types that are not allowed
+ */
+export const getUploadMediaType = (mimeType: string): UploadMediaType => {
+  const mediaType = ALLOWED_UPLOAD_TYPES[mimeType];
+  if (!mediaType) {
+    throw new UploadRejectedError(`File type ${mimeType} is not allowed`, 415);
+  }
+  return mediaType;
+};
+
+/**
+ * Caption tracks are referenced from their video's metadata, so they are
+ * never minted with metadata of their own
+ */
+export const checkUploadMetadata = (mediaType: UploadMediaType, metadata: unknown): void => {
+  if (mediaType === 'captions' && metadata !== undefined && metadata !== null) {
+    throw new UploadRejectedError('Caption files are uploaded without metadata', 400);
+  }
+};
+
+const toHIP412Metadata = (
+  draft: MetadataDraft,
+  file: MediaUploadResult['file'],
+  derived: Pick<StoredMediaFile, 'hls' | 'waveformUri' | 'tiles'>
+): HIP412Metadata => {
+  const metadata = buildHIP412Metadata(draft, {
+    uri: file.ipfsUrl,
+    mimeType: file.mimeType,
+    fileName: file.fileName,
+    size: file.size,
+    ...derived
+  });
+
+  // The declared MIME types are all valid; this guards the builder itself
+  const validation = validateHIP412Metadata(metadata);
+  if (!validation.success) {
+    throw new Error(`Built metadata is not valid HIP-412: ${validation.issues.join('; ')}`);
+  }
+  return validation.data;
+};
+
+/**
+ * Stream a multipart upload (`file` part plus optional `metadata` JSON field)
+ * to the storage provider. The file is validated while it streams: declared
+ * MIME type against ALLOWED_UPLOAD_TYPES, leading bytes against the declared
+ * type, and size against MAX_UPLOAD_BYTES. When metadata is sent it is stored
+ * as well, pointing at the uploaded file (and its waveform peaks for audio,
+ * or its tile pyramid when large images are tiled); videos are transcoded to
+ * HLS in the background.
+ *
+ * `metadata` must come before `file`: whether a copy of the file is kept for
+ * transcoding or tiling is decided when the file part starts, so metadata
+ * after it is rejected.
+ */
+export const receiveMediaUpload = (
+  req: express.Request,
+  provider: ServerStorageProvider
+): Promise<MediaUploadResult> => new Promise((resolve, reject) => {
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: req.headers,
+      limits: { files: 1, fields: 5, fileSize: MAX_UPLOAD_BYTES, fieldSize: MAX_METADATA_BYTES }
+    });
+  } catch {
+    reject(new UploadRejectedError('Expected a multipart/form-data body', 400));
+    return;
+  }
+
+  let failure: Error | null = null;
+  let requestMetadata: MetadataDraft | null = null;
+  let upload: Promise<MediaUploadResult['file'] | null> | null = null;
+  let localCopy: Promise<string | null> = Promise.resolve(null);
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+  };
+
+  parser.on('field', (name, value, info) => {
+    if (name !== 'metadata') return;
+    if (upload) {
+      fail(new UploadRejectedError('metadata must be sent before the file', 400));
+      return;
+    }
+    if (info.valueTruncated) {
+      fail(new UploadRejectedError(`metadata must be at most ${MAX_METADATA_BYTES / 1024}KB`, 413));
+      return;
+    }
+    // Checked before the file part (clients send metadata first) so bad metadata stores nothing
+    try {
+      requestMetadata = parseMetadataField(value);
+    } catch (error) {
+      fail(error as Error);
+    }
+  });
+
+  parser.on('file', (name, stream, info) => {
+    // Only one `file` part is stored; anything else is drained
+    if (name !== 'file' || upload || failure) {
+      stream.resume();
+      return;
+    }
+
+    let mediaType: UploadMediaType;
+    try {
+      mediaType = getUploadMediaType(info.mimeType);
+      checkUploadMetadata(mediaType, requestMetadata);
+    } catch (error) {
+      fail(error as Error);
+      stream.resume();
+      return;
+    }
+
+    const check = new MediaTypeCheck(mediaType);
+
+    // Stop feeding the provider but keep draining the request so busboy finishes
+    const abort = (error: Error) => {
+      fail(error);
+      stream.unpipe(check);
+      stream.resume();
+      if (!check.destroyed) check.destroy(error);
+    };
+
+    stream.on('limit', () => abort(
+      new UploadRejectedError(`File must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`, 413)
+    ));
+    check.on('error', abort);
+    stream.pipe(check);
+
+    const copy = keepLocalCopy(check, needsLocalCopy(mediaType, info.mimeType, requestMetadata));
+    localCopy = copy.written;
+
+    const fileName = info.filename || 'upload';
+    upload = provider.uploadStream(copy.stream, { fileName, mimeType: info.mimeType })
+      .then(stored => ({ ...toStoredUpload(provider, stored.cid, check.bytes), fileName, mimeType: info.mimeType, mediaType }))
+      .catch(error => {
+        abort(error);
+        return null;
+      });
+  });
+
+  parser.on('error', () => {
+    localCopy.then(copyPath => copyPath && fs.rm(copyPath, { force: true }));
+    reject(failure || new UploadRejectedError('Malformed multipart body', 400));
+  });
+
+  parser.on('close', async () => {
+    const file = upload ? await upload : null;
+    const copyPath = await localCopy;
+
+    try {
+      if (failure) return reject(failure);
+      if (!file) return reject(new UploadRejectedError('A file is required', 400));
+
+      resolve({ file, ...await storeFileMetadata(provider, file, requestMetadata, copyPath) });
+    } catch (error) {
+      reject(error);
+    } finally {
+      if (copyPath) await fs.rm(copyPath, { force: true });
+    }
+  });
+
+  req.pipe(parser);
+});
+
+// The metadata is stored right away; a video's HLS rendition follows from a background job
+const storeFileMetadata = async (
+  provider: ServerStorageProvider,
+  file: MediaUploadResult['file'],
+  metadata: MetadataDraft | null,
+  localCopy: string | null
+): Promise<Pick<MediaUploadResult, 'metadata' | 'rendition'>> => {
+  if (!metadata) return { metadata: null, rendition: null };
+
+  const tiles = localCopy && file.mediaType === 'image'
+    ? await imageTiler.tile(localCopy, file.mimeType, provider, file.fileName)
+    : null;
+  // Peaks are only kept for audio; the player draws them as its scrubber
+  const waveform = metadata.waveform && file.mediaType === 'audio'
+    ? await provider.uploadJSON(metadata.waveform, `${file.fileName}.waveform.json`)
+    : null;
+  const derived = { tiles, waveformUri: waveform ? `ipfs://${waveform.cid}` : null };
+
+  const storeDocument = async (hls: HLSStream | null) => {
+    const stored = await provider.uploadJSON(
+      toHIP412Metadata(metadata, file, { ...derived, hls }),
+      `${file.fileName}.metadata.json`
+    );
+    return toStoredUpload(provider, stored.cid, stored.size);
+  };
+
+  const stored = await storeDocument(null);
+  const rendition = localCopy && file.mediaType === 'video'
+    ? await hlsJobQueue.start(localCopy, provider, file.fileName, storeDocument)
+    : null;
+  return { metadata: stored, rendition };
+};
+
+/**
+ * Store a file that was received some other way (an assembled resumable
+ * upload) with the same signature check and metadata handling as
+ * receiveMediaUpload.
+ */
+export const storeMedia = async (
+  provider: ServerStorageProvider,
+  stream: Readable,
+  file: { fileName: string; mimeType: string },
+  metadata: MetadataDraft | null
+): Promise<MediaUploadResult> => {
+  const mediaType = getUploadMediaType(file.mimeType);
+  checkUploadMetadata(mediaType, metadata);
+  const check = new MediaTypeCheck(mediaType);
+  let failure: Error | null = null;
+
+  stream.on('error', error => check.destroy(error));
+  check.on('error', error => {
+    failure = failure || error;
+    stream.destroy();
+  });
+  stream.pipe(check);
+
+  const copy = keepLocalCopy(check, needsLocalCopy(mediaType, file.mimeType, metadata));
+  let copyPath: string | null = null;
+
+  try {
+    let stored: StoredObject;
+    try {
+      stored = await provider.uploadStream(copy.stream, { fileName: file.fileName, mimeType: file.mimeType });
+    } catch (error) {
+      check.destroy();
+      throw failure || error;
+    } finally {
+      copyPath = await copy.written;
+    }
+
+    const uploaded = { ...toStoredUpload(provider, stored.cid, check.bytes), ...file, mediaType };
+    return { file: uploaded, ...await storeFileMetadata(provider, uploaded, metadata, copyPath) };
+  } finally {
+    if (copyPath) await fs.rm(copyPath, { force: true });
+  }
+};
+
+/**
+ * Store a complete HIP-412 metadata document on its own (no media file)
+ */
+export const storeMetadata = async (provider: ServerStorageProvider, metadata: unknown): Promise<StoredUpload> => {
+  checkMetadataSize(metadata);
+
+  const validation = validateHIP412Metadata(metadata);
+  if (!validation.success) {
+    throw new UploadRejectedError(`Metadata is not valid HIP-412: ${validation.issues.join('; ')}`, 400);
+  }
+
+  const stored = await provider.uploadJSON(validation.data, 'metadata.json');
+  return toStoredUpload(provider, stored.cid, stored.size);
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { MediaCard } from './MediaCard';
 import { MediaNFT } from '@/types/hedera';
 import { Button } from '@/components/ui/button';
@@ -21,6 +21,29 @@ export const GalleryGrid: React.FC<GalleryGridProps> = ({
   onMediaClick,
   onRefresh
 }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef(onLoadMore);
+  const isLoadingRef = useRef(isLoading);
+  loadMoreRef.current = onLoadMore;
+  isLoadingRef.current = isLoading;
+
+  // Infinite scroll: load the next page when the sentinel below the grid comes
+  // into view. Re-observing when the item count changes keeps loading while the
+  // viewport is still not filled, without retrying in a loop after a failure.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isLoadingRef.current) {
+        loadMoreRef.current?.();
+      }
+    }, { rootMargin: '400px 0px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, media.length]);
+
   if (isLoading && media.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-20 space-y-4">
@@ -91,9 +114,9 @@ export const GalleryGrid: React.FC<GalleryGridProps> = ({
         ))}
       </div>
 
-      {/* Load More Button */}
+      {/* Load More Button (also the infinite scroll sentinel) */}
       {hasMore && onLoadMore && (
-        <div className="flex justify-center pt-8">
+        <div ref={sentinelRef} className="flex justify-center pt-8">
           <Button
             onClick={onLoadMore}
             disabled={isLoading}
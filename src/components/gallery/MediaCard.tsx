@@ -6,6 +6,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Eye, Calendar, Hash, Play, User, Music } from 'lucide-react';
 import { MediaNFT } from '@/types/hedera';
 import { formatDistanceToNow } from 'date-fns';
+import { useGatewayUrl } from '@/hooks/use-gateway-url';
 
 interface MediaCardProps {
   media: MediaNFT;
@@ -14,32 +15,20 @@ interface MediaCardProps {
 
 export const MediaCard: React.FC<MediaCardProps> = ({ media, onClick }) => {
   const [imageLoaded, setImageLoaded] = useState(false);
-  const [imageError, setImageError] = useState(false);
-  const [currentGatewayIndex, setCurrentGatewayIndex] = useState(0);
-
-  // Multiple IPFS gateways for better reliability
-  const ipfsGateways = [
-    `https://ipfs.io/ipfs/${media.ipfsHash}`,
-    `https://cloudflare-ipfs.com/ipfs/${media.ipfsHash}`,
-    `https://dweb.link/ipfs/${media.ipfsHash}`,
-    `https://gateway.pinata.cloud/ipfs/${media.ipfsHash}`,
-    `https://4everland.io/ipfs/${media.ipfsHash}`
-  ];
-
-  const ipfsUrl = ipfsGateways[currentGatewayIndex];
   const isVideo = media.metadata.mediaType === 'video';
   const isAudio = media.metadata.mediaType === 'audio';
 
-  // Handle gateway fallback on error
-  const handleMediaError = () => {
-    if (currentGatewayIndex < ipfsGateways.length - 1) {
-      console.log(`🔄 MediaCard: Trying next gateway for ${media.metadata.title} (${currentGatewayIndex + 1}/${ipfsGateways.length})`);
-      setCurrentGatewayIndex(prev => prev + 1);
-      setImageError(false);
-    } else {
-      console.error('❌ MediaCard: All gateways failed for:', media.metadata.title);
-      setImageError(true);
-    }
+  // The grid shows the thumbnail; the original is only loaded by the viewer.
+  // NFTs minted without one fall back to the image or a video's first frame.
+  const previewHash = media.thumbnailHash || (isAudio ? null : media.ipfsHash);
+  const gateway = useGatewayUrl(previewHash);
+  const imageError = gateway.exhausted;
+
+  const ipfsUrl = gateway.url;
+
+  const handleMediaLoaded = () => {
+    setImageLoaded(true);
+    gateway.onLoad();
   };
 
   const formatFileSize = (bytes: number) => {
@@ -61,15 +50,28 @@ export const MediaCard: React.FC<MediaCardProps> = ({ media, onClick }) => {
             <>
               {isVideo ? (
                 <div className="relative w-full h-full bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center">
-                  <video
-                    key={`video-${currentGatewayIndex}`}
-                    src={ipfsUrl}
-                    className="w-full h-full object-cover"
-                    onLoadedData={() => setImageLoaded(true)}
-                    onError={handleMediaError}
-                    muted
-                    playsInline
-                  />
+                  {media.thumbnailHash ? (
+                    <img
+                      key={`poster-${gateway.attempt}`}
+                      src={ipfsUrl}
+                      alt={media.metadata.title}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                      onLoad={handleMediaLoaded}
+                      onError={gateway.onError}
+                    />
+                  ) : (
+                    <video
+                      key={`video-${gateway.attempt}`}
+                      src={ipfsUrl}
+                      className="w-full h-full object-cover"
+                      onLoadedData={handleMediaLoaded}
+                      onError={gateway.onError}
+                      preload="metadata"
+                      muted
+                      playsInline
+                    />
+                  )}
                   <div className="absolute inset-0 bg-black/30 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                     <div className="w-12 h-12 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center">
                       <Play className="w-6 h-6 text-white ml-1" />
@@ -78,7 +80,19 @@ export const MediaCard: React.FC<MediaCardProps> = ({ media, onClick }) => {
                 </div>
               ) : isAudio ? (
                 <div className="relative w-full h-full bg-gradient-to-br from-accent/20 to-primary/20 flex items-center justify-center">
-                  <div className="text-center">
+                  {media.thumbnailHash && (
+                    // Cover art
+                    <img
+                      key={`cover-${gateway.attempt}`}
+                      src={ipfsUrl}
+                      alt=""
+                      loading="lazy"
+                      className="absolute inset-0 w-full h-full object-cover"
+                      onLoad={handleMediaLoaded}
+                      onError={gateway.onError}
+                    />
+                  )}
+                  <div className="relative text-center">
                     <div className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center mb-3">
                       <Music className="w-8 h-8 text-white" />
                     </div>
@@ -92,12 +106,13 @@ export const MediaCard: React.FC<MediaCardProps> = ({ media, onClick }) => {
                 </div>
               ) : (
                 <img
-                  key={`image-${currentGatewayIndex}`}
+                  key={`image-${gateway.attempt}`}
                   src={ipfsUrl}
                   alt={media.metadata.title}
+                  loading="lazy"
                   className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
-                  onLoad={() => setImageLoaded(true)}
-                  onError={handleMediaError}
+                  onLoad={handleMediaLoaded}
+                  onError={gateway.onError}
                 />
               )}
               
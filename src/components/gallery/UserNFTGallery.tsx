@@ -15,62 +15,18 @@ import {
 } from 'lucide-react';
 import { useWallet } from '@/contexts/WalletContext';
 import { backendService } from '@/services/backendService';
-import { ipfsService } from '@/services/ipfsService';
+import { nftNormalizer } from '@/services/nftNormalizer';
+import { useGatewayUrl } from '@/hooks/use-gateway-url';
 import { toast } from '@/hooks/use-toast';
 import { TransferNFTModal } from '@/components/transfer/TransferNFTModal';
+import { MediaNFT } from '@/types/hedera';
 
 // Component for NFT images with fallback gateway support
-const NFTImage: React.FC<{ nft: NFTData; className: string }> = ({ nft, className }) => {
-  const [currentGatewayIndex, setCurrentGatewayIndex] = useState(0);
-  const [imageError, setImageError] = useState(false);
+const NFTImage: React.FC<{ nft: MediaNFT; className: string; isLost?: boolean }> = ({ nft, className, isLost = false }) => {
+  // Prefer the thumbnail generated at upload over the full-size media
+  const gateway = useGatewayUrl(nft.thumbnailHash || nft.ipfsHash);
 
-  // Extract IPFS hash from image URL
-  const getIpfsHash = (imageUrl: string): string | null => {
-    if (imageUrl.includes('/ipfs/')) {
-      const ipfsIndex = imageUrl.indexOf('/ipfs/');
-      return imageUrl.substring(ipfsIndex + 6);
-    }
-    return null;
-  };
-
-  const ipfsHash = getIpfsHash(nft.imageUrl || '');
-
-  // Debug logging for IPFS hash investigation
-  console.log(`🔍 NFTImage #${nft.serialNumber}:`, {
-    imageUrl: nft.imageUrl,
-    ipfsHash,
-    metadataContent: nft.metadataContent
-  });
-
-  // Special handling for the problematic hash
-  if (ipfsHash === 'bafybeih75uquzyvamdjqcxzqeiig7cvmdrbrp7btsmpev7i4ftu6of76fe') {
-    console.warn(`⚠️ NFT #${nft.serialNumber} is using a known problematic IPFS hash. This content may not exist on IPFS.`);
-  }
-
-  // Multiple IPFS gateways for fallback
-  const ipfsGateways = ipfsHash ? [
-    `https://ipfs.io/ipfs/${ipfsHash}`,
-    `https://cloudflare-ipfs.com/ipfs/${ipfsHash}`,
-    `https://dweb.link/ipfs/${ipfsHash}`,
-    `https://gateway.pinata.cloud/ipfs/${ipfsHash}`,
-    `https://4everland.io/ipfs/${ipfsHash}`
-  ] : [nft.imageUrl || ''];
-
-  const currentImageUrl = ipfsGateways[currentGatewayIndex];
-
-  const handleImageError = () => {
-    if (currentGatewayIndex < ipfsGateways.length - 1) {
-      console.log(`🔄 UserNFTGallery: Trying next gateway for NFT #${nft.serialNumber} (${currentGatewayIndex + 1}/${ipfsGateways.length})`);
-      setCurrentGatewayIndex(prev => prev + 1);
-      setImageError(false);
-    } else {
-      console.error(`❌ UserNFTGallery: All gateways failed for NFT #${nft.serialNumber}. IPFS hash: ${ipfsHash}`);
-      console.error(`❌ This might indicate the content was never uploaded or has been garbage collected from IPFS`);
-      setImageError(true);
-    }
-  };
-
-  if (imageError) {
+  if (gateway.exhausted) {
     return (
       <div className="w-full h-48 bg-gradient-to-br from-muted to-muted/50 flex flex-col items-center justify-center p-4 border-2 border-dashed border-muted-foreground/20">
         <ImageIcon className="h-8 w-8 text-muted-foreground mb-2" />
@@ -80,23 +36,22 @@ const NFTImage: React.FC<{ nft: NFTData; className: string }> = ({ nft, classNam
         <p className="text-xs text-muted-foreground/70 text-center mt-1">
           NFT #{nft.serialNumber}
         </p>
-        {ipfsHash && (
-          <p className="text-xs text-muted-foreground/50 text-center mt-2 font-mono">
-            IPFS content not found
-          </p>
-        )}
+        <p className="text-xs text-muted-foreground/50 text-center mt-2 font-mono">
+          {isLost ? 'Content is no longer pinned' : 'IPFS content not found'}
+        </p>
       </div>
     );
   }
 
   // Render video or image based on media type
-  if (nft.mediaType === 'video') {
+  if (nft.metadata.mediaType === 'video' && !nft.thumbnailHash) {
     return (
       <video
-        key={`nft-video-${currentGatewayIndex}`}
-        src={currentImageUrl}
+        key={`nft-video-${gateway.attempt}`}
+        src={gateway.url}
         className={className}
-        onError={handleImageError}
+        onLoadedData={gateway.onLoad}
+        onError={gateway.onError}
         muted
         playsInline
         preload="metadata"
@@ -108,105 +63,56 @@ const NFTImage: React.FC<{ nft: NFTData; className: string }> = ({ nft, classNam
   // Default to image
   return (
     <img
-      key={`nft-image-${currentGatewayIndex}`}
-      src={currentImageUrl}
-      alt={nft.metadataContent?.name || `NFT #${nft.serialNumber}`}
+      key={`nft-image-${gateway.attempt}`}
+      src={gateway.url}
+      alt={nft.metadata.title}
       className={className}
-      onError={handleImageError}
+      onLoad={gateway.onLoad}
+      onError={gateway.onError}
     />
   );
 };
 
-interface NFTData {
-  tokenId: string;
-  serialNumber: number;
-  accountId: string;
-  metadata: any;
-  createdAt: string;
-  metadataContent?: any;
-  imageUrl?: string;
-  mediaType?: 'image' | 'video' | 'audio';
-}
-
 interface UserNFTGalleryProps {
-  onNFTSelect?: (nft: NFTData) => void;
+  onNFTSelect?: (nft: MediaNFT) => void;
 }
 
-// Function to determine media type from metadata (same logic as landing page)
-const determineMediaType = (metadataContent: any, nftSerialNumber: number): 'image' | 'video' | 'audio' => {
-  let mediaType: 'image' | 'video' | 'audio' = 'image';
-
-  // Check multiple possible sources for media type
-  const typeIndicators = [
-    metadataContent.type,
-    metadataContent.format,
-    metadataContent.mediaType,
-    metadataContent.properties?.mediaType,
-    metadataContent.properties?.type
-  ].filter(Boolean);
-
-  console.log(`🔍 UserNFTGallery NFT #${nftSerialNumber} type indicators:`, typeIndicators);
-
-  for (const indicator of typeIndicators) {
-    if (typeof indicator === 'string') {
-      const lowerIndicator = indicator.toLowerCase();
-      if (lowerIndicator === 'video' || lowerIndicator.includes('video') || lowerIndicator.startsWith('video/')) {
-        console.log(`🎬 UserNFTGallery NFT #${nftSerialNumber} detected as video from type indicator: ${indicator}`);
-        mediaType = 'video';
-        break;
-      } else if (lowerIndicator === 'audio' || lowerIndicator.includes('audio') || lowerIndicator.startsWith('audio/')) {
-        console.log(`🎵 UserNFTGallery NFT #${nftSerialNumber} detected as audio from type indicator: ${indicator}`);
-        mediaType = 'audio';
-        break;
-      }
-    }
-  }
-
-  // Also check file extension from image URL or filename
-  const imageUrl = metadataContent.image || '';
-  const fileName = metadataContent.properties?.originalFileName || '';
-  const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.mkv'];
-  const audioExtensions = ['.mp3', '.wav', '.ogg', '.m4a', '.aac'];
-
-  console.log(`🔍 UserNFTGallery NFT #${nftSerialNumber} checking URLs:`, { imageUrl, fileName });
-
-  if (mediaType === 'image') { // Only check extensions if type not already determined
-    const urlsToCheck = [imageUrl, fileName].filter(Boolean);
-    for (const url of urlsToCheck) {
-      const lowerUrl = url.toLowerCase();
-      console.log(`🔍 UserNFTGallery NFT #${nftSerialNumber} checking URL: ${url} (lowercase: ${lowerUrl})`);
-      if (videoExtensions.some(ext => lowerUrl.includes(ext))) {
-        console.log(`🎬 UserNFTGallery NFT #${nftSerialNumber} detected as video from extension in: ${url}`);
-        mediaType = 'video';
-        break;
-      } else if (audioExtensions.some(ext => lowerUrl.includes(ext))) {
-        console.log(`🎵 UserNFTGallery NFT #${nftSerialNumber} detected as audio from extension in: ${url}`);
-        mediaType = 'audio';
-        break;
-      }
-    }
-  }
-
-  console.log(`📹 UserNFTGallery NFT #${nftSerialNumber} detected media type: ${mediaType}`);
-  return mediaType;
-};
+const USER_NFT_PAGE_SIZE = 24;
 
 export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) => {
   const { wallet, isWalletConnected } = useWallet();
-  const [nfts, setNfts] = useState<NFTData[]>([]);
+  const [nfts, setNfts] = useState<MediaNFT[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [tokenInfo, setTokenInfo] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
-  const [selectedNFTForTransfer, setSelectedNFTForTransfer] = useState<NFTData | null>(null);
+  const [selectedNFTForTransfer, setSelectedNFTForTransfer] = useState<MediaNFT | null>(null);
+  const [lostSerials, setLostSerials] = useState<Set<number>>(new Set());
 
   useEffect(() => {
     if (isWalletConnected && wallet?.accountId) {
       loadUserNFTs();
       loadTokenInfo();
+      loadPinHealth();
     }
   }, [isWalletConnected, wallet?.accountId]);
 
+  // NFTs whose media the last pin check could not find anywhere
+  const loadPinHealth = async () => {
+    try {
+      const response = await backendService.getPinHealth();
+      const lost = (response.data?.report?.problems || []).filter(problem => problem.status === 'lost');
+      if (lost.length > 0) {
+        console.warn(`⚠️ Pin check found ${lost.length} CIDs that are no longer available:`, lost.map(problem => problem.cid));
+      }
+      setLostSerials(new Set(lost.flatMap(problem => problem.serialNumbers)));
+    } catch (error) {
+      console.error('Error loading pin health:', error);
+    }
+  };
+
   const loadTokenInfo = async () => {
     try {
       const response = await backendService.getTokenInfo();
@@ -218,112 +124,46 @@ export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) =
     }
   };
 
-  const loadUserNFTs = async () => {
+  const loadUserNFTs = async (cursor: string | null = null) => {
     if (!wallet?.accountId) return;
 
-    setIsLoading(true);
+    const isFirstPage = !cursor;
+    if (isFirstPage) {
+      setIsLoading(true);
+    } else {
+      setIsLoadingMore(true);
+    }
     setError(null);
 
     try {
       console.log('🔄 Loading NFTs for account:', wallet.accountId);
 
-      // Get all NFTs from the collection
-      const collectionResponse = await backendService.getCollectionNFTs(100, 0);
+      // Only the NFTs this account owns, one page at a time
+      const accountResponse = await backendService.getAccountNFTs(wallet.accountId, USER_NFT_PAGE_SIZE, cursor);
 
-      if (!collectionResponse.success) {
-        throw new Error(collectionResponse.error || 'Failed to fetch collection NFTs');
+      if (!accountResponse.success) {
+        throw new Error(accountResponse.error || 'Failed to fetch account NFTs');
       }
 
-      const allNFTs = collectionResponse.data?.nfts || [];
-      console.log('📦 Found', allNFTs.length, 'NFTs in collection');
-
-      // Filter NFTs owned by the current user
-      const userNFTs: NFTData[] = allNFTs
-        .filter((nft: any) => nft.accountId === wallet.accountId)
-        .map((nft: any) => ({
-          tokenId: nft.tokenId,
-          serialNumber: nft.serialNumber,
-          accountId: nft.accountId,
-          metadata: nft.metadata,
-          createdAt: nft.createdAt,
-          metadataContent: nft.metadataContent,
-        }));
-
-      console.log('👤 User owns', userNFTs.length, 'NFTs');
-
-      // Load metadata for each NFT
-      console.log(`🔄 Loading metadata for ${userNFTs.length} user NFTs...`);
-      for (const nft of userNFTs) {
-        // Load metadata content if not already available
-        if (!nft.metadataContent && nft.metadata?.metadataUrl) {
-          try {
-            const metadataUrl = nft.metadata.metadataUrl;
-            console.log(`🔍 Loading metadata for NFT #${nft.serialNumber} from: ${metadataUrl}`);
-            if (metadataUrl.startsWith('ipfs://')) {
-              const hash = metadataUrl.replace('ipfs://', '');
-              const metadataContent = await ipfsService.getJSON(hash);
-              nft.metadataContent = metadataContent;
-              console.log(`✅ Loaded metadata for NFT #${nft.serialNumber}:`, metadataContent);
+      const ownedNFTs = accountResponse.data?.nfts || [];
+      console.log('👤 User owns', ownedNFTs.length, 'NFTs');
 
-              // Debug the image field specifically
-              if (metadataContent.image) {
-                console.log(`🖼️ NFT #${nft.serialNumber} image field:`, metadataContent.image);
-                if (metadataContent.image.includes('bafybeih75uquzyvamdjqcxzqeiig7cvmdrbrp7btsmpev7i4ftu6of76fe')) {
-                  console.warn(`⚠️ NFT #${nft.serialNumber} is using the problematic IPFS hash in metadata!`);
-                }
-              }
-
-              // Determine media type from metadata
-              nft.mediaType = determineMediaType(metadataContent, nft.serialNumber);
-
-              // Extract image URL using more reliable gateway
-              if (metadataContent.image) {
-                if (metadataContent.image.startsWith('ipfs://')) {
-                  const imageHash = metadataContent.image.replace('ipfs://', '');
-                  // Use ipfs.io gateway which is more reliable for CORS
-                  nft.imageUrl = `https://ipfs.io/ipfs/${imageHash}`;
-                } else {
-                  nft.imageUrl = metadataContent.image;
-                }
-              }
-            }
-          } catch (metadataError) {
-            console.error(`❌ Failed to load metadata for NFT ${nft.serialNumber}:`, metadataError);
-          }
-        } else if (nft.metadataContent?.image) {
-          // Determine media type from existing metadata
-          nft.mediaType = determineMediaType(nft.metadataContent, nft.serialNumber);
-
-          // Extract image URL from existing metadata using more reliable gateway
-          if (nft.metadataContent.image.startsWith('ipfs://')) {
-            const imageHash = nft.metadataContent.image.replace('ipfs://', '');
-            // Use ipfs.io gateway which is more reliable for CORS
-            nft.imageUrl = `https://ipfs.io/ipfs/${imageHash}`;
-          } else {
-            nft.imageUrl = nft.metadataContent.image;
-          }
-        }
-      }
+      // Every owned NFT is listed; ones whose metadata cannot be read get a placeholder
+      const userNFTs = await Promise.all(ownedNFTs.map(async nft =>
+        await nftNormalizer.normalize(nft) || nftNormalizer.placeholder(nft)
+      ));
 
       console.log('✅ Loaded metadata for', userNFTs.length, 'NFTs');
 
-      // Check for NFTs with missing media
-      const nftsWithMissingMedia = userNFTs.filter(nft =>
-        nft.metadataContent?.image?.includes('bafybeih75uquzyvamdjqcxzqeiig7cvmdrbrp7btsmpev7i4ftu6of76fe')
-      );
-
-      if (nftsWithMissingMedia.length > 0) {
-        console.warn(`⚠️ Found ${nftsWithMissingMedia.length} NFTs with potentially missing IPFS content:`,
-          nftsWithMissingMedia.map(nft => `#${nft.serialNumber}`).join(', '));
-      }
-
-      setNfts(userNFTs);
+      setNfts(prev => isFirstPage ? userNFTs : [...prev, ...userNFTs]);
+      setNextCursor(accountResponse.data?.nextCursor || null);
       
     } catch (error) {
       console.error('Error loading user NFTs:', error);
       setError(error instanceof Error ? error.message : 'Failed to load NFTs');
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
   };
 
@@ -331,13 +171,19 @@ export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) =
     loadUserNFTs();
   };
 
+  const handleLoadMore = () => {
+    if (nextCursor) {
+      loadUserNFTs(nextCursor);
+    }
+  };
+
   const openOnHashScan = (tokenId: string, serialNumber: number) => {
     const network = 'testnet'; // or get from env
     const url = `https://hashscan.io/${network}/token/${tokenId}/${serialNumber}`;
     window.open(url, '_blank');
   };
 
-  const handleTransferClick = (nft: NFTData) => {
+  const handleTransferClick = (nft: MediaNFT) => {
     setSelectedNFTForTransfer(nft);
     setIsTransferModalOpen(true);
   };
@@ -434,14 +280,15 @@ export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) =
             {nfts.map((nft) => (
               <Card key={`${nft.tokenId}-${nft.serialNumber}`} className="overflow-hidden">
                 <CardContent className="p-0">
-                  {nft.imageUrl ? (
+                  {nft.ipfsHash ? (
                     <div className="relative">
                       <NFTImage
                         nft={nft}
                         className="w-full h-48 object-cover"
+                        isLost={lostSerials.has(nft.serialNumber)}
                       />
                       {/* Video play icon overlay */}
-                      {nft.mediaType === 'video' && (
+                      {nft.metadata.mediaType === 'video' && (
                         <div className="absolute inset-0 flex items-center justify-center bg-black/20">
                           <div className="bg-white/90 rounded-full p-2">
                             <svg className="w-6 h-6 text-black" fill="currentColor" viewBox="0 0 24 24">
@@ -460,21 +307,21 @@ export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) =
                   <div className="p-4">
                     <div className="flex items-center justify-between mb-2">
                       <h4 className="font-medium">
-                        {nft.metadataContent?.name || `NFT #${nft.serialNumber}`}
+                        {nft.metadata.title}
                       </h4>
                       <div className="flex gap-1">
-                        {nft.mediaType && nft.mediaType !== 'image' && (
+                        {nft.metadata.mediaType !== 'image' && (
                           <Badge variant="outline" className="text-xs">
-                            {nft.mediaType === 'video' ? '🎬' : '🎵'} {nft.mediaType}
+                            {nft.metadata.mediaType === 'video' ? '🎬' : '🎵'} {nft.metadata.mediaType}
                           </Badge>
                         )}
                         <Badge variant="secondary">#{nft.serialNumber}</Badge>
                       </div>
                     </div>
                     
-                    {nft.metadataContent?.description && (
+                    {nft.metadata.description && (
                       <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                        {nft.metadataContent.description}
+                        {nft.metadata.description}
                       </p>
                     )}
                     
@@ -515,6 +362,21 @@ export const UserNFTGallery: React.FC<UserNFTGalleryProps> = ({ onNFTSelect }) =
             ))}
           </div>
         )}
+
+        {!isLoading && nextCursor && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load More'
+              )}
+            </Button>
+          </div>
+        )}
       </CardContent>
 
       {/* Transfer NFT Modal */}
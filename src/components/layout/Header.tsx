@@ -2,7 +2,7 @@ import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Wallet, LogOut, Zap, User, QrCode } from 'lucide-react';
+import { Wallet, LogOut, Zap, User, QrCode, KeyRound } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useWallet } from '@/contexts/WalletContext';
 import { useState } from 'react';
@@ -13,8 +13,20 @@ interface HeaderProps {
 }
 
 export const Header: React.FC<HeaderProps> = ({ onUploadClick }) => {
-  const { wallet, isConnecting, connectWallet, disconnectWallet, isWalletConnected, pairingString } = useWallet();
+  const { wallet, isConnecting, connectWallet, disconnectWallet, isWalletConnected, pairingString, isAuthenticated, signIn } = useWallet();
   const [showPairingDialog, setShowPairingDialog] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    try {
+      await signIn();
+    } catch {
+      // signIn already reports the failure
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
   const location = useLocation();
 
   return (
@@ -74,8 +86,20 @@ export const Header: React.FC<HeaderProps> = ({ onUploadClick }) => {
               
               <div className="text-right text-sm">
                 <p className="font-medium">{wallet?.accountId}</p>
-                <p className="text-xs text-muted-foreground">Connected</p>
+                <p className="text-xs text-muted-foreground">{isAuthenticated ? 'Signed in' : 'Connected'}</p>
               </div>
+              {!isAuthenticated && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSignIn}
+                  disabled={isSigningIn}
+                  title="Sign in with your wallet"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {isSigningIn ? 'Signing...' : 'Sign In'}
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
 import { Button } from '@/components/ui/button';
@@ -16,13 +16,20 @@ import {
   Shield,
   Coins,
   Copy,
-  CheckCircle2
+  CheckCircle2,
+  ShieldCheck,
+  ShieldAlert,
+  Loader2
 } from 'lucide-react';
 import { MediaNFT } from '@/types/hedera';
 import { toast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
-import { EnhancedMediaPlayer } from './EnhancedMediaPlayer';
-import { SimpleMediaPlayer } from './SimpleMediaPlayer';
+import { MediaPlayer } from './player/MediaPlayer';
+import { ZoomableImage } from './zoom/ZoomableImage';
+import { contentVerificationService, ContentVerification } from '@/services/contentVerificationService';
+import { useGatewayUrl } from '@/hooks/use-gateway-url';
+import { useTilePyramid } from '@/hooks/use-tile-pyramid';
+import { downloadFile } from '@/utils/download';
 
 interface MediaViewerProps {
   media: MediaNFT | null;
@@ -33,11 +40,36 @@ interface MediaViewerProps {
 export const MediaViewer: React.FC<MediaViewerProps> = ({ media, isOpen, onClose }) => {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [copiedFields, setCopiedFields] = useState<Record<string, boolean>>({});
-  const [useSimplePlayer, setUseSimplePlayer] = useState(false);
+  const [verification, setVerification] = useState<ContentVerification | null>(null);
+
+  // Re-fetch the content and check it hashes to its CID
+  const ipfsHash = isOpen ? media?.ipfsHash : undefined;
+  useEffect(() => {
+    setVerification(null);
+    if (!ipfsHash) return;
+
+    let cancelled = false;
+    contentVerificationService.verify(ipfsHash)
+      .then(result => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch(error => console.warn('Content verification failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ipfsHash]);
+
+  const gateway = useGatewayUrl(ipfsHash);
+  const isImage = media?.metadata.mediaType === 'image';
+  const thumbnail = useGatewayUrl(isOpen && isImage ? media?.thumbnailHash : undefined);
+  // Very large images are drawn from their tile pyramid when they have one
+  const tilesHash = isOpen && isImage ? media?.tilesHash : undefined;
+  const pyramid = useTilePyramid(tilesHash);
 
   if (!media) return null;
 
-  const ipfsUrl = `https://gateway.pinata.cloud/ipfs/${media.ipfsHash}`;
+  const ipfsUrl = gateway.url || gateway.urls[0];
   const isVideo = media.metadata.mediaType === 'video';
   const isAudio = media.metadata.mediaType === 'audio';
   const isInteractiveMedia = isVideo || isAudio;
@@ -69,15 +101,7 @@ export const MediaViewer: React.FC<MediaViewerProps> = ({ media, isOpen, onClose
     }
   };
 
-  const downloadMedia = () => {
-    const link = document.createElement('a');
-    link.href = ipfsUrl;
-    link.download = media.metadata.originalFileName;
-    link.target = '_blank';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+  const downloadMedia = () => downloadFile(ipfsUrl, media.metadata.originalFileName);
 
   const openIPFS = () => {
     window.open(ipfsUrl, '_blank');
@@ -94,39 +118,30 @@ export const MediaViewer: React.FC<MediaViewerProps> = ({ media, isOpen, onClose
           {/* Media Display */}
           <div className="flex-1 bg-black/20 flex items-center justify-center relative min-h-0">
             {isInteractiveMedia ? (
-              useSimplePlayer ? (
-                <SimpleMediaPlayer
-                  media={media}
-                  className="w-full h-full max-h-full"
-                />
-              ) : (
-                <EnhancedMediaPlayer
-                  media={media}
-                  className="w-full h-full max-h-full"
-                  onError={() => setUseSimplePlayer(true)}
-                />
-              )
+              <MediaPlayer
+                media={media}
+                className="w-full h-full max-h-full"
+              />
+            ) : pyramid.status === 'loading' ? (
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
             ) : (
-              <img
+              <ZoomableImage
+                key={pyramid.pyramid ? 'tiles' : `image-${gateway.attempt}`}
                 src={ipfsUrl}
                 alt={media.metadata.title}
-                className="max-w-full max-h-full object-contain"
-                onLoad={() => setImageLoaded(true)}
+                tiles={pyramid.pyramid && tilesHash
+                  ? { pyramid: pyramid.pyramid, directory: tilesHash.slice(0, tilesHash.lastIndexOf('/')) }
+                  : null}
+                thumbnailSrc={thumbnail.url}
+                className="absolute inset-0"
+                onLoad={() => {
+                  setImageLoaded(true);
+                  gateway.onLoad();
+                }}
+                onError={gateway.onError}
               />
             )}
 
-            {/* Player Toggle Button for Video/Audio */}
-            {isInteractiveMedia && (
-              <Button
-                onClick={() => setUseSimplePlayer(!useSimplePlayer)}
-                variant="secondary"
-                size="sm"
-                className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm text-white border-white/30 hover:bg-black/70"
-              >
-                {useSimplePlayer ? 'Enhanced Player' : 'Simple Player'}
-              </Button>
-            )}
-            
             {/* Close Button */}
             <Button
               variant="ghost"
@@ -145,16 +160,24 @@ export const MediaViewer: React.FC<MediaViewerProps> = ({ media, isOpen, onClose
               <div className="space-y-3">
                 <div className="flex items-start justify-between">
                   <h2 className="text-xl font-bold leading-tight">{media.metadata.title}</h2>
-                  <Badge 
-                    variant="outline" 
-                    className={`${
-                      isVideo 
-                        ? 'border-accent/50 text-accent' 
-                        : 'border-primary/50 text-primary'
-                    }`}
-                  >
-                    {media.metadata.mediaType}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {verification?.status === 'verified' && (
+                      <Badge variant="outline" className="border-green-500/50 text-green-400">
+                        <ShieldCheck className="w-3 h-3 mr-1" />
+                        Verified
+                      </Badge>
+                    )}
+                    <Badge 
+                      variant="outline" 
+                      className={`${
+                        isVideo 
+                          ? 'border-accent/50 text-accent' 
+                          : 'border-primary/50 text-primary'
+                      }`}
+                    >
+                      {media.metadata.mediaType}
+                    </Badge>
+                  </div>
                 </div>
                 
                 {media.metadata.description && (
@@ -359,6 +382,60 @@ export const MediaViewer: React.FC<MediaViewerProps> = ({ media, isOpen, onClose
                   This media is authenticated on the Hedera blockchain
                 </p>
               </div>
+
+              {/* Content Integrity */}
+              {!verification ? (
+                <div className="p-3 rounded-lg bg-muted/30 border border-border">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span className="text-sm font-medium">Verifying content...</span>
+                  </div>
+                </div>
+              ) : verification.status === 'verified' ? (
+                <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20">
+                  <div className="flex items-center gap-2 text-green-400">
+                    <ShieldCheck className="w-4 h-4" />
+                    <span className="text-sm font-medium">Content Verified</span>
+                  </div>
+                  <p className="text-xs text-green-400/70 mt-1">
+                    The file served by {verification.gateway} matches its IPFS hash
+                  </p>
+                </div>
+              ) : verification.status === 'mismatch' ? (
+                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <ShieldAlert className="w-4 h-4" />
+                    <span className="text-sm font-medium">Content Mismatch</span>
+                  </div>
+                  <p className="text-xs text-destructive/70 mt-1">{verification.reason}</p>
+                </div>
+              ) : (
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                  <div className="flex items-center gap-2 text-yellow-400">
+                    <ShieldAlert className="w-4 h-4" />
+                    <span className="text-sm font-medium">Content Not Verified</span>
+                  </div>
+                  <p className="text-xs text-yellow-400/70 mt-1">{verification.reason}</p>
+                </div>
+              )}
+
+              {/* Metadata Standard */}
+              {media.metadataIssues && media.metadataIssues.length > 0 && (
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                  <div className="flex items-center gap-2 text-yellow-400">
+                    <FileText className="w-4 h-4" />
+                    <span className="text-sm font-medium">Non-standard Metadata</span>
+                  </div>
+                  <p className="text-xs text-yellow-400/70 mt-1">
+                    This NFT's metadata does not follow HIP-412, so other wallets may not display it:
+                  </p>
+                  <ul className="text-xs text-yellow-400/70 mt-1 space-y-0.5">
+                    {media.metadataIssues.map(issue => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,23 @@
+import React, { useMemo } from 'react';
+import { MediaNFT } from '@/types/hedera';
+import { gatewayManager } from '@/services/gatewayManager';
+
+/**
+ * `<track>` elements for an NFT's caption tracks, placed inside the renderer's
+ * `<video>`. They load from the best gateway; the menu in the player controls
+ * picks the one that shows.
+ */
+export const CaptionTracks: React.FC<{ media: MediaNFT }> = ({ media }) => {
+  const tracks = useMemo(
+    () => (media.captions || []).map(track => ({ ...track, url: gatewayManager.getUrl(track.hash) })),
+    [media.captions]
+  );
+
+  return (
+    <>
+      {tracks.map(track => (
+        <track key={track.hash} kind="subtitles" src={track.url} srcLang={track.language} label={track.label} />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { useEffect } from 'react';
+import { useHlsStream } from '@/hooks/use-hls-stream';
+import { CaptionTracks } from './CaptionTracks';
+import { RendererProps } from './types';
+
+export const HlsRenderer: React.FC<RendererProps> = ({ media, url, mediaRef, onLoadStart, onLoad, onError, onClick, onQualityChange }) => {
+  const { levels, currentLevel, selectedLevel, setLevel } = useHlsStream(mediaRef, url, { onLoad, onError });
+
+  useEffect(() => {
+    onQualityChange(levels.length > 0 ? { levels, currentLevel, selectedLevel, setLevel } : null);
+  }, [levels, currentLevel, selectedLevel, setLevel, onQualityChange]);
+
+  useEffect(() => () => onQualityChange(null), [onQualityChange]);
+
+  return (
+    <video
+      ref={mediaRef as React.RefObject<HTMLVideoElement>}
+      // hls.js attaches the stream; browsers that play HLS natively get the URL from the hook
+      className="w-full h-full object-contain"
+      onClick={onClick}
+      onLoadStart={onLoadStart}
+      onLoadedMetadata={onLoad}
+      onError={onError}
+      playsInline
+      crossOrigin="anonymous"
+    >
+      <CaptionTracks media={media} />
+    </video>
+  );
+};
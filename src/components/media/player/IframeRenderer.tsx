@@ -0,0 +1,15 @@
+import React from 'react';
+import { RendererProps } from './types';
+
+// Some gateways serve media their own way (a built-in viewer, other headers);
+// an iframe is the last resort when the element cannot play the file
+export const IframeRenderer: React.FC<RendererProps> = ({ media, url, onLoad, onError }) => (
+  <iframe
+    src={url}
+    className="w-full h-full border-0"
+    title={media.metadata.title}
+    onLoad={onLoad}
+    onError={onError}
+    sandbox="allow-same-origin allow-scripts"
+  />
+);
@@ -0,0 +1,110 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { MediaNFT } from '@/types/hedera';
+import { gatewayManager } from '@/services/gatewayManager';
+import { useMediaElement } from '@/hooks/use-media-element';
+import { usePlaybackPolicy } from '@/hooks/use-playback-policy';
+import { useTextTracks } from '@/hooks/use-text-tracks';
+import { useWaveform } from '@/hooks/use-waveform';
+import { downloadFile } from '@/utils/download';
+import { PlayerControls } from './PlayerControls';
+import { PlayerErrorScreen } from './PlayerErrorScreen';
+import { MEDIA_RENDERERS, getPlaybackCandidates } from './renderers';
+import { QualityControl, RendererId } from './types';
+
+interface MediaPlayerProps {
+  media: MediaNFT;
+  className?: string;
+  /** Only play with these renderers (the default is every one that applies) */
+  renderers?: RendererId[];
+}
+
+/**
+ * Player for video and audio NFTs. The media is rendered by the first
+ * renderer that works (HLS stream, original file, iframe), each tried on
+ * every gateway in turn; the controls, captions menu, download and error
+ * screen are shared by all of them.
+ */
+export const MediaPlayer: React.FC<MediaPlayerProps> = ({ media, className = '', renderers }) => {
+  const [quality, setQuality] = useState<QualityControl | null>(null);
+  const [showControls, setShowControls] = useState(true);
+  const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const candidates = getPlaybackCandidates(media)
+    .filter(candidate => !renderers || renderers.includes(candidate.renderer));
+  const policy = usePlaybackPolicy(candidates);
+  const renderer = policy.candidate ? MEDIA_RENDERERS[policy.candidate.renderer] : null;
+  const playback = useMediaElement(mediaRef, policy.key);
+  const captions = useTextTracks(mediaRef, policy.key);
+
+  const isVideo = media.metadata.mediaType === 'video';
+  const waveform = useWaveform(media.metadata.mediaType === 'audio' ? media.waveformHash : null);
+
+  // Downloads are always the original file, from the gateway playing it when there is one
+  const bestOriginalUrl = useMemo(() => gatewayManager.getUrls(media.ipfsHash)[0], [media.ipfsHash]);
+  const originalUrl = policy.candidate?.hash === media.ipfsHash && policy.url ? policy.url : bestOriginalUrl;
+
+  const download = () => downloadFile(originalUrl, media.metadata.originalFileName);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen();
+    }
+  };
+
+  const showControlsTemporarily = () => {
+    setShowControls(true);
+    if (controlsTimeoutRef.current) {
+      clearTimeout(controlsTimeoutRef.current);
+    }
+    controlsTimeoutRef.current = setTimeout(() => {
+      if (mediaRef.current && !mediaRef.current.paused) setShowControls(false);
+    }, 3000);
+  };
+
+  const RendererComponent = renderer?.component;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative bg-black rounded-lg overflow-hidden ${className}`}
+      onMouseMove={showControlsTemporarily}
+      onMouseEnter={() => setShowControls(true)}
+      onMouseLeave={() => playback.isPlaying && setShowControls(false)}
+    >
+      {!RendererComponent || !policy.url ? (
+        <PlayerErrorScreen url={originalUrl} onRetry={policy.retry} onDownload={download} />
+      ) : (
+        <>
+          <RendererComponent
+            key={policy.key}
+            media={media}
+            url={policy.url}
+            mediaRef={mediaRef}
+            onLoadStart={policy.onLoadStart}
+            onLoad={policy.onLoad}
+            onError={policy.onError}
+            onClick={playback.togglePlay}
+            onQualityChange={setQuality}
+          />
+
+          <PlayerControls
+            playback={renderer.usesMediaElement ? playback : null}
+            visible={showControls}
+            quality={quality}
+            waveform={waveform?.peaks}
+            captions={renderer.usesMediaElement ? captions : null}
+            candidates={candidates}
+            activeCandidate={policy.index}
+            onSelectCandidate={policy.select}
+            onDownload={download}
+            onFullscreen={isVideo ? toggleFullscreen : undefined}
+          />
+        </>
+      )}
+    </div>
+  );
+};
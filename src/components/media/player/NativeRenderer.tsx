@@ -0,0 +1,61 @@
+import React from 'react';
+import { Music } from 'lucide-react';
+import { useGatewayUrl } from '@/hooks/use-gateway-url';
+import { CaptionTracks } from './CaptionTracks';
+import { RendererProps } from './types';
+
+export const NativeRenderer: React.FC<RendererProps> = ({ media, url, mediaRef, onLoadStart, onLoad, onError, onClick }) => {
+  const isAudio = media.metadata.mediaType === 'audio';
+  const coverArt = useGatewayUrl(isAudio ? media.thumbnailHash : null);
+
+  if (isAudio) {
+    return (
+      <div className="w-full h-64 bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center">
+        <audio
+          ref={mediaRef as React.RefObject<HTMLAudioElement>}
+          src={url}
+          onLoadStart={onLoadStart}
+          onLoadedMetadata={onLoad}
+          onError={onError}
+          preload="metadata"
+          crossOrigin="anonymous"
+        />
+        <div className="text-center">
+          {coverArt.url && !coverArt.exhausted ? (
+            <img
+              key={`cover-${coverArt.attempt}`}
+              src={coverArt.url}
+              alt={`${media.metadata.title} cover art`}
+              className="w-20 h-20 rounded-lg object-cover shadow-lg mb-4 mx-auto"
+              onLoad={coverArt.onLoad}
+              onError={coverArt.onError}
+            />
+          ) : (
+            <div className="w-20 h-20 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center mb-4 mx-auto">
+              <Music className="w-8 h-8 text-white" />
+            </div>
+          )}
+          <h3 className="text-white font-medium">{media.metadata.title}</h3>
+          <p className="text-white/70 text-sm">{media.metadata.creator}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <video
+      ref={mediaRef as React.RefObject<HTMLVideoElement>}
+      src={url}
+      className="w-full h-full object-contain"
+      onClick={onClick}
+      onLoadStart={onLoadStart}
+      onLoadedMetadata={onLoad}
+      onError={onError}
+      preload="metadata"
+      playsInline
+      crossOrigin="anonymous"
+    >
+      <CaptionTracks media={media} />
+    </video>
+  );
+};
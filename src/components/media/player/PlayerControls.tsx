@@ -0,0 +1,227 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  Play,
+  Pause,
+  Volume2,
+  VolumeX,
+  Maximize,
+  SkipBack,
+  SkipForward,
+  Download,
+  Settings
+} from 'lucide-react';
+import { useMediaElement } from '@/hooks/use-media-element';
+import { HLS_AUTO_LEVEL } from '@/hooks/use-hls-stream';
+import { CAPTIONS_OFF, useTextTracks } from '@/hooks/use-text-tracks';
+import { MEDIA_RENDERERS } from './renderers';
+import { WaveformScrubber } from './WaveformScrubber';
+import { PlaybackCandidate, QualityControl } from './types';
+
+interface PlayerControlsProps {
+  /** State of the media element; null for renderers without one (only the menu and download show) */
+  playback: ReturnType<typeof useMediaElement> | null;
+  visible: boolean;
+  quality: QualityControl | null;
+  /** Waveform peaks of audio, drawn as the progress bar */
+  waveform?: number[] | null;
+  /** Caption tracks of the media element; null for renderers without one */
+  captions: ReturnType<typeof useTextTracks> | null;
+  candidates: PlaybackCandidate[];
+  activeCandidate: number;
+  onSelectCandidate: (index: number) => void;
+  onDownload: () => void;
+  /** Shown for video */
+  onFullscreen?: () => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const buttonClass = 'text-white hover:bg-white/20 h-8 w-8 p-0';
+
+export const PlayerControls: React.FC<PlayerControlsProps> = ({
+  playback,
+  visible,
+  quality,
+  waveform,
+  captions,
+  candidates,
+  activeCandidate,
+  onSelectCandidate,
+  onDownload,
+  onFullscreen
+}) => {
+  const playingLevel = quality?.levels[quality.currentLevel];
+  const hasCaptions = !!captions && captions.tracks.length > 0;
+  const hasPlaybackChoice = candidates.length > 1;
+  const hasMenu = !!quality || hasCaptions || hasPlaybackChoice;
+
+  const settingsMenu = hasMenu && (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-white hover:bg-white/20 h-8 px-2 gap-1">
+          <Settings className="w-4 h-4" />
+          {playingLevel && <span className="text-xs">{playingLevel.height}p</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {quality && (
+          <>
+            <DropdownMenuLabel>Quality</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(quality.selectedLevel)}
+              onValueChange={value => quality.setLevel(Number(value))}
+            >
+              <DropdownMenuRadioItem value={String(HLS_AUTO_LEVEL)}>Auto</DropdownMenuRadioItem>
+              {quality.levels.map(level => (
+                <DropdownMenuRadioItem key={level.index} value={String(level.index)}>
+                  {level.height}p
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+        {quality && hasCaptions && <DropdownMenuSeparator />}
+        {hasCaptions && (
+          <>
+            <DropdownMenuLabel>Captions</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(captions.selectedTrack)}
+              onValueChange={value => captions.selectTrack(Number(value))}
+            >
+              <DropdownMenuRadioItem value={String(CAPTIONS_OFF)}>Off</DropdownMenuRadioItem>
+              {captions.tracks.map(track => (
+                <DropdownMenuRadioItem key={track.index} value={String(track.index)}>
+                  {track.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+        {(quality || hasCaptions) && hasPlaybackChoice && <DropdownMenuSeparator />}
+        {hasPlaybackChoice && (
+          <>
+            <DropdownMenuLabel>Playback</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(activeCandidate)}
+              onValueChange={value => onSelectCandidate(Number(value))}
+            >
+              {candidates.map((candidate, index) => (
+                <DropdownMenuRadioItem key={candidate.renderer} value={String(index)}>
+                  {MEDIA_RENDERERS[candidate.renderer].label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  const downloadButton = (
+    <Button variant="ghost" size="sm" onClick={onDownload} className={buttonClass}>
+      <Download className="w-4 h-4" />
+    </Button>
+  );
+
+  if (!playback) {
+    return (
+      <div className="absolute bottom-4 left-4 flex gap-1 bg-black/50 backdrop-blur-sm rounded-md">
+        {settingsMenu}
+        {downloadButton}
+      </div>
+    );
+  }
+
+  const { isPlaying, currentTime, duration, volume, isMuted } = playback;
+
+  return (
+    <div
+      className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent transition-opacity duration-300 ${
+        visible ? 'opacity-100' : 'opacity-0'
+      }`}
+      style={{
+        padding: '12px 16px 16px 16px',
+        minHeight: '80px',
+        maxHeight: '120px'
+      }}
+    >
+      {/* Progress Bar */}
+      <div className="mb-3">
+        {waveform ? (
+          <WaveformScrubber peaks={waveform} currentTime={currentTime} duration={duration} onSeek={playback.seek} />
+        ) : (
+          <Slider
+            value={[currentTime]}
+            max={duration || 100}
+            step={1}
+            onValueChange={value => playback.seek(value[0])}
+            className="w-full"
+          />
+        )}
+        <div className="flex justify-between text-xs text-white/70 mt-1">
+          <span>{formatTime(currentTime)}</span>
+          <span>{formatTime(duration)}</span>
+        </div>
+      </div>
+
+      {/* Control Buttons */}
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button variant="ghost" size="sm" onClick={() => playback.skip(-10)} className={buttonClass}>
+            <SkipBack className="w-4 h-4" />
+          </Button>
+
+          <Button variant="ghost" size="sm" onClick={playback.togglePlay} className={buttonClass}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+          </Button>
+
+          <Button variant="ghost" size="sm" onClick={() => playback.skip(10)} className={buttonClass}>
+            <SkipForward className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {/* Volume Control */}
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={playback.toggleMute} className={buttonClass}>
+              {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </Button>
+            <div className="w-16">
+              <Slider
+                value={[isMuted ? 0 : volume]}
+                max={1}
+                step={0.1}
+                onValueChange={value => playback.setVolume(value[0])}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {settingsMenu}
+          {downloadButton}
+
+          {onFullscreen && (
+            <Button variant="ghost" size="sm" onClick={onFullscreen} className={buttonClass}>
+              <Maximize className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
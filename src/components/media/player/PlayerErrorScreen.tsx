@@ -0,0 +1,61 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Download, ExternalLink, RotateCcw } from 'lucide-react';
+
+interface PlayerErrorScreenProps {
+  /** Best gateway URL of the original file, for the download and open links */
+  url: string | undefined;
+  onRetry: () => void;
+  onDownload: () => void;
+}
+
+export const PlayerErrorScreen: React.FC<PlayerErrorScreenProps> = ({ url, onRetry, onDownload }) => (
+  <div className="w-full h-full min-h-64 flex items-center justify-center">
+    <div className="text-center text-white p-8">
+      <AlertCircle className="w-12 h-12 mx-auto mb-4 text-red-400" />
+      <h3 className="text-lg font-medium mb-2">Playback Error</h3>
+      <p className="text-sm text-gray-300 mb-4">
+        Every gateway and playback method failed. This might be due to:
+      </p>
+      <ul className="text-xs text-gray-400 mb-6 text-left max-w-sm mx-auto">
+        <li>• IPFS gateway issues</li>
+        <li>• Unsupported media format or codec</li>
+        <li>• Network connectivity problems</li>
+        <li>• CORS restrictions</li>
+      </ul>
+      <div className="flex gap-2 justify-center">
+        <Button
+          onClick={onRetry}
+          variant="outline"
+          size="sm"
+          className="text-white border-white/30 hover:bg-white/10"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Try Again
+        </Button>
+        {url && (
+          <>
+            <Button
+              onClick={onDownload}
+              variant="outline"
+              size="sm"
+              className="text-white border-white/30 hover:bg-white/10"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+            <Button
+              onClick={() => window.open(url, '_blank')}
+              variant="outline"
+              size="sm"
+              className="text-white border-white/30 hover:bg-white/10"
+            >
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open in IPFS
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,83 @@
+import React, { useId, useMemo, useRef } from 'react';
+
+interface WaveformScrubberProps {
+  peaks: number[];
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+}
+
+const KEYBOARD_STEP_SECONDS = 5;
+
+/**
+ * Progress bar for audio drawn as its waveform: the played part is bright,
+ * and clicking or dragging anywhere on it seeks. Works as a slider from the
+ * keyboard too.
+ */
+export const WaveformScrubber: React.FC<WaveformScrubberProps> = ({ peaks, currentTime, duration, onSeek }) => {
+  // React ids contain colons, which break `url(#...)` references
+  const clipId = `waveform-${useId().replace(/:/g, '')}`;
+  const dragging = useRef(false);
+
+  // One vertical line per peak, centred, in a viewBox that is one unit per peak wide
+  const path = useMemo(
+    () => peaks.map((peak, index) => {
+      const height = Math.max(2, peak * 100);
+      return `M${index + 0.5},${50 - height / 2}v${height}`;
+    }).join(''),
+    [peaks]
+  );
+
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  const seekToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    if (!duration || bounds.width === 0) return;
+    const ratio = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+    onSeek(ratio * duration);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!duration) return;
+    const steps: Record<string, number> = {
+      ArrowLeft: currentTime - KEYBOARD_STEP_SECONDS,
+      ArrowRight: currentTime + KEYBOARD_STEP_SECONDS,
+      Home: 0,
+      End: duration
+    };
+    if (!(event.key in steps)) return;
+    event.preventDefault();
+    onSeek(Math.min(duration, Math.max(0, steps[event.key])));
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+      className="h-8 w-full cursor-pointer touch-none rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white/50"
+      onPointerDown={event => {
+        dragging.current = true;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        seekToPointer(event);
+      }}
+      onPointerMove={event => dragging.current && seekToPointer(event)}
+      onPointerUp={() => { dragging.current = false; }}
+      onPointerCancel={() => { dragging.current = false; }}
+      onKeyDown={handleKeyDown}
+    >
+      <svg viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none" className="w-full h-full">
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={0} y={0} width={progress * peaks.length} height={100} />
+          </clipPath>
+        </defs>
+        <path d={path} stroke="rgba(255, 255, 255, 0.35)" strokeWidth={0.6} />
+        <path d={path} stroke="white" strokeWidth={0.6} clipPath={`url(#${clipId})`} />
+      </svg>
+    </div>
+  );
+};
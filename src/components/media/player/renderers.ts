@@ -0,0 +1,33 @@
+import { MediaNFT } from '@/types/hedera';
+import { HlsRenderer } from './HlsRenderer';
+import { IframeRenderer } from './IframeRenderer';
+import { NativeRenderer } from './NativeRenderer';
+import { MediaRenderer, PlaybackCandidate, RendererId } from './types';
+
+/**
+ * Everything the player can render with. A new renderer is registered here
+ * and offered for the media it handles in getPlaybackCandidates.
+ */
+export const MEDIA_RENDERERS: Record<RendererId, MediaRenderer> = {
+  hls: { id: 'hls', label: 'Adaptive stream', usesMediaElement: true, component: HlsRenderer },
+  native: { id: 'native', label: 'Original file', usesMediaElement: true, component: NativeRenderer },
+  iframe: { id: 'iframe', label: 'Embedded page', usesMediaElement: false, component: IframeRenderer }
+};
+
+/**
+ * The ways an NFT can be played, in the order the player tries them: the HLS
+ * rendition of a video, the original file, then the original in an iframe
+ */
+export const getPlaybackCandidates = (media: MediaNFT): PlaybackCandidate[] => {
+  const isVideo = media.metadata.mediaType === 'video';
+  const candidates: PlaybackCandidate[] = [];
+
+  if (isVideo && media.hlsHash) {
+    candidates.push({ renderer: 'hls', hash: media.hlsHash });
+  }
+  candidates.push({ renderer: 'native', hash: media.ipfsHash });
+  if (isVideo) {
+    candidates.push({ renderer: 'iframe', hash: media.ipfsHash });
+  }
+  return candidates;
+};
@@ -0,0 +1,45 @@
+import type React from 'react';
+import type { MediaNFT } from '@/types/hedera';
+
+export type RendererId = 'hls' | 'native' | 'iframe';
+
+/**
+ * One way of playing an NFT: a renderer and the IPFS hash it plays. The
+ * player tries them in order, every gateway of each, until one loads.
+ */
+export interface PlaybackCandidate {
+  renderer: RendererId;
+  hash: string;
+}
+
+/** Variants of an adaptive stream, reported by renderers that have them */
+export interface QualityControl {
+  levels: Array<{ index: number; height: number; bitrate: number }>;
+  /** The level playing now */
+  currentLevel: number;
+  /** The level picked by hand, or -1 for automatic */
+  selectedLevel: number;
+  setLevel: (index: number) => void;
+}
+
+export interface RendererProps {
+  media: MediaNFT;
+  /** Gateway URL of the candidate's hash */
+  url: string;
+  /** The `<video>` / `<audio>` element, for renderers that use one */
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLAudioElement>;
+  onLoadStart: () => void;
+  onLoad: () => void;
+  onError: () => void;
+  onClick?: () => void;
+  onQualityChange: (quality: QualityControl | null) => void;
+}
+
+export interface MediaRenderer {
+  id: RendererId;
+  /** Name in the playback menu */
+  label: string;
+  /** Whether it plays through `mediaRef`, so the shared controls apply */
+  usesMediaElement: boolean;
+  component: React.FC<RendererProps>;
+}
@@ -0,0 +1,76 @@
+import React, { useRef } from 'react';
+import type { PanZoomView, Size } from '@/hooks/use-pan-zoom';
+
+interface MinimapProps {
+  src: string;
+  /** Full size of the image being viewed */
+  content: Size;
+  /** Width of the image the picture in `src` spans, when it is padded past its right edge */
+  sourceWidth?: number;
+  view: PanZoomView;
+  viewport: Size;
+  /** Centre the view on a point of the image */
+  onCenter: (x: number, y: number) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 120;
+
+/**
+ * The whole image in miniature with the part on screen outlined. Clicking or
+ * dragging on it moves the view there.
+ */
+export const Minimap: React.FC<MinimapProps> = ({ src, content, sourceWidth, view, viewport, onCenter }) => {
+  const dragging = useRef(false);
+  const ratio = Math.min(MINIMAP_WIDTH / content.width, MINIMAP_HEIGHT / content.height);
+
+  // On-screen part of the image, in minimap pixels
+  const visible = {
+    left: Math.max(0, -view.x / view.scale) * ratio,
+    top: Math.max(0, -view.y / view.scale) * ratio,
+    width: Math.min(content.width, viewport.width / view.scale) * ratio,
+    height: Math.min(content.height, viewport.height / view.scale) * ratio
+  };
+
+  const centerOnPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    onCenter((event.clientX - bounds.left) / ratio, (event.clientY - bounds.top) / ratio);
+  };
+
+  return (
+    <div
+      aria-hidden
+      className="relative overflow-hidden rounded border border-white/30 bg-black/60 shadow-lg cursor-pointer touch-none"
+      style={{ width: content.width * ratio, height: content.height * ratio }}
+      // The viewer itself pans on pointer events, so they stop here
+      onPointerDown={event => {
+        event.stopPropagation();
+        dragging.current = true;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        centerOnPointer(event);
+      }}
+      onPointerMove={event => {
+        event.stopPropagation();
+        if (dragging.current) centerOnPointer(event);
+      }}
+      onPointerUp={event => {
+        event.stopPropagation();
+        dragging.current = false;
+      }}
+      onPointerCancel={() => { dragging.current = false; }}
+      onDoubleClick={event => event.stopPropagation()}
+    >
+      <img
+        src={src}
+        alt=""
+        draggable={false}
+        className="absolute left-0 top-0 max-w-none select-none opacity-80"
+        style={{ width: (sourceWidth ?? content.width) * ratio }}
+      />
+      <div
+        className="absolute border-2 border-white rounded-sm shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+        style={visible}
+      />
+    </div>
+  );
+};
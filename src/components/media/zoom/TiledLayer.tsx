@@ -0,0 +1,112 @@
+import React from 'react';
+import { useGatewayUrl } from '@/hooks/use-gateway-url';
+import type { PanZoomView, Size } from '@/hooks/use-pan-zoom';
+import type { TilePyramid } from '@/utils/hip412';
+
+interface TiledLayerProps {
+  pyramid: TilePyramid;
+  /** IPFS path of the pyramid's directory (the manifest's hash without `pyramid.json`) */
+  directory: string;
+  view: PanZoomView;
+  viewport: Size;
+}
+
+/**
+ * The level of a tile pyramid that is sharp at `scale` screen pixels per
+ * image pixel: the smallest one with at least one tile pixel per device pixel
+ */
+const pickLevel = (pyramid: TilePyramid, scale: number): number => {
+  const wanted = scale * (window.devicePixelRatio || 1);
+  const index = pyramid.levels.findIndex(level => level.width / pyramid.width >= wanted);
+  return index === -1 ? pyramid.levels.length - 1 : index;
+};
+
+interface TileProps {
+  hash: string;
+  style: React.CSSProperties;
+}
+
+/**
+ * One tile, loaded through the gateway fallback like every other image: a
+ * failed gateway is reported and the next one tried. A tile no gateway
+ * serves is left out, so the level below shows through.
+ */
+const Tile: React.FC<TileProps> = ({ hash, style }) => {
+  const gateway = useGatewayUrl(hash);
+  if (!gateway.url) return null;
+
+  return (
+    <img
+      key={gateway.attempt}
+      src={gateway.url}
+      alt=""
+      draggable={false}
+      onLoad={gateway.onLoad}
+      onError={gateway.onError}
+      className="absolute max-w-none select-none"
+      style={style}
+    />
+  );
+};
+
+/**
+ * A very large image drawn from its tile pyramid: only the tiles of the
+ * current level that are on screen are loaded. The single tile of level 0
+ * stays underneath as a placeholder while they arrive.
+ */
+export const TiledLayer: React.FC<TiledLayerProps> = ({ pyramid, directory, view, viewport }) => {
+  const { tileSize, format } = pyramid;
+  const current = pickLevel(pyramid, view.scale);
+
+  const renderLevel = (index: number) => {
+    const level = pyramid.levels[index];
+    const levelScale = level.width / pyramid.width;
+
+    // Visible part of the image, in this level's pixels
+    const left = (-view.x / view.scale) * levelScale;
+    const top = (-view.y / view.scale) * levelScale;
+    const right = ((viewport.width - view.x) / view.scale) * levelScale;
+    const bottom = ((viewport.height - view.y) / view.scale) * levelScale;
+
+    const firstColumn = Math.max(0, Math.floor(left / tileSize));
+    const lastColumn = Math.min(level.columns - 1, Math.floor(right / tileSize));
+    const firstRow = Math.max(0, Math.floor(top / tileSize));
+    const lastRow = Math.min(level.rows - 1, Math.floor(bottom / tileSize));
+
+    const tiles: React.ReactNode[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        tiles.push(
+          <Tile
+            key={`${column}_${row}`}
+            hash={`${directory}/${index}/${column}_${row}.${format}`}
+            style={{ left: column * tileSize, top: row * tileSize, width: tileSize, height: tileSize }}
+          />
+        );
+      }
+    }
+
+    // Edge tiles are padded, so the level is clipped to its own size
+    return (
+      <div
+        key={index}
+        className="absolute left-0 top-0 overflow-hidden"
+        style={{
+          width: level.width,
+          height: level.height,
+          transformOrigin: '0 0',
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale / levelScale})`
+        }}
+      >
+        {tiles}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {current > 0 && renderLevel(0)}
+      {renderLevel(current)}
+    </>
+  );
+};
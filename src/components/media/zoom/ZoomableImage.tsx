@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { gatewayManager } from '@/services/gatewayManager';
+import { Size, usePanZoom } from '@/hooks/use-pan-zoom';
+import type { TilePyramid } from '@/utils/hip412';
+import { TiledLayer } from './TiledLayer';
+import { Minimap } from './Minimap';
+
+interface ZoomableImageProps {
+  /** The original image, shown when there are no tiles */
+  src?: string;
+  alt: string;
+  /** Tile pyramid to draw the image from instead of loading the original */
+  tiles?: { pyramid: TilePyramid; directory: string } | null;
+  /** Small copy of the image for the minimap */
+  thumbnailSrc?: string;
+  onLoad?: () => void;
+  onError?: () => void;
+  className?: string;
+}
+
+const ZOOM_STEP = 1.25;
+const PAN_STEP = 80;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Image with pan and zoom: mouse wheel, pinch, drag, double-click, the zoom
+ * buttons and the keyboard (+ / - / 0 and the arrow keys). A minimap shows
+ * where the view is while zoomed in. With `tiles` the image is drawn from its
+ * tile pyramid, so very large images never load in full.
+ */
+export const ZoomableImage: React.FC<ZoomableImageProps> = ({
+  src,
+  alt,
+  tiles,
+  thumbnailSrc,
+  onLoad,
+  onError,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+
+  const content = tiles ? { width: tiles.pyramid.width, height: tiles.pyramid.height } : naturalSize;
+  const { view, viewport, isZoomed, zoomAt, panBy, centerOn, reset } = usePanZoom(containerRef, content);
+
+  // React registers wheel listeners as passive, which cannot stop the dialog from scrolling
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      // Line-based deltas (Firefox) are roughly 16px per line
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      zoomAt(Math.exp(-delta * 0.002), { x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const toLocal = (event: React.PointerEvent | React.MouseEvent) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    const point = toLocal(event);
+
+    const other = [...pointers.current].find(([id]) => id !== event.pointerId)?.[1];
+    if (other) {
+      // Pinch: zoom by the change in finger distance around their midpoint, which also pans
+      const before = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+      const after = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+      const spread = distance(previous, other);
+      if (spread > 0) zoomAt(distance(point, other) / spread, before);
+      panBy(after.x - before.x, after.y - before.y);
+    } else {
+      panBy(point.x - previous.x, point.y - previous.y);
+    }
+    pointers.current.set(event.pointerId, point);
+  };
+
+  const releasePointer = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const actions: Record<string, () => void> = {
+      '+': () => zoomAt(ZOOM_STEP),
+      '=': () => zoomAt(ZOOM_STEP),
+      '-': () => zoomAt(1 / ZOOM_STEP),
+      '0': reset,
+      ArrowLeft: () => panBy(PAN_STEP, 0),
+      ArrowRight: () => panBy(-PAN_STEP, 0),
+      ArrowUp: () => panBy(0, PAN_STEP),
+      ArrowDown: () => panBy(0, -PAN_STEP)
+    };
+    const action = actions[event.key];
+    if (!action || event.ctrlKey || event.metaKey || event.altKey) return;
+    event.preventDefault();
+    action();
+  };
+
+  const ready = !!content && viewport.width > 0;
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+
+  // The minimap needs the whole image: the thumbnail, else the original or the
+  // single (padded) tile of the pyramid's first level
+  const firstLevel = tiles?.pyramid.levels[0];
+  const minimap: { src: string; sourceWidth?: number } | null = thumbnailSrc
+    ? { src: thumbnailSrc }
+    : tiles && firstLevel
+      ? {
+          src: gatewayManager.getUrl(`${tiles.directory}/0/0_0.${tiles.pyramid.format}`),
+          sourceWidth: (tiles.pyramid.tileSize * tiles.pyramid.width) / firstLevel.width
+        }
+      : src ? { src } : null;
+
+  return (
+    <div className={`overflow-hidden ${className || ''}`}>
+      <div
+        ref={containerRef}
+        role="img"
+        aria-label={alt}
+        aria-roledescription="zoomable image"
+        aria-keyshortcuts="+ - 0 ArrowLeft ArrowRight ArrowUp ArrowDown"
+        tabIndex={0}
+        className={`absolute inset-0 touch-none select-none focus-visible:outline-none ${
+          isZoomed ? 'cursor-grab active:cursor-grabbing' : ''
+        }`}
+        onPointerDown={event => {
+          if (event.pointerType === 'mouse' && event.button !== 0) return;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          pointers.current.set(event.pointerId, toLocal(event));
+        }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={releasePointer}
+        onPointerCancel={releasePointer}
+        onDoubleClick={event => (isZoomed ? reset() : zoomAt(2, toLocal(event)))}
+        onKeyDown={handleKeyDown}
+      >
+        {tiles ? (
+          ready && <TiledLayer pyramid={tiles.pyramid} directory={tiles.directory} view={view} viewport={viewport} />
+        ) : (
+          <img
+            src={src}
+            alt=""
+            draggable={false}
+            className="absolute left-0 top-0 max-w-none"
+            style={{ transformOrigin: '0 0', transform, visibility: ready ? 'visible' : 'hidden' }}
+            onLoad={event => {
+              setNaturalSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight });
+              onLoad?.();
+            }}
+            onError={onError}
+          />
+        )}
+      </div>
+
+      {ready && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-full bg-black/40 backdrop-blur-sm px-2 py-1 text-white">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => zoomAt(1 / ZOOM_STEP)}
+            className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums">{Math.round(view.scale * 100)}%</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => zoomAt(ZOOM_STEP)}
+            className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={reset}
+            disabled={!isZoomed}
+            className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+            aria-label="Fit to screen"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {ready && content && isZoomed && minimap && (
+        <div className="absolute bottom-4 right-4">
+          <Minimap
+            src={minimap.src}
+            sourceWidth={minimap.sourceWidth}
+            content={content}
+            view={view}
+            viewport={viewport}
+            onCenter={centerOn}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
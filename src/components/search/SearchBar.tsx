@@ -3,7 +3,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, X, Calendar, Image, Video, Grid3X3 } from 'lucide-react';
+import { Search, Filter, X, Calendar, Image, Video, Music, Grid3X3 } from 'lucide-react';
 import { SearchFilters } from '@/types/hedera';
 
 interface SearchBarProps {
@@ -14,8 +14,9 @@ interface SearchBarProps {
 export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = false }) => {
   const [query, setQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [mediaType, setMediaType] = useState<'image' | 'video' | 'all'>('all');
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'title'>('newest');
+  const [mediaType, setMediaType] = useState<'image' | 'video' | 'audio' | 'all'>('all');
+  // Unset until the user picks an order; the search then ranks by relevance with a query, else newest first
+  const [sortBy, setSortBy] = useState<SearchFilters['sortBy']>();
 
   const popularTags = ['art', 'photography', 'music', 'video', 'nature', 'portrait', 'landscape', 'abstract'];
 
@@ -43,7 +44,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = fals
     setQuery('');
     setSelectedTags([]);
     setMediaType('all');
-    setSortBy('newest');
+    setSortBy(undefined);
     onSearch({});
   };
 
@@ -96,11 +97,17 @@ export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = fals
                 Videos
               </div>
             </SelectItem>
+            <SelectItem value="audio">
+              <div className="flex items-center gap-2">
+                <Music className="w-4 h-4" />
+                Audio
+              </div>
+            </SelectItem>
           </SelectContent>
         </Select>
 
         {/* Sort Order */}
-        <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+        <Select value={sortBy || (query.trim() ? 'relevance' : 'newest')} onValueChange={(value: any) => setSortBy(value)}>
           <SelectTrigger className="w-32 bg-background/50">
             <SelectValue />
           </SelectTrigger>
@@ -111,6 +118,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading = fals
                 Newest
               </div>
             </SelectItem>
+            <SelectItem value="relevance">Relevance</SelectItem>
             <SelectItem value="oldest">Oldest</SelectItem>
             <SelectItem value="title">Title A-Z</SelectItem>
           </SelectContent>
@@ -2,9 +2,7 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
-import { EnhancedMediaPlayer } from '../media/EnhancedMediaPlayer';
-import { SimpleMediaPlayer } from '../media/SimpleMediaPlayer';
-import { RobustVideoPlayer } from '../media/RobustVideoPlayer';
+import { MediaPlayer } from '../media/player/MediaPlayer';
 import { MediaNFT } from '@/types/hedera';
 
 // Test video NFT data
@@ -152,29 +150,30 @@ export const VideoPlayerTest: React.FC<VideoPlayerTestProps> = ({ realVideoNFT }
               </div>
               
               <div className="bg-black rounded-lg overflow-hidden" style={{ height: '400px' }}>
-                <EnhancedMediaPlayer 
+                <MediaPlayer
                   media={selectedVideo}
                   className="w-full h-full"
-                  onError={() => console.error('Enhanced player failed for test video')}
                 />
               </div>
-              
+
               <div className="mt-4 p-4 bg-muted rounded-lg">
-                <h4 className="font-medium mb-2">Fallback: Simple Player</h4>
+                <h4 className="font-medium mb-2">Original File Only</h4>
                 <div className="bg-black rounded-lg overflow-hidden" style={{ height: '300px' }}>
-                  <SimpleMediaPlayer
+                  <MediaPlayer
                     media={selectedVideo}
                     className="w-full h-full"
+                    renderers={['native']}
                   />
                 </div>
               </div>
 
               <div className="mt-4 p-4 bg-muted rounded-lg">
-                <h4 className="font-medium mb-2">Robust Player (Multiple Fallbacks)</h4>
+                <h4 className="font-medium mb-2">Iframe Only</h4>
                 <div className="bg-black rounded-lg overflow-hidden" style={{ height: '300px' }}>
-                  <RobustVideoPlayer
+                  <MediaPlayer
                     media={selectedVideo}
                     className="w-full h-full"
+                    renderers={['iframe']}
                   />
                 </div>
               </div>
@@ -13,24 +13,15 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Send, AlertCircle, CheckCircle, ExternalLink } from 'lucide-react';
-import { backendService } from '@/services/backendService';
+import { nftTransferService } from '@/services/nftTransferService';
+import { useWallet } from '@/contexts/WalletContext';
 import { toast } from '@/hooks/use-toast';
-
-interface NFTData {
-  tokenId: string;
-  serialNumber: number;
-  accountId: string;
-  metadata: any;
-  createdAt: string;
-  metadataContent?: any;
-  imageUrl?: string;
-  mediaType?: 'image' | 'video' | 'audio';
-}
+import { MediaNFT } from '@/types/hedera';
 
 interface TransferNFTModalProps {
   isOpen: boolean;
   onClose: () => void;
-  nft: NFTData | null;
+  nft: MediaNFT | null;
   onTransferComplete?: () => void;
 }
 
@@ -40,8 +31,10 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
   nft,
   onTransferComplete
 }) => {
+  const { wallet, signTransaction } = useWallet();
   const [recipientAccountId, setRecipientAccountId] = useState('');
   const [isTransferring, setIsTransferring] = useState(false);
+  const [transferStage, setTransferStage] = useState<'checking' | 'signing' | null>(null);
   const [transferResult, setTransferResult] = useState<{
     success: boolean;
     transactionId?: string;
@@ -92,37 +85,57 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
       return;
     }
 
+    if (!wallet?.accountId) {
+      toast({
+        title: "Wallet Not Connected",
+        description: "Connect the wallet that owns this NFT to transfer it",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsTransferring(true);
     setTransferResult(null);
 
     try {
-      console.log(`🔄 Transferring NFT #${nft.serialNumber} to ${trimmedAccountId}`);
-      
-      const response = await backendService.transferNFT({
+      const transferRequest = {
+        tokenId: nft.tokenId,
         serialNumber: nft.serialNumber,
+        fromAccountId: wallet.accountId,
         toAccountId: trimmedAccountId
-      });
+      };
 
-      if (response.success && response.data) {
-        setTransferResult({
-          success: true,
-          transactionId: response.data.transactionId
-        });
+      // Check ownership and recipient association before asking the wallet to sign
+      setTransferStage('checking');
+      const check = await nftTransferService.checkTransfer(transferRequest);
+      if (!check.ok) {
+        throw new Error(check.message || 'Transfer pre-check failed');
+      }
+
+      if (check.willAutoAssociate) {
+        console.log(`ℹ️ ${trimmedAccountId} is not associated but has automatic association slots`);
+      }
 
-        toast({
-          title: "Transfer Successful!",
-          description: `NFT #${nft.serialNumber} has been transferred to ${trimmedAccountId}`,
-        });
+      console.log(`🔄 Transferring NFT #${nft.serialNumber} to ${trimmedAccountId}`);
 
-        // Call the completion callback after a short delay
-        setTimeout(() => {
-          onTransferComplete?.();
-          handleClose();
-        }, 3000);
+      setTransferStage('signing');
+      const transactionId = await signTransaction(nftTransferService.buildTransferTransaction(transferRequest));
 
-      } else {
-        throw new Error(response.error || 'Transfer failed');
-      }
+      setTransferResult({
+        success: true,
+        transactionId
+      });
+
+      toast({
+        title: "Transfer Successful!",
+        description: `NFT #${nft.serialNumber} has been transferred to ${trimmedAccountId}`,
+      });
+
+      // Call the completion callback after a short delay
+      setTimeout(() => {
+        onTransferComplete?.();
+        handleClose();
+      }, 3000);
 
     } catch (error) {
       console.error('Transfer error:', error);
@@ -140,6 +153,7 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
       });
     } finally {
       setIsTransferring(false);
+      setTransferStage(null);
     }
   };
 
@@ -168,13 +182,13 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
           <div className="p-4 bg-muted/50 rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <h4 className="font-medium">
-                {nft.metadataContent?.name || `NFT #${nft.serialNumber}`}
+                {nft.metadata.title}
               </h4>
               <Badge variant="secondary">#{nft.serialNumber}</Badge>
             </div>
-            {nft.metadataContent?.description && (
+            {nft.metadata.description && (
               <p className="text-sm text-muted-foreground line-clamp-2">
-                {nft.metadataContent.description}
+                {nft.metadata.description}
               </p>
             )}
           </div>
@@ -199,7 +213,7 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
               <Alert>
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>Warning:</strong> This action cannot be undone. Make sure the recipient account ID is correct and that the account is associated with the token.
+                  <strong>Warning:</strong> This action cannot be undone. You will be asked to approve the transfer in your wallet, and the recipient must be associated with the token.
                 </AlertDescription>
               </Alert>
             </div>
@@ -253,7 +267,7 @@ export const TransferNFTModal: React.FC<TransferNFTModalProps> = ({
                 {isTransferring ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Transferring...
+                    {transferStage === 'checking' ? 'Checking recipient...' : 'Approve in wallet...'}
                   </>
                 ) : (
                   <>
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,10 +11,53 @@ import { Upload, X, File, Image, Video, Plus, Loader2, CheckCircle2, AlertCircle
 import { useWallet } from '@/contexts/WalletContext';
 import { toast } from '@/hooks/use-toast';
 import { MediaMetadata, UploadProgress } from '@/types/hedera';
-import { ipfsService } from '@/services/ipfsService';
 import { hederaClientService } from '@/services/hederaClientService';
-import { backendService } from '@/services/backendService';
-import { nftMintingService } from '@/services/nftMintingService';
+import { backendService, ContentReference, DuplicateContentPolicy, MintJobStatus, StoredUpload, UploadRendition } from '@/services/backendService';
+import { nftMintingService, MintingResult } from '@/services/nftMintingService';
+import { resumableUploadService } from '@/services/resumableUploadService';
+import { contentVerificationService } from '@/services/contentVerificationService';
+import { computeCID } from '@/utils/cid';
+import {
+  CAPTION_LANGUAGE_PATTERN,
+  CAPTIONS_MIME_TYPE,
+  CaptionTrack,
+  MetadataDraft,
+  Thumbnail,
+  Waveform,
+  validateMetadataDraft
+} from '@/utils/hip412';
+import { CAPTION_FILE_TYPES, getLanguageLabel, guessCaptionLanguage, toWebVTT } from '@/utils/captions';
+import { createThumbnail } from '@/utils/thumbnails';
+import { createWaveform } from '@/utils/waveform';
+
+// Progress shown while a queued mint job moves through its states
+const mintJobProgress: Record<MintJobStatus, number> = {
+  queued: 25,
+  minting: 50,
+  minted: 70,
+  transferring: 85,
+  completed: 100,
+  failed: 100,
+};
+
+// Local CID of a selected file and the NFTs that already use that content
+interface ContentCheck {
+  cid: string;
+  /** Collection policy; null when the API could not be asked */
+  policy: DuplicateContentPolicy | null;
+  nfts: ContentReference[];
+}
+
+// A caption file picked for the video, already converted to WebVTT
+interface CaptionFile {
+  fileName: string;
+  vtt: string;
+  language: string;
+  label: string;
+}
+
+// Files made or picked for an upload that its metadata points to
+type DraftAttachments = Pick<MetadataDraft, 'thumbnail' | 'captions' | 'waveform'>;
 
 interface UploadModalProps {
   isOpen: boolean;
@@ -27,8 +70,8 @@ export const UploadModal: React.FC<UploadModalProps> = ({
   onClose,
   onUploadComplete
 }) => {
-  const { wallet, isWalletConnected, signTransaction } = useWallet();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { wallet, isWalletConnected, signTransaction, isAuthenticated, signIn } = useWallet();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [metadata, setMetadata] = useState<Partial<MediaMetadata>>({
     title: '',
     description: '',
@@ -37,8 +80,13 @@ export const UploadModal: React.FC<UploadModalProps> = ({
   const [currentTag, setCurrentTag] = useState('');
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [contentChecks, setContentChecks] = useState<Map<File, ContentCheck>>(new Map());
+  const [captionFiles, setCaptionFiles] = useState<CaptionFile[]>([]);
+  const [coverArt, setCoverArt] = useState<File | null>(null);
 
   const maxFileSize = 50 * 1024 * 1024; // 50MB
+  const maxFiles = 10; // One TokenMintTransaction
+  const maxCaptionFileSize = 1024 * 1024; // 1MB
   const allowedTypes = [
     'image/jpeg', 'image/png', 'image/gif', 'image/webp',
     'video/mp4', 'video/webm', 'video/mov',
@@ -46,14 +94,17 @@ export const UploadModal: React.FC<UploadModalProps> = ({
   ];
 
   const resetForm = () => {
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setMetadata({ title: '', description: '', tags: [] });
     setCurrentTag('');
     setUploadProgress(null);
+    setContentChecks(new Map());
+    setCaptionFiles([]);
+    setCoverArt(null);
   };
 
   const handleClose = () => {
-    if (uploadProgress?.status === 'uploading' || uploadProgress?.status === 'minting') {
+    if (uploadProgress?.status === 'uploading' || uploadProgress?.status === 'processing' || uploadProgress?.status === 'minting') {
       toast({
         title: "Upload in Progress",
         description: "Please wait for the current upload to complete.",
@@ -65,43 +116,155 @@ export const UploadModal: React.FC<UploadModalProps> = ({
     onClose();
   };
 
-  const handleFileSelect = (file: File) => {
+  const isValidFile = (file: File): boolean => {
     if (!allowedTypes.includes(file.type)) {
       toast({
         title: "Invalid File Type",
-        description: "Please select an image (JPEG, PNG, GIF, WebP), video (MP4, WebM, MOV), or audio (MP3, WAV, OGG, M4A, AAC) file.",
+        description: `${file.name}: please select an image (JPEG, PNG, GIF, WebP), video (MP4, WebM, MOV), or audio (MP3, WAV, OGG, M4A, AAC) file.`,
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
     if (file.size > maxFileSize) {
       toast({
         title: "File Too Large",
-        description: `File size must be less than ${maxFileSize / 1024 / 1024}MB.`,
+        description: `${file.name}: file size must be less than ${maxFileSize / 1024 / 1024}MB.`,
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    setSelectedFile(file);
-    setMetadata(prev => ({
-      ...prev,
-      originalFileName: file.name,
-      fileSize: file.size,
-      mediaType: file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'audio',
-    }));
+    return true;
+  };
+
+  // Hash newly selected files and ask whether the collection already has their content
+  const checkContent = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const cid = await computeCID(file);
+        const response = await backendService.checkContent(cid).catch(() => null);
+        const check: ContentCheck = {
+          cid,
+          policy: response?.data?.policy || null,
+          nfts: response?.data?.nfts || []
+        };
+        setContentChecks(prev => new Map(prev).set(file, check));
+      } catch (error) {
+        console.warn(`⚠️ Could not check ${file.name} for duplicate content:`, error);
+      }
+    }
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleFilesSelect = (files: File[]) => {
+    const validFiles = files.filter(isValidFile);
+    if (validFiles.length === 0) return;
+
+    if (selectedFiles.length + validFiles.length > maxFiles) {
+      toast({
+        title: "Too Many Files",
+        description: `You can mint up to ${maxFiles} NFTs at once. Extra files were ignored.`,
+        variant: "destructive",
+      });
+    }
+
+    setSelectedFiles(prev => [...prev, ...validFiles].slice(0, maxFiles));
+    checkContent(validFiles);
+  };
+
+  // Selected files whose content is already minted, or selected more than once
+  const duplicateWarnings = selectedFiles.flatMap((file, index) => {
+    const check = contentChecks.get(file);
+    if (!check) return [];
+
+    if (check.nfts.length > 0) {
+      return [`${file.name} is already minted as ${check.nfts.map(nft => `#${nft.serialNumber}`).join(', ')}`];
+    }
+    const earlier = selectedFiles.slice(0, index).find(other => contentChecks.get(other)?.cid === check.cid);
+    return earlier ? [`${file.name} has the same content as ${earlier.name}`] : [];
+  });
+  const duplicatePolicy = [...contentChecks.values()].find(check => check.policy)?.policy || null;
+  const duplicatesBlocked = duplicateWarnings.length > 0 && duplicatePolicy === 'block';
+
+  const removeFile = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
     
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
-  }, []);
+  };
+
+  // Captions are offered for a single video; picked files are left out while the selection is anything else
+  const acceptsCaptions = selectedFiles.length === 1 && selectedFiles[0].type.startsWith('video/');
+  const captionTracks = acceptsCaptions ? captionFiles : [];
+
+  // Caption files are read as they are picked, so one that is not WebVTT or SRT is reported straight away
+  const handleCaptionFilesSelect = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        if (file.size > maxCaptionFileSize) {
+          throw new Error(`${file.name}: caption files must be smaller than ${maxCaptionFileSize / 1024 / 1024}MB`);
+        }
+        const vtt = toWebVTT(await file.text(), file.name);
+        const language = guessCaptionLanguage(file.name) || '';
+        setCaptionFiles(prev => [...prev, { fileName: file.name, vtt, language, label: language ? getLanguageLabel(language) : '' }]);
+      } catch (error) {
+        toast({
+          title: "Invalid Caption File",
+          description: error instanceof Error ? error.message : `${file.name} could not be read`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  // A label that was filled in from the language follows it
+  const setCaptionLanguage = (index: number, language: string) => {
+    setCaptionFiles(prev => prev.map((caption, i) => {
+      if (i !== index) return caption;
+      const followsLanguage = !caption.label || caption.label === getLanguageLabel(caption.language);
+      const label = followsLanguage && CAPTION_LANGUAGE_PATTERN.test(language) ? getLanguageLabel(language) : caption.label;
+      return { ...caption, language, label };
+    }));
+  };
+
+  const setCaptionLabel = (index: number, label: string) => {
+    setCaptionFiles(prev => prev.map((caption, i) => (i === index ? { ...caption, label } : caption)));
+  };
+
+  const removeCaptionFile = (index: number) => {
+    setCaptionFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const captionIssues = captionTracks.flatMap((caption, index) => {
+    if (!CAPTION_LANGUAGE_PATTERN.test(caption.language)) {
+      return [`${caption.fileName}: enter a language tag such as en or pt-BR`];
+    }
+    const first = captionTracks.findIndex(other => other.language.toLowerCase() === caption.language.toLowerCase());
+    return first !== index ? [`${caption.fileName}: ${captionTracks[first].fileName} is already ${caption.language}`] : [];
+  });
+
+  // Cover art can be picked for a single audio file; without it the MP3's embedded picture is used
+  const acceptsCoverArt = selectedFiles.length === 1 && selectedFiles[0].type.startsWith('audio/');
+  const coverArtTypes = allowedTypes.filter(type => type.startsWith('image/'));
+
+  const handleCoverArtSelect = (file: File) => {
+    if (!coverArtTypes.includes(file.type) || file.size > maxFileSize) {
+      toast({
+        title: "Invalid Cover Art",
+        description: `${file.name}: please select a JPEG, PNG, GIF or WebP image under ${maxFileSize / 1024 / 1024}MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setCoverArt(file);
+  };
 
   const addTag = () => {
     const tag = currentTag.trim().toLowerCase();
@@ -121,67 +284,250 @@ export const UploadModal: React.FC<UploadModalProps> = ({
     }));
   };
 
+  // The uploader's part of the HIP-412 metadata for one file; batch uploads number their titles.
+  // The upload server adds the file fields (image, type, files, size) once it has stored the file.
+  const buildMetadataDraft = (title: string, creator?: string, attachments: DraftAttachments = {}): MetadataDraft => ({
+    name: title,
+    description: metadata.description || '',
+    ...(creator ? { creator } : {}),
+    tags: metadata.tags || [],
+    ...(attachments.thumbnail ? { thumbnail: attachments.thumbnail } : {}),
+    ...(attachments.captions?.length ? { captions: attachments.captions } : {}),
+    ...(attachments.waveform ? { waveform: attachments.waveform } : {})
+  });
+
+  // Checked as the form is filled in; the title is only reported once something is typed
+  const metadataValidation = validateMetadataDraft(buildMetadataDraft(metadata.title || ''));
+  const metadataIssues = metadataValidation.success || !metadata.title?.trim() ? [] : metadataValidation.issues;
+
+  // Generate and upload the grid preview for a file; the NFT is minted without one when this fails
+  const uploadThumbnail = async (file: File): Promise<Thumbnail | undefined> => {
+    try {
+      const generated = await createThumbnail(file, acceptsCoverArt ? coverArt : null);
+      if (!generated) return undefined;
+
+      const extension = generated.blob.type.split('/')[1] || 'png';
+      const thumbnailFile = new window.File([generated.blob], `${file.name}.thumbnail.${extension}`, { type: generated.blob.type });
+      const result = await backendService.uploadMedia(thumbnailFile);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Upload failed');
+      }
+      await contentVerificationService.assertUploadMatches(thumbnailFile, await computeCID(thumbnailFile), result.data.file.cid);
+
+      console.log(`🖼️ Thumbnail for ${file.name}: ${generated.width}x${generated.height} ${result.data.file.ipfsUrl}`);
+      return { uri: result.data.file.ipfsUrl, type: thumbnailFile.type, width: generated.width, height: generated.height };
+    } catch (error) {
+      console.warn(`⚠️ No thumbnail for ${file.name}:`, error);
+      return undefined;
+    }
+  };
+
+  // Waveform for the player's scrubber; audio the browser cannot decode is minted without one
+  const generateWaveform = async (file: File): Promise<Waveform | undefined> => {
+    if (!file.type.startsWith('audio/')) return undefined;
+    try {
+      const waveform = await createWaveform(file);
+      console.log(`🌊 Waveform for ${file.name}: ${waveform.peaks.length} peaks over ${waveform.duration.toFixed(1)}s`);
+      return waveform;
+    } catch (error) {
+      console.warn(`⚠️ No waveform for ${file.name}:`, error);
+      return undefined;
+    }
+  };
+
+  // Pin the video's caption tracks; unlike the thumbnail, a caption that was picked but fails stops the upload
+  const uploadCaptions = async (file: File): Promise<CaptionTrack[]> => {
+    const tracks: CaptionTrack[] = [];
+    for (const caption of captionTracks) {
+      const captionFile = new window.File([caption.vtt], `${file.name}.${caption.language}.vtt`, { type: CAPTIONS_MIME_TYPE });
+      const result = await backendService.uploadMedia(captionFile);
+      if (!result.success || !result.data) {
+        throw new Error(`${caption.fileName}: ${result.error || 'Upload failed'}`);
+      }
+      await contentVerificationService.assertUploadMatches(captionFile, await computeCID(captionFile), result.data.file.cid);
+
+      console.log(`💬 Captions (${caption.language}) for ${file.name}: ${result.data.file.ipfsUrl}`);
+      tracks.push({
+        uri: result.data.file.ipfsUrl,
+        language: caption.language,
+        ...(caption.label.trim() ? { label: caption.label.trim() } : {})
+      });
+    }
+    return tracks;
+  };
+
+  // A video's HLS rendition is transcoded after the upload; mint the metadata that lists it once it is ready
+  const waitForRendition = async (metadata: StoredUpload, rendition: UploadRendition | null | undefined) => {
+    if (rendition?.status !== 'processing') {
+      return backendService.waitForUploadRendition(metadata, rendition);
+    }
+
+    setUploadProgress(prev => prev ? { ...prev, status: 'processing' } : null);
+    try {
+      return await backendService.waitForUploadRendition(metadata, rendition);
+    } finally {
+      setUploadProgress(prev => prev ? { ...prev, status: 'uploading' } : null);
+    }
+  };
+
+  // Upload a file with its metadata through the upload server; returns the metadata's ipfs:// URL.
+  // Uses resumable chunked uploads when the API supports them, otherwise one request.
+  const uploadWithMetadata = async (file: File, title: string, creator: string, onBytes: (bytesUploaded: number) => void) => {
+    const validation = validateMetadataDraft(buildMetadataDraft(title, creator, {
+      thumbnail: await uploadThumbnail(file),
+      captions: await uploadCaptions(file),
+      waveform: await generateWaveform(file)
+    }));
+    if (!validation.success) {
+      throw new Error(`Invalid metadata: ${validation.issues.join('; ')}`);
+    }
+    const nftMetadata = validation.data;
+
+    // CID of the selected bytes, checked against what the storage provider reports
+    const localCid = contentChecks.get(file)?.cid || await computeCID(file);
+
+    if (resumableUploadService.isSupported()) {
+      const uploaded = await resumableUploadService.upload(file, creator, nftMetadata, (event) => onBytes(event.bytesUploaded));
+      if (!uploaded.metadata) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+      await contentVerificationService.assertUploadMatches(file, localCid, uploaded.file.cid);
+      return (await waitForRendition(uploaded.metadata, uploaded.rendition)).ipfsUrl;
+    }
+
+    const result = await backendService.uploadMedia(file, nftMetadata, (percent) => onBytes(Math.round((percent / 100) * file.size)));
+    if (!result.success || !result.data?.metadata) {
+      throw new Error(result.error ? `${file.name}: ${result.error}` : `Failed to upload ${file.name}`);
+    }
+    await contentVerificationService.assertUploadMatches(file, localCid, result.data.file.cid);
+    return (await waitForRendition(result.data.metadata, result.data.rendition)).ipfsUrl;
+  };
+
+  // Progress while uploading follows the bytes sent across all selected files
+  const reportUploadedBytes = (bytesUploaded: number, totalBytes: number) => {
+    setUploadProgress(prev => prev ? {
+      ...prev,
+      progress: Math.round((bytesUploaded / totalBytes) * 100),
+      bytesUploaded,
+      totalBytes
+    } : null);
+  };
+
+  const handleBatchUpload = async (accountId: string) => {
+    const total = selectedFiles.length;
+    const totalBytes = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+    const metadataUrls: string[] = [];
+    let completedBytes = 0;
+
+    // Upload each file and its metadata to IPFS
+    for (const [index, file] of selectedFiles.entries()) {
+      metadataUrls.push(await uploadWithMetadata(file, `${metadata.title || ''} #${index + 1}`, accountId, (bytes) => {
+        reportUploadedBytes(completedBytes + bytes, totalBytes);
+      }));
+      completedBytes += file.size;
+    }
+
+    setUploadProgress(prev => prev ? { ...prev, status: 'minting', progress: 25 } : null);
+    console.log(`Batch minting ${metadataUrls.length} NFTs`);
+
+    const batchResult = await nftMintingService.mintNFTBatch(metadataUrls, accountId);
+
+    const { minted, failed, untransferred } = batchResult;
+    if (minted.length === 0 && untransferred.length === 0) {
+      throw new Error(failed[0]?.error || 'Failed to mint NFTs');
+    }
+
+    const fileOf = (metadataUrl: string) => selectedFiles[metadataUrls.indexOf(metadataUrl)]?.name || metadataUrl;
+    const serials = minted.map(nft => `#${nft.serialNumber}`).join(', ');
+
+    if (failed.length > 0 || untransferred.length > 0) {
+      const problems = [
+        failed.length > 0 && `${failed.length} of ${total} failed to mint: ${failed.map(failure => fileOf(failure.metadataUrl)).join(', ')}`,
+        untransferred.length > 0 && `${untransferred.length} minted but not transferred to your account: ${untransferred
+          .map(nft => `${fileOf(nft.metadataUrl)} (#${nft.serialNumber})`)
+          .join(', ')}`
+      ].filter(Boolean).join('. ');
+
+      setUploadProgress(prev => prev ? {
+        ...prev,
+        status: 'completed',
+        progress: 100,
+        error: problems
+      } : null);
+
+      toast({
+        title: failed.length > 0 ? "Some NFTs Were Not Minted" : "Some NFTs Were Not Transferred",
+        description: minted.length > 0 ? `Minted ${serials}. ${problems}` : problems,
+        variant: "destructive",
+      });
+    } else {
+      setUploadProgress(prev => prev ? { ...prev, status: 'completed', progress: 100 } : null);
+
+      toast({
+        title: "NFTs Minted Successfully!",
+        description: `${minted.length} NFTs (${serials}) have been minted to your account!`,
+      });
+    }
+
+    console.log('Batch mint finished:', batchResult);
+
+    setTimeout(() => {
+      onUploadComplete?.(batchResult.tokenId);
+      handleClose();
+    }, 2000);
+  };
+
   const handleUpload = async () => {
-    if (!selectedFile || !isWalletConnected || !wallet) {
+    if (selectedFiles.length === 0 || !isWalletConnected || !wallet) {
       return;
     }
 
+    const selectedFile = selectedFiles[0];
     const progress: UploadProgress = {
       file: selectedFile,
       progress: 0,
       status: 'uploading',
+      bytesUploaded: 0,
+      totalBytes: selectedFiles.reduce((sum, file) => sum + file.size, 0),
     };
     setUploadProgress(progress);
 
     try {
-      // Upload file to IPFS
-      setUploadProgress(prev => prev ? { ...prev, progress: 20 } : null);
-      const fileUpload = await ipfsService.uploadFile(selectedFile);
-
-      setUploadProgress(prev => prev ? { ...prev, progress: 40 } : null);
-
-      // Create metadata and upload to IPFS
-      const nftMetadata = {
-        name: metadata.title || '',
-        description: metadata.description || '',
-        image: fileUpload.url,
-        type: metadata.mediaType || 'image',
-        mediaType: metadata.mediaType || 'image', // Add explicit mediaType field
-        attributes: (metadata.tags || []).map(tag => ({
-          trait_type: 'Tag',
-          value: tag
-        })),
-        properties: {
-          creator: wallet.accountId,
-          tags: metadata.tags || [],
-          mediaType: metadata.mediaType || 'image', // Also store in properties
-          originalFileName: metadata.originalFileName || selectedFile.name,
-          fileSize: selectedFile.size,
-          uploadDate: new Date().toISOString()
-        }
-      };
+      // Minting requires a wallet session
+      if (!isAuthenticated) {
+        await signIn();
+      }
 
-      console.log('🔍 Creating NFT metadata with mediaType:', metadata.mediaType);
-      console.log('📋 Full NFT metadata:', nftMetadata);
+      if (selectedFiles.length > 1) {
+        await handleBatchUpload(wallet.accountId);
+        return;
+      }
 
-      const metadataUpload = await ipfsService.uploadMetadata(nftMetadata);
-      setUploadProgress(prev => prev ? { ...prev, progress: 60 } : null);
+      // Upload the file and its metadata to IPFS through the upload server
+      const ipfsUrl = await uploadWithMetadata(selectedFile, metadata.title || '', wallet.accountId, (bytes) => {
+        reportUploadedBytes(bytes, selectedFile.size);
+      });
 
       // Mint NFT using proper transaction signing flow
       setUploadProgress(prev => prev ? { ...prev, status: 'minting', progress: 0 } : null);
-
-      // Convert gateway URL to IPFS URL format for backend
-      const ipfsUrl = `ipfs://${metadataUpload.hash}`;
       console.log('Minting NFT with metadata URL:', ipfsUrl);
 
       setUploadProgress(prev => prev ? { ...prev, progress: 25 } : null);
 
-      // Use hybrid approach: Backend mints to treasury, user signs transfer
-      const mintResult = await nftMintingService.mintAndTransferNFT(
-        ipfsUrl,
-        wallet.accountId,
-        { signTransaction } // Pass the signTransaction function
-      );
+      let mintResult: MintingResult;
+      if (backendService.supportsMintJobs()) {
+        // Queue the mint on the API and follow the job until the NFT reaches the wallet
+        mintResult = await nftMintingService.mintNFTWithJob(ipfsUrl, wallet.accountId, (job) => {
+          setUploadProgress(prev => prev ? { ...prev, progress: mintJobProgress[job.status] } : null);
+        });
+      } else {
+        // Use hybrid approach: Backend mints to treasury, user signs transfer
+        mintResult = await nftMintingService.mintAndTransferNFT(
+          ipfsUrl,
+          wallet.accountId,
+          { signTransaction } // Pass the signTransaction function
+        );
+      }
 
       setUploadProgress(prev => prev ? { ...prev, progress: 100 } : null);
 
@@ -232,7 +578,7 @@ export const UploadModal: React.FC<UploadModalProps> = ({
     }
   };
 
-  const isFormValid = selectedFile && metadata.title?.trim() && isWalletConnected;
+  const isFormValid = selectedFiles.length > 0 && metadata.title?.trim() && metadataValidation.success && captionIssues.length === 0 && isWalletConnected && !duplicatesBlocked;
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -249,7 +595,7 @@ export const UploadModal: React.FC<UploadModalProps> = ({
             className={`border-2 border-dashed rounded-xl p-8 transition-all duration-300 cursor-pointer ${
               isDragOver
                 ? 'border-primary bg-primary/5'
-                : selectedFile
+                : selectedFiles.length > 0
                 ? 'border-accent bg-accent/5'
                 : 'border-border hover:border-border/80'
             }`}
@@ -262,26 +608,64 @@ export const UploadModal: React.FC<UploadModalProps> = ({
               id="file-input"
               type="file"
               accept={allowedTypes.join(',')}
-              onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+              multiple
+              onChange={(e) => {
+                if (e.target.files?.length) handleFilesSelect(Array.from(e.target.files));
+                e.target.value = '';
+              }}
               className="hidden"
               disabled={!!uploadProgress}
             />
 
-            {selectedFile ? (
+            {selectedFiles.length > 1 ? (
+              <div className="space-y-2">
+                {selectedFiles.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="flex items-center gap-3 p-2 rounded-lg bg-background/50">
+                    {file.type.startsWith('image/') ? (
+                      <Image className="w-4 h-4 text-accent shrink-0" />
+                    ) : file.type.startsWith('video/') ? (
+                      <Video className="w-4 h-4 text-accent shrink-0" />
+                    ) : (
+                      <Music className="w-4 h-4 text-accent shrink-0" />
+                    )}
+                    <span className="flex-1 truncate text-sm">{file.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {(file.size / 1024 / 1024).toFixed(2)} MB
+                    </span>
+                    {!uploadProgress && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeFile(index);
+                        }}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <p className="text-xs text-center text-muted-foreground">
+                  {selectedFiles.length} of {maxFiles} files - click or drop to add more
+                </p>
+              </div>
+            ) : selectedFiles.length === 1 ? (
               <div className="text-center space-y-3">
                 <div className="w-16 h-16 rounded-xl bg-gradient-accent mx-auto flex items-center justify-center">
-                  {selectedFile.type.startsWith('image/') ? (
+                  {selectedFiles[0].type.startsWith('image/') ? (
                     <Image className="w-8 h-8 text-accent-foreground" />
-                  ) : selectedFile.type.startsWith('video/') ? (
+                  ) : selectedFiles[0].type.startsWith('video/') ? (
                     <Video className="w-8 h-8 text-accent-foreground" />
                   ) : (
                     <Music className="w-8 h-8 text-accent-foreground" />
                   )}
                 </div>
                 <div>
-                  <p className="font-semibold">{selectedFile.name}</p>
+                  <p className="font-semibold">{selectedFiles[0].name}</p>
                   <p className="text-sm text-muted-foreground">
-                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                    {(selectedFiles[0].size / 1024 / 1024).toFixed(2)} MB
                   </p>
                 </div>
                 {!uploadProgress && (
@@ -290,7 +674,7 @@ export const UploadModal: React.FC<UploadModalProps> = ({
                     size="sm"
                     onClick={(e) => {
                       e.stopPropagation();
-                      setSelectedFile(null);
+                      removeFile(0);
                     }}
                   >
                     <X className="w-4 h-4 mr-2" />
@@ -312,12 +696,36 @@ export const UploadModal: React.FC<UploadModalProps> = ({
                 <p className="text-xs text-muted-foreground">
                   Supports: Images (JPEG, PNG, GIF, WebP) and Videos (MP4, WebM, MOV)
                   <br />
-                  Max file size: 50MB
+                  Max file size: 50MB, up to {maxFiles} files per batch
                 </p>
               </div>
             )}
           </div>
 
+          {/* Duplicate Content */}
+          {duplicateWarnings.length > 0 && !uploadProgress && (
+            <div className={`p-4 rounded-xl border space-y-2 ${
+              duplicatesBlocked
+                ? 'bg-destructive/10 border-destructive/20'
+                : 'bg-yellow-500/10 border-yellow-500/20'
+            }`}>
+              <div className={`flex items-center gap-2 ${duplicatesBlocked ? 'text-destructive' : 'text-yellow-400'}`}>
+                <AlertCircle className="w-4 h-4" />
+                <span className="text-sm font-medium">Duplicate Content</span>
+              </div>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {duplicateWarnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                {duplicatesBlocked
+                  ? 'This collection does not allow minting the same content twice. Remove these files to continue.'
+                  : 'You can still mint, but the NFTs will point to the same file.'}
+              </p>
+            </div>
+          )}
+
           {/* Upload Progress */}
           {uploadProgress && (
             <div className="p-4 rounded-xl bg-muted/50 space-y-3">
@@ -332,7 +740,8 @@ export const UploadModal: React.FC<UploadModalProps> = ({
                   )}
                   <span className="font-medium">
                     {uploadProgress.status === 'uploading' && 'Uploading to IPFS...'}
-                    {uploadProgress.status === 'minting' && 'Minting NFT on Hedera...'}
+                    {uploadProgress.status === 'processing' && 'Preparing the video stream...'}
+                    {uploadProgress.status === 'minting' && (selectedFiles.length > 1 ? `Minting ${selectedFiles.length} NFTs on Hedera...` : 'Minting NFT on Hedera...')}
                     {uploadProgress.status === 'completed' && 'Upload Complete!'}
                     {uploadProgress.status === 'error' && 'Upload Failed'}
                   </span>
@@ -342,6 +751,11 @@ export const UploadModal: React.FC<UploadModalProps> = ({
                 </span>
               </div>
               <Progress value={uploadProgress.progress} className="h-2" />
+              {uploadProgress.status === 'uploading' && uploadProgress.totalBytes ? (
+                <p className="text-xs text-muted-foreground">
+                  {((uploadProgress.bytesUploaded || 0) / 1024 / 1024).toFixed(1)} of {(uploadProgress.totalBytes / 1024 / 1024).toFixed(1)} MB
+                </p>
+              ) : null}
               {uploadProgress.error && (
                 <p className="text-sm text-destructive">{uploadProgress.error}</p>
               )}
@@ -417,6 +831,144 @@ export const UploadModal: React.FC<UploadModalProps> = ({
                 </div>
               )}
             </div>
+
+            {/* Cover Art */}
+            {acceptsCoverArt && (
+              <div>
+                <Label>Cover Art</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Optional. Shown on the gallery card and in the player instead of the artwork embedded in the file.
+                </p>
+                <input
+                  id="cover-art-input"
+                  type="file"
+                  accept={coverArtTypes.join(',')}
+                  onChange={(e) => {
+                    if (e.target.files?.[0]) handleCoverArtSelect(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  disabled={!!uploadProgress}
+                />
+                {coverArt ? (
+                  <div className="flex items-center gap-2">
+                    <Image className="w-4 h-4 text-accent shrink-0" />
+                    <span className="flex-1 truncate text-sm">{coverArt.name}</span>
+                    {!uploadProgress && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setCoverArt(null)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => document.getElementById('cover-art-input')?.click()}
+                    disabled={!!uploadProgress}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Cover Art
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Captions */}
+            {acceptsCaptions && (
+              <div>
+                <Label>Captions</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  WebVTT or SRT files, one per language. SRT is converted to WebVTT.
+                </p>
+                <input
+                  id="caption-input"
+                  type="file"
+                  accept={CAPTION_FILE_TYPES.join(',')}
+                  multiple
+                  onChange={(e) => {
+                    if (e.target.files?.length) handleCaptionFilesSelect(Array.from(e.target.files));
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  disabled={!!uploadProgress}
+                />
+                {captionFiles.length > 0 && (
+                  <div className="space-y-2 mb-2">
+                    {captionFiles.map((caption, index) => (
+                      <div key={`${caption.fileName}-${index}`} className="flex items-center gap-2">
+                        <File className="w-4 h-4 text-accent shrink-0" />
+                        <span className="flex-1 truncate text-sm">{caption.fileName}</span>
+                        <Input
+                          value={caption.language}
+                          onChange={(e) => setCaptionLanguage(index, e.target.value.trim())}
+                          placeholder="en"
+                          aria-label={`Language of ${caption.fileName}`}
+                          disabled={!!uploadProgress}
+                          className="w-20 bg-background/50"
+                        />
+                        <Input
+                          value={caption.label}
+                          onChange={(e) => setCaptionLabel(index, e.target.value)}
+                          placeholder="English"
+                          aria-label={`Label of ${caption.fileName}`}
+                          maxLength={50}
+                          disabled={!!uploadProgress}
+                          className="w-32 bg-background/50"
+                        />
+                        {!uploadProgress && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => removeCaptionFile(index)}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => document.getElementById('caption-input')?.click()}
+                  disabled={captionFiles.length >= 10 || !!uploadProgress}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Captions
+                </Button>
+                {captionIssues.length > 0 && !uploadProgress && (
+                  <ul className="text-xs text-destructive space-y-1 mt-2">
+                    {captionIssues.map(issue => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {metadataIssues.length > 0 && !uploadProgress && (
+              <div className="p-3 rounded-xl bg-destructive/10 border border-destructive/20 space-y-1">
+                <div className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  <span className="text-sm font-medium">Metadata</span>
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {metadataIssues.map(issue => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -424,7 +976,7 @@ export const UploadModal: React.FC<UploadModalProps> = ({
             <Button
               variant="outline"
               onClick={handleClose}
-              disabled={uploadProgress?.status === 'uploading' || uploadProgress?.status === 'minting'}
+              disabled={uploadProgress?.status === 'uploading' || uploadProgress?.status === 'processing' || uploadProgress?.status === 'minting'}
               className="flex-1"
             >
               {uploadProgress?.status === 'completed' ? 'Close' : 'Cancel'}
@@ -433,18 +985,23 @@ export const UploadModal: React.FC<UploadModalProps> = ({
             {uploadProgress?.status !== 'completed' && (
               <Button
                 onClick={handleUpload}
-                disabled={!isFormValid || !!uploadProgress}
+                disabled={!isFormValid || (!!uploadProgress && uploadProgress.status !== 'error')}
                 className="flex-1 bg-gradient-primary text-primary-foreground shadow-primary hover:shadow-primary/70"
               >
-                {uploadProgress ? (
+                {uploadProgress?.status === 'error' ? (
+                  <>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Retry Upload
+                  </>
+                ) : uploadProgress ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    {uploadProgress.status === 'uploading' ? 'Uploading...' : 'Minting...'}
+                    {uploadProgress.status === 'minting' ? 'Minting...' : 'Uploading...'}
                   </>
                 ) : (
                   <>
                     <Upload className="w-4 h-4 mr-2" />
-                    Upload & Mint NFT
+                    {selectedFiles.length > 1 ? `Upload & Mint ${selectedFiles.length} NFTs` : 'Upload & Mint NFT'}
                   </>
                 )}
               </Button>
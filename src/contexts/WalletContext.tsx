@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { WalletConnection } from '@/types/hedera';
+import { WalletConnection, AuthSession } from '@/types/hedera';
 import { hashConnectService, HashPackConnectionState } from '@/services/hashConnectService';
+import { backendService } from '@/services/backendService';
 import { toast } from '@/hooks/use-toast';
 
 interface WalletContextType {
@@ -12,6 +13,10 @@ interface WalletContextType {
   isWalletConnected: boolean;
   signTransaction: (transaction: any) => Promise<any>;
   signMessage: (message: string) => Promise<string>;
+  session: AuthSession | null;
+  isAuthenticated: boolean;
+  signIn: () => Promise<AuthSession>;
+  signOut: () => void;
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
@@ -32,6 +37,17 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const [wallet, setWallet] = useState<WalletConnection | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
   const [pairingString, setPairingString] = useState('');
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  const applySession = (nextSession: AuthSession | null) => {
+    setSession(nextSession);
+    backendService.setSessionToken(nextSession?.token || null);
+    if (nextSession) {
+      localStorage.setItem('hedera_session', JSON.stringify(nextSession));
+    } else {
+      localStorage.removeItem('hedera_session');
+    }
+  };
 
   const updateWalletState = (hashConnectState: HashPackConnectionState) => {
     if (hashConnectState.isConnected && hashConnectState.accountId) {
@@ -71,6 +87,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   };
 
   const disconnectWallet = () => {
+    applySession(null);
     hashConnectService.disconnectWallet();
     toast({
       title: "Wallet Disconnected",
@@ -95,6 +112,69 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       throw error;
     }
   };
+  /**
+   * Sign-In-With-Hedera: sign a backend challenge with the wallet
+   * and exchange it for a short-lived session token
+   */
+  const signIn = async (): Promise<AuthSession> => {
+    if (!wallet?.accountId) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      const challenge = await backendService.requestAuthChallenge(wallet.accountId);
+      if (!challenge.success || !challenge.data) {
+        throw new Error(challenge.error || 'Failed to get sign-in challenge');
+      }
+
+      const signature = await hashConnectService.signMessage(challenge.data.message);
+
+      const result = await backendService.verifyAuthSignature(wallet.accountId, challenge.data.nonce, signature);
+      if (!result.success || !result.data) {
+        throw new Error(result.details || result.error || 'Sign-in failed');
+      }
+
+      applySession(result.data);
+      toast({
+        title: "Signed In",
+        description: `Signed in as ${result.data.accountId}`,
+      });
+      return result.data;
+    } catch (error) {
+      console.error('Failed to sign in:', error);
+      toast({
+        title: "Sign In Failed",
+        description: error instanceof Error ? error.message : "Failed to sign in with wallet",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const signOut = () => {
+    applySession(null);
+  };
+
+  // Drop the session when it expires or another account connects.
+  // A missing wallet is not enough: HashConnect restores pairings asynchronously.
+  useEffect(() => {
+    if (!session) return;
+
+    if (wallet?.accountId && wallet.accountId !== session.accountId) {
+      applySession(null);
+      return;
+    }
+
+    const expiresIn = new Date(session.expiresAt).getTime() - Date.now();
+    if (expiresIn <= 0) {
+      applySession(null);
+      return;
+    }
+
+    const timer = setTimeout(() => applySession(null), expiresIn);
+    return () => clearTimeout(timer);
+  }, [session, wallet?.accountId]);
+
   // Check for existing connection on mount
   useEffect(() => {
     // Check localStorage for existing wallet data first
@@ -111,6 +191,21 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         console.warn('Error reading stored wallet data:', error);
         localStorage.removeItem('hedera_wallet');
       }
+
+      try {
+        const storedSession = localStorage.getItem('hedera_session');
+        if (storedSession) {
+          const sessionData: AuthSession = JSON.parse(storedSession);
+          if (new Date(sessionData.expiresAt).getTime() > Date.now()) {
+            applySession(sessionData);
+          } else {
+            localStorage.removeItem('hedera_session');
+          }
+        }
+      } catch (error) {
+        console.warn('Error reading stored session data:', error);
+        localStorage.removeItem('hedera_session');
+      }
     };
 
     // Initialize HashConnect
@@ -148,6 +243,10 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     disconnectWallet,
     signTransaction,
     signMessage,
+    session,
+    isAuthenticated: !!session && session.accountId === wallet?.accountId,
+    signIn,
+    signOut,
     isWalletConnected: wallet?.isConnected || false,
   };
 
@@ -0,0 +1,61 @@
+import * as React from "react"
+import { gatewayManager } from "@/services/gatewayManager"
+
+/**
+ * Gateway URL for an IPFS hash in a media element, best scoring gateway
+ * first. Wire `onLoad` / `onError` (and `onLoadStart` for media that does
+ * not preload) to the element: each outcome is reported
+ * to the gateway manager and an error moves on to the next gateway until
+ * `exhausted`. Use `attempt` in the element's key to remount it per gateway.
+ */
+export function useGatewayUrl(hash: string | null | undefined) {
+  // Fix the order for this hash so reports don't reshuffle it mid-fallback
+  const urls = React.useMemo(() => (hash ? gatewayManager.getUrls(hash) : []), [hash])
+  const [progress, setProgress] = React.useState({ hash, attempt: 0 })
+  const attempt = progress.hash === hash ? progress.attempt : 0
+  const startedAt = React.useRef(0)
+  const reported = React.useRef(false)
+
+  const url = urls[attempt] as string | undefined
+
+  React.useEffect(() => {
+    startedAt.current = performance.now()
+    reported.current = false
+  }, [url])
+
+  // Media that only loads on play (preload="none") is timed from the load start
+  const onLoadStart = React.useCallback(() => {
+    startedAt.current = performance.now()
+  }, [])
+
+  const onLoad = React.useCallback(() => {
+    if (!url || reported.current) return
+    reported.current = true
+    gatewayManager.reportSuccess(url, performance.now() - startedAt.current)
+  }, [url])
+
+  const onError = React.useCallback(() => {
+    if (!url || reported.current) return
+    reported.current = true
+    gatewayManager.reportFailure(url)
+    if (attempt + 1 < urls.length) {
+      console.log(`🔄 Trying next gateway for ${hash} (${attempt + 2}/${urls.length})`)
+    } else {
+      console.error(`❌ All gateways failed for ${hash}`)
+    }
+    setProgress({ hash, attempt: attempt + 1 })
+  }, [url, hash, attempt, urls.length])
+
+  const retry = React.useCallback(() => setProgress({ hash, attempt: 0 }), [hash])
+
+  return {
+    url,
+    urls,
+    attempt,
+    exhausted: urls.length > 0 && attempt >= urls.length,
+    onLoadStart,
+    onLoad,
+    onError,
+    retry,
+  }
+}
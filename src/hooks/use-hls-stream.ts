@@ -0,0 +1,118 @@
+import * as React from "react"
+import type Hls from "hls.js"
+
+export const HLS_AUTO_LEVEL = -1
+
+export interface HlsLevel {
+  index: number
+  height: number
+  bitrate: number
+}
+
+interface HlsStreamCallbacks {
+  /** The playlist loaded */
+  onLoad?: () => void
+  /** The stream cannot be played from this URL */
+  onError?: () => void
+}
+
+/**
+ * Plays an HLS playlist in the video element behind `videoRef`: through
+ * hls.js where Media Source Extensions are available, so the quality can be
+ * picked by hand, and natively elsewhere (Safari, iOS). Pass no `url` to
+ * leave the element alone. The element should be remounted (keyed) per URL.
+ */
+export function useHlsStream(
+  videoRef: React.RefObject<HTMLVideoElement | HTMLAudioElement>,
+  url: string | undefined,
+  callbacks: HlsStreamCallbacks = {}
+) {
+  const [levels, setLevels] = React.useState<HlsLevel[]>([])
+  const [currentLevel, setCurrentLevel] = React.useState(HLS_AUTO_LEVEL)
+  const [selectedLevel, setSelectedLevel] = React.useState(HLS_AUTO_LEVEL)
+  const hlsRef = React.useRef<Hls | null>(null)
+  const callbacksRef = React.useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  React.useEffect(() => {
+    const video = videoRef.current
+    if (!video || !url) return
+
+    let cancelled = false
+    setLevels([])
+    setCurrentLevel(HLS_AUTO_LEVEL)
+    setSelectedLevel(HLS_AUTO_LEVEL)
+
+    // hls.js is only downloaded for NFTs that have a stream
+    import("hls.js")
+      .then(({ default: HlsPlayer }) => {
+        if (cancelled) return
+
+        if (!HlsPlayer.isSupported()) {
+          if (video.canPlayType("application/vnd.apple.mpegurl")) {
+            // The element's own events report the outcome
+            video.src = url
+          } else {
+            callbacksRef.current.onError?.()
+          }
+          return
+        }
+
+        const hls = new HlsPlayer({ capLevelToPlayerSize: true })
+        hlsRef.current = hls
+        let recoveredMediaError = false
+
+        hls.on(HlsPlayer.Events.MANIFEST_PARSED, (_event, data) => {
+          setLevels(data.levels.map((level, index) => ({ index, height: level.height, bitrate: level.bitrate })))
+          callbacksRef.current.onLoad?.()
+        })
+        hls.on(HlsPlayer.Events.LEVEL_SWITCHED, (_event, data) => setCurrentLevel(data.level))
+        hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return
+
+          // A decoding hiccup is worth one recovery before giving up on the stream
+          if (data.type === HlsPlayer.ErrorTypes.MEDIA_ERROR && !recoveredMediaError) {
+            recoveredMediaError = true
+            hls.recoverMediaError()
+            return
+          }
+
+          console.error(`❌ HLS playback failed for ${url}:`, data.details)
+          hls.destroy()
+          hlsRef.current = null
+          callbacksRef.current.onError?.()
+        })
+
+        hls.loadSource(url)
+        hls.attachMedia(video as HTMLVideoElement)
+      })
+      .catch(error => {
+        console.error("❌ Could not load the HLS player:", error)
+        if (!cancelled) callbacksRef.current.onError?.()
+      })
+
+    return () => {
+      cancelled = true
+      hlsRef.current?.destroy()
+      hlsRef.current = null
+    }
+  }, [videoRef, url])
+
+  /** Switch to a level, or back to automatic selection with HLS_AUTO_LEVEL */
+  const setLevel = React.useCallback((index: number) => {
+    const hls = hlsRef.current
+    if (!hls) return
+    hls.currentLevel = index
+    setSelectedLevel(index)
+  }, [])
+
+  return {
+    /** Variants to choose from; empty when the browser plays HLS natively */
+    levels,
+    /** The level playing now */
+    currentLevel,
+    /** The level picked by hand, or HLS_AUTO_LEVEL */
+    selectedLevel,
+    setLevel,
+  }
+}
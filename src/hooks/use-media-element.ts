@@ -0,0 +1,112 @@
+import * as React from "react"
+
+/**
+ * Playback state of the `<video>` / `<audio>` element behind `mediaRef`, and
+ * the actions of the player controls. `elementKey` must change whenever the
+ * element is remounted so the listeners move to the new one.
+ */
+export function useMediaElement(
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLAudioElement>,
+  elementKey: string
+) {
+  const [isPlaying, setIsPlaying] = React.useState(false)
+  const [currentTime, setCurrentTime] = React.useState(0)
+  const [duration, setDuration] = React.useState(0)
+  const [volume, setVolumeState] = React.useState(1)
+  const [isMuted, setIsMuted] = React.useState(false)
+  // A new element (another gateway or renderer) keeps the listener's volume
+  const levels = React.useRef({ volume: 1, muted: false })
+
+  React.useEffect(() => {
+    const element = mediaRef.current
+    setIsPlaying(false)
+    setCurrentTime(0)
+    setDuration(0)
+    if (!element) return
+
+    element.volume = levels.current.volume
+    element.muted = levels.current.muted
+
+    const updateTime = () => setCurrentTime(element.currentTime)
+    const updateDuration = () => setDuration(Number.isFinite(element.duration) ? element.duration : 0)
+    const handlePlay = () => setIsPlaying(true)
+    const handlePause = () => setIsPlaying(false)
+
+    element.addEventListener("timeupdate", updateTime)
+    element.addEventListener("loadedmetadata", updateDuration)
+    element.addEventListener("durationchange", updateDuration)
+    element.addEventListener("play", handlePlay)
+    element.addEventListener("pause", handlePause)
+    element.addEventListener("ended", handlePause)
+
+    return () => {
+      element.removeEventListener("timeupdate", updateTime)
+      element.removeEventListener("loadedmetadata", updateDuration)
+      element.removeEventListener("durationchange", updateDuration)
+      element.removeEventListener("play", handlePlay)
+      element.removeEventListener("pause", handlePause)
+      element.removeEventListener("ended", handlePause)
+    }
+  }, [mediaRef, elementKey])
+
+  const togglePlay = React.useCallback(async () => {
+    const element = mediaRef.current
+    if (!element) return
+
+    try {
+      if (element.paused) {
+        await element.play()
+      } else {
+        element.pause()
+      }
+    } catch (error) {
+      console.error("Error toggling playback:", error)
+    }
+  }, [mediaRef])
+
+  const seek = React.useCallback((time: number) => {
+    const element = mediaRef.current
+    if (!element) return
+    element.currentTime = time
+    setCurrentTime(time)
+  }, [mediaRef])
+
+  const skip = React.useCallback((seconds: number) => {
+    const element = mediaRef.current
+    if (!element) return
+    const end = Number.isFinite(element.duration) ? element.duration : element.currentTime + seconds
+    seek(Math.max(0, Math.min(end, element.currentTime + seconds)))
+  }, [mediaRef, seek])
+
+  const setVolume = React.useCallback((value: number) => {
+    const element = mediaRef.current
+    if (element) {
+      element.volume = value
+      element.muted = value === 0
+    }
+    levels.current = { volume: value, muted: value === 0 }
+    setVolumeState(value)
+    setIsMuted(value === 0)
+  }, [mediaRef])
+
+  const toggleMute = React.useCallback(() => {
+    const element = mediaRef.current
+    const muted = !levels.current.muted
+    if (element) element.muted = muted
+    levels.current = { ...levels.current, muted }
+    setIsMuted(muted)
+  }, [mediaRef])
+
+  return {
+    isPlaying,
+    currentTime,
+    duration,
+    volume,
+    isMuted,
+    togglePlay,
+    seek,
+    skip,
+    setVolume,
+    toggleMute,
+  }
+}
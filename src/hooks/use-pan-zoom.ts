@@ -0,0 +1,118 @@
+import * as React from "react"
+
+/** Screen position of content: `screen = content * scale + (x, y)`, relative to the container */
+export interface PanZoomView {
+  scale: number
+  x: number
+  y: number
+}
+
+export interface Size {
+  width: number
+  height: number
+}
+
+/** Deepest zoom, in screen pixels per content pixel */
+const MAX_SCALE = 4
+
+/**
+ * Pan and zoom of content of a known size (`width` x `height` content pixels)
+ * inside `containerRef`. The view starts fitted (never enlarged past 1:1),
+ * cannot zoom out past that or pan the content off screen, and is reset
+ * whenever the content size changes. The zoom level carries over when the
+ * container is resized.
+ */
+export function usePanZoom(containerRef: React.RefObject<HTMLElement>, content: Size | null) {
+  const [viewport, setViewport] = React.useState<Size>({ width: 0, height: 0 })
+
+  React.useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [containerRef])
+
+  const contentWidth = content?.width || 0
+  const contentHeight = content?.height || 0
+  const contentKey = `${contentWidth}x${contentHeight}`
+  const fitScale = contentWidth && contentHeight && viewport.width && viewport.height
+    ? Math.min(1, viewport.width / contentWidth, viewport.height / contentHeight)
+    : 1
+  const maxScale = Math.max(fitScale, MAX_SCALE)
+
+  // Zoom is kept relative to the fitted scale so it survives a resize
+  const [stored, setStored] = React.useState({ contentKey, zoom: 1, x: 0, y: 0 })
+
+  const clamp = React.useCallback((view: PanZoomView): PanZoomView => {
+    const scale = Math.min(maxScale, Math.max(fitScale, view.scale))
+    // Content smaller than the viewport is centred, larger content always covers it
+    const axis = (offset: number, available: number, length: number) => {
+      const scaled = length * scale
+      return scaled <= available ? (available - scaled) / 2 : Math.min(0, Math.max(available - scaled, offset))
+    }
+    return {
+      scale,
+      x: axis(view.x, viewport.width, contentWidth),
+      y: axis(view.y, viewport.height, contentHeight),
+    }
+  }, [fitScale, maxScale, viewport.width, viewport.height, contentWidth, contentHeight])
+
+  const resolve = React.useCallback((state: typeof stored): PanZoomView => (
+    state.contentKey === contentKey
+      ? clamp({ scale: fitScale * state.zoom, x: state.x, y: state.y })
+      : clamp({ scale: fitScale, x: 0, y: 0 })
+  ), [clamp, contentKey, fitScale])
+
+  const update = React.useCallback((change: (view: PanZoomView) => PanZoomView) => {
+    setStored(state => {
+      const view = clamp(change(resolve(state)))
+      return { contentKey, zoom: view.scale / fitScale, x: view.x, y: view.y }
+    })
+  }, [clamp, resolve, contentKey, fitScale])
+
+  /** Zoom by `factor`, keeping the content under `point` (container pixels, default the centre) in place */
+  const zoomAt = React.useCallback((factor: number, point?: { x: number; y: number }) => {
+    update(view => {
+      const scale = Math.min(maxScale, Math.max(fitScale, view.scale * factor))
+      const px = point?.x ?? viewport.width / 2
+      const py = point?.y ?? viewport.height / 2
+      return {
+        scale,
+        x: px - ((px - view.x) / view.scale) * scale,
+        y: py - ((py - view.y) / view.scale) * scale,
+      }
+    })
+  }, [update, fitScale, maxScale, viewport.width, viewport.height])
+
+  const panBy = React.useCallback((dx: number, dy: number) => {
+    update(view => ({ ...view, x: view.x + dx, y: view.y + dy }))
+  }, [update])
+
+  /** Move the content point `(x, y)` to the centre of the container */
+  const centerOn = React.useCallback((x: number, y: number) => {
+    update(view => ({ ...view, x: viewport.width / 2 - x * view.scale, y: viewport.height / 2 - y * view.scale }))
+  }, [update, viewport.width, viewport.height])
+
+  const reset = React.useCallback(() => {
+    update(() => ({ scale: fitScale, x: 0, y: 0 }))
+  }, [update, fitScale])
+
+  const view = resolve(stored)
+
+  return {
+    view,
+    viewport,
+    fitScale,
+    maxScale,
+    // Small tolerance for the rounding of repeated zoom steps
+    isZoomed: view.scale > fitScale * 1.001,
+    zoomAt,
+    panBy,
+    centerOn,
+    reset,
+  }
+}
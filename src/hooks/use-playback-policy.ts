@@ -0,0 +1,59 @@
+import * as React from "react"
+import { useGatewayUrl } from "@/hooks/use-gateway-url"
+
+interface Candidate {
+  hash: string
+}
+
+/**
+ * The fallback policy of the media player: every gateway of the first
+ * candidate (renderer + hash) is tried, then every gateway of the next one,
+ * until one loads. `failed` is true once all of them failed; `select` jumps
+ * to a candidate by hand and `retry` starts over. Wire `onLoadStart`,
+ * `onLoad` and `onError` to the rendered element and key it with `key`.
+ */
+export function usePlaybackPolicy<T extends Candidate>(candidates: T[]) {
+  // Start over when the candidates change (another NFT)
+  const identity = candidates.map(candidate => candidate.hash).join("|")
+  const [position, setPosition] = React.useState({ identity, index: 0 })
+  const index = position.identity === identity ? position.index : 0
+
+  const candidate = candidates[index] as T | undefined
+  const gateway = useGatewayUrl(candidate?.hash)
+  const { retry: retryGateway } = gateway
+
+  const moveTo = React.useCallback((nextIndex: number) => {
+    // Candidates can share a hash; each one starts from the best gateway
+    retryGateway()
+    setPosition({ identity, index: nextIndex })
+  }, [retryGateway, identity])
+
+  const onError = React.useCallback(() => {
+    const lastGateway = gateway.attempt + 1 >= gateway.urls.length
+    gateway.onError()
+    if (lastGateway) {
+      if (index + 1 < candidates.length) {
+        console.log(`🔄 Falling back to playback method ${index + 2}/${candidates.length}`)
+      }
+      moveTo(index + 1)
+    }
+  }, [gateway, index, candidates.length, moveTo])
+
+  const select = React.useCallback((nextIndex: number) => moveTo(nextIndex), [moveTo])
+  const retry = React.useCallback(() => moveTo(0), [moveTo])
+
+  return {
+    candidate,
+    index,
+    url: gateway.url,
+    /** Every gateway URL of the current candidate, best first */
+    urls: gateway.urls,
+    key: `${index}-${gateway.attempt}`,
+    failed: !candidate,
+    onLoadStart: gateway.onLoadStart,
+    onLoad: gateway.onLoad,
+    onError,
+    select,
+    retry,
+  }
+}
@@ -0,0 +1,77 @@
+import * as React from "react"
+
+/** `selectedTrack` when no captions are shown */
+export const CAPTIONS_OFF = -1
+
+export interface TextTrackOption {
+  /** Index in the element's `textTracks` */
+  index: number
+  language: string
+  label: string
+}
+
+const isCaptionTrack = (track: TextTrack) => track.kind === "subtitles" || track.kind === "captions"
+
+/**
+ * Caption and subtitle tracks of the `<video>` / `<audio>` element behind
+ * `mediaRef`, and which one is showing. `elementKey` must change whenever the
+ * element is remounted; the chosen language carries over to the new one.
+ */
+export function useTextTracks(
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLAudioElement>,
+  elementKey: string
+) {
+  const [tracks, setTracks] = React.useState<TextTrackOption[]>([])
+  const [selectedTrack, setSelectedTrack] = React.useState(CAPTIONS_OFF)
+  const language = React.useRef<string | null>(null)
+
+  React.useEffect(() => {
+    const list = mediaRef.current?.textTracks
+    setTracks([])
+    setSelectedTrack(CAPTIONS_OFF)
+    if (!list) return
+
+    const update = () => {
+      const all = Array.from(list)
+      setTracks(all.flatMap((track, index) => (
+        isCaptionTrack(track) ? [{ index, language: track.language, label: track.label || track.language }] : []
+      )))
+      setSelectedTrack(all.findIndex(track => isCaptionTrack(track) && track.mode === "showing"))
+    }
+
+    // Tracks appear as the `<track>` elements (or the stream's subtitles) load
+    const showChosen = () => {
+      const chosen = Array.from(list).find(track => isCaptionTrack(track) && track.language === language.current)
+      if (chosen && chosen.mode !== "showing") chosen.mode = "showing"
+      update()
+    }
+
+    showChosen()
+    list.addEventListener("addtrack", showChosen)
+    list.addEventListener("removetrack", update)
+    list.addEventListener("change", update)
+
+    return () => {
+      list.removeEventListener("addtrack", showChosen)
+      list.removeEventListener("removetrack", update)
+      list.removeEventListener("change", update)
+    }
+  }, [mediaRef, elementKey])
+
+  const selectTrack = React.useCallback((index: number) => {
+    const list = mediaRef.current?.textTracks
+    if (!list) return
+
+    Array.from(list).forEach((track, i) => {
+      if (isCaptionTrack(track)) track.mode = i === index ? "showing" : "disabled"
+    })
+    language.current = index === CAPTIONS_OFF ? null : list[index]?.language || null
+    setSelectedTrack(index)
+  }, [mediaRef])
+
+  return {
+    tracks,
+    selectedTrack,
+    selectTrack,
+  }
+}
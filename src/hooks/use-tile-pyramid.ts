@@ -0,0 +1,46 @@
+import * as React from "react"
+import { gatewayManager } from "@/services/gatewayManager"
+import { TilePyramid, tilePyramidSchema } from "@/utils/hip412"
+
+type PyramidState =
+  | { status: "none" | "loading" | "failed"; pyramid: null }
+  | { status: "ready"; pyramid: TilePyramid }
+
+/**
+ * Tile pyramid manifest of a very large image (`MediaNFT.tilesHash`).
+ * `status` tells a viewer whether to wait for it or fall back to the original.
+ */
+export function useTilePyramid(hash: string | null | undefined) {
+  const [state, setState] = React.useState<PyramidState>({ status: "none", pyramid: null })
+
+  React.useEffect(() => {
+    if (!hash) {
+      setState({ status: "none", pyramid: null })
+      return
+    }
+    setState({ status: "loading", pyramid: null })
+
+    const controller = new AbortController()
+    gatewayManager.fetch(hash, { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        if (controller.signal.aborted) return
+        const parsed = tilePyramidSchema.safeParse(data)
+        if (!parsed.success) {
+          console.warn(`⚠️ Tile pyramid ${hash} is not valid:`, parsed.error.issues)
+          setState({ status: "failed", pyramid: null })
+          return
+        }
+        setState({ status: "ready", pyramid: parsed.data })
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return
+        console.warn(`⚠️ Could not load tile pyramid ${hash}:`, error)
+        setState({ status: "failed", pyramid: null })
+      })
+
+    return () => controller.abort()
+  }, [hash])
+
+  return state
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+import { gatewayManager } from "@/services/gatewayManager"
+import { Waveform, waveformSchema } from "@/utils/hip412"
+
+/**
+ * Waveform peaks pinned for an audio NFT (`MediaNFT.waveformHash`); null
+ * while loading, without a hash, or when the file cannot be read
+ */
+export function useWaveform(hash: string | null | undefined) {
+  const [waveform, setWaveform] = React.useState<Waveform | null>(null)
+
+  React.useEffect(() => {
+    setWaveform(null)
+    if (!hash) return
+
+    const controller = new AbortController()
+    gatewayManager.fetch(hash, { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        const parsed = waveformSchema.safeParse(data)
+        if (!parsed.success) {
+          console.warn(`⚠️ Waveform ${hash} is not valid:`, parsed.error.issues)
+          return
+        }
+        if (!controller.signal.aborted) setWaveform(parsed.data)
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) console.warn(`⚠️ Could not load waveform ${hash}:`, error)
+      })
+
+    return () => controller.abort()
+  }, [hash])
+
+  return waveform
+}
@@ -7,8 +7,8 @@ import { MediaViewer } from '@/components/media/MediaViewer';
 // import { VideoPlayerTest } from '@/components/test/VideoPlayerTest';
 import { MediaNFT, SearchFilters } from '@/types/hedera';
 import { hederaService } from '@/services/hederaService';
-import { ipfsService } from '@/services/ipfsService';
 import { backendService } from '@/services/backendService';
+import { nftNormalizer } from '@/services/nftNormalizer';
 import { toast } from '@/hooks/use-toast';
 import { Preloader } from '@/utils/preloader';
 
@@ -70,151 +70,8 @@ const mockMediaData: MediaNFT[] = [
   }
 ];
 
-// Utility function to convert backend NFT data to MediaNFT format
-const convertNFTToMediaNFT = async (nft: any): Promise<MediaNFT | null> => {
-  try {
-    console.log(`🔄 Converting NFT #${nft.serialNumber}:`, nft);
-
-    // Check if we have metadata content from the backend, if not fetch it from IPFS
-    let metadataContent = nft.metadataContent;
-
-    if (!metadataContent && nft.metadata?.metadataUrl) {
-      console.log(`🔄 Fetching metadata content for NFT #${nft.serialNumber} from IPFS...`);
-      try {
-        const metadataUrl = nft.metadata.metadataUrl;
-        if (metadataUrl.startsWith('ipfs://')) {
-          const hash = metadataUrl.replace('ipfs://', '');
-          // Use improved IPFS service with fallback logic
-          try {
-            metadataContent = await ipfsService.getJSON(hash);
-            console.log(`✅ Fetched metadata for NFT #${nft.serialNumber}:`, metadataContent);
-          } catch (ipfsError) {
-            console.warn(`❌ Failed to fetch metadata for NFT #${nft.serialNumber}:`, ipfsError);
-          }
-        }
-      } catch (fetchError) {
-        console.warn(`❌ Error fetching metadata for NFT #${nft.serialNumber}:`, fetchError);
-      }
-    }
-
-    if (!metadataContent) {
-      console.warn(`NFT #${nft.serialNumber} has no metadata content`);
-      return null;
-    }
-
-    // Extract image hash from metadata - handle both ipfs:// and gateway URLs
-    let ipfsHash = '';
-    if (metadataContent.image) {
-      if (metadataContent.image.startsWith('ipfs://')) {
-        ipfsHash = metadataContent.image.replace('ipfs://', '');
-      } else if (metadataContent.image.includes('/ipfs/')) {
-        // Handle gateway URLs like https://gateway.pinata.cloud/ipfs/hash
-        const ipfsIndex = metadataContent.image.indexOf('/ipfs/');
-        ipfsHash = metadataContent.image.substring(ipfsIndex + 6); // +6 for '/ipfs/'
-      } else {
-        console.warn(`NFT #${nft.serialNumber} has unsupported image URL format:`, metadataContent.image);
-        return null;
-      }
-    } else {
-      console.warn(`NFT #${nft.serialNumber} has no image URL in metadata`);
-      return null;
-    }
-
-    // Determine media type from the image format or type field
-    let mediaType: 'image' | 'video' | 'audio' = 'image';
-
-    // Check multiple possible sources for media type
-    const typeIndicators = [
-      metadataContent.type,
-      metadataContent.format,
-      metadataContent.mediaType,
-      metadataContent.properties?.mediaType,
-      metadataContent.properties?.type
-    ].filter(Boolean);
-
-    console.log(`🔍 NFT #${nft.serialNumber} type indicators:`, typeIndicators);
-    console.log(`🔍 NFT #${nft.serialNumber} full metadata content:`, metadataContent);
-
-    for (const indicator of typeIndicators) {
-      if (typeof indicator === 'string') {
-        const lowerIndicator = indicator.toLowerCase();
-        if (lowerIndicator === 'video' || lowerIndicator.includes('video') || lowerIndicator.startsWith('video/')) {
-          console.log(`🎬 NFT #${nft.serialNumber} detected as video from type indicator: ${indicator}`);
-          mediaType = 'video';
-          break;
-        } else if (lowerIndicator === 'audio' || lowerIndicator.includes('audio') || lowerIndicator.startsWith('audio/')) {
-          console.log(`🎵 NFT #${nft.serialNumber} detected as audio from type indicator: ${indicator}`);
-          mediaType = 'audio';
-          break;
-        }
-      }
-    }
-
-    // Also check file extension from image URL or filename
-    const imageUrl = metadataContent.image || '';
-    const fileName = metadataContent.properties?.originalFileName || '';
-    const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.mkv'];
-    const audioExtensions = ['.mp3', '.wav', '.ogg', '.m4a', '.aac'];
-
-    console.log(`🔍 NFT #${nft.serialNumber} checking URLs:`, { imageUrl, fileName });
-
-    if (mediaType === 'image') { // Only check extensions if type not already determined
-      const urlsToCheck = [imageUrl, fileName].filter(Boolean);
-      for (const url of urlsToCheck) {
-        const lowerUrl = url.toLowerCase();
-        console.log(`🔍 NFT #${nft.serialNumber} checking URL: ${url} (lowercase: ${lowerUrl})`);
-        if (videoExtensions.some(ext => lowerUrl.includes(ext))) {
-          console.log(`🎬 NFT #${nft.serialNumber} detected as video from extension in: ${url}`);
-          mediaType = 'video';
-          break;
-        } else if (audioExtensions.some(ext => lowerUrl.includes(ext))) {
-          console.log(`🎵 NFT #${nft.serialNumber} detected as audio from extension in: ${url}`);
-          mediaType = 'audio';
-          break;
-        }
-      }
-    }
-
-    console.log(`📹 NFT #${nft.serialNumber} detected media type: ${mediaType}`);
-
-    // Extract tags from various possible locations
-    let tags: string[] = [];
-    if (metadataContent.properties?.tags) {
-      tags = metadataContent.properties.tags;
-    } else if (metadataContent.attributes) {
-      // Extract tags from attributes if they exist
-      tags = metadataContent.attributes
-        .filter((attr: any) => attr.trait_type === 'tag' || attr.trait_type === 'tags')
-        .map((attr: any) => attr.value);
-    }
-
-    // Convert to MediaNFT format
-    const mediaNFT: MediaNFT = {
-      tokenId: nft.tokenId,
-      serialNumber: nft.serialNumber,
-      accountId: nft.accountId,
-      ipfsHash: ipfsHash,
-      transactionId: `${nft.tokenId}@${Date.now()}`, // Placeholder transaction ID
-      createdAt: nft.createdAt,
-      metadata: {
-        title: metadataContent.name || `NFT #${nft.serialNumber}`,
-        description: metadataContent.description || '',
-        tags: tags,
-        mediaType: mediaType,
-        originalFileName: metadataContent.properties?.originalFileName || `nft-${nft.serialNumber}`,
-        fileSize: metadataContent.properties?.fileSize || 0,
-        uploadDate: metadataContent.properties?.uploadDate || nft.createdAt,
-        creator: metadataContent.creator || metadataContent.properties?.creator || nft.accountId
-      }
-    };
-
-    console.log(`✅ Successfully converted NFT #${nft.serialNumber} to MediaNFT:`, mediaNFT);
-    return mediaNFT;
-  } catch (error) {
-    console.error(`Error converting NFT #${nft.serialNumber}:`, error);
-    return null;
-  }
-};
+// NFTs per gallery page; each page resolves metadata per NFT, so keep it modest
+const GALLERY_PAGE_SIZE = 24;
 
 const Index = () => {
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
@@ -222,60 +79,53 @@ const Index = () => {
   const [filteredMedia, setFilteredMedia] = useState<MediaNFT[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [activeSearch, setActiveSearch] = useState<{ filters: SearchFilters; offset: number; hasMore: boolean } | null>(null);
 
   const handleSearch = async (filters: SearchFilters) => {
-    setIsSearching(true);
-    
-    // Simulate search delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    let filtered = [...mockMediaData];
-    
-    // Apply text search
-    if (filters.query) {
-      const query = filters.query.toLowerCase();
-      filtered = filtered.filter(media => 
-        media.metadata.title.toLowerCase().includes(query) ||
-        media.metadata.description.toLowerCase().includes(query) ||
-        media.metadata.tags.some(tag => tag.toLowerCase().includes(query))
-      );
-    }
-    
-    // Apply media type filter
-    if (filters.mediaType && filters.mediaType !== 'all') {
-      filtered = filtered.filter(media => media.metadata.mediaType === filters.mediaType);
+    const hasCriteria = !!filters.query ||
+      !!filters.tags?.length ||
+      (!!filters.mediaType && filters.mediaType !== 'all') ||
+      !!filters.dateRange ||
+      (!!filters.sortBy && filters.sortBy !== 'newest');
+
+    // Cleared filters go back to the regular gallery
+    if (!hasCriteria) {
+      loadGalleryData();
+      return;
     }
-    
-    // Apply tag filter
-    if (filters.tags && filters.tags.length > 0) {
-      filtered = filtered.filter(media => 
-        filters.tags!.some(tag => media.metadata.tags.includes(tag))
-      );
-    }
-    
-    // Apply sorting
-    if (filters.sortBy) {
-      filtered.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'newest':
-            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-          case 'oldest':
-            return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-          case 'title':
-            return a.metadata.title.localeCompare(b.metadata.title);
-          default:
-            return 0;
-        }
+
+    setIsSearching(true);
+
+    try {
+      const response = await backendService.searchNFTs(filters, GALLERY_PAGE_SIZE, 0);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.details || response.error || 'Search failed');
+      }
+
+      setFilteredMedia(await nftNormalizer.normalizeMany(response.data.nfts));
+      setActiveSearch({
+        filters,
+        offset: response.data.offset + response.data.nfts.length,
+        hasMore: response.data.hasMore
       });
+
+      toast({
+        title: "Search Complete",
+        description: `Found ${response.data.total} item${response.data.total !== 1 ? 's' : ''}`,
+      });
+    } catch (error) {
+      console.error('Error searching gallery:', error);
+      toast({
+        title: "Search Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
     }
-    
-    setFilteredMedia(filtered);
-    setIsSearching(false);
-    
-    toast({
-      title: "Search Complete",
-      description: `Found ${filtered.length} item${filtered.length !== 1 ? 's' : ''}`,
-    });
   };
 
   const handleUploadComplete = (tokenId: string) => {
@@ -289,10 +139,12 @@ const Index = () => {
 
   const loadGalleryData = async () => {
     setIsLoading(true);
+    setActiveSearch(null);
+    setNextCursor(null);
     try {
       console.log('🔄 Loading gallery data from blockchain...');
 
-      // First, get token info to find total supply
+      // First, check the collection is reachable
       const tokenInfoResponse = await backendService.getTokenInfo();
       console.log('📋 Token info response:', tokenInfoResponse);
 
@@ -303,17 +155,10 @@ const Index = () => {
         return;
       }
 
-      const totalSupply = parseInt(tokenInfoResponse.data.totalSupply);
-      console.log(`📊 Total supply: ${totalSupply}`);
+      console.log(`📊 Total supply: ${tokenInfoResponse.data.totalSupply}`);
 
-      // Fetch all NFTs from the collection for the landing page gallery
-      const limit = Math.min(totalSupply, 50); // Limit to 50 for performance, can be increased
-      const offset = 0; // Start from the beginning
-
-      console.log(`🎯 Fetching ${limit} NFTs from collection (total supply: ${totalSupply})`);
-
-      // Fetch NFTs from the collection
-      const response = await backendService.getCollectionNFTs(limit, offset);
+      // Fetch the first page; further pages load as the user scrolls
+      const response = await backendService.getCollectionNFTs(GALLERY_PAGE_SIZE);
       console.log('📦 Collection NFTs response:', response);
 
       if (!response.success || !response.data) {
@@ -323,55 +168,18 @@ const Index = () => {
         return;
       }
 
-      console.log(`📦 Fetched ${response.data.nfts?.length || 0} NFTs from collection (serials ${offset + 1}-${offset + (response.data.nfts?.length || 0)})`);
-      console.log('🔍 Raw NFT data:', response.data.nfts);
-
-      // Convert NFT data to MediaNFT format
-      console.log(`🔄 Converting ${response.data.nfts?.length || 0} NFTs to MediaNFT format...`);
-      const mediaPromises = (response.data.nfts || []).map(async (nft) => {
-        console.log('🔄 Converting NFT:', nft);
-        const result = await convertNFTToMediaNFT(nft);
-        console.log('✅ Converted to:', result);
-        return result;
-      });
-
-      // Wait for all conversions to complete
-      const mediaResults = await Promise.all(mediaPromises);
-
-      // Filter out null results (failed conversions)
-      const validMedia = mediaResults.filter((media): media is MediaNFT => media !== null);
+      console.log(`📦 Fetched ${response.data.nfts?.length || 0} NFTs from collection`);
 
+      const validMedia = await nftNormalizer.normalizeMany(response.data.nfts || []);
       console.log(`✅ Successfully converted ${validMedia.length} NFTs to media format`);
-      console.log('📋 Final media data:', validMedia);
-      console.log('Valid media:', validMedia);
-
-      // Log video NFTs specifically
-      const videoNFTs = validMedia.filter(media => media.metadata.mediaType === 'video');
-      if (videoNFTs.length > 0) {
-        console.log('🎬 Found video NFTs:', videoNFTs);
-        videoNFTs.forEach(video => {
-          console.log(`📹 Video NFT #${video.serialNumber}:`, {
-            title: video.metadata.title,
-            mediaType: video.metadata.mediaType,
-            ipfsHash: video.ipfsHash,
-            ipfsUrl: `https://gateway.pinata.cloud/ipfs/${video.ipfsHash}`
-          });
-        });
-      } else {
-        console.log('⚠️ No video NFTs found in collection');
-        console.log('🔍 Checking media types:', validMedia.map(m => ({
-          serial: m.serialNumber,
-          type: m.metadata.mediaType,
-          ipfsHash: m.ipfsHash
-        })));
-      }
 
-      if (validMedia.length === 0) {
+      if (validMedia.length === 0 && !response.data.nextCursor) {
         console.log('No valid NFTs found, using mock data for demonstration');
         setFilteredMedia(mockMediaData);
       } else {
         console.log(`🎉 Setting ${validMedia.length} real NFTs to display!`);
         setFilteredMedia(validMedia);
+        setNextCursor(response.data.nextCursor);
       }
 
     } catch (error) {
@@ -388,6 +196,48 @@ const Index = () => {
     }
   };
 
+  const hasMore = activeSearch ? activeSearch.hasMore : !!nextCursor;
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || !hasMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      if (activeSearch) {
+        const response = await backendService.searchNFTs(activeSearch.filters, GALLERY_PAGE_SIZE, activeSearch.offset);
+        if (!response.success || !response.data) {
+          throw new Error(response.details || response.error || 'Search failed');
+        }
+
+        const page = await nftNormalizer.normalizeMany(response.data.nfts);
+        setFilteredMedia(prev => [...prev, ...page]);
+        setActiveSearch({
+          ...activeSearch,
+          offset: activeSearch.offset + response.data.nfts.length,
+          hasMore: response.data.hasMore
+        });
+      } else {
+        const response = await backendService.getCollectionNFTs(GALLERY_PAGE_SIZE, nextCursor);
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to fetch collection NFTs');
+        }
+
+        const page = await nftNormalizer.normalizeMany(response.data.nfts || []);
+        setFilteredMedia(prev => [...prev, ...page]);
+        setNextCursor(response.data.nextCursor);
+      }
+    } catch (error) {
+      console.error('Error loading more media:', error);
+      toast({
+        title: "Error Loading More",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   const handleRefresh = () => {
     loadGalleryData();
     toast({
@@ -437,7 +287,9 @@ const Index = () => {
         {/* Gallery */}
         <GalleryGrid
           media={filteredMedia}
-          isLoading={isLoading || isSearching}
+          isLoading={isLoading || isSearching || isLoadingMore}
+          hasMore={hasMore}
+          onLoadMore={handleLoadMore}
           onMediaClick={setSelectedMedia}
           onRefresh={handleRefresh}
         />
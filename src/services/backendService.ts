@@ -1,6 +1,8 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import { supabaseService } from './supabaseService';
 import { cacheService } from './cacheService';
+import { AuthSession, SearchFilters } from '@/types/hedera';
+import type { HIP412Metadata, MetadataDraft } from '@/utils/hip412';
 
 // Handle both browser (Vite) and Node.js environments
 const getApiBaseUrl = () => {
@@ -38,6 +40,91 @@ export interface MintNFTResponse {
   };
   error?: string;
   details?: string;
+  /** Transactions that reached the network before the request failed; retrying it does not submit again */
+  transactionIds?: string[];
+}
+
+type MintResult = NonNullable<MintNFTResponse['data']>;
+
+// The synchronous mint result of the edge function, as replayed under its Idempotency-Key
+const isMintResult = (value: unknown): value is MintResult => {
+  if (!value || typeof value !== 'object') return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.transactionId === 'string'
+    && typeof result.serialNumber === 'number'
+    && typeof result.tokenId === 'string'
+    && typeof result.metadataUrl === 'string'
+    && typeof result.owner === 'string'
+    && typeof result.transferred === 'boolean'
+    && (result.transferTransactionId === undefined || typeof result.transferTransactionId === 'string');
+};
+
+export type MintJobStatus = 'queued' | 'minting' | 'minted' | 'transferring' | 'completed' | 'failed';
+
+export interface MintJob {
+  id: string;
+  status: MintJobStatus;
+  tokenId: string;
+  metadataUrl: string;
+  userAccountId: string | null;
+  requestedBy: string;
+  attempts: number;
+  maxAttempts: number;
+  serialNumber: number | null;
+  mintTransactionId: string | null;
+  transferTransactionId: string | null;
+  owner: string | null;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+  transferred: boolean;
+}
+
+export interface MintJobResponse {
+  success: boolean;
+  data?: MintJob;
+  error?: string;
+  details?: string;
+}
+
+export interface CreateMintJobResponse {
+  success: boolean;
+  /** A replay of an edge function mint made with the same Idempotency-Key carries its result instead of a job */
+  data?: MintJob | MintResult;
+  error?: string;
+  details?: string;
+  transactionIds?: string[];
+}
+
+export interface BatchMintNFTRequest {
+  metadataUrls: string[];
+  userAccountId?: string;
+}
+
+export interface BatchMintItem {
+  metadataUrl: string;
+  success: boolean;
+  serialNumber?: number;
+  transactionId?: string;
+  owner: string | null;
+  transferred: boolean;
+  transferTransactionId: string | null;
+  /** Why a minted NFT is still in the treasury, when its transfer failed */
+  transferError: string | null;
+  error?: string;
+}
+
+export interface BatchMintNFTResponse {
+  success: boolean;
+  data?: {
+    tokenId: string;
+    items: BatchMintItem[];
+    minted: number;
+    failed: number;
+  };
+  error?: string;
+  details?: string;
 }
 
 export interface TransferNFTRequest {
@@ -58,6 +145,133 @@ export interface TransferNFTResponse {
   details?: string;
 }
 
+export interface StoredUpload {
+  cid: string;
+  size: number;
+  ipfsUrl: string;
+  gatewayUrl: string;
+}
+
+/**
+ * HLS transcoding of an uploaded video, run by the server after the upload
+ * answered. A `completed` rendition's metadata replaces the upload's.
+ */
+export interface UploadRendition {
+  id: string;
+  status: 'processing' | 'completed' | 'failed';
+  metadata: StoredUpload | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadRenditionResponse {
+  success: boolean;
+  data?: UploadRendition;
+  error?: string;
+  details?: string;
+}
+
+export interface UploadMediaResponse {
+  success: boolean;
+  data?: {
+    file: StoredUpload & {
+      fileName: string;
+      mimeType: string;
+      mediaType: 'image' | 'video' | 'audio' | 'captions';
+    };
+    metadata: StoredUpload | null;
+    /** Only from the Express API, for videos when HLS transcoding is on */
+    rendition?: UploadRendition | null;
+  };
+  error?: string;
+  details?: string;
+}
+
+export interface UploadMetadataResponse {
+  success: boolean;
+  data?: StoredUpload;
+  error?: string;
+  details?: string;
+}
+
+export type UploadSessionStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  offset: number;
+  status: UploadSessionStatus;
+  result: UploadMediaResponse['data'] | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface UploadSessionResponse {
+  success: boolean;
+  data?: UploadSession;
+  error?: string;
+  details?: string;
+}
+
+export type DuplicateContentPolicy = 'allow' | 'warn' | 'block';
+
+export interface ContentReference {
+  tokenId: string;
+  serialNumber: number;
+  accountId: string | null;
+  metadataUrl: string;
+}
+
+export interface ContentCheckResponse {
+  success: boolean;
+  data?: {
+    cid: string;
+    policy: DuplicateContentPolicy;
+    /** NFTs in the collection with this content */
+    nfts: ContentReference[];
+  };
+  error?: string;
+  details?: string;
+}
+
+export type PinStatus = 'pinned' | 'repinned' | 'repin-queued' | 'unpinned' | 'lost' | 'failed';
+
+export interface PinCheck {
+  cid: string;
+  kind: 'metadata' | 'media';
+  serialNumbers: number[];
+  status: PinStatus;
+  source?: string;
+  error?: string;
+}
+
+export interface PinHealthReport {
+  tokenId: string;
+  provider: string;
+  startedAt: string;
+  finishedAt: string;
+  nfts: number;
+  totals: Record<PinStatus, number>;
+  unresolvedMetadata: number[];
+  /** Every CID that is not simply pinned */
+  problems: PinCheck[];
+}
+
+export interface PinHealthResponse {
+  success: boolean;
+  data?: {
+    running: boolean;
+    /** Null until the first pin check has finished */
+    report: PinHealthReport | null;
+  };
+  error?: string;
+  details?: string;
+}
+
 export interface TokenInfoResponse {
   success: boolean;
   data?: {
@@ -103,17 +317,179 @@ export interface CollectionNFTsResponse {
     }>;
     totalSupply: number;
     hasMore: boolean;
+    nextCursor: string | null;
     offset: number;
     limit: number;
   };
   error?: string;
 }
 
+export interface AccountNFTsResponse {
+  success: boolean;
+  data?: {
+    accountId: string;
+    nfts: Array<{
+      tokenId: string;
+      serialNumber: number;
+      accountId: string;
+      metadata: { metadataUrl: string };
+      createdAt: string;
+    }>;
+    hasMore: boolean;
+    nextCursor: string | null;
+    limit: number;
+  };
+  error?: string;
+  details?: string;
+}
+
+export interface SearchNFTsResponse {
+  success: boolean;
+  data?: {
+    nfts: Array<{
+      tokenId: string;
+      serialNumber: number;
+      accountId: string;
+      metadata: { metadataUrl: string };
+      metadataContent?: unknown;
+      createdAt: string;
+      rank: number;
+    }>;
+    total: number;
+    hasMore: boolean;
+    limit: number;
+    offset: number;
+  };
+  error?: string;
+  details?: string;
+}
+
+export interface AuthChallengeResponse {
+  success: boolean;
+  data?: {
+    accountId: string;
+    nonce: string;
+    message: string;
+    expiresAt: string;
+  };
+  error?: string;
+  details?: string;
+}
+
+export interface AuthSessionResponse {
+  success: boolean;
+  data?: AuthSession;
+  error?: string;
+  details?: string;
+}
+
 export class BackendService {
   private baseURL: string;
+  private http: AxiosInstance;
+  private sessionToken: string | null = null;
 
   constructor() {
     this.baseURL = API_BASE_URL;
+    this.http = axios.create();
+
+    // Attach the wallet session to every Express API request
+    this.http.interceptors.request.use((config) => {
+      if (this.sessionToken) {
+        config.headers.set('X-Session-Token', this.sessionToken);
+      }
+      return config;
+    });
+  }
+
+  /**
+   * Set (or clear) the session token sent with every backend request
+   */
+  setSessionToken(token: string | null): void {
+    this.sessionToken = token;
+  }
+
+  private getSessionHeaders(): Record<string, string> {
+    return this.sessionToken ? { 'X-Session-Token': this.sessionToken } : {};
+  }
+
+  private getIdempotentHeaders(idempotencyKey: string): Record<string, string> {
+    return { ...this.getSessionHeaders(), 'Idempotency-Key': idempotencyKey };
+  }
+
+  async requestAuthChallenge(accountId: string): Promise<AuthChallengeResponse> {
+    // Try Supabase Edge Function first
+    if (supabaseService.isAvailable()) {
+      try {
+        console.log('🔄 Requesting sign-in challenge via Supabase Edge Function...');
+        const result = await supabaseService.callEdgeFunction('hedera-auth', {
+          action: 'challenge',
+          accountId
+        });
+
+        if (result && result.success) {
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase Edge Function failed, falling back to Express API:', error);
+      }
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'No authentication service available'
+      };
+    }
+
+    try {
+      const response = await this.http.post(`${this.baseURL}/api/auth/challenge`, { accountId });
+      return response.data;
+    } catch (error) {
+      console.error('Error requesting sign-in challenge:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async verifyAuthSignature(accountId: string, nonce: string, signature: string): Promise<AuthSessionResponse> {
+    // Try Supabase Edge Function first
+    if (supabaseService.isAvailable()) {
+      try {
+        console.log('🔄 Verifying sign-in signature via Supabase Edge Function...');
+        const result = await supabaseService.callEdgeFunction('hedera-auth', {
+          action: 'verify',
+          accountId,
+          nonce,
+          signature
+        });
+
+        if (result && result.success) {
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase Edge Function failed, falling back to Express API:', error);
+      }
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'No authentication service available'
+      };
+    }
+
+    try {
+      const response = await this.http.post(`${this.baseURL}/api/auth/verify`, { accountId, nonce, signature });
+      return response.data;
+    } catch (error) {
+      console.error('Error verifying sign-in signature:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
   }
 
   async healthCheck(): Promise<any> {
@@ -126,7 +502,7 @@ export class BackendService {
     // Try Express API health check if URL is configured
     if (this.baseURL) {
       try {
-        const response = await axios.get(`${this.baseURL}/api/health`, { timeout: 5000 });
+        const response = await this.http.get(`${this.baseURL}/api/health`, { timeout: 5000 });
         health.express = true;
         health.expressData = response.data;
       } catch (error) {
@@ -167,6 +543,7 @@ export class BackendService {
             headers: {
               'Authorization': `Bearer ${supabaseAnonKey}`,
               'Content-Type': 'application/json',
+              ...this.getSessionHeaders(),
             },
             body: JSON.stringify({
               tokenId,
@@ -205,7 +582,7 @@ export class BackendService {
             includeNFTs: true,
             limit: 50,
             offset: 0
-          });
+          }, this.getSessionHeaders());
 
           console.log('📋 Supabase client result:', result);
 
@@ -225,7 +602,7 @@ export class BackendService {
     if (this.baseURL) {
       try {
         console.log('🔄 Fetching token info via Express API fallback...');
-        const response = await axios.get(`${this.baseURL}/api/token-info`);
+        const response = await this.http.get(`${this.baseURL}/api/token-info`);
         console.log('✅ Token info fetched successfully via Express API');
         return response.data;
       } catch (error) {
@@ -245,33 +622,41 @@ export class BackendService {
     }, 2 * 60 * 1000); // Cache for 2 minutes
   }
 
-  async mintNFT(request: MintNFTRequest): Promise<MintNFTResponse> {
+  // Clear relevant cache entries after minting
+  private clearCollectionCacheAfterMint(): void {
+    const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
+    if (!tokenId) return;
+
+    // Only clear token info (for updated total supply)
+    cacheService.delete(`token-info-${tokenId}`);
+
+    // Clear collection NFT caches more selectively
+    // Only clear the first page cache since new NFTs appear at the end
+    const stats = cacheService.getStats();
+    stats.keys.forEach(key => {
+      if (key.startsWith(`collection-nfts-${tokenId}`) && key.endsWith('-start')) {
+        cacheService.delete(key);
+      }
+    });
+    console.log('🗑️ Cleared relevant NFT cache entries after minting');
+  }
+
+  /**
+   * Mint one NFT. The Idempotency-Key is reused for the edge function and the
+   * Express fallback, so a mint that succeeded but whose response was lost is
+   * replayed rather than repeated.
+   */
+  async mintNFT(request: MintNFTRequest, idempotencyKey: string = crypto.randomUUID()): Promise<MintNFTResponse> {
     // Try Supabase Edge Function first
     if (supabaseService.isAvailable()) {
       try {
         console.log('🔄 Attempting to mint NFT via Supabase Edge Function...');
-        const result = await supabaseService.mintNFT(request.metadataUrl, request.userAccountId);
+        const result = await supabaseService.mintNFT(request.metadataUrl, request.userAccountId, this.getIdempotentHeaders(idempotencyKey));
 
         if (result && result.success) {
           console.log('✅ NFT minted successfully via Supabase');
 
-          // Clear relevant cache entries after minting
-          const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
-          if (tokenId) {
-            // Only clear token info (for updated total supply)
-            cacheService.delete(`token-info-${tokenId}`);
-
-            // Clear collection NFT caches more selectively
-            // Only clear the first page cache since new NFTs appear at the end
-            const stats = cacheService.getStats();
-            stats.keys.forEach(key => {
-              if (key.startsWith(`collection-nfts-${tokenId}`) && key.includes('-0')) {
-                cacheService.delete(key);
-              }
-            });
-            console.log('🗑️ Cleared relevant NFT cache entries after minting');
-          }
-
+          this.clearCollectionCacheAfterMint();
           return result;
         }
       } catch (error) {
@@ -279,12 +664,42 @@ export class BackendService {
       }
     }
 
-    // Fallback to Express API
+    // Fallback to Express API, which queues the mint as a job
     try {
       console.log('🔄 Attempting to mint NFT via Express API fallback...');
-      const response = await axios.post(`${this.baseURL}/api/mint-nft`, request);
+      const jobResponse = await this.createMintJob(request, idempotencyKey);
+      if (!jobResponse.success || !jobResponse.data) {
+        return {
+          success: false,
+          error: jobResponse.error,
+          details: jobResponse.details,
+          transactionIds: jobResponse.transactionIds
+        };
+      }
+
+      // The edge function already minted with this key: the stored synchronous result is replayed
+      if (isMintResult(jobResponse.data)) {
+        return { success: true, data: jobResponse.data };
+      }
+
+      const job = await this.waitForMintJob(jobResponse.data.id);
+      if (job.serialNumber === null) {
+        return { success: false, error: 'Failed to mint NFT', details: job.lastError || undefined };
+      }
+
       console.log('✅ NFT minted successfully via Express API');
-      return response.data;
+      return {
+        success: true,
+        data: {
+          transactionId: job.mintTransactionId || '',
+          serialNumber: job.serialNumber,
+          tokenId: job.tokenId,
+          metadataUrl: job.metadataUrl,
+          owner: job.owner || '',
+          transferred: job.transferred,
+          transferTransactionId: job.transferTransactionId || undefined
+        }
+      };
     } catch (error) {
       console.error('❌ Both Supabase and Express API failed:', error);
       if (axios.isAxiosError(error) && error.response) {
@@ -294,12 +709,25 @@ export class BackendService {
     }
   }
 
-  async transferNFT(request: TransferNFTRequest): Promise<TransferNFTResponse> {
+  /**
+   * Mint jobs run on the Express API only; the edge function mints synchronously
+   */
+  supportsMintJobs(): boolean {
+    return !!this.baseURL;
+  }
+
+  /**
+   * Queue a mint (and transfer to userAccountId) on the Express API.
+   * Returns the job right away; follow it with getMintJob / waitForMintJob.
+   */
+  async createMintJob(request: MintNFTRequest, idempotencyKey: string = crypto.randomUUID()): Promise<CreateMintJobResponse> {
     try {
-      const response = await axios.post(`${this.baseURL}/api/transfer-nft`, request);
+      const response = await this.http.post(`${this.baseURL}/api/mint-nft`, request, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      });
       return response.data;
     } catch (error) {
-      console.error('Error transferring NFT:', error);
+      console.error('Error creating mint job:', error);
       if (axios.isAxiosError(error) && error.response) {
         return error.response.data;
       }
@@ -307,12 +735,12 @@ export class BackendService {
     }
   }
 
-  async getNFTInfo(serialNumber: number): Promise<NFTInfoResponse> {
+  async getMintJob(jobId: string): Promise<MintJobResponse> {
     try {
-      const response = await axios.get(`${this.baseURL}/api/nft/${serialNumber}`);
+      const response = await this.http.get(`${this.baseURL}/api/jobs/${jobId}`);
       return response.data;
     } catch (error) {
-      console.error('Error getting NFT info:', error);
+      console.error('Error getting mint job:', error);
       if (axios.isAxiosError(error) && error.response) {
         return error.response.data;
       }
@@ -320,43 +748,458 @@ export class BackendService {
     }
   }
 
-  async getAccountBalance(accountId: string): Promise<AccountBalanceResponse> {
-    // Skip Express API calls in production if no URL is configured
-    if (!this.baseURL) {
-      console.log('⚠️ No Express API URL configured, skipping account balance check');
-      return {
-        success: false,
-        error: 'Express API not available'
-      };
-    }
+  /**
+   * Poll a mint job until it completes or fails. Transient polling errors are
+   * tolerated; the job itself keeps running on the server either way.
+   */
+  async waitForMintJob(
+    jobId: string,
+    onUpdate?: (job: MintJob) => void,
+    intervalMs: number = 2000,
+    timeoutMs: number = 5 * 60 * 1000
+  ): Promise<MintJob> {
+    const deadline = Date.now() + timeoutMs;
 
-    try {
-      const response = await axios.get(`${this.baseURL}/api/balance/${accountId}`);
-      return response.data;
-    } catch (error) {
-      console.error('Error getting account balance:', error);
-      if (axios.isAxiosError(error) && error.response) {
-        return error.response.data;
+    while (Date.now() < deadline) {
+      let result: MintJobResponse | null = null;
+      try {
+        result = await this.getMintJob(jobId);
+      } catch (error) {
+        console.warn(`⚠️ Polling mint job ${jobId} failed, retrying:`, error);
       }
-      return {
-        success: false,
-        error: 'Failed to get account balance'
-      };
-    }
-  }
 
-  async getCollectionNFTs(limit: number = 100, offset: number = 0): Promise<CollectionNFTsResponse> {
-    const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
+      if (result?.success && result.data) {
+        onUpdate?.(result.data);
+        if (result.data.status === 'completed' || result.data.status === 'failed') {
+          if (result.data.serialNumber !== null) {
+            this.clearCollectionCacheAfterMint();
+          }
+          return result.data;
+        }
+      } else if (result?.error === 'Job not found') {
+        throw new Error(`Mint job ${jobId} not found`);
+      }
 
-    if (!tokenId) {
-      return {
-        success: false,
-        error: 'NFT Collection ID not configured'
-      };
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(`Timed out waiting for mint job ${jobId}`);
+  }
+
+  /**
+   * Mint several NFTs at once. Partial failures come back per item in
+   * `data.items`; `success` is true when at least one NFT was minted.
+   */
+  async mintNFTBatch(request: BatchMintNFTRequest, idempotencyKey: string = crypto.randomUUID()): Promise<BatchMintNFTResponse> {
+    // Try Supabase Edge Function first
+    if (supabaseService.isAvailable()) {
+      try {
+        console.log(`🔄 Attempting to batch mint ${request.metadataUrls.length} NFTs via Supabase Edge Function...`);
+        const result = await supabaseService.mintNFTBatch(request.metadataUrls, request.userAccountId, this.getIdempotentHeaders(idempotencyKey));
+
+        if (result && result.success) {
+          console.log(`✅ Batch minted ${result.data?.minted} NFTs via Supabase`);
+          this.clearCollectionCacheAfterMint();
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase Edge Function failed, falling back to Express API:', error);
+      }
+    }
+
+    // Fallback to Express API
+    try {
+      console.log('🔄 Attempting to batch mint NFTs via Express API fallback...');
+      const response = await this.http.post(`${this.baseURL}/api/mint-nft/batch`, request, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      });
+      this.clearCollectionCacheAfterMint();
+      return response.data;
+    } catch (error) {
+      console.error('❌ Both Supabase and Express API failed:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Treasury transfer (admin only). Users move NFTs they own through
+   * nftTransferService, signed by their own wallet.
+   */
+  async transferNFT(request: TransferNFTRequest, idempotencyKey: string = crypto.randomUUID()): Promise<TransferNFTResponse> {
+    try {
+      const response = await this.http.post(`${this.baseURL}/api/transfer-nft`, request, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error transferring NFT:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a media file through the upload proxy, optionally with its NFT
+   * metadata (stored pointing at the file). Storage credentials stay on the
+   * server; the file is validated there before it is stored.
+   */
+  async uploadMedia(
+    file: File,
+    metadata?: MetadataDraft,
+    onProgress?: (percent: number) => void
+  ): Promise<UploadMediaResponse> {
+    // Metadata goes first so the server can reject it before streaming the file
+    const form = new FormData();
+    if (metadata) {
+      form.append('metadata', JSON.stringify(metadata));
+    }
+    form.append('file', file, file.name);
+
+    // Try Supabase Edge Function first (direct fetch; supabase-js cannot send multipart)
+    try {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+      if (supabaseUrl && supabaseAnonKey) {
+        console.log(`🔄 Uploading ${file.name} via Supabase Edge Function...`);
+        const response = await fetch(`${supabaseUrl}/functions/v1/hedera-upload`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseAnonKey}`,
+            ...this.getSessionHeaders()
+          },
+          body: form
+        });
+
+        const result: UploadMediaResponse = await response.json().catch(() => ({ success: false }));
+        if (response.ok && result.success) {
+          console.log(`✅ Uploaded ${file.name} as ${result.data?.file.cid}`);
+          onProgress?.(100);
+          return result;
+        }
+
+        // The file itself was rejected; the Express API would reject it too
+        if ([400, 413, 415].includes(response.status)) {
+          return result;
+        }
+        console.warn('⚠️ Edge function upload failed with status:', response.status, result.error);
+      }
+    } catch (error) {
+      console.warn('⚠️ Supabase Edge Function upload failed, falling back to Express API:', error);
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'Failed to upload media - no backend services available'
+      };
+    }
+
+    try {
+      console.log(`🔄 Uploading ${file.name} via Express API fallback...`);
+      const response = await this.http.post(`${this.baseURL}/api/uploads`, form, {
+        onUploadProgress: (event) => {
+          if (event.total) {
+            onProgress?.(Math.round((event.loaded / event.total) * 100));
+          }
+        }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async getUploadRendition(renditionId: string): Promise<UploadRenditionResponse> {
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/uploads/renditions/${renditionId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting upload rendition:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The metadata to mint for an upload: once its HLS rendition is ready, the
+   * document that lists it. Falls back to the upload's own metadata when the
+   * transcode fails, the server no longer knows the job or it takes too long.
+   */
+  async waitForUploadRendition(
+    metadata: StoredUpload,
+    rendition: UploadRendition | null | undefined,
+    intervalMs: number = 3000,
+    timeoutMs: number = 15 * 60 * 1000
+  ): Promise<StoredUpload> {
+    if (!rendition) return metadata;
+
+    const deadline = Date.now() + timeoutMs;
+    let current: UploadRendition = rendition;
+
+    while (current.status === 'processing' && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+
+      let result: UploadRenditionResponse | null = null;
+      try {
+        result = await this.getUploadRendition(rendition.id);
+      } catch (error) {
+        console.warn(`⚠️ Polling HLS rendition ${rendition.id} failed, retrying:`, error);
+      }
+
+      if (result?.success && result.data) {
+        current = result.data;
+      } else if (result?.error === 'Rendition not found') {
+        break;
+      }
+    }
+
+    if (current.status === 'completed' && current.metadata) {
+      return current.metadata;
+    }
+    console.warn(`⚠️ HLS rendition ${rendition.id} is not available (${current.status}), minting without it`);
+    return metadata;
+  }
+
+  /**
+   * Store a metadata JSON document through the upload proxy
+   */
+  async uploadMetadata(metadata: HIP412Metadata): Promise<UploadMetadataResponse> {
+    // Try Supabase Edge Function first
+    if (supabaseService.isAvailable()) {
+      try {
+        const result = await supabaseService.callEdgeFunction('hedera-upload', { metadata }, this.getSessionHeaders());
+        if (result && result.success) {
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase Edge Function failed, falling back to Express API:', error);
+      }
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'Failed to upload metadata - no backend services available'
+      };
+    }
+
+    try {
+      const response = await this.http.post(`${this.baseURL}/api/uploads/metadata`, { metadata });
+      return response.data;
+    } catch (error) {
+      console.error('Error uploading metadata:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resumable uploads need the Express API, which keeps partial files on disk
+   */
+  supportsResumableUploads(): boolean {
+    return !!this.baseURL;
+  }
+
+  async createUploadSession(
+    file: File,
+    metadata?: MetadataDraft
+  ): Promise<UploadSessionResponse> {
+    try {
+      const response = await this.http.post(`${this.baseURL}/api/uploads/sessions`, {
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        metadata
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error creating upload session:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async getUploadSession(sessionId: string): Promise<UploadSessionResponse> {
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/uploads/sessions/${sessionId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting upload session:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async updateUploadSessionMetadata(
+    sessionId: string,
+    metadata?: MetadataDraft
+  ): Promise<UploadSessionResponse> {
+    try {
+      const response = await this.http.put(`${this.baseURL}/api/uploads/sessions/${sessionId}/metadata`, {
+        metadata: metadata || null
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error updating upload metadata:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send one chunk of a resumable upload, starting at `offset`.
+   * `onProgress` reports the bytes of this chunk sent so far.
+   */
+  async uploadChunk(
+    sessionId: string,
+    offset: number,
+    chunk: Blob,
+    onProgress?: (loaded: number) => void
+  ): Promise<UploadSessionResponse> {
+    try {
+      const response = await this.http.patch(`${this.baseURL}/api/uploads/sessions/${sessionId}`, chunk, {
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset)
+        },
+        onUploadProgress: (event) => onProgress?.(event.loaded)
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error uploading chunk:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async cancelUploadSession(sessionId: string): Promise<void> {
+    try {
+      await this.http.delete(`${this.baseURL}/api/uploads/sessions/${sessionId}`);
+    } catch (error) {
+      console.warn('⚠️ Failed to cancel upload session:', error);
+    }
+  }
+
+  /**
+   * Look up the NFTs in the collection that already use this content CID,
+   * together with the collection's duplicate content policy
+   */
+  async checkContent(cid: string): Promise<ContentCheckResponse> {
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'Express API not available'
+      };
+    }
+
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/content/${cid}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error checking content:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async getPinHealth(): Promise<PinHealthResponse> {
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'Express API not available'
+      };
+    }
+
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/pins/health`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting pin health:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async getNFTInfo(serialNumber: number): Promise<NFTInfoResponse> {
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/nft/${serialNumber}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting NFT info:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  async getAccountBalance(accountId: string): Promise<AccountBalanceResponse> {
+    // Skip Express API calls in production if no URL is configured
+    if (!this.baseURL) {
+      console.log('⚠️ No Express API URL configured, skipping account balance check');
+      return {
+        success: false,
+        error: 'Express API not available'
+      };
+    }
+
+    try {
+      const response = await this.http.get(`${this.baseURL}/api/balance/${accountId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting account balance:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      return {
+        success: false,
+        error: 'Failed to get account balance'
+      };
+    }
+  }
+
+  /**
+   * Fetch a page of collection NFTs. Pass the previous page's `nextCursor`
+   * to continue; cursors work across the edge function and Express API.
+   */
+  async getCollectionNFTs(limit: number = 100, cursor: string | null = null): Promise<CollectionNFTsResponse> {
+    const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
+
+    if (!tokenId) {
+      return {
+        success: false,
+        error: 'NFT Collection ID not configured'
+      };
     }
 
     // Use cache to avoid repeated API calls
-    const cacheKey = `collection-nfts-${tokenId}-${limit}-${offset}`;
+    const cacheKey = `collection-nfts-${tokenId}-${limit}-${cursor || 'start'}`;
     return cacheService.getOrSet(cacheKey, async () => {
       // Try Supabase Edge Function first (direct fetch)
       try {
@@ -370,12 +1213,13 @@ export class BackendService {
             headers: {
               'Authorization': `Bearer ${supabaseAnonKey}`,
               'Content-Type': 'application/json',
+              ...this.getSessionHeaders(),
             },
             body: JSON.stringify({
               tokenId,
               includeNFTs: true,
               limit,
-              offset,
+              cursor,
             })
           });
 
@@ -406,8 +1250,8 @@ export class BackendService {
             tokenId,
             includeNFTs: true,
             limit,
-            offset,
-          });
+            cursor,
+          }, this.getSessionHeaders());
 
           console.log('📋 Supabase client result for collection NFTs:', result);
 
@@ -427,8 +1271,8 @@ export class BackendService {
     if (this.baseURL) {
       try {
         console.log('🔄 Fetching collection NFTs via Express API fallback...');
-        const response = await axios.get(`${this.baseURL}/api/collection/nfts`, {
-          params: { limit, offset }
+        const response = await this.http.get(`${this.baseURL}/api/collection/nfts`, {
+          params: { limit, cursor: cursor || undefined }
         });
         console.log('✅ Collection NFTs fetched successfully via Express API');
         return response.data;
@@ -448,6 +1292,159 @@ export class BackendService {
       };
     }, 10 * 60 * 1000); // Cache for 10 minutes (increased from 1 minute)
   }
+
+  /**
+   * Fetch a page of the collection NFTs owned by an account
+   */
+  async getAccountNFTs(accountId: string, limit: number = 50, cursor: string | null = null): Promise<AccountNFTsResponse> {
+    const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
+    const payload = { accountId, tokenId, limit, cursor };
+
+    // Try Supabase Edge Function first (direct fetch)
+    try {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+      if (supabaseUrl && supabaseAnonKey) {
+        console.log('🔄 Fetching account NFTs via Supabase Edge Function (direct)...');
+        const response = await fetch(`${supabaseUrl}/functions/v1/hedera-account-nfts`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseAnonKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload)
+        });
+
+        if (response.ok) {
+          const result = await response.json();
+          if (result && result.success) {
+            console.log(`✅ Fetched ${result.data.nfts.length} NFTs owned by ${accountId}`);
+            return result;
+          }
+        } else {
+          console.error('❌ Direct fetch failed for account NFTs with status:', response.status, await response.text());
+        }
+      }
+    } catch (error) {
+      console.error('❌ Direct fetch failed for account NFTs:', error);
+    }
+
+    // Fallback: Try Supabase client
+    if (supabaseService.isAvailable()) {
+      try {
+        console.log('🔄 Fetching account NFTs via Supabase client...');
+        const result = await supabaseService.callEdgeFunction('hedera-account-nfts', payload);
+        if (result && result.success) {
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase client failed for account NFTs, falling back to Express API:', error);
+      }
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'Failed to fetch account NFTs - no backend services available'
+      };
+    }
+
+    try {
+      console.log('🔄 Fetching account NFTs via Express API fallback...');
+      const response = await this.http.get(`${this.baseURL}/api/accounts/${accountId}/nfts`, {
+        params: { limit, cursor: cursor || undefined }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching account NFTs:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search over the indexed collection (Postgres tsvector)
+   */
+  async searchNFTs(filters: SearchFilters, limit: number = 50, offset: number = 0): Promise<SearchNFTsResponse> {
+    const tokenId = import.meta.env.VITE_NFT_COLLECTION_ID;
+    const payload = { tokenId, filters, limit, offset };
+
+    // Try Supabase Edge Function first (direct fetch)
+    try {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+      if (supabaseUrl && supabaseAnonKey) {
+        console.log('🔄 Searching NFTs via Supabase Edge Function (direct)...');
+        const response = await fetch(`${supabaseUrl}/functions/v1/hedera-search`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseAnonKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload)
+        });
+
+        if (response.ok) {
+          const result = await response.json();
+          if (result && result.success) {
+            console.log(`✅ Search returned ${result.data.nfts.length} of ${result.data.total} NFTs`);
+            return result;
+          }
+        } else {
+          console.error('❌ Direct fetch failed for search with status:', response.status, await response.text());
+        }
+      }
+    } catch (error) {
+      console.error('❌ Direct fetch failed for search:', error);
+    }
+
+    // Fallback: Try Supabase client
+    if (supabaseService.isAvailable()) {
+      try {
+        console.log('🔄 Searching NFTs via Supabase client...');
+        const result = await supabaseService.callEdgeFunction('hedera-search', payload);
+        if (result && result.success) {
+          return result;
+        }
+      } catch (error) {
+        console.warn('⚠️ Supabase client search failed, falling back to Express API:', error);
+      }
+    }
+
+    if (!this.baseURL) {
+      return {
+        success: false,
+        error: 'No search service available'
+      };
+    }
+
+    try {
+      console.log('🔄 Searching NFTs via Express API fallback...');
+      const response = await this.http.get(`${this.baseURL}/api/search`, {
+        params: {
+          q: filters.query,
+          tags: filters.tags?.join(','),
+          mediaType: filters.mediaType,
+          from: filters.dateRange?.start || undefined,
+          to: filters.dateRange?.end || undefined,
+          sortBy: filters.sortBy,
+          limit,
+          offset
+        }
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error searching NFTs:', error);
+      if (axios.isAxiosError(error) && error.response) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  }
 }
 
 export const backendService = new BackendService();
@@ -7,7 +7,7 @@ interface CacheItem<T> {
 class CacheService {
   private cache = new Map<string, CacheItem<any>>();
   private defaultTTL = 15 * 60 * 1000; // 15 minutes (increased from 5 minutes)
-  private persistentKeys = ['token-info-', 'collection-nfts-']; // Keys that should persist across page reloads
+  private persistentKeys = ['token-info-', 'collection-nfts-', 'cid-verification-', 'gateway-stats', 'media-type-']; // Keys that should persist across page reloads
 
   constructor() {
     this.loadFromStorage();
@@ -0,0 +1,159 @@
+import { cacheService } from './cacheService';
+import { ipfsService } from './ipfsService';
+import { computeCID, isRawCID, parseCID, parseIPFSUrl } from '@/utils/cid';
+
+export type ContentVerificationStatus = 'verified' | 'mismatch' | 'unverifiable' | 'unavailable';
+
+export interface ContentVerification {
+  status: ContentVerificationStatus;
+  cid: string;
+  /** Gateway whose response hashed to the CID (verified) or did not (mismatch) */
+  gateway?: string;
+  /** CID of the bytes that were actually received, when it differs */
+  computedCid?: string;
+  reason?: string;
+  checkedAt: string;
+}
+
+const FETCH_TIMEOUT_MS = 60000;
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Content behind a CID never changes
+
+async function* readBody(response: Response): AsyncGenerator<Uint8Array> {
+  if (!response.body) {
+    yield new Uint8Array(await response.arrayBuffer());
+    return;
+  }
+
+  const reader = response.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Checks that content served for a CID really is that content, by hashing
+ * what a gateway returns and comparing the result with the CID.
+ *
+ * Raw-block CIDs (small CIDv1 files) are definitive: any other bytes are a
+ * mismatch. Larger files are DAGs whose CID also depends on how they were
+ * chunked, so a different CID there means "could not verify" rather than
+ * "tampered" unless the file was added with the default settings we use.
+ */
+class ContentVerificationService {
+  private inFlight = new Map<string, Promise<ContentVerification>>();
+
+  /**
+   * Compare the CID the storage provider reported for an upload with the CID
+   * computed locally from the selected file. Throws when they differ, so
+   * nothing is minted for content that is not what the user picked.
+   */
+  async assertUploadMatches(file: File, localCid: string, storedCid: string): Promise<void> {
+    const stored = parseCID(storedCid);
+    if (!stored) {
+      throw new Error(`${file.name}: storage returned an invalid CID (${storedCid})`);
+    }
+
+    // Providers answer with CIDv1; recompute in case one is configured for CIDv0
+    const expected = stored.version === 0 ? await computeCID(file, 0) : localCid;
+    if (stored.toString() !== expected) {
+      console.error(`❌ CID mismatch for ${file.name}: computed ${expected}, provider returned ${storedCid}`);
+      throw new Error(`${file.name}: stored content does not match the selected file (CID mismatch)`);
+    }
+
+    console.log(`✅ Upload of ${file.name} matches its local CID ${expected}`);
+  }
+
+  /**
+   * Verify the content behind an IPFS hash, `ipfs://` URI or gateway URL.
+   * Gateways are tried in order until one serves content matching the CID.
+   * Conclusive results are cached.
+   */
+  async verify(ipfsHash: string): Promise<ContentVerification> {
+    const parsed = parseIPFSUrl(ipfsHash);
+    if (!parsed) {
+      return this.result('unverifiable', ipfsHash, { reason: 'Not a valid IPFS CID' });
+    }
+    if (parsed.path) {
+      return this.result('unverifiable', parsed.cid, { reason: 'Files inside a directory CID cannot be verified on their own' });
+    }
+
+    const cached = cacheService.get<ContentVerification>(this.cacheKey(parsed.cid));
+    if (cached) return cached;
+
+    let pending = this.inFlight.get(parsed.cid);
+    if (!pending) {
+      pending = this.verifyFromGateways(parsed.cid).finally(() => this.inFlight.delete(parsed.cid));
+      this.inFlight.set(parsed.cid, pending);
+    }
+    return pending;
+  }
+
+  private async verifyFromGateways(cidString: string): Promise<ContentVerification> {
+    const cid = parseCID(cidString);
+    if (!cid) {
+      return this.result('unverifiable', cidString, { reason: 'Not a valid IPFS CID' });
+    }
+
+    let mismatch: ContentVerification | null = null;
+
+    for (const url of ipfsService.getGatewayUrls(cidString)) {
+      const gateway = new URL(url).origin;
+      try {
+        console.log(`🔍 Verifying ${cidString} via ${gateway}`);
+        const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+        if (!response.ok) {
+          console.warn(`⚠️ ${gateway} answered ${response.status} for ${cidString}`);
+          continue;
+        }
+
+        const computed = await computeCID(readBody(response), cid.version === 0 ? 0 : 1);
+        if (computed === cid.toString()) {
+          const verified = this.result('verified', cidString, { gateway });
+          cacheService.set(this.cacheKey(cidString), verified, CACHE_TTL_MS);
+          console.log(`✅ ${cidString} verified via ${gateway}`);
+          return verified;
+        }
+
+        console.warn(`⚠️ ${gateway} served content hashing to ${computed} for ${cidString}`);
+        mismatch = mismatch || this.result(isRawCID(cid) ? 'mismatch' : 'unverifiable', cidString, {
+          gateway,
+          computedCid: computed,
+          reason: isRawCID(cid)
+            ? 'The gateway returned content that does not match the CID'
+            : 'The content hashes to a different CID; it may have been added with different chunking settings'
+        });
+      } catch (error) {
+        console.warn(`⚠️ Could not verify ${cidString} via ${gateway}:`, error);
+      }
+    }
+
+    if (mismatch) {
+      if (mismatch.status === 'mismatch') {
+        cacheService.set(this.cacheKey(cidString), mismatch, CACHE_TTL_MS);
+      }
+      return mismatch;
+    }
+
+    return this.result('unavailable', cidString, { reason: 'No gateway could serve the content' });
+  }
+
+  private result(
+    status: ContentVerificationStatus,
+    cid: string,
+    details: Partial<ContentVerification> = {}
+  ): ContentVerification {
+    return { status, cid, ...details, checkedAt: new Date().toISOString() };
+  }
+
+  private cacheKey(cid: string): string {
+    return `cid-verification-${cid}`;
+  }
+}
+
+export const contentVerificationService = new ContentVerificationService();
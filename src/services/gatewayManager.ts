@@ -0,0 +1,277 @@
+import { cacheService } from './cacheService';
+import { PUBLIC_IPFS_GATEWAYS } from '@/utils/ipfsGateways';
+
+export interface GatewayStats {
+  successes: number;
+  failures: number;
+  /** Smoothed time to first byte / media load, in milliseconds; null until a success */
+  latencyMs: number | null;
+  /** Smoothed share of recent requests that failed, 0..1 */
+  failureRate: number;
+  lastFailureAt: number | null;
+}
+
+export interface GatewayHealth extends GatewayStats {
+  url: string;
+  score: number;
+}
+
+const STATS_CACHE_KEY = 'gateway-stats';
+const STATS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 2000;
+const SMOOTHING = 0.3; // Weight of the newest sample in the moving averages
+const UNKNOWN_LATENCY_MS = 1500; // Assumed for gateways without a successful request yet
+const FAILURE_PENALTY_MS = 30000; // Extra score just after a failure, fading out over the cooldown
+const FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+const RACE_WIDTH = 2;
+const FETCH_TIMEOUT_MS = 30000;
+
+const emptyStats = (): GatewayStats => ({
+  successes: 0,
+  failures: 0,
+  latencyMs: null,
+  failureRate: 0,
+  lastFailureAt: null
+});
+
+/**
+ * One list of IPFS gateways for every part of the app, ordered by how well
+ * each gateway has worked from this browser.
+ *
+ * Callers report the outcome of each load (`reportSuccess` with the time it
+ * took, `reportFailure`); a gateway's score is its smoothed latency scaled by
+ * its failure rate, plus a penalty for a recent failure that fades over a few
+ * minutes so a gateway that was briefly down gets tried again. Stats are kept
+ * in the persistent client cache, so the order survives reloads.
+ *
+ * The gateway in VITE_IPFS_GATEWAY_URL (e.g. a dedicated Pinata gateway) is
+ * always tried first.
+ */
+export class GatewayManager {
+  private gateways: string[];
+  private preferred: string[] = [];
+  private stats: Record<string, GatewayStats>;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(customGateway: string | undefined = import.meta.env.VITE_IPFS_GATEWAY_URL) {
+    this.gateways = [...PUBLIC_IPFS_GATEWAYS];
+    this.stats = cacheService.get<Record<string, GatewayStats>>(STATS_CACHE_KEY) || {};
+
+    if (customGateway) {
+      this.addGateway(customGateway, true);
+    }
+  }
+
+  /**
+   * Add a gateway to the pool. Preferred gateways (the configured gateway,
+   * a storage provider's own gateway) are ordered ahead of the scored ones
+   * for as long as they keep working.
+   */
+  addGateway(url: string, preferred = false): void {
+    const gateway = this.normalize(url);
+    if (!gateway) return;
+
+    if (!this.gateways.includes(gateway)) {
+      this.gateways.push(gateway);
+    }
+    if (preferred && !this.preferred.includes(gateway)) {
+      this.preferred.push(gateway);
+    }
+  }
+
+  hasGateway(url: string): boolean {
+    const gateway = this.normalize(url);
+    return gateway !== null && this.gateways.includes(gateway);
+  }
+
+  /**
+   * Gateways from best to worst score
+   */
+  getGateways(): string[] {
+    const now = Date.now();
+    const rank = (gateway: string) => {
+      const preferredIndex = this.preferred.indexOf(gateway);
+      // A preferred gateway stays in front unless it failed just now
+      return preferredIndex >= 0 && !this.isCoolingDown(gateway, now) ? preferredIndex : this.preferred.length;
+    };
+
+    return [...this.gateways].sort((a, b) =>
+      rank(a) - rank(b) || this.score(a, now) - this.score(b, now)
+    );
+  }
+
+  /**
+   * Gateway URLs for a hash (or `cid/path`), best first
+   */
+  getUrls(hash: string): string[] {
+    return this.getGateways().map(gateway => `${gateway}/ipfs/${hash}`);
+  }
+
+  getUrl(hash: string): string {
+    return this.getUrls(hash)[0];
+  }
+
+  /**
+   * Stats and current score of every gateway, best first
+   */
+  getHealth(): GatewayHealth[] {
+    const now = Date.now();
+    return this.getGateways().map(url => ({
+      url,
+      ...(this.stats[url] || emptyStats()),
+      score: Math.round(this.score(url, now))
+    }));
+  }
+
+  /**
+   * Record a successful load from a gateway (or any URL on it)
+   */
+  reportSuccess(url: string, latencyMs: number): void {
+    const gateway = this.normalize(url);
+    if (!gateway) return;
+
+    const stats = this.stats[gateway] || emptyStats();
+    stats.successes++;
+    stats.latencyMs = stats.latencyMs === null
+      ? latencyMs
+      : stats.latencyMs + SMOOTHING * (latencyMs - stats.latencyMs);
+    stats.failureRate *= 1 - SMOOTHING;
+    this.stats[gateway] = stats;
+    this.scheduleSave();
+  }
+
+  /**
+   * Record a failed load (error, timeout or non-OK status) from a gateway
+   */
+  reportFailure(url: string): void {
+    const gateway = this.normalize(url);
+    if (!gateway) return;
+
+    const stats = this.stats[gateway] || emptyStats();
+    stats.failures++;
+    stats.failureRate += SMOOTHING * (1 - stats.failureRate);
+    stats.lastFailureAt = Date.now();
+    this.stats[gateway] = stats;
+    this.scheduleSave();
+  }
+
+  /**
+   * Fetch a hash from the gateways. The best two are raced and the loser is
+   * aborted; when both fail the rest are tried in score order.
+   */
+  async fetch(hash: string, init: RequestInit = {}): Promise<Response> {
+    const urls = this.getUrls(hash);
+    let lastError: Error | null = null;
+
+    try {
+      return await this.race(urls.slice(0, RACE_WIDTH), init);
+    } catch (error) {
+      lastError = error as Error;
+    }
+
+    for (const url of urls.slice(RACE_WIDTH)) {
+      if (init.signal?.aborted) break;
+      try {
+        return await this.race([url], init);
+      } catch (error) {
+        lastError = error as Error;
+      }
+    }
+
+    console.error(`❌ All IPFS gateways failed for hash: ${hash}`);
+    throw lastError || new Error(`All IPFS gateways failed for hash: ${hash}`);
+  }
+
+  private race(urls: string[], init: RequestInit): Promise<Response> {
+    const controllers = urls.map(() => new AbortController());
+    const abortAll = () => controllers.forEach(controller => controller.abort());
+    init.signal?.addEventListener('abort', abortAll);
+
+    return new Promise<Response>((resolve, reject) => {
+      let pending = urls.length;
+      let settled = false;
+      let lastError: Error | null = null;
+
+      urls.forEach((url, index) => {
+        const started = performance.now();
+        let timedOut = false;
+        const timeout = setTimeout(() => {
+          timedOut = true;
+          controllers[index].abort();
+        }, FETCH_TIMEOUT_MS);
+
+        console.log(`🔄 Trying IPFS gateway: ${url}`);
+        fetch(url, { ...init, signal: controllers[index].signal })
+          .then(response => {
+            if (!response.ok) {
+              throw new Error(`Gateway failed with status: ${response.status} ${response.statusText}`);
+            }
+
+            this.reportSuccess(url, performance.now() - started);
+            if (settled) return;
+            settled = true;
+            // Stop the slower gateway; it is not counted as a failure
+            controllers.forEach((controller, other) => other !== index && controller.abort());
+            init.signal?.removeEventListener('abort', abortAll);
+            console.log(`✅ Successfully fetched from: ${url}`);
+            resolve(response);
+          })
+          .catch((error: Error) => {
+            // Aborted because another gateway won or the caller gave up
+            if (controllers[index].signal.aborted && !timedOut) {
+              lastError = lastError || error;
+              return;
+            }
+            console.warn(`❌ Gateway ${url} error:`, timedOut ? 'timed out' : error);
+            this.reportFailure(url);
+            lastError = timedOut ? new Error(`Gateway timed out after ${FETCH_TIMEOUT_MS / 1000}s`) : error;
+          })
+          .finally(() => {
+            clearTimeout(timeout);
+            pending--;
+            if (pending === 0 && !settled) {
+              init.signal?.removeEventListener('abort', abortAll);
+              reject(lastError || new Error('Gateway request failed'));
+            }
+          });
+      });
+    });
+  }
+
+  private score(gateway: string, now: number): number {
+    const stats = this.stats[gateway];
+    if (!stats) return UNKNOWN_LATENCY_MS;
+
+    const latency = stats.latencyMs ?? UNKNOWN_LATENCY_MS;
+    const sinceFailure = stats.lastFailureAt === null ? Infinity : now - stats.lastFailureAt;
+    const recentFailure = Math.max(0, 1 - sinceFailure / FAILURE_COOLDOWN_MS);
+
+    return latency * (1 + 4 * stats.failureRate) + FAILURE_PENALTY_MS * recentFailure;
+  }
+
+  private isCoolingDown(gateway: string, now: number): boolean {
+    const lastFailureAt = this.stats[gateway]?.lastFailureAt;
+    return lastFailureAt != null && now - lastFailureAt < FAILURE_COOLDOWN_MS;
+  }
+
+  // Gateway origin (with any path prefix before /ipfs/) of a gateway or content URL
+  private normalize(url: string): string | null {
+    const base = url.includes('/ipfs/') ? url.slice(0, url.indexOf('/ipfs/')) : url;
+    try {
+      const parsed = new URL(base);
+      return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      cacheService.set(STATS_CACHE_KEY, this.stats, STATS_TTL_MS);
+    }, SAVE_DELAY_MS);
+  }
+}
+
+export const gatewayManager = new GatewayManager();
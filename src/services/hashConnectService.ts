@@ -345,9 +345,36 @@ export class HashConnectService {
     this.listeners.forEach(listener => listener(this.getState()));
   }
 
-  // Placeholder for message signing (not commonly used in Hedera)
-  async signMessage(_message: string): Promise<string> {
-    throw new Error('Message signing not implemented for HashConnect');
+  /**
+   * Sign an arbitrary message with the connected account.
+   * Returns the signature as a hex string; the wallet prefixes the message
+   * with "\x19Hedera Signed Message:\n" before signing.
+   */
+  async signMessage(message: string): Promise<string> {
+    try {
+      if (!this.state.isConnected || !this.state.accountId) {
+        throw new Error('Wallet not connected');
+      }
+
+      console.log('Sending message to HashConnect for signing...');
+      const userAccountId = AccountId.fromString(this.state.accountId);
+      const signerSignatures = await this.hashconnect.signMessages(userAccountId, message);
+
+      if (!signerSignatures || signerSignatures.length === 0) {
+        throw new Error('Wallet returned no signature');
+      }
+
+      const signature: Uint8Array = signerSignatures[0].signature;
+      return Array.from(signature, (byte: number) => byte.toString(16).padStart(2, '0')).join('');
+    } catch (error) {
+      console.error('Error signing message:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.toLowerCase().includes('rejected')) {
+        throw new Error('Message signing was rejected by user');
+      }
+      throw error;
+    }
   }
 
   // Static method to get or create singleton instance
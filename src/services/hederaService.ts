@@ -16,7 +16,10 @@ import {
   AccountBalanceQuery,
   TokenNftInfoQuery,
   NftId, // Added NftId import
-  ContractInfoQuery // Added ContractInfoQuery import
+  ContractInfoQuery, // Added ContractInfoQuery import
+  TransactionId,
+  TransactionReceipt,
+  TransactionReceiptQuery
 } from '@hashgraph/sdk';
 // Server-side only service - requires Node.js environment
 import dotenv from 'dotenv';
@@ -32,22 +35,22 @@ export interface TokenCreationResult {
   serialNumber: number;
 }
 
-export interface NFTMetadata {
-  name: string;
-  description: string;
-  image: string;
-  type: string;
-  attributes?: Array<{ // Added attributes to NFTMetadata
-    trait_type: string;
-    value: string;
-  }>;
-  properties: {
-    creator: string;
-    tags: string[];
-    originalFileName: string;
-    fileSize: number;
-    uploadDate: string;
-  };
+// TokenMintTransaction accepts at most ten metadata entries
+export const MAX_NFTS_PER_MINT = 10;
+
+/**
+ * Called with a transaction ID as soon as the transaction is submitted, before
+ * its receipt: from then on the transaction may have reached consensus even
+ * if the call fails
+ */
+export type TransactionSubmitted = (transactionId: string) => Promise<void> | void;
+
+export interface BatchMintItemResult {
+  metadataUrl: string;
+  success: boolean;
+  serialNumber?: number;
+  transactionId?: string;
+  error?: string;
 }
 
 export class HederaService {
@@ -187,6 +190,115 @@ export class HederaService {
     }
   }
 
+  /**
+   * Mint many NFTs, ten per TokenMintTransaction. A failed chunk does not
+   * stop the remaining ones; every metadata URL gets its own result, with the
+   * transaction ID whenever the chunk was submitted.
+   */
+  async mintNFTBatch(
+    tokenId: string,
+    metadataUrls: string[],
+    supplyKey: PrivateKey,
+    onSubmitted?: TransactionSubmitted
+  ): Promise<BatchMintItemResult[]> {
+    const results: BatchMintItemResult[] = [];
+
+    for (let start = 0; start < metadataUrls.length; start += MAX_NFTS_PER_MINT) {
+      const chunk = metadataUrls.slice(start, start + MAX_NFTS_PER_MINT);
+      let transactionId: string | undefined;
+
+      try {
+        const mintTx = new TokenMintTransaction()
+          .setTokenId(tokenId)
+          .setMetadata(chunk.map(url => new TextEncoder().encode(url)))
+          .setMaxTransactionFee(new Hbar(20))
+          .freezeWith(this.client);
+
+        const mintTxSign = await mintTx.sign(supplyKey);
+        const mintTxSubmit = await mintTxSign.execute(this.client);
+        transactionId = mintTxSubmit.transactionId.toString();
+        await onSubmitted?.(transactionId);
+        const mintRx = await mintTxSubmit.getReceipt(this.client);
+
+        const serialNumbers = mintRx.serials || [];
+        if (serialNumbers.length !== chunk.length) {
+          throw new Error(`Expected ${chunk.length} serials, received ${serialNumbers.length}`);
+        }
+
+        // Serials are assigned in metadata order
+        chunk.forEach((metadataUrl, index) => {
+          results.push({
+            metadataUrl,
+            success: true,
+            serialNumber: serialNumbers[index].toNumber(),
+            transactionId
+          });
+        });
+      } catch (error) {
+        console.error(`Error minting NFT batch ${start / MAX_NFTS_PER_MINT + 1}:`, error);
+        chunk.forEach(metadataUrl => {
+          results.push({
+            metadataUrl,
+            success: false,
+            ...(transactionId && { transactionId }),
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Submit a single-NFT mint without waiting for the receipt. Used by the mint
+   * job queue, which records the transaction ID first so a crash between
+   * submission and receipt never leads to a second mint.
+   */
+  async submitMintNFT(
+    tokenId: string,
+    metadataUrl: string,
+    supplyKey: PrivateKey
+  ): Promise<string> {
+    const mintTx = new TokenMintTransaction()
+      .setTokenId(tokenId)
+      .setMetadata([new TextEncoder().encode(metadataUrl)])
+      .setMaxTransactionFee(new Hbar(20))
+      .freezeWith(this.client);
+
+    const mintTxSign = await mintTx.sign(supplyKey);
+    const mintTxSubmit = await mintTxSign.execute(this.client);
+    return mintTxSubmit.transactionId.toString();
+  }
+
+  // Submit an NFT transfer without waiting for the receipt (see submitMintNFT)
+  async submitNFTTransfer(
+    tokenId: string,
+    serialNumber: number,
+    fromAccountId: string,
+    toAccountId: string,
+    fromPrivateKey: string
+  ): Promise<string> {
+    const transferTx = new TransferTransaction()
+      .addNftTransfer(tokenId, serialNumber, fromAccountId, toAccountId)
+      .setMaxTransactionFee(new Hbar(10))
+      .freezeWith(this.client);
+
+    const transferTxSign = await transferTx.sign(PrivateKey.fromString(fromPrivateKey));
+    const transferTxSubmit = await transferTxSign.execute(this.client);
+    return transferTxSubmit.transactionId.toString();
+  }
+
+  /**
+   * Wait for the receipt of a previously submitted transaction.
+   * Throws ReceiptStatusError when the transaction reached consensus but failed.
+   */
+  async getTransactionReceipt(transactionId: string): Promise<TransactionReceipt> {
+    return new TransactionReceiptQuery()
+      .setTransactionId(TransactionId.fromString(transactionId))
+      .execute(this.client);
+  }
+
   async associateToken(tokenId: string, accountId: string, privateKey: string): Promise<void> {
     try {
       const associateTx = new TokenAssociateTransaction()
@@ -242,7 +354,8 @@ export class HederaService {
     serialNumber: number,
     fromAccountId: string,
     toAccountId: string,
-    fromPrivateKey: string
+    fromPrivateKey: string,
+    onSubmitted?: TransactionSubmitted
   ): Promise<string> {
     try {
       const transferTx = new TransferTransaction()
@@ -252,6 +365,7 @@ export class HederaService {
 
       const transferTxSign = await transferTx.sign(PrivateKey.fromString(fromPrivateKey));
       const transferTxSubmit = await transferTxSign.execute(this.client);
+      await onSubmitted?.(transferTxSubmit.transactionId.toString());
       const transferRx = await transferTxSubmit.getReceipt(this.client);
 
       return transferTxSubmit.transactionId.toString();
@@ -261,6 +375,36 @@ export class HederaService {
     }
   }
 
+  // Transfer several serials of one token in a single transaction (max 10 NFT transfers)
+  async transferNFTBatch(
+    tokenId: string,
+    serialNumbers: number[],
+    fromAccountId: string,
+    toAccountId: string,
+    fromPrivateKey: string,
+    onSubmitted?: TransactionSubmitted
+  ): Promise<string> {
+    try {
+      const transferTx = new TransferTransaction();
+      for (const serialNumber of serialNumbers) {
+        transferTx.addNftTransfer(tokenId, serialNumber, fromAccountId, toAccountId);
+      }
+      transferTx
+        .setMaxTransactionFee(new Hbar(10))
+        .freezeWith(this.client);
+
+      const transferTxSign = await transferTx.sign(PrivateKey.fromString(fromPrivateKey));
+      const transferTxSubmit = await transferTxSign.execute(this.client);
+      await onSubmitted?.(transferTxSubmit.transactionId.toString());
+      await transferTxSubmit.getReceipt(this.client);
+
+      return transferTxSubmit.transactionId.toString();
+    } catch (error) {
+      console.error('Error transferring NFT batch:', error);
+      throw error;
+    }
+  }
+
   async getTokenInfo(tokenId: string) {
     try {
       const tokenInfo = await new TokenInfoQuery()
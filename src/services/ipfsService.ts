@@ -1,4 +1,6 @@
-import { PinataSDK } from 'pinata-web3';
+import { StorageProvider, PinnedObject, createStorageProvider } from './storageProvider';
+import { gatewayManager } from './gatewayManager';
+import type { HIP412Metadata } from '@/utils/hip412';
 
 export interface IPFSUploadResult {
   hash: string;
@@ -6,51 +8,32 @@ export interface IPFSUploadResult {
   size: number;
 }
 
-export interface IPFSMetadata {
-  name: string;
-  description: string;
-  image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string;
-  }>;
-}
-
 export class IPFSService {
-  private pinata: PinataSDK;
+  private provider: StorageProvider;
   private gatewayUrl: string;
-  private fallbackGateways: string[];
-
-  constructor() {
-    const jwt = import.meta.env.VITE_PINATA_JWT;
-    this.gatewayUrl = import.meta.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud';
-
-    // Multiple IPFS gateways for fallback and load distribution
-    this.fallbackGateways = [
-      'https://ipfs.io',
-      'https://cloudflare-ipfs.com',
-      'https://dweb.link',
-      'https://gateway.pinata.cloud',
-      'https://4everland.io'
-    ];
-
-    if (!jwt) {
-      throw new Error('Pinata JWT token not configured');
+
+  constructor(provider: StorageProvider = createStorageProvider()) {
+    this.provider = provider;
+    this.gatewayUrl = provider.gatewayUrl || import.meta.env.VITE_PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud';
+
+    // Read from the provider's own gateway first (e.g. a local Kubo node)
+    if (provider.gatewayUrl && !gatewayManager.hasGateway(provider.gatewayUrl)) {
+      gatewayManager.addGateway(provider.gatewayUrl, true);
     }
+  }
 
-    this.pinata = new PinataSDK({
-      pinataJwt: jwt,
-    });
+  getProviderName(): string {
+    return this.provider.name;
   }
 
   async uploadFile(file: File): Promise<IPFSUploadResult> {
     try {
-      const upload = await this.pinata.upload.file(file);
-      
+      const upload = await this.provider.uploadFile(file);
+
       return {
-        hash: upload.IpfsHash,
-        url: `${this.gatewayUrl}/ipfs/${upload.IpfsHash}`,
-        size: file.size
+        hash: upload.cid,
+        url: this.getGatewayUrl(upload.cid),
+        size: upload.size
       };
     } catch (error) {
       console.error('Error uploading file to IPFS:', error);
@@ -58,14 +41,14 @@ export class IPFSService {
     }
   }
 
-  async uploadJSON(data: any): Promise<IPFSUploadResult> {
+  async uploadJSON(data: unknown): Promise<IPFSUploadResult> {
     try {
-      const upload = await this.pinata.upload.json(data);
-      
+      const upload = await this.provider.uploadJSON(data);
+
       return {
-        hash: upload.IpfsHash,
-        url: `${this.gatewayUrl}/ipfs/${upload.IpfsHash}`,
-        size: JSON.stringify(data).length
+        hash: upload.cid,
+        url: this.getGatewayUrl(upload.cid),
+        size: upload.size
       };
     } catch (error) {
       console.error('Error uploading JSON to IPFS:', error);
@@ -73,7 +56,7 @@ export class IPFSService {
     }
   }
 
-  async uploadMetadata(metadata: IPFSMetadata): Promise<IPFSUploadResult> {
+  async uploadMetadata(metadata: HIP412Metadata): Promise<IPFSUploadResult> {
     return this.uploadJSON(metadata);
   }
 
@@ -96,80 +79,54 @@ export class IPFSService {
   }
 
   getGatewayUrl(hash: string): string {
-    return `${this.gatewayUrl}/ipfs/${hash}`;
+    return this.provider.getUrl?.(hash) || `${this.gatewayUrl}/ipfs/${hash}`;
   }
 
   /**
-   * Get multiple gateway URLs for a hash (for fallback)
+   * Get gateway URLs for a hash, best scoring gateway first (for fallback)
    */
   getGatewayUrls(hash: string): string[] {
-    return this.fallbackGateways.map(gateway => `${gateway}/ipfs/${hash}`);
+    return gatewayManager.getUrls(hash);
   }
 
   /**
    * Check if IPFS content exists using HEAD request
    */
   async checkIPFSExists(hash: string): Promise<boolean> {
-    const gateways = this.getGatewayUrls(hash);
-
-    for (const gatewayUrl of gateways) {
-      try {
-        const response = await fetch(gatewayUrl, {
-          method: 'HEAD',
-          headers: { 'Accept': '*/*' },
-        });
-
-        if (response.ok) {
-          console.log(`✅ IPFS content exists at: ${gatewayUrl}`);
-          return true;
-        }
-      } catch (error) {
-        // Continue to next gateway
-      }
+    try {
+      const response = await gatewayManager.fetch(hash, {
+        method: 'HEAD',
+        headers: { 'Accept': '*/*' },
+      });
+      console.log(`✅ IPFS content exists at: ${response.url}`);
+      return true;
+    } catch (error) {
+      console.warn(`❌ IPFS content not found on any gateway: ${hash}`);
+      return false;
     }
-
-    console.warn(`❌ IPFS content not found on any gateway: ${hash}`);
-    return false;
   }
 
   /**
-   * Try to fetch from multiple gateways with fallback
+   * Try to fetch from the gateways, racing the best scoring ones
    */
   async getFileWithFallback(hash: string): Promise<Response> {
-    const gateways = this.getGatewayUrls(hash);
-    let lastError: Error | null = null;
-
-    for (const gatewayUrl of gateways) {
-      try {
-        console.log(`🔄 Trying IPFS gateway: ${gatewayUrl}`);
-        const response = await fetch(gatewayUrl, {
-          method: 'GET',
-          headers: {
-            'Accept': '*/*',
-          },
-        });
-
-        if (response.ok) {
-          console.log(`✅ Successfully fetched from: ${gatewayUrl}`);
-          return response;
-        } else {
-          console.warn(`❌ Gateway ${gatewayUrl} failed with status: ${response.status} ${response.statusText}`);
-          lastError = new Error(`Gateway failed with status: ${response.status} ${response.statusText}`);
-        }
-      } catch (error) {
-        console.warn(`❌ Gateway ${gatewayUrl} error:`, error);
-        lastError = error as Error;
-        // Continue to next gateway
-      }
+    // Content held by the provider itself (in-memory storage) needs no gateway
+    const local = await this.provider.fetch?.(hash);
+    if (local) {
+      return local;
     }
 
-    console.error(`❌ All IPFS gateways failed for hash: ${hash}`);
-    throw lastError || new Error(`All IPFS gateways failed for hash: ${hash}`);
+    return gatewayManager.fetch(hash, {
+      method: 'GET',
+      headers: {
+        'Accept': '*/*',
+      },
+    });
   }
 
   async pinFile(hash: string): Promise<void> {
     try {
-      await this.pinata.pinning.pinByHash(hash);
+      await this.provider.pin(hash);
     } catch (error) {
       console.error('Error pinning file:', error);
       throw error;
@@ -178,17 +135,16 @@ export class IPFSService {
 
   async unpinFile(hash: string): Promise<void> {
     try {
-      await this.pinata.pinning.unpin(hash);
+      await this.provider.unpin(hash);
     } catch (error) {
       console.error('Error unpinning file:', error);
       throw error;
     }
   }
 
-  async listPinnedFiles(): Promise<any[]> {
+  async listPinnedFiles(): Promise<PinnedObject[]> {
     try {
-      const files = await this.pinata.pinning.list();
-      return files.rows || [];
+      return await this.provider.listPins();
     } catch (error) {
       console.error('Error listing pinned files:', error);
       throw error;
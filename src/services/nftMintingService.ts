@@ -7,7 +7,7 @@ import {
   Hbar
 } from '@hashgraph/sdk';
 import { useWallet } from '@/contexts/WalletContext';
-import { backendService } from './backendService';
+import { backendService, MintJob } from './backendService';
 
 export interface MintingResult {
   transactionId: string;
@@ -15,6 +15,14 @@ export interface MintingResult {
   tokenId: string;
 }
 
+export interface BatchMintingResult {
+  tokenId: string;
+  minted: MintingResult[];
+  failed: Array<{ metadataUrl: string; error: string }>;
+  /** Minted, but the transfer to the user failed so they are still in the treasury */
+  untransferred: Array<MintingResult & { metadataUrl: string; error: string }>;
+}
+
 /**
  * Proper Hedera NFT Minting Service following decentralized signing patterns
  * 
@@ -104,6 +112,89 @@ export class NFTMintingService {
     }
   }
 
+  /**
+   * Queued variant of the backend approach: the Express API records a mint job
+   * that mints and transfers to the user with retries, and we poll its status
+   * instead of holding one long request open.
+   */
+  async mintNFTWithJob(
+    metadataUrl: string,
+    userAccountId: string,
+    onUpdate?: (job: MintJob) => void
+  ): Promise<MintingResult> {
+    const jobResponse = await backendService.createMintJob({ metadataUrl, userAccountId });
+
+    if (!jobResponse.success || !jobResponse.data) {
+      throw new Error(jobResponse.details || jobResponse.error || 'Failed to queue mint job');
+    }
+
+    // A replay of a mint the edge function already made carries its result, not a job
+    if (!('status' in jobResponse.data)) {
+      const { transactionId, transferTransactionId, serialNumber, tokenId } = jobResponse.data;
+      return { transactionId: transferTransactionId || transactionId, serialNumber, tokenId };
+    }
+
+    console.log(`📥 Mint job queued: ${jobResponse.data.id}`);
+    const job = await backendService.waitForMintJob(jobResponse.data.id, onUpdate);
+
+    if (job.status === 'failed') {
+      if (job.serialNumber !== null) {
+        throw new Error(`NFT #${job.serialNumber} was minted but could not be transferred: ${job.lastError || 'Unknown error'}`);
+      }
+      throw new Error(job.lastError || 'Failed to mint NFT');
+    }
+
+    return {
+      transactionId: job.transferTransactionId || job.mintTransactionId || '',
+      serialNumber: job.serialNumber!,
+      tokenId: job.tokenId
+    };
+  }
+
+  /**
+   * Batch variant of the backend approach: the backend mints up to ten NFTs
+   * per transaction and transfers them to the user. Partial failures are
+   * returned rather than thrown so the caller can report them per file.
+   */
+  async mintNFTBatch(
+    metadataUrls: string[],
+    userAccountId: string
+  ): Promise<BatchMintingResult> {
+    const batchResponse = await backendService.mintNFTBatch({
+      metadataUrls,
+      userAccountId
+    });
+
+    if (!batchResponse.data) {
+      throw new Error(batchResponse.details || batchResponse.error || 'Failed to mint NFTs');
+    }
+
+    const { tokenId, items } = batchResponse.data;
+
+    return {
+      tokenId,
+      minted: items
+        .filter(item => item.success && !item.transferError)
+        .map(item => ({
+          transactionId: item.transferTransactionId || item.transactionId || '',
+          serialNumber: item.serialNumber!,
+          tokenId
+        })),
+      failed: items
+        .filter(item => !item.success)
+        .map(item => ({ metadataUrl: item.metadataUrl, error: item.error || 'Unknown error' })),
+      untransferred: items
+        .filter(item => item.success && item.transferError)
+        .map(item => ({
+          metadataUrl: item.metadataUrl,
+          transactionId: item.transactionId || '',
+          serialNumber: item.serialNumber!,
+          tokenId,
+          error: item.transferError!
+        }))
+    };
+  }
+
   /**
    * Method 2: Fully Decentralized Approach (Future implementation)
    * User signs the actual minting transaction
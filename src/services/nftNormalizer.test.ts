@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { nftNormalizer, RawNFT } from './nftNormalizer';
+import { cacheService } from './cacheService';
+import { gatewayManager } from './gatewayManager';
+import { ipfsService } from './ipfsService';
+
+vi.mock('./cacheService', () => ({ cacheService: { get: vi.fn(), set: vi.fn() } }));
+vi.mock('./gatewayManager', () => ({ gatewayManager: { fetch: vi.fn() } }));
+vi.mock('./ipfsService', () => ({ ipfsService: { getJSON: vi.fn() } }));
+
+const METADATA_CID = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const MEDIA_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+const document = {
+  name: 'Sunset',
+  description: 'Evening light',
+  image: `ipfs://${MEDIA_CID}`,
+  type: 'image/png',
+  format: 'HIP412@2.0.0',
+  attributes: [{ trait_type: 'Tag', value: 'sky' }]
+};
+
+const nftWith = (metadata: unknown, metadataContent?: unknown): RawNFT => ({
+  tokenId: '0.0.1001',
+  serialNumber: 7,
+  accountId: '0.0.2002',
+  metadata,
+  metadataContent,
+  createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const respondWith = (bytes: number[]) =>
+  vi.mocked(gatewayManager.fetch).mockResolvedValue(new Response(new Uint8Array(bytes)));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.mocked(ipfsService.getJSON).mockResolvedValue(document);
+});
+
+describe('nftNormalizer.normalize', () => {
+  const expectSunset = (media: Awaited<ReturnType<typeof nftNormalizer.normalize>>) => {
+    expect(media).toMatchObject({
+      tokenId: '0.0.1001',
+      serialNumber: 7,
+      ipfsHash: MEDIA_CID,
+      metadata: { title: 'Sunset', description: 'Evening light', tags: ['sky'], mediaType: 'image', creator: '0.0.2002' }
+    });
+  };
+
+  it('fetches the document behind an ipfs:// URL', async () => {
+    expectSunset(await nftNormalizer.normalize(nftWith(`ipfs://${METADATA_CID}`)));
+    expect(ipfsService.getJSON).toHaveBeenCalledWith(METADATA_CID);
+  });
+
+  it('fetches the document behind { metadataUrl }', async () => {
+    expectSunset(await nftNormalizer.normalize(nftWith({ metadataUrl: `https://ipfs.io/ipfs/${METADATA_CID}/meta.json` })));
+    expect(ipfsService.getJSON).toHaveBeenCalledWith(`${METADATA_CID}/meta.json`);
+  });
+
+  it('fetches http(s) URLs that are not on IPFS directly', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json(document));
+
+    expectSunset(await nftNormalizer.normalize(nftWith({ raw: ' https://example.com/meta.json ' })));
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/meta.json', expect.anything());
+    fetchMock.mockRestore();
+  });
+
+  it('reads inline JSON from { raw }, a string or an object', async () => {
+    expectSunset(await nftNormalizer.normalize(nftWith({ raw: JSON.stringify(document) })));
+    expectSunset(await nftNormalizer.normalize(nftWith(JSON.stringify(document))));
+    expectSunset(await nftNormalizer.normalize(nftWith(document)));
+    expect(ipfsService.getJSON).not.toHaveBeenCalled();
+  });
+
+  it('prefers the document the API already resolved', async () => {
+    expectSunset(await nftNormalizer.normalize(nftWith({ metadataUrl: `ipfs://${METADATA_CID}` }, document)));
+    expect(ipfsService.getJSON).not.toHaveBeenCalled();
+  });
+
+  it('returns null for invalid JSON, missing metadata or a failed fetch', async () => {
+    expect(await nftNormalizer.normalize(nftWith({ raw: '{"name": ' }))).toBeNull();
+    expect(await nftNormalizer.normalize(nftWith('not json'))).toBeNull();
+    expect(await nftNormalizer.normalize(nftWith(undefined))).toBeNull();
+
+    vi.mocked(ipfsService.getJSON).mockRejectedValue(new Error('timeout'));
+    expect(await nftNormalizer.normalize(nftWith(`ipfs://${METADATA_CID}`))).toBeNull();
+  });
+
+  it('returns null when the media is not on IPFS', async () => {
+    expect(await nftNormalizer.normalize(nftWith({ ...document, image: 'https://example.com/a.png' }))).toBeNull();
+  });
+});
+
+describe('nftNormalizer media type detection', () => {
+  const untyped = { name: 'Mystery', image: `ipfs://${MEDIA_CID}`, type: 'application/octet-stream' };
+  const mediaTypeOf = async (metadata: unknown) => (await nftNormalizer.normalize(nftWith(metadata)))?.metadata.mediaType;
+
+  it('uses the MIME type, then a legacy type field, without fetching', async () => {
+    expect(await mediaTypeOf({ ...untyped, type: 'audio/mpeg' })).toBe('audio');
+    expect(await mediaTypeOf({ ...untyped, type: 'video' })).toBe('video');
+    expect(gatewayManager.fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the file extension before sniffing', async () => {
+    expect(await mediaTypeOf({ ...untyped, properties: { originalFileName: 'song.mp3' } })).toBe('audio');
+    expect(await mediaTypeOf({ ...untyped, image: `ipfs://${MEDIA_CID}/clip.webm` })).toBe('video');
+    expect(gatewayManager.fetch).not.toHaveBeenCalled();
+  });
+
+  it('sniffs the first bytes and caches the result per CID', async () => {
+    respondWith([0, 0, 0, 0x18, ...new TextEncoder().encode('ftypisom')]);
+
+    expect(await mediaTypeOf(untyped)).toBe('video');
+    expect(gatewayManager.fetch).toHaveBeenCalledWith(MEDIA_CID, expect.objectContaining({
+      headers: { Range: 'bytes=0-11' }
+    }));
+    expect(cacheService.set).toHaveBeenCalledWith(`media-type-${MEDIA_CID}`, 'video', expect.any(Number));
+  });
+
+  it('uses a cached sniff result', async () => {
+    vi.mocked(cacheService.get).mockReturnValueOnce('audio');
+
+    expect(await mediaTypeOf(untyped)).toBe('audio');
+    expect(gatewayManager.fetch).not.toHaveBeenCalled();
+  });
+
+  it('defaults to image when the content cannot be sniffed', async () => {
+    respondWith([0x25, 0x50, 0x44, 0x46]);
+    expect(await mediaTypeOf(untyped)).toBe('image');
+
+    vi.mocked(gatewayManager.fetch).mockRejectedValue(new Error('All gateways failed'));
+    expect(await mediaTypeOf(untyped)).toBe('image');
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+});
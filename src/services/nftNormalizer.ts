@@ -0,0 +1,283 @@
+import { cacheService } from './cacheService';
+import { gatewayManager } from './gatewayManager';
+import { ipfsService } from './ipfsService';
+import { MediaNFT } from '@/types/hedera';
+import { getLanguageLabel } from '@/utils/captions';
+import { parseIPFSUrl } from '@/utils/cid';
+import { NFTMediaType, NFTMetadataFields, readHIP412Metadata } from '@/utils/hip412';
+import { SNIFF_BYTES, sniffMediaTypes } from '@/utils/mediaSniff';
+
+/**
+ * An NFT as the API, the mirror node or `HederaService.getNFTInfo` returns it
+ */
+export interface RawNFT {
+  tokenId: string;
+  serialNumber: number;
+  accountId: string;
+  /**
+   * On-chain metadata: `{ metadataUrl }` from the API, `{ raw }` or the
+   * parsed JSON from `getNFTInfo`, or the decoded string itself
+   */
+  metadata?: unknown;
+  /** The metadata document, when the API already resolved it */
+  metadataContent?: unknown;
+  createdAt: string;
+}
+
+const FETCH_TIMEOUT_MS = 10000;
+const SNIFF_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Content behind a CID never changes
+
+const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.avi', '.mkv'];
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.ogg', '.m4a', '.aac'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// On-chain metadata as a URL to the document, or the document itself when it is inline
+const readOnChainMetadata = (metadata: unknown): { url: string } | { document: unknown } | null => {
+  let text: string;
+  if (typeof metadata === 'string') {
+    text = metadata;
+  } else if (isRecord(metadata)) {
+    if (typeof metadata.metadataUrl === 'string') {
+      text = metadata.metadataUrl;
+    } else if (typeof metadata.raw === 'string') {
+      text = metadata.raw;
+    } else {
+      return { document: metadata };
+    }
+  } else {
+    return null;
+  }
+
+  text = text.trim();
+  if (/^https?:\/\//.test(text) || parseIPFSUrl(text)) {
+    return { url: text };
+  }
+  try {
+    return { document: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+const toIPFSPath = ({ cid, path }: { cid: string; path: string | null }) => (path ? `${cid}/${path}` : cid);
+
+const mediaTypeFromFileName = (...names: Array<string | null>): NFTMediaType | null => {
+  const lowerNames = names.filter(Boolean).map(name => name.toLowerCase());
+  if (lowerNames.some(name => VIDEO_EXTENSIONS.some(ext => name.includes(ext)))) return 'video';
+  if (lowerNames.some(name => AUDIO_EXTENSIONS.some(ext => name.includes(ext)))) return 'audio';
+  return null;
+};
+
+/**
+ * Turns NFTs in any of the shapes the app receives them into `MediaNFT`s for
+ * the galleries, the viewer and the transfer dialog.
+ *
+ * The metadata document is taken from the API when it has it, otherwise read
+ * from the on-chain metadata (an ipfs:// or http(s) URL, or inline JSON) and
+ * parsed as HIP-412, so documents minted before HIP-412 are read too. The
+ * media type comes from the MIME type, then a legacy type field, then the
+ * file extension; when none of those decide it, the first bytes of the
+ * content are fetched and sniffed. Sniffed types are cached per CID.
+ */
+class NFTNormalizer {
+  private sniffing = new Map<string, Promise<NFTMediaType | null>>();
+
+  /**
+   * The NFT as a `MediaNFT`; null when its metadata cannot be read or does
+   * not point at media on IPFS
+   */
+  async normalize(nft: RawNFT): Promise<MediaNFT | null> {
+    try {
+      const content = await this.resolveMetadata(nft);
+      if (content === null) {
+        console.warn(`NFT #${nft.serialNumber} has no metadata content`);
+        return null;
+      }
+
+      const { fields, issues } = readHIP412Metadata(content);
+      if (!fields) {
+        console.warn(`NFT #${nft.serialNumber} has metadata that is not a JSON object`);
+        return null;
+      }
+      if (issues.length > 0) {
+        console.warn(`⚠️ NFT #${nft.serialNumber} metadata is not valid HIP-412:`, issues);
+      }
+
+      // The media is the HIP-412 default file, else `image` - ipfs:// URIs and gateway URLs, validated as a CID
+      const media = fields.mediaUri && parseIPFSUrl(fields.mediaUri);
+      if (!media) {
+        console.warn(`NFT #${nft.serialNumber} has no IPFS media URL in its metadata:`, fields.mediaUri);
+        return null;
+      }
+      // Query strings and fragments from the metadata are dropped; a path inside the CID is kept
+      const ipfsHash = toIPFSPath(media);
+      const thumbnail = fields.thumbnailUri && parseIPFSUrl(fields.thumbnailUri);
+      const hls = fields.hlsUri && parseIPFSUrl(fields.hlsUri);
+      const waveform = fields.waveformUri && parseIPFSUrl(fields.waveformUri);
+      const tiles = fields.tilesUri && parseIPFSUrl(fields.tilesUri);
+      const captions = fields.captions.flatMap(track => {
+        const location = parseIPFSUrl(track.uri);
+        return location
+          ? [{ hash: toIPFSPath(location), language: track.language, label: track.label || getLanguageLabel(track.language) }]
+          : [];
+      });
+
+      return {
+        tokenId: nft.tokenId,
+        serialNumber: nft.serialNumber,
+        accountId: nft.accountId,
+        ipfsHash,
+        ...(thumbnail ? { thumbnailHash: toIPFSPath(thumbnail) } : {}),
+        ...(hls ? { hlsHash: toIPFSPath(hls) } : {}),
+        ...(captions.length > 0 ? { captions } : {}),
+        ...(waveform ? { waveformHash: toIPFSPath(waveform) } : {}),
+        ...(tiles ? { tilesHash: toIPFSPath(tiles) } : {}),
+        transactionId: `${nft.tokenId}@${Date.now()}`, // Placeholder transaction ID
+        createdAt: nft.createdAt,
+        metadata: {
+          title: fields.name || `NFT #${nft.serialNumber}`,
+          description: fields.description,
+          tags: fields.tags,
+          mediaType: await this.detectMediaType(fields, ipfsHash),
+          originalFileName: fields.originalFileName || `nft-${nft.serialNumber}`,
+          fileSize: fields.fileSize || 0,
+          uploadDate: fields.uploadDate || nft.createdAt,
+          creator: fields.creator || nft.accountId
+        },
+        ...(issues.length > 0 ? { metadataIssues: issues } : {})
+      };
+    } catch (error) {
+      console.error(`Error converting NFT #${nft.serialNumber}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Normalize a page of NFTs, dropping the ones that cannot be displayed
+   */
+  async normalizeMany(nfts: RawNFT[]): Promise<MediaNFT[]> {
+    const results = await Promise.all(nfts.map(nft => this.normalize(nft)));
+    return results.filter((media): media is MediaNFT => media !== null);
+  }
+
+  /**
+   * Stand-in for an NFT that `normalize` could not read, for lists that show
+   * every NFT an account owns
+   */
+  placeholder(nft: RawNFT): MediaNFT {
+    return {
+      tokenId: nft.tokenId,
+      serialNumber: nft.serialNumber,
+      accountId: nft.accountId,
+      ipfsHash: '',
+      transactionId: `${nft.tokenId}@${Date.now()}`,
+      createdAt: nft.createdAt,
+      metadata: {
+        title: `NFT #${nft.serialNumber}`,
+        description: '',
+        tags: [],
+        mediaType: 'image',
+        originalFileName: `nft-${nft.serialNumber}`,
+        fileSize: 0,
+        uploadDate: nft.createdAt,
+        creator: nft.accountId
+      }
+    };
+  }
+
+  /**
+   * Media type of the content behind an IPFS hash, from its first bytes.
+   * Null when no gateway serves it or the format is not recognised.
+   */
+  async sniffMediaType(ipfsHash: string): Promise<NFTMediaType | null> {
+    const cacheKey = `media-type-${ipfsHash}`;
+    const cached = cacheService.get<NFTMediaType>(cacheKey);
+    if (cached) return cached;
+
+    let pending = this.sniffing.get(ipfsHash);
+    if (!pending) {
+      pending = this.sniff(ipfsHash)
+        .then(mediaType => {
+          if (mediaType) cacheService.set(cacheKey, mediaType, SNIFF_CACHE_TTL_MS);
+          return mediaType;
+        })
+        .finally(() => this.sniffing.delete(ipfsHash));
+      this.sniffing.set(ipfsHash, pending);
+    }
+    return pending;
+  }
+
+  private async resolveMetadata(nft: RawNFT): Promise<unknown> {
+    if (isRecord(nft.metadataContent)) return nft.metadataContent;
+
+    const onChain = readOnChainMetadata(nft.metadata);
+    if (!onChain) return null;
+    if ('document' in onChain) return onChain.document;
+
+    console.log(`🔄 Fetching metadata content for NFT #${nft.serialNumber} from ${onChain.url}`);
+    try {
+      const ipfs = parseIPFSUrl(onChain.url);
+      if (ipfs) {
+        return await ipfsService.getJSON(toIPFSPath(ipfs));
+      }
+
+      const response = await fetch(onChain.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.warn(`❌ Failed to fetch metadata for NFT #${nft.serialNumber}:`, error);
+      return null;
+    }
+  }
+
+  private async detectMediaType(fields: NFTMetadataFields, ipfsHash: string): Promise<NFTMediaType> {
+    if (fields.mediaType) return fields.mediaType;
+
+    const fromFileName = mediaTypeFromFileName(fields.mediaUri, fields.originalFileName);
+    if (fromFileName) return fromFileName;
+
+    const sniffed = await this.sniffMediaType(ipfsHash);
+    if (sniffed) {
+      console.log(`🔍 ${ipfsHash} sniffed as ${sniffed}`);
+    }
+    return sniffed || 'image';
+  }
+
+  private async sniff(ipfsHash: string): Promise<NFTMediaType | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      // Gateways that ignore the range start streaming the whole file; it is aborted below
+      const response = await gatewayManager.fetch(ipfsHash, {
+        headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` },
+        signal: controller.signal
+      });
+
+      const head = new Uint8Array(SNIFF_BYTES);
+      let length = 0;
+      const reader = response.body?.getReader();
+      while (reader && length < SNIFF_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const bytes = value.subarray(0, SNIFF_BYTES - length);
+        head.set(bytes, length);
+        length += bytes.length;
+      }
+
+      return sniffMediaTypes(head.subarray(0, length))[0] || null;
+    } catch (error) {
+      console.warn(`⚠️ Could not sniff the media type of ${ipfsHash}:`, error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+      controller.abort();
+    }
+  }
+}
+
+export const nftNormalizer = new NFTNormalizer();
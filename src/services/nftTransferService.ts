@@ -0,0 +1,137 @@
+import {
+  AccountId,
+  Client,
+  Hbar,
+  TokenId,
+  TransactionId,
+  TransferTransaction
+} from '@hashgraph/sdk';
+
+export type TransferCheckCode =
+  | 'NOT_OWNER'
+  | 'NFT_NOT_FOUND'
+  | 'RECIPIENT_NOT_FOUND'
+  | 'RECIPIENT_DELETED'
+  | 'RECIPIENT_NOT_ASSOCIATED'
+  | 'SAME_ACCOUNT';
+
+export interface TransferCheckResult {
+  ok: boolean;
+  code?: TransferCheckCode;
+  message?: string;
+  /** Recipient is not associated but has automatic association slots */
+  willAutoAssociate?: boolean;
+}
+
+export interface UserTransferRequest {
+  tokenId: string;
+  serialNumber: number;
+  fromAccountId: string;
+  toAccountId: string;
+}
+
+/**
+ * User-signed NFT transfers.
+ *
+ * Builds a TransferTransaction paid for and signed by the connected account,
+ * so users can move NFTs they actually own. Recipient checks run against the
+ * mirror node before the wallet is asked to sign anything.
+ */
+export class NFTTransferService {
+  private network: string;
+  private mirrorNodeUrl: string;
+
+  constructor() {
+    this.network = import.meta.env.VITE_HEDERA_NETWORK || 'testnet';
+    this.mirrorNodeUrl = this.network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+  }
+
+  /**
+   * Check ownership and recipient readiness before asking the wallet to sign
+   */
+  async checkTransfer(request: UserTransferRequest): Promise<TransferCheckResult> {
+    const { tokenId, serialNumber, fromAccountId, toAccountId } = request;
+
+    if (fromAccountId === toAccountId) {
+      return { ok: false, code: 'SAME_ACCOUNT', message: 'You cannot transfer an NFT to yourself' };
+    }
+
+    // The mirror node is the source of truth for the current owner
+    const nftResponse = await fetch(`${this.mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts/${serialNumber}`);
+    if (nftResponse.status === 404) {
+      return { ok: false, code: 'NFT_NOT_FOUND', message: `NFT #${serialNumber} was not found` };
+    }
+    if (!nftResponse.ok) {
+      throw new Error(`Mirror node error: ${nftResponse.status} ${nftResponse.statusText}`);
+    }
+
+    const nft = await nftResponse.json();
+    if (nft.deleted || nft.account_id !== fromAccountId) {
+      return {
+        ok: false,
+        code: 'NOT_OWNER',
+        message: `NFT #${serialNumber} is owned by ${nft.account_id || 'nobody'}, not the connected wallet`
+      };
+    }
+
+    const accountResponse = await fetch(`${this.mirrorNodeUrl}/api/v1/accounts/${toAccountId}`);
+    if (accountResponse.status === 404) {
+      return { ok: false, code: 'RECIPIENT_NOT_FOUND', message: `Account ${toAccountId} does not exist` };
+    }
+    if (!accountResponse.ok) {
+      throw new Error(`Mirror node error: ${accountResponse.status} ${accountResponse.statusText}`);
+    }
+
+    const account = await accountResponse.json();
+    if (account.deleted) {
+      return { ok: false, code: 'RECIPIENT_DELETED', message: `Account ${toAccountId} has been deleted` };
+    }
+
+    const tokensResponse = await fetch(
+      `${this.mirrorNodeUrl}/api/v1/accounts/${toAccountId}/tokens?token.id=${tokenId}`
+    );
+    if (!tokensResponse.ok) {
+      throw new Error(`Mirror node error: ${tokensResponse.status} ${tokensResponse.statusText}`);
+    }
+
+    const { tokens = [] } = await tokensResponse.json();
+    if (tokens.some((token: { token_id: string }) => token.token_id === tokenId)) {
+      return { ok: true };
+    }
+
+    // -1 means unlimited automatic associations (HIP-904)
+    const maxAutoAssociations = account.max_automatic_token_associations ?? 0;
+    if (maxAutoAssociations !== 0) {
+      return { ok: true, willAutoAssociate: true };
+    }
+
+    return {
+      ok: false,
+      code: 'RECIPIENT_NOT_ASSOCIATED',
+      message: `Account ${toAccountId} is not associated with token ${tokenId}. Ask the recipient to associate it first.`
+    };
+  }
+
+  /**
+   * Build the transfer, paid by and sent from the owner's wallet
+   */
+  buildTransferTransaction(request: UserTransferRequest): TransferTransaction {
+    const fromAccountId = AccountId.fromString(request.fromAccountId);
+    const client = this.network === 'mainnet' ? Client.forMainnet() : Client.forTestnet();
+
+    return new TransferTransaction()
+      .addNftTransfer(
+        TokenId.fromString(request.tokenId),
+        request.serialNumber,
+        fromAccountId,
+        AccountId.fromString(request.toAccountId)
+      )
+      .setTransactionId(TransactionId.generate(fromAccountId))
+      .setMaxTransactionFee(new Hbar(2))
+      .freezeWith(client);
+  }
+}
+
+export const nftTransferService = new NFTTransferService();
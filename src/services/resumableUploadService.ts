@@ -0,0 +1,167 @@
+import { backendService, UploadMediaResponse, UploadSession } from './backendService';
+import type { MetadataDraft } from '@/utils/hip412';
+
+export type UploadedMedia = NonNullable<UploadMediaResponse['data']>;
+
+export interface UploadProgressEvent {
+  bytesUploaded: number;
+  totalBytes: number;
+}
+
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_ATTEMPTS = 5; // Consecutive failed chunks before giving up
+const STORAGE_KEY = 'hgallery-uploads';
+
+/**
+ * Chunked uploads through the Express API's resumable upload sessions.
+ *
+ * A failed chunk is retried from the offset the server actually received, and
+ * the session ID is kept in localStorage under a fingerprint of the file, so
+ * selecting the same file again after a reload continues where it stopped.
+ */
+export class ResumableUploadService {
+  isSupported(): boolean {
+    return backendService.supportsResumableUploads();
+  }
+
+  /**
+   * Upload a file (and its metadata) in chunks. `onProgress` is called with
+   * the bytes the server has confirmed plus the bytes of the chunk in flight.
+   */
+  async upload(
+    file: File,
+    owner: string,
+    metadata?: MetadataDraft,
+    onProgress?: (event: UploadProgressEvent) => void
+  ): Promise<UploadedMedia> {
+    const fingerprint = this.getFingerprint(file, owner);
+    let session = await this.resume(fingerprint, metadata);
+
+    if (session) {
+      console.log(`🔁 Resuming upload of ${file.name} at ${session.offset} of ${session.size} bytes`);
+    } else {
+      const created = await backendService.createUploadSession(file, metadata);
+      if (!created.success || !created.data) {
+        throw new Error(created.error || `Failed to start uploading ${file.name}`);
+      }
+      session = created.data;
+      this.remember(fingerprint, session.id);
+    }
+
+    let attempts = 0;
+    while (session.status === 'uploading' || session.status === 'processing') {
+      // Another request (e.g. from before a reload) is still storing the file
+      if (session.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const current = await backendService.getUploadSession(session.id);
+        if (!current.success || !current.data) {
+          throw new Error(current.error || `Failed to upload ${file.name}`);
+        }
+        session = current.data;
+        continue;
+      }
+
+      const offset = session.offset;
+      onProgress?.({ bytesUploaded: offset, totalBytes: session.size });
+
+      let result: UploadSession | null = null;
+      let error: string | undefined;
+      try {
+        // At the full size an empty chunk asks the server to retry storing the file
+        const response = await backendService.uploadChunk(
+          session.id,
+          offset,
+          file.slice(offset, offset + CHUNK_SIZE),
+          (loaded) => onProgress?.({ bytesUploaded: Math.min(offset + loaded, file.size), totalBytes: file.size })
+        );
+        result = response.data || null;
+        error = response.error;
+      } catch (chunkError) {
+        error = chunkError instanceof Error ? chunkError.message : 'Network error';
+      }
+
+      if (result) {
+        session = result;
+        attempts = 0;
+        continue;
+      }
+
+      // Re-read the offset the server has before retrying; part of the chunk may have landed
+      attempts++;
+      console.warn(`⚠️ Chunk at ${offset} of ${file.name} failed (attempt ${attempts}):`, error);
+
+      const current = await backendService.getUploadSession(session.id).catch(() => null);
+      if (current && !current.success && current.error === 'Upload not found') {
+        this.forget(fingerprint);
+        throw new Error(`Upload of ${file.name} expired, please try again`);
+      }
+      if (current?.data) {
+        session = current.data;
+        if (session.offset > offset) attempts = 0;
+      }
+
+      if (session.status === 'uploading' && attempts >= MAX_ATTEMPTS) {
+        throw new Error(error || `Failed to upload ${file.name}`);
+      }
+      if (session.status === 'uploading') {
+        await new Promise(resolve => setTimeout(resolve, Math.min(1000 * 2 ** attempts, 15000)));
+      }
+    }
+
+    this.forget(fingerprint);
+
+    if (session.status !== 'completed' || !session.result) {
+      throw new Error(session.error || `Failed to upload ${file.name}`);
+    }
+
+    onProgress?.({ bytesUploaded: session.size, totalBytes: session.size });
+    return session.result;
+  }
+
+  /**
+   * Saved session for the file, with its metadata replaced by the current
+   * form's. Sessions that already stored the file (with the old metadata) or
+   * failed are dropped and the upload starts over.
+   */
+  private async resume(fingerprint: string, metadata?: MetadataDraft): Promise<UploadSession | null> {
+    const sessionId = this.load()[fingerprint];
+    if (!sessionId) return null;
+
+    try {
+      const response = await backendService.updateUploadSessionMetadata(sessionId, metadata);
+      if (response.success && response.data) {
+        return response.data;
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not resume saved upload, starting over:', error);
+    }
+
+    this.forget(fingerprint);
+    return null;
+  }
+
+  // Same file, same account: name, size, type and modification time
+  private getFingerprint(file: File, owner: string): string {
+    return [owner, file.name, file.size, file.type, file.lastModified].join(':');
+  }
+
+  private load(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private remember(fingerprint: string, sessionId: string): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...this.load(), [fingerprint]: sessionId }));
+  }
+
+  private forget(fingerprint: string): void {
+    const saved = this.load();
+    delete saved[fingerprint];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  }
+}
+
+export const resumableUploadService = new ResumableUploadService();
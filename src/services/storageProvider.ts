@@ -0,0 +1,223 @@
+import type { IPFSHTTPClient } from 'ipfs-http-client';
+import { backendService } from './backendService';
+import type { HIP412Metadata } from '@/utils/hip412';
+
+export type StorageProviderName = 'server' | 'kubo' | 'memory';
+
+export interface StoredObject {
+  cid: string;
+  size: number;
+}
+
+export interface PinnedObject {
+  cid: string;
+  size?: number;
+  name?: string;
+  pinnedAt?: string;
+}
+
+/**
+ * Where uploaded media and metadata are stored. IPFSService delegates to one
+ * provider; reads still go through public gateways unless the provider can
+ * serve content itself (`fetch` / `getUrl`).
+ */
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  /** Gateway the provider's content is read from first */
+  readonly gatewayUrl: string;
+  uploadFile(file: File): Promise<StoredObject>;
+  uploadJSON(data: unknown): Promise<StoredObject>;
+  pin(cid: string): Promise<void>;
+  unpin(cid: string): Promise<void>;
+  listPins(): Promise<PinnedObject[]>;
+  /** Serve content without a gateway (in-memory provider); null when not held locally */
+  fetch?(cid: string): Promise<Response | null>;
+  /** Direct URL for content held by the provider; null when not held locally */
+  getUrl?(cid: string): string | null;
+}
+
+/**
+ * Uploads through the backend's upload proxy (/api/uploads or the hedera-upload
+ * edge function), which holds the Pinata credentials. Pins are managed
+ * server-side, so they cannot be changed from the browser.
+ */
+export class ServerUploadStorageProvider implements StorageProvider {
+  readonly name = 'server';
+  readonly gatewayUrl: string;
+
+  constructor(gatewayUrl?: string) {
+    this.gatewayUrl = gatewayUrl || 'https://gateway.pinata.cloud';
+  }
+
+  async uploadFile(file: File): Promise<StoredObject> {
+    const result = await backendService.uploadMedia(file);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Upload failed');
+    }
+    return { cid: result.data.file.cid, size: result.data.file.size };
+  }
+
+  // The upload server only stores HIP-412 metadata documents
+  async uploadJSON(data: unknown): Promise<StoredObject> {
+    const result = await backendService.uploadMetadata(data as HIP412Metadata);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Upload failed');
+    }
+    return { cid: result.data.cid, size: result.data.size };
+  }
+
+  async pin(): Promise<void> {
+    throw new Error('Pins are managed by the upload server');
+  }
+
+  async unpin(): Promise<void> {
+    throw new Error('Pins are managed by the upload server');
+  }
+
+  async listPins(): Promise<PinnedObject[]> {
+    throw new Error('Pins are managed by the upload server');
+  }
+}
+
+/**
+ * Local Kubo (go-ipfs) node through its HTTP RPC API, e.g. `ipfs daemon` with
+ * the API on :5001 and the gateway on :8080. The client is loaded on first use
+ * so it stays out of the main bundle.
+ */
+export class KuboStorageProvider implements StorageProvider {
+  readonly name = 'kubo';
+  readonly gatewayUrl: string;
+  private ipfs: Promise<IPFSHTTPClient> | null = null;
+
+  constructor(private apiUrl: string, gatewayUrl: string) {
+    this.gatewayUrl = gatewayUrl;
+  }
+
+  async uploadFile(file: File): Promise<StoredObject> {
+    const ipfs = await this.client();
+    const result = await ipfs.add(file, { cidVersion: 1, pin: true });
+    return { cid: result.cid.toString(), size: file.size };
+  }
+
+  async uploadJSON(data: unknown): Promise<StoredObject> {
+    const ipfs = await this.client();
+    const json = JSON.stringify(data);
+    const result = await ipfs.add(json, { cidVersion: 1, pin: true });
+    return { cid: result.cid.toString(), size: json.length };
+  }
+
+  async pin(cid: string): Promise<void> {
+    const ipfs = await this.client();
+    const { CID } = await import('ipfs-http-client');
+    await ipfs.pin.add(CID.parse(cid));
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const ipfs = await this.client();
+    const { CID } = await import('ipfs-http-client');
+    await ipfs.pin.rm(CID.parse(cid));
+  }
+
+  async listPins(): Promise<PinnedObject[]> {
+    const ipfs = await this.client();
+    const pins: PinnedObject[] = [];
+    for await (const pin of ipfs.pin.ls({ type: 'recursive' })) {
+      pins.push({ cid: pin.cid.toString() });
+    }
+    return pins;
+  }
+
+  private client(): Promise<IPFSHTTPClient> {
+    if (!this.ipfs) {
+      this.ipfs = import('ipfs-http-client').then(({ create }) => create({ url: this.apiUrl }));
+    }
+    return this.ipfs;
+  }
+}
+
+/**
+ * In-memory stand-in for development and tests. Content lives for the page's
+ * lifetime and is served through blob URLs; identifiers are SHA-256 based
+ * (`local-<hex>`), not real IPFS CIDs.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  readonly name = 'memory';
+  readonly gatewayUrl = '';
+  private objects = new Map<string, { blob: Blob; url: string | null }>();
+  private pins = new Set<string>();
+
+  async uploadFile(file: File): Promise<StoredObject> {
+    return this.store(file);
+  }
+
+  async uploadJSON(data: unknown): Promise<StoredObject> {
+    return this.store(new Blob([JSON.stringify(data)], { type: 'application/json' }));
+  }
+
+  async pin(cid: string): Promise<void> {
+    if (!this.objects.has(cid)) {
+      throw new Error(`Content ${cid} is not held by the in-memory storage provider`);
+    }
+    this.pins.add(cid);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    this.pins.delete(cid);
+  }
+
+  async listPins(): Promise<PinnedObject[]> {
+    return Array.from(this.pins).map(cid => ({ cid, size: this.objects.get(cid)?.blob.size }));
+  }
+
+  async fetch(cid: string): Promise<Response | null> {
+    const object = this.objects.get(cid);
+    return object ? new Response(object.blob) : null;
+  }
+
+  getUrl(cid: string): string | null {
+    const object = this.objects.get(cid);
+    if (!object) return null;
+
+    // Object URLs are only available in the browser
+    if (!object.url && typeof URL.createObjectURL === 'function') {
+      object.url = URL.createObjectURL(object.blob);
+    }
+    return object.url;
+  }
+
+  private async store(blob: Blob): Promise<StoredObject> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    const cid = `local-${hex}`;
+
+    if (!this.objects.has(cid)) {
+      this.objects.set(cid, { blob, url: null });
+    }
+    this.pins.add(cid);
+    return { cid, size: blob.size };
+  }
+}
+
+/**
+ * Pick the provider from VITE_STORAGE_PROVIDER (server | kubo | memory).
+ * Defaults to the backend upload proxy; storage credentials are never part of
+ * the client build.
+ */
+export const createStorageProvider = (): StorageProvider => {
+  const provider = (import.meta.env.VITE_STORAGE_PROVIDER as StorageProviderName | undefined) || 'server';
+
+  switch (provider) {
+    case 'server':
+      return new ServerUploadStorageProvider(import.meta.env.VITE_PINATA_GATEWAY_URL);
+    case 'kubo':
+      return new KuboStorageProvider(
+        import.meta.env.VITE_KUBO_API_URL || 'http://127.0.0.1:5001',
+        import.meta.env.VITE_KUBO_GATEWAY_URL || 'http://127.0.0.1:8080'
+      );
+    case 'memory':
+      return new MemoryStorageProvider();
+    default:
+      console.warn(`⚠️ Unknown VITE_STORAGE_PROVIDER "${provider}" - using the upload server`);
+      return new ServerUploadStorageProvider(import.meta.env.VITE_PINATA_GATEWAY_URL);
+  }
+};
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { BatchMintNFTResponse } from './backendService';
 
 // Database types
 export interface NFTRecord {
@@ -187,7 +188,7 @@ class SupabaseService {
   }
 
   // Edge Function calls
-  async callEdgeFunction(functionName: string, payload: any): Promise<any> {
+  async callEdgeFunction(functionName: string, payload: any, headers?: Record<string, string>): Promise<any> {
     if (!this.isAvailable()) return null;
 
     try {
@@ -195,6 +196,7 @@ class SupabaseService {
 
       const { data, error } = await this.supabase!.functions.invoke(functionName, {
         body: payload,
+        headers,
       });
 
       console.log(`📋 Edge function ${functionName} response:`, { data, error });
@@ -211,11 +213,19 @@ class SupabaseService {
   }
 
   // Mint NFT via Edge Function
-  async mintNFT(metadataUrl: string, userAccountId?: string): Promise<any> {
+  async mintNFT(metadataUrl: string, userAccountId?: string, headers?: Record<string, string>): Promise<any> {
     return this.callEdgeFunction('hedera-nft-mint', {
       metadataUrl,
       userAccountId,
-    });
+    }, headers);
+  }
+
+  // Batch mint NFTs via Edge Function
+  async mintNFTBatch(metadataUrls: string[], userAccountId?: string, headers?: Record<string, string>): Promise<BatchMintNFTResponse> {
+    return this.callEdgeFunction('hedera-nft-mint', {
+      metadataUrls,
+      userAccountId,
+    }, headers);
   }
 
   // Get token info via Edge Function
@@ -5,14 +5,42 @@ export interface WalletConnection {
   network: string;
 }
 
+// Wallet-signature (Sign-In-With-Hedera) session issued by the backend
+export interface AuthSession {
+  token: string;
+  accountId: string;
+  expiresAt: string;
+}
+
 export interface MediaNFT {
   tokenId: string;
   serialNumber: number;
   accountId: string;
   metadata: MediaMetadata;
   ipfsHash: string;
+  /** Small preview image for grids (HIP-412 thumbnail or `image`); the media itself is `ipfsHash` */
+  thumbnailHash?: string;
+  /** HLS master playlist of a video (`cid/master.m3u8`), when one was transcoded */
+  hlsHash?: string;
+  /** WebVTT caption tracks of a video */
+  captions?: MediaCaptionTrack[];
+  /** Waveform peaks of an audio file (JSON, see `Waveform` in src/utils/hip412.ts) */
+  waveformHash?: string;
+  /** Deep-zoom tile pyramid of a very large image (`cid/pyramid.json`, see `TilePyramid` in src/utils/hip412.ts) */
+  tilesHash?: string;
   transactionId: string;
   createdAt: string;
+  /** Where the NFT's metadata document does not follow HIP-412 */
+  metadataIssues?: string[];
+}
+
+export interface MediaCaptionTrack {
+  /** IPFS hash of the WebVTT file */
+  hash: string;
+  /** BCP 47 language tag */
+  language: string;
+  /** Name in the captions menu */
+  label: string;
 }
 
 export interface MediaMetadata {
@@ -34,14 +62,18 @@ export interface SearchFilters {
     start: string;
     end: string;
   };
-  sortBy?: 'newest' | 'oldest' | 'title';
+  sortBy?: 'relevance' | 'newest' | 'oldest' | 'title';
 }
 
 export interface UploadProgress {
   file: File;
   progress: number;
-  status: 'uploading' | 'minting' | 'completed' | 'error';
+  // 'processing' while the server transcodes an uploaded video to HLS
+  status: 'uploading' | 'processing' | 'minting' | 'completed' | 'error';
   error?: string;
+  // Bytes sent to the upload server while status is 'uploading'
+  bytesUploaded?: number;
+  totalBytes?: number;
 }
 
 // Collection and NFT management types
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { guessCaptionLanguage, isWebVTT, srtToVtt, toWebVTT } from './captions';
+
+const SRT = [
+  '\uFEFF1',
+  '00:00:01,000 --> 00:00:04,500',
+  'Hello there.',
+  '',
+  '2',
+  '0:00:05,250 --> 0:00:07,000 X1:100 X2:200 Y1:10 Y2:20',
+  'Second line',
+  'continues here.',
+  ''
+].join('\r\n');
+
+describe('srtToVtt', () => {
+  it('adds the header, converts timings and keeps cue numbers', () => {
+    expect(srtToVtt(SRT)).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:04.500',
+      'Hello there.',
+      '',
+      '2',
+      '00:00:05.250 --> 00:00:07.000',
+      'Second line',
+      'continues here.',
+      ''
+    ].join('\n'));
+  });
+
+  it('leaves commas in the cue text alone', () => {
+    expect(srtToVtt('1\n00:00:01,000 --> 00:00:02,000\nWell, yes.')).toContain('\nWell, yes.\n');
+  });
+});
+
+describe('toWebVTT', () => {
+  it('keeps WebVTT as it is, without a BOM', () => {
+    const vtt = '\uFEFFWEBVTT\n\n00:01.000 --> 00:02.000\nHi\n';
+    expect(isWebVTT(vtt)).toBe(true);
+    expect(toWebVTT(vtt, 'a.vtt')).toBe(vtt.slice(1));
+  });
+
+  it('converts SRT', () => {
+    expect(toWebVTT(SRT, 'a.srt')).toBe(srtToVtt(SRT));
+  });
+
+  it('rejects files without cues or in other formats', () => {
+    expect(() => toWebVTT('WEBVTT\n\nNOTE nothing here\n', 'empty.vtt')).toThrow('empty.vtt has no captions');
+    expect(() => toWebVTT('WEBVTTX\n', 'a.vtt')).toThrow('is not a WebVTT or SRT caption file');
+    expect(() => toWebVTT('just some text', 'notes.txt')).toThrow('is not a WebVTT or SRT caption file');
+  });
+});
+
+describe('guessCaptionLanguage', () => {
+  it('reads the language tag before the extension', () => {
+    expect(guessCaptionLanguage('movie.en.srt')).toBe('en');
+    expect(guessCaptionLanguage('pt_BR.vtt')).toBe('pt-br');
+    expect(guessCaptionLanguage('movie.srt')).toBeNull();
+  });
+});
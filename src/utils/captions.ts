@@ -0,0 +1,78 @@
+import { CAPTIONS_MIME_TYPE } from './hip412';
+
+/**
+ * Caption files for video NFTs. Uploads accept WebVTT and SRT; SRT is
+ * converted here so every pinned track is WebVTT, the only format `<track>`
+ * elements play.
+ */
+
+/** File types the caption picker offers */
+export const CAPTION_FILE_TYPES = ['.vtt', '.srt', CAPTIONS_MIME_TYPE, 'application/x-subrip'];
+
+// "WEBVTT" on the first line, after an optional BOM, then a space, tab or line break
+const WEBVTT_SIGNATURE = /^\uFEFF?WEBVTT(?:[ \t\r\n]|$)/;
+
+const TIMING_LINE = /^\s*(\d+):(\d{2}):(\d{2})[,.](\d{3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{3})/;
+
+/**
+ * Whether text starts with the WebVTT signature (the first bytes are enough)
+ */
+export const isWebVTT = (text: string): boolean => WEBVTT_SIGNATURE.test(text);
+
+const formatTimestamp = (hours: string, minutes: string, seconds: string, millis: string) =>
+  `${hours.padStart(2, '0')}:${minutes}:${seconds}.${millis}`;
+
+/**
+ * Convert SubRip (SRT) captions to WebVTT: adds the header, uses `.` before
+ * the milliseconds and drops SRT display coordinates after the timings.
+ * Cue numbers are kept as WebVTT cue identifiers.
+ */
+export const srtToVtt = (srt: string): string => {
+  const lines = srt.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim().split('\n');
+
+  const cues = lines.map(line => {
+    const timing = TIMING_LINE.exec(line);
+    if (!timing) return line;
+    const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = timing;
+    return `${formatTimestamp(h1, m1, s1, ms1)} --> ${formatTimestamp(h2, m2, s2, ms2)}`;
+  });
+
+  return `WEBVTT\n\n${cues.join('\n')}\n`;
+};
+
+/**
+ * The WebVTT text of a caption file: WebVTT as it is, SRT converted. Throws
+ * when the file is neither or has no cues.
+ */
+export const toWebVTT = (text: string, fileName: string): string => {
+  if (isWebVTT(text)) {
+    // WebVTT timings may leave out the hours, so any cue timing line will do
+    if (!text.includes('-->')) throw new Error(`${fileName} has no captions`);
+    return text.replace(/^\uFEFF/, '');
+  }
+  if (!text.split(/\r\n?|\n/).some(line => TIMING_LINE.test(line))) {
+    throw new Error(`${fileName} is not a WebVTT or SRT caption file`);
+  }
+  return srtToVtt(text);
+};
+
+/**
+ * Language tag from a file name such as `movie.en.srt` or `pt-BR.vtt`;
+ * null when the name does not carry one
+ */
+export const guessCaptionLanguage = (fileName: string): string | null => {
+  const parts = fileName.toLowerCase().split('.').slice(0, -1);
+  const candidate = parts[parts.length - 1];
+  return candidate && /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})?$/.test(candidate) ? candidate.replace('_', '-') : null;
+};
+
+/**
+ * Name of a language to show in menus ("English" for `en`), falling back to the tag
+ */
+export const getLanguageLabel = (language: string): string => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+};
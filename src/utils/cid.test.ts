@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { computeCID, parseIPFSUrl } from './cid';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function* streamOf(bytes: Uint8Array, pieceSize: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += pieceSize) {
+    yield bytes.slice(offset, offset + pieceSize);
+  }
+}
+
+// Deterministic content that spans several 256KiB chunks
+const largeContent = (length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff;
+  return bytes;
+};
+
+describe('computeCID', () => {
+  // Expected values are what `ipfs add` prints (`--cid-version=1` for v1)
+  it('matches ipfs add for a single-chunk file', async () => {
+    expect(await computeCID(new Blob([encode('hello world')]))).toBe(
+      'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'
+    );
+    expect(await computeCID(new Blob([encode('hello world\n')]), 0)).toBe(
+      'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o'
+    );
+  });
+
+  it('matches ipfs add for an empty file', async () => {
+    expect(await computeCID(new Blob([]), 0)).toBe('QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH');
+    expect(await computeCID(new Blob([]))).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+  });
+
+  it('gives a stream the same CID as a blob, whatever the piece size', async () => {
+    const content = largeContent(262144 * 2 + 1000);
+
+    for (const version of [0, 1] as const) {
+      const fromBlob = await computeCID(new Blob([content]), version);
+      expect(await computeCID(streamOf(content, 65536), version)).toBe(fromBlob);
+      expect(await computeCID(streamOf(content, 300000), version)).toBe(fromBlob);
+    }
+  });
+
+  it('builds a DAG node above multi-chunk content', async () => {
+    const content = largeContent(262144 + 1);
+    expect(await computeCID(new Blob([content]))).toMatch(/^bafybei/);
+    expect(await computeCID(new Blob([content]), 0)).toMatch(/^Qm/);
+  });
+});
+
+describe('parseIPFSUrl', () => {
+  const cid = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+  it('reads ipfs:// URIs, gateway URLs and bare CIDs', () => {
+    expect(parseIPFSUrl(`ipfs://${cid}`)).toEqual({ cid, path: '' });
+    expect(parseIPFSUrl(`ipfs://ipfs/${cid}`)).toEqual({ cid, path: '' });
+    expect(parseIPFSUrl(`https://gateway.pinata.cloud/ipfs/${cid}`)).toEqual({ cid, path: '' });
+    expect(parseIPFSUrl(cid)).toEqual({ cid, path: '' });
+  });
+
+  it('keeps a path inside the CID and drops query strings and fragments', () => {
+    expect(parseIPFSUrl(`https://ipfs.io/ipfs/${cid}/media/video.mp4?filename=a#t=1`)).toEqual({
+      cid,
+      path: 'media/video.mp4'
+    });
+  });
+
+  it('returns null without a valid CID', () => {
+    expect(parseIPFSUrl('ipfs://not-a-cid')).toBeNull();
+    expect(parseIPFSUrl('https://example.com/image.png')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import * as raw from 'multiformats/codecs/raw';
+import * as dagPb from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
+
+// Defaults of `ipfs add` / Pinata: fixed-size chunks in a balanced DAG
+const CHUNK_SIZE = 262144;
+const MAX_CHILDREN_PER_NODE = 174;
+
+export type CIDVersion = 0 | 1;
+
+export interface ParsedIPFSUrl {
+  cid: string;
+  /** Path inside the CID (a file in a wrapped directory), without a leading slash */
+  path: string;
+}
+
+interface DagNode {
+  cid: CID;
+  /** Tsize: bytes of this block plus every block below it */
+  dagSize: number;
+  /** Bytes of file content under this node */
+  fileSize: number;
+}
+
+async function* toChunks(source: Blob | AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if (source instanceof Blob) {
+    for (let offset = 0; offset < source.size; offset += CHUNK_SIZE) {
+      yield new Uint8Array(await source.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    }
+    return;
+  }
+
+  // Re-chunk a stream so chunk boundaries match the importer's
+  let buffer = new Uint8Array(0);
+  for await (const piece of source) {
+    const joined = new Uint8Array(buffer.length + piece.length);
+    joined.set(buffer);
+    joined.set(piece, buffer.length);
+    buffer = joined;
+
+    while (buffer.length >= CHUNK_SIZE) {
+      yield buffer.slice(0, CHUNK_SIZE);
+      buffer = buffer.slice(CHUNK_SIZE);
+    }
+  }
+  if (buffer.length > 0) {
+    yield buffer;
+  }
+}
+
+const buildLeaf = async (chunk: Uint8Array, version: CIDVersion): Promise<DagNode> => {
+  // CIDv1 imports use raw leaves; CIDv0 wraps every chunk in a UnixFS node
+  if (version === 1) {
+    return { cid: CID.create(1, raw.code, await sha256.digest(chunk)), dagSize: chunk.length, fileSize: chunk.length };
+  }
+
+  const block = dagPb.encode({ Data: new UnixFS({ type: 'file', data: chunk }).marshal(), Links: [] });
+  return { cid: CID.createV0(await sha256.digest(block)), dagSize: block.length, fileSize: chunk.length };
+};
+
+const buildParent = async (children: DagNode[], version: CIDVersion): Promise<DagNode> => {
+  const unixfs = new UnixFS({ type: 'file', blockSizes: children.map(child => child.fileSize) });
+  const block = dagPb.encode(dagPb.prepare({
+    Data: unixfs.marshal(),
+    Links: children.map(child => ({ Name: '', Tsize: child.dagSize, Hash: child.cid }))
+  }));
+  const digest = await sha256.digest(block);
+
+  return {
+    cid: version === 0 ? CID.createV0(digest) : CID.create(1, dagPb.code, digest),
+    dagSize: children.reduce((sum, child) => sum + child.dagSize, block.length),
+    fileSize: children.reduce((sum, child) => sum + child.fileSize, 0)
+  };
+};
+
+/**
+ * Compute the CID `ipfs add` would give this content, without uploading it.
+ * Uses the default importer settings (256KiB chunks, balanced layout, raw
+ * leaves for CIDv1), which is what Pinata and Kubo use for our uploads.
+ * Content added with other settings hashes to a different CID.
+ */
+export const computeCID = async (
+  source: Blob | AsyncIterable<Uint8Array>,
+  version: CIDVersion = 1
+): Promise<string> => {
+  let level: DagNode[] = [];
+  for await (const chunk of toChunks(source)) {
+    level.push(await buildLeaf(chunk, version));
+  }
+
+  if (level.length === 0) {
+    level.push(await buildLeaf(new Uint8Array(0), version));
+  }
+
+  while (level.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < level.length; i += MAX_CHILDREN_PER_NODE) {
+      parents.push(await buildParent(level.slice(i, i + MAX_CHILDREN_PER_NODE), version));
+    }
+    level = parents;
+  }
+
+  return level[0].cid.toString();
+};
+
+/**
+ * Parse a CID string; null when it is not a valid CID
+ */
+export const parseCID = (value: string): CID | null => {
+  try {
+    return CID.parse(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the CID addresses a single raw block, i.e. its hash is the hash of
+ * the content itself no matter how the content was imported
+ */
+export const isRawCID = (cid: CID): boolean => cid.code === raw.code;
+
+/**
+ * Extract the CID (and any path below it) from an `ipfs://` URI, a gateway
+ * URL (`https://<gateway>/ipfs/<cid>`) or a bare CID. Query strings and
+ * fragments are dropped. Returns null when no valid CID is found.
+ */
+export const parseIPFSUrl = (url: string): ParsedIPFSUrl | null => {
+  let rest: string;
+  if (url.startsWith('ipfs://')) {
+    rest = url.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  } else if (url.includes('/ipfs/')) {
+    rest = url.slice(url.indexOf('/ipfs/') + '/ipfs/'.length);
+  } else {
+    rest = url;
+  }
+
+  const [target] = rest.split(/[?#]/);
+  const [cidPart, ...pathParts] = target.split('/');
+  const cid = parseCID(cidPart);
+  if (!cid) return null;
+
+  return { cid: cid.toString(), path: pathParts.filter(Boolean).join('/') };
+};
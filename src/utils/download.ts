@@ -0,0 +1,13 @@
+/**
+ * Download a file from a URL (an NFT's media on a gateway) under its
+ * original name. Cross-origin URLs ignore the name and open in a new tab.
+ */
+export const downloadFile = (url: string, fileName: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.target = '_blank';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildHIP412Metadata,
+  CAPTIONS_MIME_TYPE,
+  HIP412_FORMAT,
+  HLS_MIME_TYPE,
+  readHIP412Metadata,
+  StoredMediaFile,
+  validateHIP412Metadata
+} from './hip412';
+
+const MEDIA_URI = 'ipfs://bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const THUMBNAIL_URI = 'ipfs://bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const UPLOAD_DATE = '2024-01-01T00:00:00.000Z';
+
+const video: StoredMediaFile = { uri: MEDIA_URI, mimeType: 'video/mp4', fileName: 'clip.mp4', size: 1024 };
+const image: StoredMediaFile = { uri: MEDIA_URI, mimeType: 'image/png', fileName: 'art.png', size: 2048 };
+
+describe('buildHIP412Metadata', () => {
+  it('uses an image itself as `image` when there is no thumbnail', () => {
+    const metadata = buildHIP412Metadata({ name: 'Art', tags: ['sunset'] }, image, UPLOAD_DATE);
+
+    expect(metadata).toEqual({
+      name: 'Art',
+      description: '',
+      image: MEDIA_URI,
+      type: 'image/png',
+      format: HIP412_FORMAT,
+      attributes: [{ trait_type: 'Tag', value: 'sunset' }],
+      properties: { originalFileName: 'art.png', fileSize: 2048, uploadDate: UPLOAD_DATE }
+    });
+    expect(validateHIP412Metadata(metadata).success).toBe(true);
+  });
+
+  it('lists the media, renditions and thumbnail in files', () => {
+    const metadata = buildHIP412Metadata(
+      {
+        name: 'Clip',
+        creator: 'Ana',
+        thumbnail: { uri: THUMBNAIL_URI, type: 'image/webp', width: 320, height: 180 },
+        captions: [{ uri: `${THUMBNAIL_URI}/en.vtt`, language: 'en', label: 'English' }]
+      },
+      { ...video, hls: { uri: `${MEDIA_URI}/master.m3u8`, variants: [] } },
+      UPLOAD_DATE
+    );
+
+    expect(metadata.image).toBe(THUMBNAIL_URI);
+    expect(metadata.type).toBe('image/webp');
+    expect(metadata.creator).toBe('Ana');
+    expect(metadata.files?.map(file => file.type)).toEqual(['video/mp4', HLS_MIME_TYPE, CAPTIONS_MIME_TYPE, 'image/webp']);
+    expect(metadata.files?.[0].is_default_file).toBe(true);
+    expect(validateHIP412Metadata(metadata).success).toBe(true);
+  });
+
+  it('reads back what it builds', () => {
+    const metadata = buildHIP412Metadata(
+      {
+        name: 'Clip',
+        description: 'A clip',
+        tags: ['a', 'b'],
+        thumbnail: { uri: THUMBNAIL_URI, type: 'image/webp' },
+        captions: [{ uri: `${THUMBNAIL_URI}/pt-BR.vtt`, language: 'pt-BR' }]
+      },
+      { ...video, hls: { uri: `${MEDIA_URI}/master.m3u8`, variants: [] } },
+      UPLOAD_DATE
+    );
+
+    const { fields, issues } = readHIP412Metadata(metadata);
+    expect(issues).toEqual([]);
+    expect(fields).toMatchObject({
+      name: 'Clip',
+      description: 'A clip',
+      tags: ['a', 'b'],
+      mediaUri: MEDIA_URI,
+      mimeType: 'video/mp4',
+      mediaType: 'video',
+      imageUri: THUMBNAIL_URI,
+      thumbnailUri: THUMBNAIL_URI,
+      hlsUri: `${MEDIA_URI}/master.m3u8`,
+      captions: [{ uri: `${THUMBNAIL_URI}/pt-BR.vtt`, language: 'pt-BR' }],
+      originalFileName: 'clip.mp4',
+      fileSize: 1024,
+      uploadDate: UPLOAD_DATE
+    });
+  });
+});
+
+describe('readHIP412Metadata', () => {
+  it('rejects values that are not JSON objects', () => {
+    expect(readHIP412Metadata(null)).toEqual({ fields: null, issues: ['Metadata is not a JSON object'] });
+    expect(readHIP412Metadata([])).toEqual({ fields: null, issues: ['Metadata is not a JSON object'] });
+  });
+
+  it('reads documents minted before HIP-412 and reports what does not conform', () => {
+    const { fields, issues } = readHIP412Metadata({
+      name: 'Old',
+      image: MEDIA_URI,
+      type: 'video',
+      properties: { tags: ['legacy'], creator: '0.0.1234', originalFileName: 'old.mp4' }
+    });
+
+    expect(fields).toMatchObject({
+      name: 'Old',
+      creator: '0.0.1234',
+      tags: ['legacy'],
+      mediaUri: MEDIA_URI,
+      mimeType: null,
+      mediaType: 'video',
+      thumbnailUri: null,
+      originalFileName: 'old.mp4'
+    });
+    expect(issues).toEqual(['type: must be a MIME type such as image/png']);
+  });
+
+  it('drops caption tracks without a valid language tag', () => {
+    const { fields } = readHIP412Metadata({
+      name: 'Clip',
+      image: MEDIA_URI,
+      type: 'video/mp4',
+      files: [
+        { uri: `${MEDIA_URI}/a.vtt`, type: CAPTIONS_MIME_TYPE, metadata: { language: 'english!' } },
+        { uri: `${MEDIA_URI}/b.vtt`, type: CAPTIONS_MIME_TYPE, metadata: { language: 'de' } }
+      ]
+    });
+
+    expect(fields?.captions).toEqual([{ uri: `${MEDIA_URI}/b.vtt`, language: 'de' }]);
+  });
+});
@@ -0,0 +1,406 @@
+import { z } from 'zod';
+
+/**
+ * NFT metadata in the Hedera HIP-412 format
+ * (https://hips.hedera.com/hip/hip-412), shared by the upload form, the
+ * upload server, minting and the gallery.
+ */
+
+export const HIP412_FORMAT = 'HIP412@2.0.0';
+
+export type NFTMediaType = 'image' | 'video' | 'audio';
+
+const uriSchema = z.string().regex(/^[a-z][a-z0-9+.-]*:\/\/\S+$/i, 'must be a URI such as ipfs://<cid>');
+const mimeTypeSchema = z.string().regex(/^[\w.+-]+\/[\w.+-]+$/, 'must be a MIME type such as image/png');
+
+export const hip412FileSchema = z.object({
+  uri: uriSchema,
+  type: mimeTypeSchema,
+  checksum: z.string().optional(),
+  is_default_file: z.boolean().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  metadata_uri: uriSchema.optional()
+}).passthrough();
+
+export const hip412AttributeSchema = z.object({
+  trait_type: z.string().min(1),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  display_type: z.string().optional(),
+  max_value: z.union([z.string(), z.number()]).optional()
+}).passthrough();
+
+export const hip412LocalizationSchema = z.object({
+  /** URI template with a `{locale}` placeholder */
+  uri: z.string().includes('{locale}', { message: 'must contain {locale}' }),
+  default: z.string().min(2),
+  locales: z.array(z.string().min(2))
+});
+
+export const hip412MetadataSchema = z.object({
+  name: z.string().trim().min(1, 'is required'),
+  creator: z.string().optional(),
+  creatorDID: z.string().optional(),
+  description: z.string().optional(),
+  /** Preview image shown by wallets and marketplaces */
+  image: uriSchema,
+  /** MIME type of `image` */
+  type: mimeTypeSchema,
+  checksum: z.string().optional(),
+  format: z.string().optional(),
+  files: z.array(hip412FileSchema).optional(),
+  attributes: z.array(hip412AttributeSchema).optional(),
+  properties: z.record(z.unknown()).optional(),
+  localization: hip412LocalizationSchema.optional()
+}).passthrough();
+
+export type HIP412File = z.infer<typeof hip412FileSchema>;
+export type HIP412Metadata = z.infer<typeof hip412MetadataSchema>;
+
+/** `metadata.role` of the preview image generated at upload in `files` */
+export const THUMBNAIL_ROLE = 'thumbnail';
+
+export const thumbnailSchema = z.object({
+  uri: uriSchema,
+  type: mimeTypeSchema.refine(type => type.startsWith('image/'), 'must be an image MIME type'),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional()
+});
+
+export type Thumbnail = z.infer<typeof thumbnailSchema>;
+
+/** `metadata.role` of the HLS master playlist transcoded from a video at upload */
+export const HLS_ROLE = 'hls';
+export const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * An adaptive-streaming rendition of a video: the master playlist and the
+ * variants it lists
+ */
+export interface HLSStream {
+  uri: string;
+  variants: Array<{ width: number; height: number; bandwidth: number }>;
+}
+
+/** `metadata.role` of the WebVTT caption tracks pinned alongside a video */
+export const CAPTIONS_ROLE = 'captions';
+export const CAPTIONS_MIME_TYPE = 'text/vtt';
+
+/** BCP 47 language tag, such as `en` or `pt-BR` */
+export const CAPTION_LANGUAGE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+export const captionTrackSchema = z.object({
+  uri: uriSchema,
+  language: z.string().regex(CAPTION_LANGUAGE_PATTERN, 'must be a language tag such as en or pt-BR'),
+  /** Name in the captions menu; the language name when left out */
+  label: z.string().trim().min(1).max(50, 'Caption labels must be at most 50 characters').optional()
+});
+
+export type CaptionTrack = z.infer<typeof captionTrackSchema>;
+
+/** `metadata.role` of the manifest of a deep-zoom tile pyramid made from a very large image */
+export const TILES_ROLE = 'tiles';
+export const TILES_MANIFEST = 'pyramid.json';
+
+/**
+ * Manifest of a tile pyramid, stored as `pyramid.json` in the pyramid's
+ * directory. Level 0 fits in one tile and each level doubles the previous one
+ * up to the full image; tiles are `<level>/<column>_<row>.<format>`, and the
+ * ones on the right and bottom edges are padded to `tileSize`.
+ */
+export const tilePyramidSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  tileSize: z.number().int().positive(),
+  format: z.enum(['jpg', 'png']),
+  levels: z.array(z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    columns: z.number().int().positive(),
+    rows: z.number().int().positive()
+  })).min(1).max(20)
+});
+
+export type TilePyramid = z.infer<typeof tilePyramidSchema>;
+
+/** `metadata.role` of the waveform peaks file pinned alongside an audio file */
+export const WAVEFORM_ROLE = 'waveform';
+export const WAVEFORM_MIME_TYPE = 'application/json';
+export const MAX_WAVEFORM_PEAKS = 2000;
+
+/**
+ * Waveform of an audio file: the loudest sample of each of `peaks.length`
+ * equal slices, from 0 to 1. Computed in the browser at upload and pinned by
+ * the upload server as its own JSON file.
+ */
+export const waveformSchema = z.object({
+  duration: z.number().positive(),
+  peaks: z.array(z.number().min(0).max(1)).min(1).max(MAX_WAVEFORM_PEAKS, `At most ${MAX_WAVEFORM_PEAKS} waveform peaks`)
+});
+
+export type Waveform = z.infer<typeof waveformSchema>;
+
+/**
+ * What the uploader fills in. The file fields (`image`, `type`, `files`)
+ * are added by the upload server once it has stored the file.
+ */
+export const metadataDraftSchema = z.object({
+  name: z.string().trim().min(1, 'Title is required').max(100, 'Title must be at most 100 characters'),
+  description: z.string().trim().max(2000, 'Description must be at most 2000 characters').optional(),
+  creator: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().trim().min(1).max(50, 'Tags must be at most 50 characters'))
+    .max(20, 'At most 20 tags')
+    .optional(),
+  /** Preview uploaded before the media (image downscale, video frame, audio cover art) */
+  thumbnail: thumbnailSchema.optional(),
+  /** WebVTT captions of a video, one track per language */
+  captions: z.array(captionTrackSchema)
+    .max(10, 'At most 10 caption tracks')
+    .refine(
+      tracks => new Set(tracks.map(track => track.language.toLowerCase())).size === tracks.length,
+      'Only one caption track per language'
+    )
+    .optional(),
+  /** Peaks of an audio file; stored as a file of their own, not in the document */
+  waveform: waveformSchema.optional(),
+  properties: z.record(z.unknown()).optional()
+});
+
+export type MetadataDraft = z.infer<typeof metadataDraftSchema>;
+
+export interface StoredMediaFile {
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  size: number;
+  /** HLS rendition pinned next to the media, for videos */
+  hls?: HLSStream | null;
+  /** The pinned waveform peaks, for audio */
+  waveformUri?: string | null;
+  /** Manifest of the tile pyramid made from a very large image */
+  tiles?: { uri: string; width: number; height: number } | null;
+}
+
+export interface MetadataValidation<T> {
+  success: boolean;
+  /** The parsed value; null when `success` is false */
+  data: T | null;
+  issues: string[];
+}
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+
+const validate = <T>(schema: z.ZodType<T>, value: unknown): MetadataValidation<T> => {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data, issues: [] }
+    : { success: false, data: null, issues: formatIssues(result.error) };
+};
+
+export const validateMetadataDraft = (value: unknown): MetadataValidation<MetadataDraft> =>
+  validate(metadataDraftSchema, value);
+
+export const validateHIP412Metadata = (value: unknown): MetadataValidation<HIP412Metadata> =>
+  validate(hip412MetadataSchema, value);
+
+export const getMediaTypeFromMime = (mimeType: string | null | undefined): NFTMediaType | null => {
+  const category = mimeType?.split('/')[0].toLowerCase();
+  return category === 'image' || category === 'video' || category === 'audio' ? category : null;
+};
+
+/**
+ * The HIP-412 document for an uploaded file. Tags become `Tag` attributes.
+ * With a thumbnail, `image` is the thumbnail and the media is the default
+ * file in `files`; without one, video and audio are still listed there. An
+ * HLS rendition, caption tracks, waveform and tile pyramid are listed after
+ * the media; the original stays the default.
+ */
+export const buildHIP412Metadata = (
+  draft: MetadataDraft,
+  media: StoredMediaFile,
+  uploadDate = new Date().toISOString()
+): HIP412Metadata => {
+  const tags = draft.tags || [];
+  const { thumbnail } = draft;
+  const isImage = getMediaTypeFromMime(media.mimeType) === 'image';
+
+  const files: HIP412File[] = [];
+  if (thumbnail || !isImage) {
+    files.push({ uri: media.uri, type: media.mimeType, is_default_file: true });
+  }
+  if (media.hls) {
+    files.push({
+      uri: media.hls.uri,
+      type: HLS_MIME_TYPE,
+      metadata: { role: HLS_ROLE, variants: media.hls.variants }
+    });
+  }
+  for (const track of draft.captions || []) {
+    files.push({
+      uri: track.uri,
+      type: CAPTIONS_MIME_TYPE,
+      metadata: {
+        role: CAPTIONS_ROLE,
+        language: track.language,
+        ...(track.label ? { label: track.label } : {})
+      }
+    });
+  }
+  if (media.waveformUri) {
+    files.push({ uri: media.waveformUri, type: WAVEFORM_MIME_TYPE, metadata: { role: WAVEFORM_ROLE } });
+  }
+  if (media.tiles) {
+    files.push({
+      uri: media.tiles.uri,
+      type: 'application/json',
+      metadata: { role: TILES_ROLE, width: media.tiles.width, height: media.tiles.height }
+    });
+  }
+  if (thumbnail) {
+    files.push({
+      uri: thumbnail.uri,
+      type: thumbnail.type,
+      metadata: {
+        role: THUMBNAIL_ROLE,
+        ...(thumbnail.width ? { width: thumbnail.width } : {}),
+        ...(thumbnail.height ? { height: thumbnail.height } : {})
+      }
+    });
+  }
+
+  return {
+    name: draft.name,
+    ...(draft.creator ? { creator: draft.creator } : {}),
+    description: draft.description || '',
+    // Without a thumbnail, `image` is the media itself so every wallet can show something
+    image: thumbnail ? thumbnail.uri : media.uri,
+    type: thumbnail ? thumbnail.type : media.mimeType,
+    format: HIP412_FORMAT,
+    ...(files.length > 0 ? { files } : {}),
+    attributes: tags.map(tag => ({ trait_type: 'Tag', value: tag })),
+    properties: {
+      ...draft.properties,
+      originalFileName: media.fileName,
+      fileSize: media.size,
+      uploadDate
+    }
+  };
+};
+
+/**
+ * Display fields of an NFT's metadata document
+ */
+export interface NFTMetadataFields {
+  name: string | null;
+  description: string;
+  creator: string | null;
+  tags: string[];
+  /** The NFT's media: the default file, else `image` */
+  mediaUri: string | null;
+  mimeType: string | null;
+  mediaType: NFTMediaType | null;
+  imageUri: string | null;
+  /** A small preview for grids: the generated thumbnail, else `image` when it is not the media itself */
+  thumbnailUri: string | null;
+  /** HLS master playlist of a video, when one was transcoded */
+  hlsUri: string | null;
+  /** WebVTT caption tracks of a video */
+  captions: CaptionTrack[];
+  /** Waveform peaks of an audio file (a `Waveform` JSON document) */
+  waveformUri: string | null;
+  /** Tile pyramid manifest of a very large image (a `TilePyramid` JSON document) */
+  tilesUri: string | null;
+  files: HIP412File[];
+  originalFileName: string | null;
+  fileSize: number | null;
+  uploadDate: string | null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value : null;
+
+// Documents minted before HIP-412 used `type: 'video'` / `mediaType` instead of MIME types
+const legacyMediaType = (...values: unknown[]): NFTMediaType | null => {
+  for (const value of values) {
+    const word = asString(value)?.toLowerCase();
+    if (word === 'image' || word === 'video' || word === 'audio') return word;
+  }
+  return null;
+};
+
+/**
+ * Read an NFT metadata document for display. Documents that do not follow
+ * HIP-412 (including ones minted before this app used it) are still read as
+ * far as possible; `issues` lists what does not conform.
+ */
+export const readHIP412Metadata = (value: unknown): { fields: NFTMetadataFields | null; issues: string[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { fields: null, issues: ['Metadata is not a JSON object'] };
+  }
+
+  const validation = validateHIP412Metadata(value);
+  const metadata = value as Record<string, unknown>;
+  const properties = asRecord(metadata.properties);
+
+  const files = Array.isArray(metadata.files)
+    ? metadata.files.filter((file): file is HIP412File => hip412FileSchema.safeParse(file).success)
+    : [];
+  const defaultFile = files.find(file => file.is_default_file) || null;
+  const thumbnailFile = files.find(file => asRecord(file.metadata).role === THUMBNAIL_ROLE) || null;
+  const waveformFile = files.find(file => asRecord(file.metadata).role === WAVEFORM_ROLE) || null;
+  const tilesFile = files.find(file => asRecord(file.metadata).role === TILES_ROLE) || null;
+  const hlsFile = files.find(file => asRecord(file.metadata).role === HLS_ROLE || file.type.toLowerCase() === HLS_MIME_TYPE) || null;
+  // Caption tracks without a valid language tag cannot be offered in the menu
+  const captions = files
+    .filter(file => asRecord(file.metadata).role === CAPTIONS_ROLE || file.type.toLowerCase() === CAPTIONS_MIME_TYPE)
+    .map((file): CaptionTrack | null => {
+      const language = asString(asRecord(file.metadata).language);
+      const label = asString(asRecord(file.metadata).label);
+      return language && CAPTION_LANGUAGE_PATTERN.test(language)
+        ? { uri: file.uri, language, ...(label ? { label } : {}) }
+        : null;
+    })
+    .filter((track): track is CaptionTrack => !!track);
+  const imageUri = asString(metadata.image);
+  const mediaUri = defaultFile?.uri || imageUri;
+
+  const declaredType = asString(metadata.type);
+  const mimeType = defaultFile?.type
+    || (declaredType && mimeTypeSchema.safeParse(declaredType).success ? declaredType : null)
+    || asString(properties.mimeType);
+
+  const attributeTags = Array.isArray(metadata.attributes)
+    ? metadata.attributes
+      .map(asRecord)
+      .filter(attribute => ['tag', 'tags'].includes(String(attribute.trait_type).toLowerCase()))
+      .map(attribute => String(attribute.value))
+    : [];
+  const legacyTags = Array.isArray(properties.tags) ? properties.tags.map(String) : [];
+
+  return {
+    fields: {
+      name: asString(metadata.name),
+      description: asString(metadata.description) || '',
+      creator: asString(metadata.creator) || asString(properties.creator),
+      tags: [...new Set([...attributeTags, ...legacyTags])],
+      mediaUri,
+      mimeType,
+      mediaType: getMediaTypeFromMime(mimeType)
+        || legacyMediaType(metadata.type, metadata.mediaType, properties.mediaType, properties.type, metadata.format),
+      imageUri,
+      thumbnailUri: thumbnailFile?.uri || (imageUri && imageUri !== mediaUri ? imageUri : null),
+      hlsUri: hlsFile?.uri || null,
+      captions,
+      waveformUri: waveformFile?.uri || null,
+      tilesUri: tilesFile?.uri || null,
+      files,
+      originalFileName: asString(properties.originalFileName),
+      fileSize: typeof properties.fileSize === 'number' ? properties.fileSize : null,
+      uploadDate: asString(properties.uploadDate)
+    },
+    issues: validation.issues
+  };
+};
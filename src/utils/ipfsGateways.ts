@@ -0,0 +1,12 @@
+/**
+ * Public IPFS gateways, shared by the browser's gateway pool (the defaults
+ * of `gatewayManager`) and the server's pin monitor, which looks for content
+ * that is no longer pinned on them.
+ */
+export const PUBLIC_IPFS_GATEWAYS = [
+  'https://ipfs.io',
+  'https://cloudflare-ipfs.com',
+  'https://dweb.link',
+  'https://gateway.pinata.cloud',
+  'https://4everland.io'
+];
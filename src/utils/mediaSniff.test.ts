@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { sniffMediaTypes } from './mediaSniff';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part)));
+
+describe('sniffMediaTypes', () => {
+  it.each([
+    ['JPEG', bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ['PNG', bytes([0x89], 'PNG\r\n', [0x1a], '\n')],
+    ['GIF', bytes('GIF89a')],
+    ['WebP', bytes('RIFF', [0, 0, 0, 0], 'WEBP')]
+  ])('recognises %s as an image', (_, head) => {
+    expect(sniffMediaTypes(head)).toEqual(['image']);
+  });
+
+  it.each([
+    ['WAV', bytes('RIFF', [0, 0, 0, 0], 'WAVE')],
+    ['M4A', bytes([0, 0, 0, 0x20], 'ftypM4A ')],
+    ['M4B', bytes([0, 0, 0, 0x20], 'ftypM4B ')],
+    ['MP3 with an ID3 tag', bytes('ID3', [4, 0])],
+    ['an MP3 frame', bytes([0xff, 0xfb, 0x90, 0x64])],
+    ['an ADTS AAC frame', bytes([0xff, 0xf1, 0x50, 0x80])]
+  ])('recognises %s as audio', (_, head) => {
+    expect(sniffMediaTypes(head)).toEqual(['audio']);
+  });
+
+  it('recognises QuickTime as video', () => {
+    expect(sniffMediaTypes(bytes([0, 0, 0, 0x14], 'ftypqt  '))).toEqual(['video']);
+  });
+
+  it('lists the likelier type first for containers of either', () => {
+    expect(sniffMediaTypes(bytes([0, 0, 0, 0x18], 'ftypisom'))).toEqual(['video', 'audio']);
+    expect(sniffMediaTypes(bytes([0x1a, 0x45, 0xdf, 0xa3]))).toEqual(['video', 'audio']);
+    expect(sniffMediaTypes(bytes('OggS', [0]))).toEqual(['audio', 'video']);
+  });
+
+  it('returns nothing for unknown or truncated signatures', () => {
+    expect(sniffMediaTypes(bytes('RIFF', [0, 0, 0, 0], 'AVI '))).toEqual([]);
+    expect(sniffMediaTypes(bytes('%PDF-1.7'))).toEqual([]);
+    expect(sniffMediaTypes(bytes([0xff]))).toEqual([]);
+    expect(sniffMediaTypes(new Uint8Array(0))).toEqual([]);
+  });
+});
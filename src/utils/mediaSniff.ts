@@ -0,0 +1,34 @@
+import type { NFTMediaType } from './hip412';
+
+/** Leading bytes needed to recognise every supported format */
+export const SNIFF_BYTES = 12;
+
+/**
+ * Media types a file can be, judging by its leading bytes. Empty when the
+ * signature is not one of the supported formats; containers that hold either
+ * video or audio (MP4, WebM, Ogg) list the likelier one first.
+ */
+export const sniffMediaTypes = (head: Uint8Array): NFTMediaType[] => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...head.subarray(start, end));
+
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return ['image']; // JPEG
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return ['image'];
+  if (ascii(0, 4) === 'GIF8') return ['image'];
+  if (ascii(0, 4) === 'RIFF') {
+    if (ascii(8, 12) === 'WEBP') return ['image'];
+    if (ascii(8, 12) === 'WAVE') return ['audio'];
+    return [];
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    // ISO media: M4A/M4B brands are audio, QuickTime is video, MP4 can be either
+    const brand = ascii(8, 12);
+    if (brand === 'M4A ' || brand === 'M4B ') return ['audio'];
+    if (brand === 'qt  ') return ['video'];
+    return ['video', 'audio'];
+  }
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return ['video', 'audio']; // WebM
+  if (ascii(0, 4) === 'OggS') return ['audio', 'video'];
+  if (ascii(0, 3) === 'ID3') return ['audio']; // MP3 with ID3 tag
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) return ['audio']; // MP3 / ADTS AAC frame sync
+  return [];
+};
@@ -0,0 +1,160 @@
+/**
+ * Thumbnails generated in the browser before upload: a downscaled copy of an
+ * image, a frame from a video, or an audio file's cover art (picked by the
+ * uploader or embedded in an MP3). They are
+ * uploaded next to the media and listed in the HIP-412 `files`, so grids do
+ * not have to load full-size media.
+ */
+
+export interface GeneratedThumbnail {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/** Longest side of a thumbnail, enough for a gallery card on a high-DPI screen */
+export const THUMBNAIL_MAX_SIZE = 480;
+
+const THUMBNAIL_QUALITY = 0.8;
+const VIDEO_FRAME_TIMEOUT_MS = 15000;
+const ID3_READ_BYTES = 2 * 1024 * 1024; // Cover art sits in the tag at the start of the file
+
+const renderThumbnail = async (source: CanvasImageSource, width: number, height: number): Promise<GeneratedThumbnail | null> => {
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without WebP encoding return a PNG instead
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', THUMBNAIL_QUALITY));
+  return blob && { blob, width: canvas.width, height: canvas.height };
+};
+
+const thumbnailFromImage = async (image: Blob, skipIfSmall: boolean): Promise<GeneratedThumbnail | null> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    // A small image is its own thumbnail
+    if (skipIfSmall && Math.max(bitmap.width, bitmap.height) <= THUMBNAIL_MAX_SIZE) return null;
+    return await renderThumbnail(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const thumbnailFromVideo = (file: File): Promise<GeneratedThumbnail | null> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  const timeout = setTimeout(() => finish(new Error('Timed out reading a video frame')), VIDEO_FRAME_TIMEOUT_MS);
+
+  const finish = (error: Error | null, thumbnail: GeneratedThumbnail | null = null) => {
+    clearTimeout(timeout);
+    video.onerror = video.onloadeddata = video.onseeked = null;
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    if (error) reject(error);
+    else resolve(thumbnail);
+  };
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.onerror = () => finish(new Error('The browser cannot decode this video'));
+  video.onloadeddata = () => {
+    // A frame a little way in; the very first one is often black
+    video.currentTime = Math.min(1, (video.duration || 0) / 10);
+  };
+  video.onseeked = () => {
+    renderThumbnail(video, video.videoWidth, video.videoHeight)
+      .then(thumbnail => finish(null, thumbnail))
+      .catch(finish);
+  };
+  video.src = url;
+});
+
+// ID3v2 frame sizes are "syncsafe" (7 bits per byte) from version 2.4 and in the tag header
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+/**
+ * The picture in an MP3's ID3v2.3/2.4 APIC frame, if there is one
+ */
+export const readID3CoverArt = (bytes: Uint8Array): Blob | null => {
+  if (String.fromCharCode(...bytes.subarray(0, 3)) !== 'ID3') return null;
+
+  const version = bytes[3];
+  if (version !== 3 && version !== 4) return null;
+
+  const tagEnd = Math.min(bytes.length, 10 + readSyncsafe(bytes, 6));
+  let offset = 10;
+  if (bytes[5] & 0x40) {
+    // Extended header
+    offset += version === 4
+      ? readSyncsafe(bytes, offset)
+      : 4 + ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+
+  while (offset + 10 <= tagEnd) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // Padding
+
+    const size = version === 4
+      ? readSyncsafe(bytes, offset + 4)
+      : (bytes[offset + 4] << 24) | (bytes[offset + 5] << 16) | (bytes[offset + 6] << 8) | bytes[offset + 7];
+    const data = bytes.subarray(offset + 10, Math.min(offset + 10 + size, tagEnd));
+    offset += 10 + size;
+    if (id !== 'APIC') continue;
+
+    // encoding, MIME type (latin1, NUL-terminated), picture type, description, picture
+    const encoding = data[0];
+    const mimeEnd = data.indexOf(0, 1);
+    if (mimeEnd < 0) return null;
+    const mimeType = String.fromCharCode(...data.subarray(1, mimeEnd)) || 'image/jpeg';
+
+    let pictureStart = mimeEnd + 2;
+    if (encoding === 1 || encoding === 2) {
+      // UTF-16 description ends with a 2-byte NUL on an even offset
+      while (pictureStart + 1 < data.length && (data[pictureStart] !== 0 || data[pictureStart + 1] !== 0)) pictureStart += 2;
+      pictureStart += 2;
+    } else {
+      while (pictureStart < data.length && data[pictureStart] !== 0) pictureStart++;
+      pictureStart += 1;
+    }
+
+    const picture = data.subarray(pictureStart);
+    return picture.length > 0 ? new Blob([picture], { type: mimeType.includes('/') ? mimeType : `image/${mimeType.toLowerCase()}` }) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Thumbnail for a file about to be uploaded. Null when the file does not need
+ * one (a small image) or none can be made (audio without cover art, a video
+ * the browser cannot decode). Cover art picked for audio is used instead of
+ * the embedded picture.
+ */
+export const createThumbnail = async (file: File, coverArt?: Blob | null): Promise<GeneratedThumbnail | null> => {
+  if (file.type.startsWith('image/')) {
+    return thumbnailFromImage(file, true);
+  }
+
+  if (file.type.startsWith('video/')) {
+    return thumbnailFromVideo(file);
+  }
+
+  if (file.type.startsWith('audio/')) {
+    if (coverArt) return thumbnailFromImage(coverArt, false);
+    const head = new Uint8Array(await file.slice(0, ID3_READ_BYTES).arrayBuffer());
+    const embedded = readID3CoverArt(head);
+    return embedded ? thumbnailFromImage(embedded, false) : null;
+  }
+
+  return null;
+};
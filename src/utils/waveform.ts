@@ -0,0 +1,55 @@
+import type { Waveform } from './hip412';
+
+/**
+ * Waveforms computed in the browser before an audio file is uploaded. The
+ * peaks are pinned next to the audio and listed in the HIP-412 `files`, so
+ * the player can draw its scrubber without decoding the whole file.
+ */
+
+/** Peaks per waveform, enough for a full-width scrubber */
+export const WAVEFORM_PEAK_COUNT = 500;
+
+/**
+ * The loudest sample of each of `count` equal slices, across all channels,
+ * scaled so the loudest slice is 1 (quiet recordings still fill the height)
+ */
+export const computePeaks = (channels: Float32Array[], count = WAVEFORM_PEAK_COUNT): number[] => {
+  const length = channels[0]?.length || 0;
+  if (length === 0) return [];
+
+  const slices = Math.min(count, length);
+  const peaks = new Array<number>(slices).fill(0);
+  for (let slice = 0; slice < slices; slice++) {
+    const start = Math.floor((slice * length) / slices);
+    const end = Math.floor(((slice + 1) * length) / slices);
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const sample = Math.abs(data[i]);
+        if (sample > peak) peak = sample;
+      }
+    }
+    peaks[slice] = peak;
+  }
+
+  const loudest = Math.max(...peaks);
+  // Three decimals keep the pinned JSON to a few KB
+  return peaks.map(peak => (loudest > 0 ? Math.round((peak / loudest) * 1000) / 1000 : 0));
+};
+
+/**
+ * Waveform of an audio file about to be uploaded. Throws when the browser
+ * cannot decode it.
+ */
+export const createWaveform = async (file: File, count = WAVEFORM_PEAK_COUNT): Promise<Waveform> => {
+  // An offline context decodes without needing a user gesture or an audio device
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+  const peaks = computePeaks(channels, count);
+  if (peaks.length === 0) {
+    throw new Error(`${file.name} has no audio samples`);
+  }
+  return { duration: buffer.duration, peaks };
+};
@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
+}
+
+interface AccountNFTsRequest {
+  accountId: string;
+  tokenId?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+interface MirrorNFT {
+  account_id: string;
+  created_timestamp: string;
+  metadata: string;
+  serial_number: number;
+  token_id: string;
+}
+
+const MAX_LIMIT = 100;
+
+// Opaque page cursor shared with hedera-mirror-nfts and the Express API: base64url({ after: <last serial> })
+const encodeCursor = (after: number): string =>
+  btoa(JSON.stringify({ after })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { after } = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    return Number.isInteger(after) && after >= 0 ? after : null;
+  } catch {
+    return null;
+  }
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const nftCollectionId = Deno.env.get('NFT_COLLECTION_ID');
+    const { accountId, tokenId = nftCollectionId, limit = 50, cursor }: AccountNFTsRequest = await req.json();
+
+    if (!accountId || !/^\d+\.\d+\.\d+$/.test(accountId)) {
+      return jsonResponse({ success: false, error: 'A valid accountId is required' }, 400);
+    }
+
+    if (!tokenId) {
+      return jsonResponse({ success: false, error: 'tokenId is required' }, 400);
+    }
+
+    const after = cursor ? decodeCursor(cursor) : 0;
+    if (after === null) {
+      return jsonResponse({ success: false, error: 'Invalid cursor' }, 400);
+    }
+
+    const network = Deno.env.get('HEDERA_NETWORK') || 'testnet';
+    const mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+
+    const pageSize = Math.min(Math.max(limit, 1), MAX_LIMIT);
+    const pageQuery = `token.id=${tokenId}&limit=${pageSize}&order=asc${after > 0 ? `&serialnumber=gt:${after}` : ''}`;
+
+    console.log(`🔍 Fetching NFTs of ${tokenId} owned by ${accountId}`);
+
+    const response = await fetch(`${mirrorNodeUrl}/api/v1/accounts/${accountId}/nfts?${pageQuery}`);
+    if (response.status === 404) {
+      return jsonResponse({ success: false, error: `Account ${accountId} not found` }, 404);
+    }
+    if (!response.ok) {
+      throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+    }
+
+    const page = await response.json();
+    const nfts = (page.nfts || []).map((nft: MirrorNFT) => ({
+      tokenId: nft.token_id,
+      serialNumber: nft.serial_number,
+      accountId: nft.account_id,
+      createdAt: new Date(parseFloat(nft.created_timestamp) * 1000).toISOString(),
+      metadata: {
+        metadataUrl: nft.metadata ? new TextDecoder().decode(
+          new Uint8Array(atob(nft.metadata).split('').map(c => c.charCodeAt(0)))
+        ) : ''
+      }
+    }));
+
+    const lastSerial = nfts[nfts.length - 1]?.serialNumber;
+    const nextCursor = page.links?.next && lastSerial ? encodeCursor(lastSerial) : null;
+
+    return jsonResponse({
+      success: true,
+      data: {
+        accountId,
+        nfts,
+        hasMore: !!nextCursor,
+        nextCursor,
+        limit: pageSize
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching account NFTs:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to fetch account NFTs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+})
@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Import Hedera SDK
+import { PublicKey } from "https://esm.sh/@hashgraph/sdk@2.68.0"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
+}
+
+interface AuthRequest {
+  action: 'challenge' | 'verify';
+  accountId: string;
+  nonce?: string;
+  signature?: string;
+}
+
+interface TokenPayload {
+  typ: 'challenge' | 'session';
+  sub: string;
+  iat: number;
+  exp: number;
+  rnd?: string;
+}
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60;
+const HEDERA_MESSAGE_PREFIX = '\x19Hedera Signed Message:\n';
+
+const encoder = new TextEncoder();
+
+const base64url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64url = (input: string): Uint8Array =>
+  new Uint8Array(atob(input.replace(/-/g, '+').replace(/_/g, '/')).split('').map(c => c.charCodeAt(0)));
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array((hex.replace(/^0x/, '').match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
+
+// Must match buildSignInMessage in server/authService.ts
+const buildSignInMessage = (accountId: string, nonce: string, issuedAt: number, expiresAt: number): string => {
+  return [
+    'Hgallery wants you to sign in with your Hedera account:',
+    accountId,
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt * 1000).toISOString()}`,
+    `Expiration Time: ${new Date(expiresAt * 1000).toISOString()}`
+  ].join('\n');
+};
+
+const getHmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const signToken = async (payload: TokenPayload, secret: string): Promise<string> => {
+  const body = base64url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getHmacKey(secret), encoder.encode(body));
+  return `${body}.${base64url(new Uint8Array(signature))}`;
+};
+
+const decodeToken = async (token: string, secret: string): Promise<TokenPayload | null> => {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  const valid = await crypto.subtle.verify('HMAC', await getHmacKey(secret), fromBase64url(signature), encoder.encode(body));
+  if (!valid) return null;
+
+  try {
+    return JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Record a challenge nonce as used in the used_auth_challenges table. Returns
+ * false when it already was, so the challenge is being replayed.
+ */
+const claimChallenge = async (
+  supabase: SupabaseClient,
+  nonce: string,
+  accountId: string,
+  expiresAt: number
+): Promise<boolean> => {
+  // Expired challenges are rejected before they get here, so their rows can go
+  await supabase.from('used_auth_challenges').delete().lt('expires_at', new Date().toISOString());
+
+  const { error } = await supabase.from('used_auth_challenges').insert({
+    nonce,
+    account_id: accountId,
+    expires_at: new Date(expiresAt * 1000).toISOString()
+  });
+
+  if (!error) return true;
+  // 23505: unique violation - the nonce was already claimed
+  if (error.code === '23505') return false;
+  throw error;
+};
+
+// Give a challenge back after a failed verification so the wallet can retry it; never throws
+const releaseChallenge = async (supabase: SupabaseClient, nonce: string) => {
+  const { error } = await supabase.from('used_auth_challenges').delete().eq('nonce', nonce);
+  if (error) console.warn('Failed to release sign-in challenge:', error);
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const secret = Deno.env.get('AUTH_SESSION_SECRET');
+    // Used challenges are recorded in the database to reject replays
+    const supabaseUrl = Deno.env.get('PROJECT_URL');
+    const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+    if (!secret || !supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const { action, accountId, nonce, signature }: AuthRequest = await req.json();
+
+    if (!accountId || !/^\d+\.\d+\.\d+$/.test(accountId)) {
+      return jsonResponse({ success: false, error: 'A valid accountId is required' }, 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (action === 'challenge') {
+      const rnd = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+      const payload: TokenPayload = { typ: 'challenge', sub: accountId, iat: now, exp: now + CHALLENGE_TTL_SECONDS, rnd };
+      const challengeNonce = await signToken(payload, secret);
+
+      return jsonResponse({
+        success: true,
+        data: {
+          accountId,
+          nonce: challengeNonce,
+          message: buildSignInMessage(accountId, challengeNonce, payload.iat, payload.exp),
+          expiresAt: new Date(payload.exp * 1000).toISOString()
+        }
+      });
+    }
+
+    if (action !== 'verify') {
+      return jsonResponse({ success: false, error: 'action must be "challenge" or "verify"' }, 400);
+    }
+
+    if (!nonce || !signature) {
+      return jsonResponse({ success: false, error: 'accountId, nonce and signature are required' }, 400);
+    }
+
+    const challenge = await decodeToken(nonce, secret);
+    if (!challenge || challenge.typ !== 'challenge' || challenge.sub !== accountId || challenge.exp < now) {
+      return jsonResponse({ success: false, error: 'Authentication failed', details: 'Invalid or expired challenge' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (!await claimChallenge(supabase, nonce, accountId, challenge.exp)) {
+      return jsonResponse({ success: false, error: 'Authentication failed', details: 'Challenge has already been used' }, 401);
+    }
+
+    // Claimed before the mirror-node lookup so a concurrent replay is rejected; released if verification fails
+    let accepted = false;
+    try {
+      // Look up the account key on the mirror node
+      const network = Deno.env.get('HEDERA_NETWORK') || 'testnet';
+      const mirrorNodeUrl = network === 'mainnet'
+        ? 'https://mainnet-public.mirrornode.hedera.com'
+        : 'https://testnet.mirrornode.hedera.com';
+
+      const accountResponse = await fetch(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`);
+      if (!accountResponse.ok) {
+        throw new Error(`Failed to fetch account ${accountId}: ${accountResponse.status} ${accountResponse.statusText}`);
+      }
+
+      const account = await accountResponse.json();
+      let publicKey: PublicKey;
+      if (account.key?._type === 'ED25519') {
+        publicKey = PublicKey.fromStringED25519(account.key.key);
+      } else if (account.key?._type === 'ECDSA_SECP256K1') {
+        publicKey = PublicKey.fromStringECDSA(account.key.key);
+      } else {
+        return jsonResponse({ success: false, error: 'Authentication failed', details: 'Unsupported account key type' }, 401);
+      }
+
+      const message = buildSignInMessage(accountId, nonce, challenge.iat, challenge.exp);
+      const prefixed = `${HEDERA_MESSAGE_PREFIX}${message.length}${message}`;
+      const signatureBytes = hexToBytes(signature);
+
+      let verified = false;
+      try {
+        verified = publicKey.verify(encoder.encode(prefixed), signatureBytes) ||
+          publicKey.verify(encoder.encode(message), signatureBytes);
+      } catch (verifyError) {
+        console.warn('⚠️ Signature verification error:', verifyError);
+      }
+
+      if (!verified) {
+        return jsonResponse({ success: false, error: 'Authentication failed', details: 'Signature does not match the account key' }, 401);
+      }
+      accepted = true;
+    } finally {
+      if (!accepted) await releaseChallenge(supabase, nonce);
+    }
+
+    const sessionTTL = parseInt(Deno.env.get('AUTH_SESSION_TTL_SECONDS') || '') || DEFAULT_SESSION_TTL_SECONDS;
+    const sessionPayload: TokenPayload = { typ: 'session', sub: accountId, iat: now, exp: now + sessionTTL };
+
+    console.log(`🔐 Session issued for ${accountId}`);
+
+    return jsonResponse({
+      success: true,
+      data: {
+        token: await signToken(sessionPayload, secret),
+        accountId,
+        expiresAt: new Date(sessionPayload.exp * 1000).toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error authenticating wallet:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to authenticate',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+})
@@ -0,0 +1,321 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
+}
+
+interface IndexerRequest {
+  tokenId?: string;
+  maxPages?: number;
+}
+
+interface SessionPayload {
+  typ: 'session';
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+interface ExistingNFTRow {
+  serial_number: number;
+  metadata_url: string | null;
+  metadata_content: unknown;
+}
+
+interface MirrorNFT {
+  account_id: string | null;
+  created_timestamp: string;
+  deleted: boolean;
+  metadata: string;
+  modified_timestamp: string;
+  serial_number: number;
+  token_id: string;
+}
+
+// Edge functions have a wall-clock limit, so each invocation indexes a few
+// pages and leaves a checkpoint for the next one (e.g. a pg_cron schedule)
+const DEFAULT_MAX_PAGES = 5;
+const PAGE_SIZE = 100;
+
+// Mirror node timestamps have fixed-width nanoseconds, so string order is time order
+const isNewer = (timestamp: string, mark: string | null): boolean => !mark || timestamp > mark;
+
+const decodeMetadata = (metadata: string): string =>
+  metadata ? new TextDecoder().decode(new Uint8Array(atob(metadata).split('').map(c => c.charCodeAt(0)))) : '';
+
+// Verify a session token issued by the hedera-auth function (or the Express API)
+const verifySessionToken = async (token: string | null, secret: string): Promise<SessionPayload | null> => {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  const fromBase64url = (input: string) =>
+    new Uint8Array(atob(input.replace(/-/g, '+').replace(/_/g, '/')).split('').map(c => c.charCodeAt(0)));
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('HMAC', key, fromBase64url(signature), encoder.encode(body));
+  if (!valid) return null;
+
+  try {
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+    if (payload.typ !== 'session' || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Admin allowlist shared with the Express API (comma-separated account IDs)
+const isAdminAccount = (accountId: string): boolean =>
+  (Deno.env.get('ADMIN_ACCOUNT_IDS') || '')
+    .split(',')
+    .map(id => id.trim())
+    .includes(accountId);
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const resolveMetadata = async (rawMetadata: string): Promise<unknown> => {
+  if (!rawMetadata) return null;
+
+  try {
+    return JSON.parse(rawMetadata);
+  } catch {
+    // Not inline JSON - treat it as a URL
+  }
+
+  let url: string | null = null;
+  if (rawMetadata.startsWith('ipfs://')) {
+    url = `https://gateway.pinata.cloud/ipfs/${rawMetadata.replace('ipfs://', '')}`;
+  } else if (/^https?:\/\//.test(rawMetadata)) {
+    url = rawMetadata;
+  }
+
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve metadata ${rawMetadata}:`, error);
+    return null;
+  }
+};
+
+const processPage = async (supabase: SupabaseClient, tokenId: string, nfts: MirrorNFT[], since: string | null) => {
+  if (nfts.length === 0) return { upserted: 0, deleted: 0 };
+
+  const { data: existingRows, error } = await supabase
+    .from('nfts')
+    .select('serial_number, metadata_url, metadata_content')
+    .eq('token_id', tokenId)
+    .in('serial_number', nfts.map(nft => nft.serial_number));
+
+  if (error) throw error;
+
+  const existing = new Map<number, ExistingNFTRow>(
+    (existingRows || []).map((row: ExistingNFTRow) => [row.serial_number, row])
+  );
+  const rows = [];
+  const burned: number[] = [];
+
+  for (const nft of nfts) {
+    const current = existing.get(nft.serial_number);
+
+    if (nft.deleted || !nft.account_id) {
+      if (current) burned.push(nft.serial_number);
+      continue;
+    }
+
+    // Unchanged rows are skipped unless their metadata never resolved
+    if (current && !isNewer(nft.modified_timestamp, since) && current.metadata_content) {
+      continue;
+    }
+
+    const rawMetadata = decodeMetadata(nft.metadata);
+    const metadataContent = current?.metadata_url === rawMetadata && current.metadata_content
+      ? current.metadata_content
+      : await resolveMetadata(rawMetadata);
+
+    rows.push({
+      token_id: tokenId,
+      serial_number: nft.serial_number,
+      account_id: nft.account_id,
+      metadata_url: rawMetadata || null,
+      metadata_content: metadataContent,
+      created_at: new Date(parseFloat(nft.created_timestamp) * 1000).toISOString()
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase.from('nfts').upsert(rows, { onConflict: 'token_id,serial_number' });
+    if (upsertError) throw upsertError;
+  }
+
+  if (burned.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('nfts')
+      .delete()
+      .eq('token_id', tokenId)
+      .in('serial_number', burned);
+    if (deleteError) throw deleteError;
+  }
+
+  return { upserted: rows.length, deleted: burned.length };
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('PROJECT_URL');
+    const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+    const nftCollectionId = Deno.env.get('NFT_COLLECTION_ID');
+    const authSessionSecret = Deno.env.get('AUTH_SESSION_SECRET');
+
+    if (!supabaseUrl || !supabaseServiceKey || !nftCollectionId || !authSessionSecret) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Scheduled invocations authenticate with the service role key, people with an admin session
+    const isServiceCall = req.headers.get('authorization') === `Bearer ${supabaseServiceKey}`;
+    if (!isServiceCall) {
+      const session = await verifySessionToken(req.headers.get('x-session-token'), authSessionSecret);
+      if (!session) {
+        return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+      }
+      if (!isAdminAccount(session.sub)) {
+        return jsonResponse({
+          success: false,
+          error: 'Forbidden',
+          details: 'The admin role is required for this operation'
+        }, 403);
+      }
+    }
+
+    const body: IndexerRequest = await req.json().catch(() => ({}));
+    const tokenId = body.tokenId || nftCollectionId;
+    const maxPages = body.maxPages || DEFAULT_MAX_PAGES;
+
+    const network = Deno.env.get('HEDERA_NETWORK') || 'testnet';
+    const mirrorNodeUrl = network === 'mainnet'
+      ? 'https://mainnet-public.mirrornode.hedera.com'
+      : 'https://testnet.mirrornode.hedera.com';
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Keep the tokens row current
+    const tokenResponse = await fetch(`${mirrorNodeUrl}/api/v1/tokens/${tokenId}`);
+    if (!tokenResponse.ok) {
+      throw new Error(`Failed to fetch token ${tokenId}: ${tokenResponse.status} ${tokenResponse.statusText}`);
+    }
+    const token = await tokenResponse.json();
+    const { error: tokenError } = await supabase.from('tokens').upsert({
+      token_id: token.token_id,
+      name: token.name,
+      symbol: token.symbol,
+      total_supply: String(token.total_supply),
+      treasury_account: token.treasury_account_id
+    }, { onConflict: 'token_id' });
+    if (tokenError) throw tokenError;
+
+    const { data: savedState, error: stateError } = await supabase
+      .from('indexer_state')
+      .select('*')
+      .eq('token_id', tokenId)
+      .maybeSingle();
+    if (stateError) throw stateError;
+
+    const state = savedState || {
+      token_id: tokenId,
+      last_modified_timestamp: null,
+      pass_high_water_mark: null,
+      next_link: null,
+      nfts_indexed: 0
+    };
+
+    let path: string | null = state.next_link || `/api/v1/tokens/${tokenId}/nfts?limit=${PAGE_SIZE}&order=asc`;
+    let passMark: string | null = state.pass_high_water_mark;
+    let pages = 0;
+    let upserted = 0;
+    let deleted = 0;
+
+    console.log(`🔍 Indexing ${tokenId}${state.next_link ? ' (resuming)' : ''} since ${state.last_modified_timestamp || 'genesis'}`);
+
+    while (path && pages < maxPages) {
+      const response = await fetch(`${mirrorNodeUrl}${path}`);
+      if (!response.ok) {
+        throw new Error(`Mirror node error: ${response.status} ${response.statusText}`);
+      }
+
+      const page = await response.json();
+      const nfts: MirrorNFT[] = page.nfts || [];
+      const counts = await processPage(supabase, tokenId, nfts, state.last_modified_timestamp);
+      upserted += counts.upserted;
+      deleted += counts.deleted;
+      pages++;
+
+      for (const nft of nfts) {
+        if (isNewer(nft.modified_timestamp, passMark)) passMark = nft.modified_timestamp;
+      }
+
+      path = page.links?.next || null;
+
+      // Checkpoint after every page so the next invocation can resume
+      const { error: saveError } = await supabase.from('indexer_state').upsert({
+        ...state,
+        pass_high_water_mark: passMark,
+        next_link: path,
+        nfts_indexed: state.nfts_indexed + upserted,
+        last_run_at: new Date().toISOString(),
+        last_error: null
+      }, { onConflict: 'token_id' });
+      if (saveError) throw saveError;
+    }
+
+    const completedPass = !path;
+    if (completedPass) {
+      const { error: saveError } = await supabase.from('indexer_state').upsert({
+        ...state,
+        last_modified_timestamp: passMark || state.last_modified_timestamp,
+        pass_high_water_mark: null,
+        next_link: null,
+        nfts_indexed: state.nfts_indexed + upserted,
+        last_run_at: new Date().toISOString(),
+        last_error: null
+      }, { onConflict: 'token_id' });
+      if (saveError) throw saveError;
+    }
+
+    console.log(`✅ Indexed ${tokenId}: ${upserted} upserted, ${deleted} removed over ${pages} pages`);
+
+    return jsonResponse({
+      success: true,
+      data: {
+        tokenId,
+        pages,
+        upserted,
+        deleted,
+        completedPass,
+        highWaterMark: passMark || state.last_modified_timestamp
+      }
+    });
+
+  } catch (error) {
+    console.error('Error indexing NFTs:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to index NFTs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+})
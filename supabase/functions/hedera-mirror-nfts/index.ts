@@ -2,7 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
   'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE',
   'Access-Control-Max-Age': '86400',
 }
@@ -12,8 +12,23 @@ interface TokenInfoRequest {
   includeNFTs?: boolean;
   limit?: number;
   offset?: number;
+  cursor?: string;
 }
 
+// Opaque page cursor shared with the Express API: base64url({ after: <last serial> }).
+// It is derived from the mirror node's links.next, which pages by serialnumber=gt:N.
+const encodeCursor = (after: number): string =>
+  btoa(JSON.stringify({ after })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { after } = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    return Number.isInteger(after) && after >= 0 ? after : null;
+  } catch {
+    return null;
+  }
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -50,9 +65,22 @@ serve(async (req) => {
       tokenId,
       includeNFTs = false,
       limit = 50,
-      offset = 0
+      offset = 0,
+      cursor
     } = parsedBody;
 
+    // Serials start at 1, so an offset of N starts after serial N
+    const after = cursor ? decodeCursor(cursor) : offset;
+    if (after === null) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid cursor' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     if (!tokenId) {
       return new Response(
         JSON.stringify({ success: false, error: 'tokenId is required' }),
@@ -98,9 +126,8 @@ serve(async (req) => {
         console.log(`🔍 Fetching NFTs for token ${tokenId}...`);
         
         // Get NFTs from Mirror Node API
-        const nftResponse = await fetch(
-          `${mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts?limit=${limit}&order=asc`
-        );
+        const pageQuery = `limit=${limit}&order=asc${after > 0 ? `&serialnumber=gt:${after}` : ''}`;
+        const nftResponse = await fetch(`${mirrorNodeUrl}/api/v1/tokens/${tokenId}/nfts?${pageQuery}`);
 
         if (nftResponse.ok) {
           const nftData = await nftResponse.json();
@@ -123,9 +150,18 @@ serve(async (req) => {
             delegating_spender: nft.delegating_spender
           }));
 
+          // Follow links.next: it carries the serial to continue after
+          let nextCursor: string | null = null;
+          if (nftData.links?.next) {
+            const nextAfter = new URL(nftData.links.next, mirrorNodeUrl).searchParams.get('serialnumber');
+            const nextSerial = nextAfter ? parseInt(nextAfter.replace('gt:', '')) : nfts[nfts.length - 1]?.serialNumber;
+            nextCursor = Number.isInteger(nextSerial) ? encodeCursor(nextSerial) : null;
+          }
+
           responseData.nfts = nfts;
-          responseData.hasMore = nftData.links?.next ? true : false;
-          responseData.offset = offset;
+          responseData.hasMore = !!nextCursor;
+          responseData.nextCursor = nextCursor;
+          responseData.offset = after;
           responseData.limit = limit;
 
           console.log(`✅ Successfully processed ${nfts.length} NFTs`);
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CID } from 'https://esm.sh/multiformats@11.0.2/cid'
 
 // Import Hedera SDK
 import {
@@ -15,14 +16,36 @@ import {
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token, idempotency-key',
+}
+
+interface SessionPayload {
+  typ: 'session';
+  sub: string;
+  iat: number;
+  exp: number;
 }
 
 interface MintRequest {
-  metadataUrl: string;
+  metadataUrl?: string;
+  // Batch mode: mint every URL, ten per TokenMintTransaction
+  metadataUrls?: string[];
   userAccountId?: string;
 }
 
+interface BatchMintItem {
+  metadataUrl: string;
+  success: boolean;
+  serialNumber?: number;
+  transactionId?: string;
+  owner: string | null;
+  transferred: boolean;
+  transferTransactionId: string | null;
+  // Set when the NFT was minted but stayed in the treasury
+  transferError: string | null;
+  error?: string;
+}
+
 interface MintResponse {
   success: boolean;
   data?: {
@@ -37,161 +60,854 @@ interface MintResponse {
   error?: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+interface MintEnv {
+  hederaNetwork: string;
+  hederaOperatorId: string;
+  hederaOperatorKey: string;
+  nftCollectionId: string;
+  nftSupplyKey: string;
+}
+
+interface IdempotencyReservation {
+  supabase: SupabaseClient;
+  scope: string;
+  key: string;
+  // Transactions submitted under the key; once there is one the key is never released
+  transactionIds: string[];
+}
+
+// Called as soon as a transaction is submitted, before its receipt
+type TransactionSubmitted = (transactionId: string) => Promise<void>;
+
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const hashRequestBody = async (body: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(body ?? {})));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Reserve an Idempotency-Key in the idempotency_keys table shared with the
+ * Express API. Returns the response to send when the key was already used:
+ * the stored response, 409 while the first request runs, 422 for another body.
+ */
+const reserveIdempotencyKey = async (
+  { supabase, scope, key }: IdempotencyReservation,
+  requestHash: string
+): Promise<Response | null> => {
+  // Expired keys can be reused
+  await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('scope', scope)
+    .eq('key', key)
+    .lt('expires_at', new Date().toISOString());
+
+  const { error } = await supabase.from('idempotency_keys').insert({
+    scope,
+    key,
+    request_hash: requestHash,
+    status: 'in_progress',
+    expires_at: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS).toISOString()
+  });
+
+  if (!error) return null;
+  // 23505: unique violation - the key is already reserved
+  if (error.code !== '23505') throw error;
+
+  const { data: existing, error: selectError } = await supabase
+    .from('idempotency_keys')
+    .select('*')
+    .eq('scope', scope)
+    .eq('key', key)
+    .single();
+  if (selectError) throw selectError;
+
+  if (existing.request_hash !== requestHash) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Idempotency-Key reused with a different request body' }),
+      { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
 
+  if (existing.status === 'in_progress') {
+    const transactionIds: string[] = existing.transaction_ids || [];
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed',
+        ...(transactionIds.length > 0 && { transactionIds })
+      }),
+      { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  console.log(`🔁 Replaying stored response for ${scope} key ${key}`);
+  return new Response(JSON.stringify(existing.response_body), {
+    status: existing.response_status || 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' }
+  });
+};
+
+const releaseIdempotencyKey = async ({ supabase, scope, key }: IdempotencyReservation) => {
+  await supabase.from('idempotency_keys').delete().eq('scope', scope).eq('key', key);
+};
+
+// Save a submitted transaction with the key before waiting for its receipt; never throws
+const recordIdempotentTransaction = async (reservation: IdempotencyReservation | null, transactionId: string) => {
+  if (!reservation) return;
+
+  const { supabase, scope, key, transactionIds } = reservation;
+  transactionIds.push(transactionId);
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .update({ transaction_ids: transactionIds })
+    .eq('scope', scope)
+    .eq('key', key);
+  if (error) console.warn(`Failed to record transaction ${transactionId} for idempotency key ${key}:`, error);
+};
+
+/**
+ * Store the response for replay and return the one to send. A server error
+ * releases the key so the client can retry, unless a transaction was already
+ * submitted: a retry could then mint twice, so the error is stored with the
+ * transaction IDs and replayed instead.
+ */
+const finishIdempotentRequest = async (reservation: IdempotencyReservation, response: Response): Promise<Response> => {
+  const { supabase, scope, key, transactionIds } = reservation;
+
   try {
-    // Get environment variables
-    const hederaNetwork = Deno.env.get('HEDERA_NETWORK') || 'testnet';
-    const hederaOperatorId = Deno.env.get('HEDERA_OPERATOR_ID');
-    const hederaOperatorKey = Deno.env.get('HEDERA_OPERATOR_KEY');
-    const nftCollectionId = Deno.env.get('NFT_COLLECTION_ID');
-    const nftSupplyKey = Deno.env.get('NFT_SUPPLY_KEY');
+    if (response.status >= 500 && transactionIds.length === 0) {
+      await releaseIdempotencyKey(reservation);
+      return response;
+    }
 
-    if (!hederaOperatorId || !hederaOperatorKey || !nftCollectionId || !nftSupplyKey) {
-      throw new Error('Missing required environment variables');
+    let body = await response.clone().json();
+    if (response.status >= 500) {
+      body = { ...body, transactionIds };
+      response = new Response(JSON.stringify(body), { status: response.status, headers: response.headers });
     }
 
-    // Parse request body
-    const { metadataUrl, userAccountId }: MintRequest = await req.json();
+    await supabase
+      .from('idempotency_keys')
+      .update({ status: 'completed', response_status: response.status, response_body: body })
+      .eq('scope', scope)
+      .eq('key', key);
+  } catch (error) {
+    console.warn('Failed to store idempotent response:', error);
+  }
+
+  return response;
+};
+
+// Verify a session token issued by the hedera-auth function (or the Express API)
+const verifySessionToken = async (token: string | null, secret: string): Promise<SessionPayload | null> => {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  const fromBase64url = (input: string) =>
+    new Uint8Array(atob(input.replace(/-/g, '+').replace(/_/g, '/')).split('').map(c => c.charCodeAt(0)));
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('HMAC', key, fromBase64url(signature), encoder.encode(body));
+  if (!valid) return null;
+
+  try {
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+    if (payload.typ !== 'session' || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Admin allowlist shared with the Express API (comma-separated account IDs)
+const isAdminAccount = (accountId: string): boolean =>
+  (Deno.env.get('ADMIN_ACCOUNT_IDS') || '')
+    .split(',')
+    .map(id => id.trim())
+    .includes(accountId);
+
+// TokenMintTransaction accepts at most ten metadata entries
+const MAX_NFTS_PER_MINT = 10;
+const MAX_BATCH_MINT_ITEMS = 50;
+
+// Mint each chunk of ten separately so one failed transaction only fails its own items
+const mintBatch = async (
+  client: Client,
+  tokenId: string,
+  metadataUrls: string[],
+  supplyKey: PrivateKey,
+  treasuryAccountId: string,
+  treasuryKey: PrivateKey,
+  onSubmitted: TransactionSubmitted,
+  userAccountId?: string
+): Promise<BatchMintItem[]> => {
+  const items: BatchMintItem[] = [];
+
+  for (let start = 0; start < metadataUrls.length; start += MAX_NFTS_PER_MINT) {
+    const chunk = metadataUrls.slice(start, start + MAX_NFTS_PER_MINT);
+    let transactionId: string | undefined;
+
+    try {
+      const mintTransaction = new TokenMintTransaction()
+        .setTokenId(TokenId.fromString(tokenId))
+        .setMetadata(chunk.map(url => new TextEncoder().encode(url)))
+        .freezeWith(client);
+
+      const mintSigned = await mintTransaction.sign(supplyKey);
+      const mintResponse = await mintSigned.execute(client);
+      transactionId = mintResponse.transactionId.toString();
+      await onSubmitted(transactionId);
+      const mintReceipt = await mintResponse.getReceipt(client);
+
+      if (mintReceipt.status.toString() !== 'SUCCESS' || mintReceipt.serials.length !== chunk.length) {
+        throw new Error(`Mint transaction failed: ${mintReceipt.status.toString()}`);
+      }
+
+      // Serials are assigned in metadata order
+      const minted: BatchMintItem[] = chunk.map((metadataUrl, index) => ({
+        metadataUrl,
+        success: true,
+        serialNumber: mintReceipt.serials[index].toNumber(),
+        transactionId,
+        owner: treasuryAccountId,
+        transferred: false,
+        transferTransactionId: null,
+        transferError: null
+      }));
+
+      if (userAccountId && userAccountId !== treasuryAccountId) {
+        try {
+          const transferTransaction = new TransferTransaction();
+          for (const item of minted) {
+            transferTransaction.addNftTransfer(
+              TokenId.fromString(tokenId),
+              item.serialNumber!,
+              AccountId.fromString(treasuryAccountId),
+              AccountId.fromString(userAccountId)
+            );
+          }
+          transferTransaction.freezeWith(client);
+
+          const transferSigned = await transferTransaction.sign(treasuryKey);
+          const transferResponse = await transferSigned.execute(client);
+          await onSubmitted(transferResponse.transactionId.toString());
+          const transferReceipt = await transferResponse.getReceipt(client);
+
+          if (transferReceipt.status.toString() !== 'SUCCESS') {
+            throw new Error(`Transfer transaction failed: ${transferReceipt.status.toString()}`);
+          }
+          for (const item of minted) {
+            item.owner = userAccountId;
+            item.transferred = true;
+            item.transferTransactionId = transferResponse.transactionId.toString();
+          }
+        } catch (transferError) {
+          // Minted NFTs stay in the treasury and can be transferred later; the client reports them
+          console.warn(`⚠️ NFTs minted but transfer failed:`, transferError);
+          for (const item of minted) {
+            item.transferError = transferError instanceof Error ? transferError.message : 'Unknown error';
+          }
+        }
+      }
+
+      items.push(...minted);
+    } catch (error) {
+      console.error(`❌ Failed to mint batch starting at item ${start}:`, error);
+      items.push(...chunk.map(metadataUrl => ({
+        metadataUrl,
+        success: false,
+        ...(transactionId && { transactionId }),
+        owner: null,
+        transferred: false,
+        transferTransactionId: null,
+        transferError: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })));
+    }
+  }
+
+  return items;
+};
+
+// HIP-412 checks, a subset of the schema in src/utils/hip412.ts. Documents that cannot be fetched
+// are not reported; a slow gateway should not block a mint.
+const findInvalidMetadata = async (metadataUrls: string[]): Promise<string | null> => {
+  const problems: string[] = [];
+
+  for (const metadataUrl of metadataUrls) {
+    let metadata: Record<string, unknown>;
+    try {
+      const response = await fetch(`https://gateway.pinata.cloud/ipfs/${metadataUrl.replace('ipfs://', '')}`, {
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!response.ok) continue;
+      metadata = await response.json();
+    } catch (error) {
+      console.warn(`⚠️ Could not resolve ${metadataUrl} for the metadata check:`, error);
+      continue;
+    }
+
+    const issues: string[] = [];
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      issues.push('Metadata is not a JSON object');
+    } else {
+      if (typeof metadata.name !== 'string' || !metadata.name.trim()) issues.push('name: is required');
+      if (typeof metadata.image !== 'string' || !/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(metadata.image)) {
+        issues.push('image: must be a URI such as ipfs://<cid>');
+      }
+      if (typeof metadata.type !== 'string' || !/^[\w.+-]+\/[\w.+-]+$/.test(metadata.type)) {
+        issues.push('type: must be a MIME type such as image/png');
+      }
+    }
+    if (issues.length > 0) problems.push(`${metadataUrl}: ${issues.join('; ')}`);
+  }
+
+  return problems.length > 0 ? problems.join(' | ') : null;
+};
+
+// The CID of a media URI (ipfs://<cid>, a gateway URL or a bare CID), read like parseIPFSUrl in
+// src/utils/cid.ts; null for a path inside a CID or anything that is not a CID
+const toContentCID = (uri: string): string | null => {
+  let rest = uri.trim();
+  if (rest.startsWith('ipfs://')) {
+    rest = rest.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  } else if (rest.includes('/ipfs/')) {
+    rest = rest.slice(rest.indexOf('/ipfs/') + '/ipfs/'.length);
+  }
+
+  const [cidPart, ...pathParts] = rest.split(/[?#]/)[0].split('/');
+  if (pathParts.some(Boolean)) return null;
+  try {
+    return CID.parse(cidPart).toString();
+  } catch {
+    return null;
+  }
+};
+
+// Thrown under DUPLICATE_CONTENT_POLICY=block when the check cannot run; the mint is refused with a 503
+// rather than let through unchecked, like ContentIndexUnavailableError in the Express API
+class DuplicateCheckUnavailableError extends Error {}
+
+const MAX_UNINDEXED_PAGES = 5;
+const METADATA_CONCURRENCY = 10;
+
+const decodeMetadata = (metadata: string): string =>
+  metadata ? new TextDecoder().decode(new Uint8Array(atob(metadata).split('').map(c => c.charCodeAt(0)))) : '';
+
+// A metadata document from on-chain metadata (inline JSON, an ipfs:// or http(s) URL); null when it cannot be read
+const fetchMetadataDocument = async (rawMetadata: string): Promise<Record<string, unknown> | null> => {
+  try {
+    const inline = JSON.parse(rawMetadata);
+    return inline && typeof inline === 'object' ? inline : null;
+  } catch {
+    // Not inline JSON - treat it as a URL
+  }
+
+  let url: string | null = null;
+  if (rawMetadata.startsWith('ipfs://')) {
+    url = `https://gateway.pinata.cloud/ipfs/${rawMetadata.replace('ipfs://', '')}`;
+  } else if (/^https?:\/\//.test(rawMetadata)) {
+    url = rawMetadata;
+  }
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return null;
+    const metadata = await response.json();
+    return metadata && typeof metadata === 'object' ? metadata : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve ${rawMetadata} for the duplicate check:`, error);
+    return null;
+  }
+};
+
+// The content CID of a metadata document: the HIP-412 default file, else `image`
+const contentCIDOf = (metadata: Record<string, unknown>): string | null => {
+  const files = Array.isArray(metadata.files) ? metadata.files : [];
+  const uri = files.find((file: { is_default_file?: boolean }) => file?.is_default_file)?.uri || metadata.image;
+  return typeof uri === 'string' ? toContentCID(uri) : null;
+};
+
+// Content CID → serials of NFTs minted after the newest one the indexer has resolved, read from the
+// mirror node so a mint made since the last indexer run (by this function or the Express API) still counts
+const findUnindexedContent = async (
+  supabase: SupabaseClient,
+  tokenId: string,
+  hederaNetwork: string
+): Promise<Map<string, number[]>> => {
+  const { data: newest, error } = await supabase.from('nfts').select('serial_number')
+    .eq('token_id', tokenId).not('metadata_content', 'is', null)
+    .order('serial_number', { ascending: false }).limit(1).maybeSingle();
+  if (error) throw new DuplicateCheckUnavailableError(`The nfts table cannot be read: ${error.message}`);
+
+  const mirrorNodeUrl = hederaNetwork === 'mainnet'
+    ? 'https://mainnet-public.mirrornode.hedera.com'
+    : 'https://testnet.mirrornode.hedera.com';
+  const content = new Map<string, number[]>();
+  let path: string | null = `/api/v1/tokens/${tokenId}/nfts?limit=100&order=asc&serialnumber=gt:${newest?.serial_number || 0}`;
+
+  for (let page = 0; path; page++) {
+    if (page === MAX_UNINDEXED_PAGES) {
+      throw new DuplicateCheckUnavailableError('Too many NFTs are not indexed yet; run hedera-indexer');
+    }
+
+    let body: { nfts?: Array<{ serial_number: number; metadata: string; deleted: boolean }>; links?: { next: string | null } };
+    try {
+      const response = await fetch(`${mirrorNodeUrl}${path}`, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      body = await response.json();
+    } catch (mirrorError) {
+      throw new DuplicateCheckUnavailableError(
+        `Mirror node error: ${mirrorError instanceof Error ? mirrorError.message : String(mirrorError)}`
+      );
+    }
+
+    const nfts = (body.nfts || []).filter(nft => !nft.deleted && nft.metadata);
+    for (let i = 0; i < nfts.length; i += METADATA_CONCURRENCY) {
+      const batch = nfts.slice(i, i + METADATA_CONCURRENCY);
+      const documents = await Promise.all(batch.map(nft => fetchMetadataDocument(decodeMetadata(nft.metadata))));
+      batch.forEach((nft, position) => {
+        const document = documents[position];
+        const cid = document ? contentCIDOf(document) : null;
+        if (cid) content.set(cid, [...(content.get(cid) || []), nft.serial_number]);
+      });
+    }
+    path = body.links?.next || null;
+  }
+
+  return content;
+};
+
+// With DUPLICATE_CONTENT_POLICY=block, describe the first item whose content (the HIP-412 default file,
+// else metadata `image`) the collection already has or that repeats an earlier item. The Express API keeps
+// its own mirror-node index; here the `nfts` table filled by hedera-indexer is the lookup, plus the mirror
+// node for mints it has not indexed yet. Throws DuplicateCheckUnavailableError when either cannot be read
+// or an item's metadata cannot be fetched.
+const findDuplicateContent = async (metadataUrls: string[], tokenId: string, hederaNetwork: string): Promise<string | null> => {
+  if (Deno.env.get('DUPLICATE_CONTENT_POLICY') !== 'block') return null;
+
+  const supabaseUrl = Deno.env.get('PROJECT_URL');
+  const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new DuplicateCheckUnavailableError('PROJECT_URL / SERVICE_ROLE_KEY not configured');
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const unindexed = await findUnindexedContent(supabase, tokenId, hederaNetwork);
+  const seen = new Set<string>();
+
+  for (const metadataUrl of metadataUrls) {
+    const metadata = await fetchMetadataDocument(metadataUrl);
+    if (!metadata) {
+      throw new DuplicateCheckUnavailableError(`Could not fetch ${metadataUrl}`);
+    }
+    // Media outside IPFS has no CID to compare
+    const content = contentCIDOf(metadata);
+    if (!content) continue;
+
+    if (seen.has(content)) return `Content ${content} appears more than once in this request`;
+    seen.add(content);
+
+    // content_cid is derived the same way from each NFT's metadata (20240109000000_nft_content_cid.sql)
+    const { data, error } = await supabase.from('nfts').select('serial_number')
+      .eq('token_id', tokenId).eq('content_cid', content).limit(10);
+
+    if (error) throw new DuplicateCheckUnavailableError(`The nfts table cannot be read: ${error.message}`);
+    const serials = [...new Set([
+      ...(data || []).map((row: { serial_number: number }) => row.serial_number),
+      ...(unindexed.get(content) || [])
+    ])];
+    if (serials.length > 0) {
+      return `Content ${content} is already minted as ${serials.map(serial => `#${serial}`).join(', ')}`;
+    }
+  }
+
+  return null;
+};
+
+// The 409 for duplicate content, or a 503 when the check cannot run; null when the mint may go ahead
+const rejectDuplicateContent = async (metadataUrls: string[], tokenId: string, hederaNetwork: string): Promise<Response | null> => {
+  let duplicate: string | null;
+  try {
+    duplicate = await findDuplicateContent(metadataUrls, tokenId, hederaNetwork);
+  } catch (error) {
+    if (!(error instanceof DuplicateCheckUnavailableError)) throw error;
+    console.error('❌ Duplicate content check unavailable:', error.message);
+    return new Response(
+      JSON.stringify({ success: false, error: 'Duplicate content check unavailable', details: error.message }),
+      {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (!duplicate) return null;
+  return new Response(
+    JSON.stringify({ success: false, error: 'Duplicate content', details: duplicate }),
+    {
+      status: 409,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+};
+
+// Mint (or batch mint) for a verified session; thrown errors become a 500 in serve
+const handleMint = async (
+  request: MintRequest,
+  session: SessionPayload,
+  env: MintEnv,
+  onSubmitted: TransactionSubmitted
+): Promise<Response> => {
+  const { metadataUrl, metadataUrls, userAccountId } = request;
+  const { hederaNetwork, hederaOperatorId, hederaOperatorKey, nftCollectionId, nftSupplyKey } = env;
 
-    if (!metadataUrl) {
+  // Only admins may mint on behalf of another account
+  if (userAccountId && userAccountId !== session.sub && !isAdminAccount(session.sub)) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Forbidden',
+        details: 'userAccountId must match the signed-in account'
+      }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (metadataUrls !== undefined) {
+    if (!Array.isArray(metadataUrls) || metadataUrls.length === 0 || metadataUrls.length > MAX_BATCH_MINT_ITEMS) {
+      return new Response(
+        JSON.stringify({ success: false, error: `metadataUrls must contain 1 to ${MAX_BATCH_MINT_ITEMS} IPFS URLs` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (metadataUrls.some(url => typeof url !== 'string' || !url.startsWith('ipfs://'))) {
       return new Response(
-        JSON.stringify({ success: false, error: 'metadataUrl is required' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        JSON.stringify({ success: false, error: 'Every metadataUrl must be an IPFS URL' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    if (!metadataUrl.startsWith('ipfs://')) {
+    const invalidMetadata = await findInvalidMetadata(metadataUrls);
+    if (invalidMetadata) {
       return new Response(
-        JSON.stringify({ success: false, error: 'metadataUrl must be an IPFS URL' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        JSON.stringify({ success: false, error: 'Metadata is not valid HIP-412', details: invalidMetadata }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    // Initialize Hedera client
-    const client = hederaNetwork === 'mainnet' 
-      ? Client.forMainnet() 
+    const duplicateRejection = await rejectDuplicateContent(metadataUrls, nftCollectionId, hederaNetwork);
+    if (duplicateRejection) return duplicateRejection;
+
+    const client = hederaNetwork === 'mainnet'
+      ? Client.forMainnet()
       : Client.forTestnet();
-    
+
     client.setOperator(
       AccountId.fromString(hederaOperatorId),
       PrivateKey.fromStringECDSA(hederaOperatorKey)
     );
 
-    console.log(`🔨 Minting NFT with metadata: ${metadataUrl}`);
-
-    // Convert metadata URL to bytes
-    const metadataBytes = new TextEncoder().encode(metadataUrl);
-
-    // Mint the NFT
-    const mintTransaction = new TokenMintTransaction()
-      .setTokenId(TokenId.fromString(nftCollectionId))
-      .setMetadata([metadataBytes])
-      .freezeWith(client);
-
-    const mintSigned = await mintTransaction.sign(PrivateKey.fromStringECDSA(nftSupplyKey));
-    const mintResponse = await mintSigned.execute(client);
-    const mintReceipt = await mintResponse.getReceipt(client);
-
-    if (mintReceipt.status.toString() !== 'SUCCESS') {
-      throw new Error(`Mint transaction failed: ${mintReceipt.status.toString()}`);
-    }
-
-    const serialNumber = mintReceipt.serials[0].toNumber();
-    console.log(`✅ NFT minted successfully! Serial: ${serialNumber}`);
-
-    // Prepare response data
-    const responseData: MintResponse['data'] = {
-      transactionId: mintResponse.transactionId.toString(),
-      serialNumber,
-      tokenId: nftCollectionId,
-      metadataUrl,
-      owner: hederaOperatorId,
-      transferred: false,
-    };
-
-    // If userAccountId is provided, transfer the NFT to the user
-    if (userAccountId && userAccountId !== hederaOperatorId) {
-      try {
-        console.log(`📤 Transferring NFT to user: ${userAccountId}`);
-
-        const transferTransaction = new TransferTransaction()
-          .addNftTransfer(
-            TokenId.fromString(nftCollectionId),
-            serialNumber,
-            AccountId.fromString(hederaOperatorId),
-            AccountId.fromString(userAccountId)
-          )
-          .freezeWith(client);
-
-        const transferSigned = await transferTransaction.sign(PrivateKey.fromStringECDSA(hederaOperatorKey));
-        const transferResponse = await transferSigned.execute(client);
-        const transferReceipt = await transferResponse.getReceipt(client);
-
-        if (transferReceipt.status.toString() === 'SUCCESS') {
-          responseData.owner = userAccountId;
-          responseData.transferred = true;
-          responseData.transferTransactionId = transferResponse.transactionId.toString();
-          console.log(`✅ NFT transferred successfully!`);
-        } else {
-          console.warn(`⚠️ NFT minted but transfer failed: ${transferReceipt.status.toString()}`);
-        }
-      } catch (transferError) {
-        console.warn(`⚠️ NFT minted but transfer failed:`, transferError);
-        // Don't fail the entire request if transfer fails
-      }
-    }
+    console.log(`🔨 Batch minting ${metadataUrls.length} NFTs`);
+
+    const items = await mintBatch(
+      client,
+      nftCollectionId,
+      metadataUrls,
+      PrivateKey.fromStringECDSA(nftSupplyKey),
+      hederaOperatorId,
+      PrivateKey.fromStringECDSA(hederaOperatorKey),
+      onSubmitted,
+      userAccountId
+    );
+
+    const minted = items.filter(item => item.success).length;
 
-    // Store in Supabase if available
+    // Store minted NFTs in Supabase if available (the indexer fills any gaps)
     try {
       const supabaseUrl = Deno.env.get('PROJECT_URL');
       const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
 
-      if (supabaseUrl && supabaseServiceKey) {
+      if (supabaseUrl && supabaseServiceKey && minted > 0) {
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-        // Store NFT record
         const { error: nftError } = await supabase
           .from('nfts')
-          .insert([{
+          .insert(items.filter(item => item.success).map(item => ({
             token_id: nftCollectionId,
-            serial_number: serialNumber,
-            account_id: responseData.owner,
-            metadata_url: metadataUrl,
-          }]);
+            serial_number: item.serialNumber,
+            account_id: item.owner,
+            metadata_url: item.metadataUrl,
+          })));
 
         if (nftError) {
-          console.warn('Failed to store NFT in database:', nftError);
-        } else {
-          console.log('✅ NFT record stored in database');
+          console.warn('Failed to store NFTs in database:', nftError);
         }
       }
     } catch (dbError) {
       console.warn('Database operation failed:', dbError);
-      // Don't fail the request if database storage fails
     }
 
+    console.log(`✅ Batch mint finished: ${minted} minted, ${items.length - minted} failed`);
+
+    return new Response(
+      JSON.stringify({
+        success: minted > 0,
+        ...(minted === 0 && { error: 'Failed to mint NFTs' }),
+        data: {
+          tokenId: nftCollectionId,
+          items,
+          minted,
+          failed: items.length - minted
+        }
+      }),
+      {
+        status: minted > 0 ? 200 : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (!metadataUrl) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'metadataUrl is required' }),
+      { 
+        status: 400, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    );
+  }
+
+  if (!metadataUrl.startsWith('ipfs://')) {
     return new Response(
-      JSON.stringify({ success: true, data: responseData }),
+      JSON.stringify({ success: false, error: 'metadataUrl must be an IPFS URL' }),
       { 
+        status: 400, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     );
+  }
+
+  const invalidMetadata = await findInvalidMetadata([metadataUrl]);
+  if (invalidMetadata) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Metadata is not valid HIP-412', details: invalidMetadata }),
+      {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const duplicateRejection = await rejectDuplicateContent([metadataUrl], nftCollectionId, hederaNetwork);
+  if (duplicateRejection) return duplicateRejection;
+
+  // Initialize Hedera client
+  const client = hederaNetwork === 'mainnet' 
+    ? Client.forMainnet() 
+    : Client.forTestnet();
+  
+  client.setOperator(
+    AccountId.fromString(hederaOperatorId),
+    PrivateKey.fromStringECDSA(hederaOperatorKey)
+  );
+
+  console.log(`🔨 Minting NFT with metadata: ${metadataUrl}`);
+
+  // Convert metadata URL to bytes
+  const metadataBytes = new TextEncoder().encode(metadataUrl);
+
+  // Mint the NFT
+  const mintTransaction = new TokenMintTransaction()
+    .setTokenId(TokenId.fromString(nftCollectionId))
+    .setMetadata([metadataBytes])
+    .freezeWith(client);
+
+  const mintSigned = await mintTransaction.sign(PrivateKey.fromStringECDSA(nftSupplyKey));
+  const mintResponse = await mintSigned.execute(client);
+  await onSubmitted(mintResponse.transactionId.toString());
+  const mintReceipt = await mintResponse.getReceipt(client);
+
+  if (mintReceipt.status.toString() !== 'SUCCESS') {
+    throw new Error(`Mint transaction failed: ${mintReceipt.status.toString()}`);
+  }
+
+  const serialNumber = mintReceipt.serials[0].toNumber();
+  console.log(`✅ NFT minted successfully! Serial: ${serialNumber}`);
+
+  // Prepare response data
+  const responseData: MintResponse['data'] = {
+    transactionId: mintResponse.transactionId.toString(),
+    serialNumber,
+    tokenId: nftCollectionId,
+    metadataUrl,
+    owner: hederaOperatorId,
+    transferred: false,
+  };
+
+  // If userAccountId is provided, transfer the NFT to the user
+  if (userAccountId && userAccountId !== hederaOperatorId) {
+    try {
+      console.log(`📤 Transferring NFT to user: ${userAccountId}`);
+
+      const transferTransaction = new TransferTransaction()
+        .addNftTransfer(
+          TokenId.fromString(nftCollectionId),
+          serialNumber,
+          AccountId.fromString(hederaOperatorId),
+          AccountId.fromString(userAccountId)
+        )
+        .freezeWith(client);
+
+      const transferSigned = await transferTransaction.sign(PrivateKey.fromStringECDSA(hederaOperatorKey));
+      const transferResponse = await transferSigned.execute(client);
+      await onSubmitted(transferResponse.transactionId.toString());
+      const transferReceipt = await transferResponse.getReceipt(client);
+
+      if (transferReceipt.status.toString() === 'SUCCESS') {
+        responseData.owner = userAccountId;
+        responseData.transferred = true;
+        responseData.transferTransactionId = transferResponse.transactionId.toString();
+        console.log(`✅ NFT transferred successfully!`);
+      } else {
+        console.warn(`⚠️ NFT minted but transfer failed: ${transferReceipt.status.toString()}`);
+      }
+    } catch (transferError) {
+      console.warn(`⚠️ NFT minted but transfer failed:`, transferError);
+      // Don't fail the entire request if transfer fails
+    }
+  }
+
+  // Store in Supabase if available
+  try {
+    const supabaseUrl = Deno.env.get('PROJECT_URL');
+    const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+
+    if (supabaseUrl && supabaseServiceKey) {
+      const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+      // Store NFT record
+      const { error: nftError } = await supabase
+        .from('nfts')
+        .insert([{
+          token_id: nftCollectionId,
+          serial_number: serialNumber,
+          account_id: responseData.owner,
+          metadata_url: metadataUrl,
+        }]);
+
+      if (nftError) {
+        console.warn('Failed to store NFT in database:', nftError);
+      } else {
+        console.log('✅ NFT record stored in database');
+      }
+    }
+  } catch (dbError) {
+    console.warn('Database operation failed:', dbError);
+    // Don't fail the request if database storage fails
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, data: responseData }),
+    { 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    }
+  );
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  let idempotency: IdempotencyReservation | null = null;
+
+  try {
+    // Get environment variables
+    const hederaNetwork = Deno.env.get('HEDERA_NETWORK') || 'testnet';
+    const hederaOperatorId = Deno.env.get('HEDERA_OPERATOR_ID');
+    const hederaOperatorKey = Deno.env.get('HEDERA_OPERATOR_KEY');
+    const nftCollectionId = Deno.env.get('NFT_COLLECTION_ID');
+    const nftSupplyKey = Deno.env.get('NFT_SUPPLY_KEY');
+    const authSessionSecret = Deno.env.get('AUTH_SESSION_SECRET');
+
+    if (!hederaOperatorId || !hederaOperatorKey || !nftCollectionId || !nftSupplyKey || !authSessionSecret) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Require a wallet session (the Authorization header carries the Supabase anon key)
+    const session = await verifySessionToken(req.headers.get('x-session-token'), authSessionSecret);
+    if (!session) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Parse request body
+    const request: MintRequest = await req.json();
+
+    // Retries (including the client's edge → Express fallback) reuse one Idempotency-Key
+    const idempotencyKey = req.headers.get('idempotency-key');
+    if (idempotencyKey) {
+      const supabaseUrl = Deno.env.get('PROJECT_URL');
+      const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+
+      if (supabaseUrl && supabaseServiceKey) {
+        const reservation: IdempotencyReservation = {
+          supabase: createClient(supabaseUrl, supabaseServiceKey),
+          scope: `${Array.isArray(request.metadataUrls) ? 'mint-batch' : 'mint'}:${session.sub}`,
+          key: idempotencyKey,
+          transactionIds: []
+        };
+
+        const replay = await reserveIdempotencyKey(reservation, await hashRequestBody(request));
+        if (replay) return replay;
+        idempotency = reservation;
+      } else {
+        console.warn('⚠️ Idempotency-Key ignored: PROJECT_URL / SERVICE_ROLE_KEY not configured');
+      }
+    }
+
+    const response = await handleMint(
+      request,
+      session,
+      {
+        hederaNetwork,
+        hederaOperatorId,
+        hederaOperatorKey,
+        nftCollectionId,
+        nftSupplyKey
+      },
+      transactionId => recordIdempotentTransaction(idempotency, transactionId)
+    );
+
+    return idempotency ? await finishIdempotentRequest(idempotency, response) : response;
 
   } catch (error) {
     console.error('Error minting NFT:', error);
-    
-    return new Response(
+
+    const response = new Response(
       JSON.stringify({ 
         success: false, 
         error: 'Failed to mint NFT',
@@ -202,5 +918,8 @@ serve(async (req) => {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     );
+
+    // The key is released for a retry unless a transaction was already submitted
+    return idempotency ? await finishIdempotentRequest(idempotency, response) : response;
   }
 })
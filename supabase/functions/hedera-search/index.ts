@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
+}
+
+// Mirrors SearchFilters in src/types/hedera.ts
+interface SearchFilters {
+  query?: string;
+  tags?: string[];
+  mediaType?: 'image' | 'video' | 'audio' | 'all';
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+  sortBy?: 'relevance' | 'newest' | 'oldest' | 'title';
+}
+
+interface SearchRequest {
+  tokenId?: string;
+  filters?: SearchFilters;
+  limit?: number;
+  offset?: number;
+}
+
+interface SearchRow {
+  token_id: string;
+  serial_number: number;
+  account_id: string;
+  metadata_url: string | null;
+  metadata_content: unknown;
+  created_at: string;
+  rank: number;
+  total_count: number;
+}
+
+const MAX_SEARCH_LIMIT = 100;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('PROJECT_URL');
+    const supabaseServiceKey = Deno.env.get('SERVICE_ROLE_KEY');
+    const nftCollectionId = Deno.env.get('NFT_COLLECTION_ID');
+
+    if (!supabaseUrl || !supabaseServiceKey || !nftCollectionId) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const { tokenId = nftCollectionId, filters = {}, limit = 50, offset = 0 }: SearchRequest = await req.json();
+
+    if (filters.mediaType && !['image', 'video', 'audio', 'all'].includes(filters.mediaType)) {
+      return jsonResponse({ success: false, error: 'mediaType must be one of image, video, audio, all' }, 400);
+    }
+
+    if (filters.sortBy && !['relevance', 'newest', 'oldest', 'title'].includes(filters.sortBy)) {
+      return jsonResponse({ success: false, error: 'sortBy must be one of relevance, newest, oldest, title' }, 400);
+    }
+
+    const pageSize = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log(`🔎 Searching ${tokenId}:`, filters);
+
+    const { data, error } = await supabase.rpc('search_nfts', {
+      p_token_id: tokenId,
+      p_query: filters.query || null,
+      p_tags: filters.tags?.length ? filters.tags : null,
+      p_media_type: filters.mediaType && filters.mediaType !== 'all' ? filters.mediaType : null,
+      p_date_start: filters.dateRange?.start || null,
+      p_date_end: filters.dateRange?.end || null,
+      p_sort_by: filters.sortBy || (filters.query ? 'relevance' : 'newest'),
+      p_limit: pageSize,
+      p_offset: offset
+    });
+
+    if (error) throw error;
+
+    const rows: SearchRow[] = data || [];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return jsonResponse({
+      success: true,
+      data: {
+        nfts: rows.map(row => ({
+          tokenId: row.token_id,
+          serialNumber: row.serial_number,
+          accountId: row.account_id,
+          metadata: { metadataUrl: row.metadata_url || '' },
+          metadataContent: row.metadata_content,
+          createdAt: row.created_at,
+          rank: row.rank
+        })),
+        total,
+        hasMore: offset + rows.length < total,
+        limit: pageSize,
+        offset
+      }
+    });
+
+  } catch (error) {
+    console.error('Error searching NFTs:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to search NFTs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+})
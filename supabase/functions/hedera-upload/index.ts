@@ -0,0 +1,622 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
+}
+
+interface SessionPayload {
+  typ: 'session';
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+type UploadMediaType = 'image' | 'video' | 'audio' | 'captions';
+
+interface StoredUpload {
+  cid: string;
+  size: number;
+  ipfsUrl: string;
+  gatewayUrl: string;
+}
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const MAX_METADATA_BYTES = 64 * 1024;
+const MAX_PART_HEADER_BYTES = 8 * 1024;
+// Leading bytes the file signature is read from, as SNIFF_BYTES in src/utils/mediaSniff.ts
+const SNIFF_BYTES = 12;
+
+// Same allowlist as the Express API (server/uploads.ts)
+const ALLOWED_UPLOAD_TYPES: Record<string, UploadMediaType> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video',
+  'video/mov': 'video',
+  'audio/mpeg': 'audio',
+  'audio/mp3': 'audio',
+  'audio/wav': 'audio',
+  'audio/wave': 'audio',
+  'audio/x-wav': 'audio',
+  'audio/ogg': 'audio',
+  'audio/mp4': 'audio',
+  'audio/m4a': 'audio',
+  'audio/x-m4a': 'audio',
+  'audio/aac': 'audio',
+  'text/vtt': 'captions'
+};
+
+// A request the upload rejects, with the status to answer (like UploadRejectedError in server/uploads.ts)
+class UploadRejectedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Verify a session token issued by the hedera-auth function (or the Express API)
+const verifySessionToken = async (token: string | null, secret: string): Promise<SessionPayload | null> => {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  const fromBase64url = (input: string) =>
+    new Uint8Array(atob(input.replace(/-/g, '+').replace(/_/g, '/')).split('').map(c => c.charCodeAt(0)));
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('HMAC', key, fromBase64url(signature), encoder.encode(body));
+  if (!valid) return null;
+
+  try {
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+    if (payload.typ !== 'session' || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Media types a file can be, judging by its leading bytes (see src/utils/mediaSniff.ts)
+const sniffMediaTypes = (head: Uint8Array): UploadMediaType[] => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...head.slice(start, end));
+
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return ['image'];
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return ['image'];
+  if (ascii(0, 4) === 'GIF8') return ['image'];
+  if (ascii(0, 4) === 'RIFF') {
+    if (ascii(8, 12) === 'WEBP') return ['image'];
+    if (ascii(8, 12) === 'WAVE') return ['audio'];
+    return [];
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'M4A ' || brand === 'M4B ') return ['audio'];
+    if (brand === 'qt  ') return ['video'];
+    return ['video', 'audio'];
+  }
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return ['video', 'audio'];
+  if (ascii(0, 4) === 'OggS') return ['audio', 'video'];
+  if (ascii(0, 3) === 'ID3') return ['audio'];
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) return ['audio'];
+  return [];
+};
+
+// WebVTT caption files start with "WEBVTT" (see src/utils/captions.ts)
+const isWebVTT = (head: Uint8Array): boolean =>
+  /^\uFEFF?WEBVTT(?:[ \t\r\n]|$)/.test(new TextDecoder().decode(head));
+
+const encoder = new TextEncoder();
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+const indexOfBytes = (haystack: Uint8Array, needle: Uint8Array): number => {
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+interface MultipartPart {
+  name: string;
+  fileName: string | null;
+  contentType: string;
+}
+
+// Reads a multipart/form-data body part by part without buffering it: fields are read into memory,
+// the file part is handed on as a stream that ends at the next boundary
+class MultipartReader {
+  private buffer: Uint8Array;
+  private delimiter: Uint8Array;
+  private started = false;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>, boundary: string) {
+    // Every boundary but the first follows a CRLF; starting with one lets them all match the same way
+    this.buffer = encoder.encode('\r\n');
+    this.delimiter = encoder.encode(`\r\n--${boundary}`);
+  }
+
+  // The next part's headers, or null after the closing boundary
+  async nextPart(): Promise<MultipartPart | null> {
+    if (!this.started) {
+      await this.readUntil(this.delimiter, MAX_PART_HEADER_BYTES);
+      this.started = true;
+    }
+    while (this.buffer.length < 2) {
+      if (!await this.fill()) throw new UploadRejectedError('Malformed multipart body', 400);
+    }
+    if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) return null; // "--"
+
+    await this.readUntil(encoder.encode('\r\n'), MAX_PART_HEADER_BYTES);
+    const headers = new TextDecoder().decode(await this.readUntil(encoder.encode('\r\n\r\n'), MAX_PART_HEADER_BYTES));
+    const header = (name: string) =>
+      headers.split('\r\n').find(line => line.toLowerCase().startsWith(`${name}:`))?.slice(name.length + 1).trim() || '';
+    const disposition = header('content-disposition');
+
+    return {
+      name: /\bname="([^"]*)"/i.exec(disposition)?.[1] || '',
+      fileName: /\bfilename="([^"]*)"/i.exec(disposition)?.[1] ?? null,
+      contentType: header('content-type').toLowerCase() || 'text/plain'
+    };
+  }
+
+  async readField(): Promise<string> {
+    const value = await this.readUntil(this.delimiter, MAX_METADATA_BYTES, `metadata must be at most ${MAX_METADATA_BYTES / 1024}KB`);
+    return new TextDecoder().decode(value);
+  }
+
+  // The current part's body as it arrives; keeps back what could be the start of a boundary
+  streamPart(): ReadableStream<Uint8Array> {
+    const keep = this.delimiter.length - 1;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        while (true) {
+          const end = indexOfBytes(this.buffer, this.delimiter);
+          if (end !== -1) {
+            if (end > 0) controller.enqueue(this.buffer.slice(0, end));
+            this.buffer = this.buffer.slice(end + this.delimiter.length);
+            controller.close();
+            return;
+          }
+          if (this.buffer.length > keep) {
+            controller.enqueue(this.buffer.slice(0, this.buffer.length - keep));
+            this.buffer = this.buffer.slice(this.buffer.length - keep);
+            return;
+          }
+          if (!await this.fill()) {
+            controller.error(new UploadRejectedError('Malformed multipart body', 400));
+            return;
+          }
+        }
+      },
+      cancel: (reason) => this.reader.cancel(reason)
+    });
+  }
+
+  private async fill(): Promise<boolean> {
+    const { done, value } = await this.reader.read();
+    if (done) return false;
+    this.buffer = concatBytes(this.buffer, value);
+    return true;
+  }
+
+  private async readUntil(pattern: Uint8Array, limit: number, tooLarge = 'Malformed multipart body'): Promise<Uint8Array> {
+    while (true) {
+      const end = indexOfBytes(this.buffer, pattern);
+      if (end !== -1) {
+        const before = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + pattern.length);
+        return before;
+      }
+      if (this.buffer.length > limit + pattern.length) {
+        throw new UploadRejectedError(tooLarge, 413);
+      }
+      if (!await this.fill()) throw new UploadRejectedError('Malformed multipart body', 400);
+    }
+  }
+}
+
+// Pass-through that checks the file signature before any bytes reach Pinata and enforces the size
+// limit, like MediaTypeCheck in server/uploads.ts. The first rejection is kept, since it reaches the
+// caller only as a failed upload request.
+const checkUploadStream = (mediaType: UploadMediaType) => {
+  let rejection: UploadRejectedError | null = null;
+  let bytes = 0;
+  let head: Uint8Array | null = new Uint8Array(0);
+
+  const reject = (error: UploadRejectedError): never => {
+    rejection = rejection || error;
+    throw error;
+  };
+  const checkHead = (sniffed: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const valid = mediaType === 'captions' ? isWebVTT(sniffed) : sniffMediaTypes(sniffed).includes(mediaType);
+    if (!valid) reject(new UploadRejectedError(`File content is not a valid ${mediaType} file`, 415));
+    controller.enqueue(sniffed);
+    head = null;
+  };
+
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.length;
+      if (bytes > MAX_UPLOAD_BYTES) {
+        reject(new UploadRejectedError(`File must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`, 413));
+      }
+      if (!head) {
+        controller.enqueue(chunk);
+        return;
+      }
+      head = concatBytes(head, chunk);
+      if (head.length >= SNIFF_BYTES) checkHead(head, controller);
+    },
+    flush(controller) {
+      if (head) checkHead(head, controller);
+    }
+  });
+
+  return {
+    stream,
+    get rejection() { return rejection; },
+    get bytes() { return bytes; }
+  };
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// HIP-412 checks, a subset of the schemas in src/utils/hip412.ts
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+const MIME_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+const checkMetadataDraft = (draft: Record<string, unknown>): string[] => {
+  const issues: string[] = [];
+  if (typeof draft.name !== 'string' || !draft.name.trim()) issues.push('name: Title is required');
+  else if (draft.name.trim().length > 100) issues.push('name: Title must be at most 100 characters');
+  if (draft.description !== undefined && (typeof draft.description !== 'string' || draft.description.length > 2000)) {
+    issues.push('description: Description must be at most 2000 characters');
+  }
+  if (draft.tags !== undefined && (!Array.isArray(draft.tags) || draft.tags.length > 20 || draft.tags.some(tag => typeof tag !== 'string'))) {
+    issues.push('tags: At most 20 tags');
+  }
+  if (draft.thumbnail !== undefined) {
+    const thumbnail = isJsonObject(draft.thumbnail) ? draft.thumbnail : {};
+    if (typeof thumbnail.uri !== 'string' || !URI_PATTERN.test(thumbnail.uri)) issues.push('thumbnail.uri: must be a URI such as ipfs://<cid>');
+    if (typeof thumbnail.type !== 'string' || !MIME_PATTERN.test(thumbnail.type) || !thumbnail.type.startsWith('image/')) {
+      issues.push('thumbnail.type: must be an image MIME type');
+    }
+  }
+  if (draft.captions !== undefined) {
+    const captions = Array.isArray(draft.captions) ? draft.captions : [];
+    if (!Array.isArray(draft.captions) || captions.length > 10) issues.push('captions: At most 10 caption tracks');
+    captions.forEach((track, index) => {
+      const caption = isJsonObject(track) ? track : {};
+      if (typeof caption.uri !== 'string' || !URI_PATTERN.test(caption.uri)) issues.push(`captions.${index}.uri: must be a URI such as ipfs://<cid>`);
+      if (typeof caption.language !== 'string' || !LANGUAGE_PATTERN.test(caption.language)) {
+        issues.push(`captions.${index}.language: must be a language tag such as en or pt-BR`);
+      }
+      if (caption.label !== undefined && (typeof caption.label !== 'string' || !caption.label.trim() || caption.label.length > 50)) {
+        issues.push(`captions.${index}.label: Caption labels must be at most 50 characters`);
+      }
+    });
+    const languages = captions.map(track => String(isJsonObject(track) ? track.language : '').toLowerCase());
+    if (new Set(languages).size !== languages.length) issues.push('captions: Only one caption track per language');
+  }
+  if (draft.waveform !== undefined) {
+    const waveform = isJsonObject(draft.waveform) ? draft.waveform : {};
+    if (typeof waveform.duration !== 'number' || waveform.duration <= 0) issues.push('waveform.duration: must be a positive number');
+    const peaks = waveform.peaks;
+    if (!Array.isArray(peaks) || peaks.length === 0 || peaks.length > 2000 || peaks.some(peak => typeof peak !== 'number' || peak < 0 || peak > 1)) {
+      issues.push('waveform.peaks: must be 1 to 2000 numbers from 0 to 1');
+    }
+  }
+  return issues;
+};
+
+const checkHIP412Metadata = (metadata: Record<string, unknown>): string[] => {
+  const issues: string[] = [];
+  if (typeof metadata.name !== 'string' || !metadata.name.trim()) issues.push('name: is required');
+  if (typeof metadata.image !== 'string' || !URI_PATTERN.test(metadata.image)) issues.push('image: must be a URI such as ipfs://<cid>');
+  if (typeof metadata.type !== 'string' || !MIME_PATTERN.test(metadata.type)) issues.push('type: must be a MIME type such as image/png');
+  return issues;
+};
+
+// Same document as buildHIP412Metadata in src/utils/hip412.ts
+const buildHIP412Metadata = (
+  draft: Record<string, unknown>,
+  media: { uri: string; mimeType: string; fileName: string; size: number; waveformUri: string | null }
+) => {
+  const tags = Array.isArray(draft.tags) ? draft.tags : [];
+  const properties = isJsonObject(draft.properties) ? draft.properties : {};
+  const thumbnail = isJsonObject(draft.thumbnail) ? draft.thumbnail : null;
+  const captions = Array.isArray(draft.captions) ? draft.captions.filter(isJsonObject) : [];
+  const isImage = media.mimeType.startsWith('image/');
+
+  const files: Record<string, unknown>[] = [];
+  if (thumbnail || !isImage) {
+    files.push({ uri: media.uri, type: media.mimeType, is_default_file: true });
+  }
+  for (const track of captions) {
+    files.push({
+      uri: track.uri,
+      type: 'text/vtt',
+      metadata: {
+        role: 'captions',
+        language: track.language,
+        ...(track.label ? { label: track.label } : {})
+      }
+    });
+  }
+  if (media.waveformUri) {
+    files.push({ uri: media.waveformUri, type: 'application/json', metadata: { role: 'waveform' } });
+  }
+  if (thumbnail) {
+    files.push({
+      uri: thumbnail.uri,
+      type: thumbnail.type,
+      metadata: {
+        role: 'thumbnail',
+        ...(thumbnail.width ? { width: thumbnail.width } : {}),
+        ...(thumbnail.height ? { height: thumbnail.height } : {})
+      }
+    });
+  }
+
+  return {
+    name: draft.name,
+    ...(draft.creator ? { creator: draft.creator } : {}),
+    description: draft.description || '',
+    image: thumbnail ? thumbnail.uri : media.uri,
+    type: thumbnail ? thumbnail.type : media.mimeType,
+    format: 'HIP412@2.0.0',
+    ...(files.length > 0 ? { files } : {}),
+    attributes: tags.map(tag => ({ trait_type: 'Tag', value: tag })),
+    properties: {
+      ...properties,
+      originalFileName: media.fileName,
+      fileSize: media.size,
+      uploadDate: new Date().toISOString()
+    }
+  };
+};
+
+const pinata = async (path: string, jwt: string, body: BodyInit, contentType: string) => {
+  const response = await fetch(`https://api.pinata.cloud/pinning/${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${jwt}`,
+      'Content-Type': contentType
+    },
+    body
+  });
+
+  if (!response.ok) {
+    throw new Error(`Pinata error: ${response.status} ${await response.text()}`);
+  }
+
+  const { IpfsHash, PinSize } = await response.json();
+  return { cid: IpfsHash as string, size: PinSize as number };
+};
+
+const toStoredUpload = (cid: string, size: number, gateway: string): StoredUpload => ({
+  cid,
+  size,
+  ipfsUrl: `ipfs://${cid}`,
+  gatewayUrl: `${gateway}/ipfs/${cid}`
+});
+
+const pinJSON = async (data: Record<string, unknown>, name: string, jwt: string, gateway: string) => {
+  const stored = await pinata('pinJSONToIPFS', jwt, JSON.stringify({
+    pinataContent: data,
+    pinataMetadata: { name },
+    pinataOptions: { cidVersion: 1 }
+  }), 'application/json');
+  return toStoredUpload(stored.cid, stored.size, gateway);
+};
+
+// Pin a file as it streams in: the multipart body for Pinata is written around the stream
+const pinFileStream = async (
+  file: ReadableStream<Uint8Array>,
+  fileName: string,
+  mimeType: string,
+  jwt: string
+) => {
+  const boundary = `----hgallery-${crypto.randomUUID()}`;
+  const safeName = fileName.replace(/["\r\n]/g, '_');
+  const field = (name: string, value: string) =>
+    `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`;
+  const head = encoder.encode(
+    field('pinataMetadata', JSON.stringify({ name: fileName, keyvalues: { mimeType } })) +
+    field('pinataOptions', JSON.stringify({ cidVersion: 1 })) +
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${safeName}"\r\nContent-Type: ${mimeType}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const reader = file.getReader();
+  let sentHead = false;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!sentHead) {
+        sentHead = true;
+        controller.enqueue(head);
+        return;
+      }
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.enqueue(tail);
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel: (reason) => reader.cancel(reason)
+  });
+
+  return pinata('pinFileToIPFS', jwt, body, `multipart/form-data; boundary=${boundary}`);
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authSessionSecret = Deno.env.get('AUTH_SESSION_SECRET');
+    const pinataJwt = Deno.env.get('PINATA_JWT');
+    const gateway = Deno.env.get('PINATA_GATEWAY_URL') || 'https://gateway.pinata.cloud';
+
+    if (!authSessionSecret || !pinataJwt) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Require a wallet session (the Authorization header carries the Supabase anon key)
+    const session = await verifySessionToken(req.headers.get('x-session-token'), authSessionSecret);
+    if (!session) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    // JSON body: store a metadata document on its own
+    if ((req.headers.get('content-type') || '').includes('application/json')) {
+      const { metadata } = await req.json();
+      if (!isJsonObject(metadata)) {
+        return jsonResponse({ success: false, error: 'metadata must be a JSON object' }, 400);
+      }
+      if (JSON.stringify(metadata).length > MAX_METADATA_BYTES) {
+        return jsonResponse({ success: false, error: `metadata must be at most ${MAX_METADATA_BYTES / 1024}KB` }, 413);
+      }
+      const issues = checkHIP412Metadata(metadata);
+      if (issues.length > 0) {
+        return jsonResponse({ success: false, error: 'Metadata is not valid HIP-412', details: issues.join('; ') }, 400);
+      }
+
+      return jsonResponse({ success: true, data: await pinJSON(metadata, 'metadata.json', pinataJwt, gateway) });
+    }
+
+    // Reject oversized bodies before reading them
+    const contentLength = Number(req.headers.get('content-length') || 0);
+    if (contentLength > MAX_UPLOAD_BYTES + MAX_METADATA_BYTES) {
+      return jsonResponse({ success: false, error: `File must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB` }, 413);
+    }
+
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(req.headers.get('content-type') || '');
+    if (!boundary || !req.body) {
+      return jsonResponse({ success: false, error: 'Expected a multipart/form-data body' }, 400);
+    }
+
+    // Metadata comes before the file (as for /api/uploads), so it is checked before any of the file is read
+    const form = new MultipartReader(req.body.getReader(), boundary[1] || boundary[2]);
+    let metadataField: string | null = null;
+    let part = await form.nextPart();
+    while (part && part.fileName === null) {
+      const value = await form.readField();
+      if (part.name === 'metadata') metadataField = value;
+      part = await form.nextPart();
+    }
+
+    if (!part || part.name !== 'file') {
+      return jsonResponse({ success: false, error: 'A file is required' }, 400);
+    }
+    const fileName = part.fileName || 'upload';
+    const mimeType = part.contentType;
+
+    const mediaType = ALLOWED_UPLOAD_TYPES[mimeType];
+    if (!mediaType) {
+      return jsonResponse({ success: false, error: `File type ${mimeType} is not allowed` }, 415);
+    }
+
+    let metadata: Record<string, unknown> | null = null;
+    if (metadataField !== null) {
+      // Caption tracks are referenced from their video's metadata
+      if (mediaType === 'captions') {
+        return jsonResponse({ success: false, error: 'Caption files are uploaded without metadata' }, 400);
+      }
+      try {
+        metadata = JSON.parse(metadataField);
+      } catch {
+        return jsonResponse({ success: false, error: 'metadata must be valid JSON' }, 400);
+      }
+      if (!isJsonObject(metadata)) {
+        return jsonResponse({ success: false, error: 'metadata must be a JSON object' }, 400);
+      }
+      const issues = checkMetadataDraft(metadata);
+      if (issues.length > 0) {
+        return jsonResponse({ success: false, error: 'Invalid metadata', details: issues.join('; ') }, 400);
+      }
+    }
+
+    console.log(`📤 ${session.sub} uploading ${fileName}`);
+
+    const check = checkUploadStream(mediaType);
+    // The request to Pinata fails with its own error when the stream is rejected
+    const stored = await pinFileStream(form.streamPart().pipeThrough(check.stream), fileName, mimeType, pinataJwt)
+      .catch(error => { throw check.rejection || error; });
+
+    // Fields after the file could not be checked before storing it
+    if (await form.nextPart()) {
+      return jsonResponse({ success: false, error: 'metadata must be sent before the file' }, 400);
+    }
+
+    const uploadedFile = {
+      ...toStoredUpload(stored.cid, check.bytes, gateway),
+      fileName,
+      mimeType,
+      mediaType
+    };
+
+    // The file fields always describe what was actually stored
+    let storedMetadata: StoredUpload | null = null;
+    if (metadata) {
+      // Waveform peaks of audio are pinned as their own file and listed in `files`
+      const waveform = isJsonObject(metadata.waveform) && mediaType === 'audio'
+        ? await pinJSON({ duration: metadata.waveform.duration, peaks: metadata.waveform.peaks }, `${fileName}.waveform.json`, pinataJwt, gateway)
+        : null;
+      storedMetadata = await pinJSON(buildHIP412Metadata(metadata, {
+        uri: uploadedFile.ipfsUrl,
+        mimeType,
+        fileName,
+        size: check.bytes,
+        waveformUri: waveform?.ipfsUrl || null
+      }), `${fileName}.metadata.json`, pinataJwt, gateway);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: {
+        file: uploadedFile,
+        metadata: storedMetadata
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return jsonResponse({ success: false, error: error.message }, error.status);
+    }
+    console.error('Error uploading media:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to upload media',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+})
@@ -0,0 +1,29 @@
+-- Mirror-node indexer checkpoints
+-- One row per indexed token. A pass pages through the mirror node NFT listing;
+-- next_link is saved after every page so an interrupted pass resumes where it
+-- stopped, and last_modified_timestamp is the high-water mark of the last
+-- completed pass.
+CREATE TABLE IF NOT EXISTS public.indexer_state (
+    token_id TEXT PRIMARY KEY,
+    last_modified_timestamp TEXT,
+    pass_high_water_mark TEXT,
+    next_link TEXT,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    nfts_indexed BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER handle_indexer_state_updated_at
+    BEFORE UPDATE ON public.indexer_state
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Only the service role (indexer worker / edge function) writes checkpoints
+ALTER TABLE public.indexer_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to indexer_state" ON public.indexer_state
+    FOR SELECT USING (true);
+
+GRANT SELECT ON public.indexer_state TO anon, authenticated;
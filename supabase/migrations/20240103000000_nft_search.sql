@@ -0,0 +1,141 @@
+-- Full-text search over indexed NFTs
+-- Search fields are derived from metadata_content by a trigger so that every
+-- writer (mint function, indexer, manual fixes) keeps them current.
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS title TEXT,
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS creator TEXT,
+    ADD COLUMN IF NOT EXISTS media_type TEXT,
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+-- Normalise the media type the way the gallery does: explicit mediaType first,
+-- then the MIME type, defaulting to image
+CREATE OR REPLACE FUNCTION public.nft_media_type(p_metadata JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    indicator TEXT;
+BEGIN
+    indicator := lower(coalesce(
+        p_metadata->>'mediaType',
+        p_metadata->'properties'->>'mediaType',
+        p_metadata->>'type',
+        p_metadata->>'format',
+        ''
+    ));
+
+    IF indicator LIKE '%video%' THEN
+        RETURN 'video';
+    ELSIF indicator LIKE '%audio%' THEN
+        RETURN 'audio';
+    END IF;
+
+    RETURN 'image';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.nfts_search_fields_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    tag_source JSONB;
+BEGIN
+    NEW.title := NEW.metadata_content->>'name';
+    NEW.description := NEW.metadata_content->>'description';
+    NEW.creator := coalesce(
+        NEW.metadata_content->>'creator',
+        NEW.metadata_content->'properties'->>'creator',
+        NEW.account_id
+    );
+    NEW.media_type := public.nft_media_type(NEW.metadata_content);
+
+    tag_source := coalesce(NEW.metadata_content->'properties'->'tags', NEW.metadata_content->'tags');
+    IF jsonb_typeof(tag_source) = 'array' THEN
+        NEW.tags := ARRAY(SELECT lower(jsonb_array_elements_text(tag_source)));
+    ELSE
+        NEW.tags := '{}';
+    END IF;
+
+    NEW.search_vector :=
+        setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(NEW.tags, ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+        setweight(to_tsvector('simple', coalesce(NEW.creator, '')), 'D');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER handle_nfts_search_fields
+    BEFORE INSERT OR UPDATE OF metadata_content, account_id ON public.nfts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.nfts_search_fields_update();
+
+-- Backfill rows written before this migration
+UPDATE public.nfts SET metadata_content = metadata_content;
+
+CREATE INDEX IF NOT EXISTS idx_nfts_search_vector ON public.nfts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_nfts_tags ON public.nfts USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_nfts_media_type ON public.nfts(media_type);
+CREATE INDEX IF NOT EXISTS idx_nfts_created_at ON public.nfts(created_at);
+
+-- Search NFTs with every SearchFilters option, ranked and paginated.
+-- total_count is the number of matches before pagination.
+CREATE OR REPLACE FUNCTION public.search_nfts(
+    p_token_id TEXT,
+    p_query TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_media_type TEXT DEFAULT NULL,
+    p_date_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_date_end TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_sort_by TEXT DEFAULT 'newest',
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    token_id TEXT,
+    serial_number INTEGER,
+    account_id TEXT,
+    metadata_url TEXT,
+    metadata_content JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+DECLARE
+    search_query TSQUERY;
+BEGIN
+    IF p_query IS NOT NULL AND btrim(p_query) <> '' THEN
+        search_query := websearch_to_tsquery('english', p_query);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        nfts.token_id,
+        nfts.serial_number,
+        nfts.account_id,
+        nfts.metadata_url,
+        nfts.metadata_content,
+        nfts.created_at,
+        CASE WHEN search_query IS NULL THEN 0::REAL
+             ELSE ts_rank_cd(nfts.search_vector, search_query) END AS rank,
+        COUNT(*) OVER () AS total_count
+    FROM public.nfts
+    WHERE nfts.token_id = p_token_id
+    AND (search_query IS NULL OR nfts.search_vector @@ search_query)
+    AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR nfts.tags && (SELECT array_agg(lower(t)) FROM unnest(p_tags) AS t))
+    AND (p_media_type IS NULL OR p_media_type = 'all' OR nfts.media_type = p_media_type)
+    AND (p_date_start IS NULL OR nfts.created_at >= p_date_start)
+    AND (p_date_end IS NULL OR nfts.created_at <= p_date_end)
+    ORDER BY
+        CASE WHEN p_sort_by = 'relevance' AND search_query IS NOT NULL
+             THEN ts_rank_cd(nfts.search_vector, search_query) END DESC NULLS LAST,
+        CASE WHEN p_sort_by = 'title' THEN lower(nfts.title) END ASC NULLS LAST,
+        CASE WHEN p_sort_by = 'oldest' THEN nfts.created_at END ASC,
+        nfts.created_at DESC,
+        nfts.serial_number DESC
+    LIMIT least(greatest(p_limit, 1), 100)
+    OFFSET greatest(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_nfts(TEXT, TEXT, TEXT[], TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,37 @@
+-- Durable mint job queue
+-- One row per mint request. The API worker moves a job through
+-- queued -> minting -> minted -> transferring -> completed (or failed) and
+-- records each transaction ID before waiting on its receipt, so a restarted
+-- worker resumes the job without minting twice. locked_until is a worker lease.
+CREATE TABLE IF NOT EXISTS public.mint_jobs (
+    id UUID PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'minting', 'minted', 'transferring', 'completed', 'failed')),
+    token_id TEXT NOT NULL,
+    metadata_url TEXT NOT NULL,
+    user_account_id TEXT,
+    requested_by TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    serial_number INTEGER,
+    mint_transaction_id TEXT,
+    transfer_transaction_id TEXT,
+    owner TEXT,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mint_jobs_due ON public.mint_jobs(next_attempt_at)
+    WHERE status NOT IN ('completed', 'failed');
+CREATE INDEX IF NOT EXISTS idx_mint_jobs_requested_by ON public.mint_jobs(requested_by);
+
+CREATE TRIGGER handle_mint_jobs_updated_at
+    BEFORE UPDATE ON public.mint_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Jobs are read and written through the API with the service role only
+ALTER TABLE public.mint_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- Idempotency keys for mint and transfer requests
+-- Shared by the Express API and the hedera-nft-mint edge function so a key
+-- sent to both (the client's fallback chain) is honoured once. scope is
+-- "<operation>:<account id>"; the first response is stored and replayed for
+-- repeats with the same request_hash until expires_at.
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress'
+        CHECK (status IN ('in_progress', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+CREATE TRIGGER handle_idempotency_keys_updated_at
+    BEFORE UPDATE ON public.idempotency_keys
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Written and read with the service role only
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,77 @@
+-- Search fields for HIP-412 metadata
+-- Uploads now set `image`/`type` to a generated thumbnail and list the media
+-- as the default file in `files`, and tags are `Tag` attributes. Read the
+-- media type from the default file and tags from the attributes; documents
+-- minted before HIP-412 are read as before.
+CREATE OR REPLACE FUNCTION public.nft_media_type(p_metadata JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    indicator TEXT;
+BEGIN
+    IF jsonb_typeof(p_metadata->'files') = 'array' THEN
+        SELECT file->>'type' INTO indicator
+        FROM jsonb_array_elements(p_metadata->'files') AS file
+        WHERE file->'is_default_file' = 'true'::jsonb
+        LIMIT 1;
+    END IF;
+
+    indicator := lower(coalesce(
+        indicator,
+        p_metadata->>'mediaType',
+        p_metadata->'properties'->>'mediaType',
+        p_metadata->>'type',
+        p_metadata->>'format',
+        ''
+    ));
+
+    IF indicator LIKE '%video%' THEN
+        RETURN 'video';
+    ELSIF indicator LIKE '%audio%' THEN
+        RETURN 'audio';
+    END IF;
+
+    RETURN 'image';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.nfts_search_fields_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    tag_source JSONB;
+BEGIN
+    NEW.title := NEW.metadata_content->>'name';
+    NEW.description := NEW.metadata_content->>'description';
+    NEW.creator := coalesce(
+        NEW.metadata_content->>'creator',
+        NEW.metadata_content->'properties'->>'creator',
+        NEW.account_id
+    );
+    NEW.media_type := public.nft_media_type(NEW.metadata_content);
+
+    tag_source := coalesce(NEW.metadata_content->'properties'->'tags', NEW.metadata_content->'tags');
+    IF jsonb_typeof(tag_source) = 'array' THEN
+        NEW.tags := ARRAY(SELECT lower(jsonb_array_elements_text(tag_source)));
+    ELSIF jsonb_typeof(NEW.metadata_content->'attributes') = 'array' THEN
+        NEW.tags := ARRAY(
+            SELECT DISTINCT lower(attribute->>'value')
+            FROM jsonb_array_elements(NEW.metadata_content->'attributes') AS attribute
+            WHERE jsonb_typeof(attribute) = 'object'
+            AND lower(attribute->>'trait_type') IN ('tag', 'tags')
+            AND attribute->>'value' IS NOT NULL
+        );
+    ELSE
+        NEW.tags := '{}';
+    END IF;
+
+    NEW.search_vector :=
+        setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(NEW.tags, ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+        setweight(to_tsvector('simple', coalesce(NEW.creator, '')), 'D');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute the fields of rows written before this migration
+UPDATE public.nfts SET metadata_content = metadata_content;
@@ -0,0 +1,7 @@
+-- Transactions submitted under an Idempotency-Key
+-- A mint or transfer can fail after its transaction reached the network (a
+-- receipt timeout, a crash). The key is then kept with the submitted
+-- transaction IDs and retries are answered from this record instead of
+-- submitting again; only keys with no transactions are released.
+ALTER TABLE public.idempotency_keys
+    ADD COLUMN IF NOT EXISTS transaction_ids TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,17 @@
+-- Sign-in challenges the hedera-auth edge function has accepted
+-- A challenge nonce is claimed here before its signature is checked; the
+-- primary key rejects a second claim, so a signed challenge cannot be
+-- replayed for another session while it is valid. Claims for a signature
+-- that fails verification are deleted again; rows past expires_at (the
+-- challenge's own expiry) are cleared by the function.
+CREATE TABLE IF NOT EXISTS public.used_auth_challenges (
+    nonce TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_used_auth_challenges_expires_at ON public.used_auth_challenges(expires_at);
+
+-- Written and read with the service role only
+ALTER TABLE public.used_auth_challenges ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,65 @@
+-- Content CID of each indexed NFT, for the duplicate content check
+-- Media URIs come as ipfs://<cid>, ipfs://ipfs/<cid>, gateway URLs or bare
+-- CIDs, so the check compares CIDs rather than the URI strings, as the
+-- Express API does with parseIPFSUrl. Like the search fields it is derived
+-- from metadata_content by a trigger so every writer keeps it current.
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS content_cid TEXT;
+
+-- The CID of the content (the HIP-412 default file, else `image`; a
+-- thumbnail is not the content). Null for a path inside a CID and for
+-- values that are not a CIDv0 or a base32 CIDv1, the encodings uploads use.
+CREATE OR REPLACE FUNCTION public.nft_content_cid(p_metadata JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    uri TEXT;
+    target TEXT;
+BEGIN
+    IF jsonb_typeof(p_metadata->'files') = 'array' THEN
+        SELECT file->>'uri' INTO uri
+        FROM jsonb_array_elements(p_metadata->'files') AS file
+        WHERE jsonb_typeof(file) = 'object'
+        AND file->'is_default_file' = 'true'::jsonb
+        LIMIT 1;
+    END IF;
+    uri := btrim(coalesce(uri, p_metadata->>'image', ''));
+
+    IF uri LIKE 'ipfs://%' THEN
+        target := regexp_replace(substr(uri, length('ipfs://') + 1), '^ipfs/', '');
+    ELSIF position('/ipfs/' IN uri) > 0 THEN
+        target := substr(uri, position('/ipfs/' IN uri) + length('/ipfs/'));
+    ELSE
+        target := uri;
+    END IF;
+
+    -- Drop the query string, the fragment and trailing slashes
+    target := rtrim(split_part(split_part(target, '?', 1), '#', 1), '/');
+
+    IF target ~ '^Qm[1-9A-HJ-NP-Za-km-z]{44}$' THEN
+        RETURN target;
+    ELSIF target ~* '^b[a-z2-7]{58,}$' THEN
+        -- Base32 is case-insensitive; CIDs are compared in lower case
+        RETURN lower(target);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.nfts_content_cid_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.content_cid := public.nft_content_cid(NEW.metadata_content);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER handle_nfts_content_cid
+    BEFORE INSERT OR UPDATE OF metadata_content ON public.nfts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.nfts_content_cid_update();
+
+-- Backfill rows written before this migration
+UPDATE public.nfts SET metadata_content = metadata_content;
+
+CREATE INDEX IF NOT EXISTS idx_nfts_token_content_cid ON public.nfts(token_id, content_cid);